@@ -1,10 +1,11 @@
-import {Callbacks, nbLogger, _promisify, _createError, _errorText, JsonObject} from "./Head";
+import {Callbacks, nbLogger, _promisify, _createInvalidResponseError, _errorText, JsonObject} from "./Head";
 import {Nebula} from "./Nebula";
 import {NebulaService} from "./NebulaService";
 import {Acl} from "./Acl";
 import {HttpRequest} from "./HttpRequest";
 import {ApiRequest} from "./HttpRequest";
 import {_SdeRequest} from "./SdeRequest";
+import {ResponseCache} from "./ResponseCache";
 
 import {Promise} from "es6-promise";
 
@@ -21,6 +22,7 @@ export class BaseBucket {
     _contentAcl: Acl;
     _description: string;
     _mode: number;
+    _cacheEnabled = true;
 
     /**
      * コンストラクタ
@@ -50,7 +52,7 @@ export class BaseBucket {
      * @private
      */
     protected static _baseLoadBucket(type: string, service: NebulaService, name: string, mode: number, callbacks: Callbacks): Promise<BaseBucket> {
-        nbLogger("BaseBucket.loadBucket(), name=" + name + ", type=" + type + ", callbacks=" + callbacks + ", mode=" + mode);
+        nbLogger("BaseBucket.loadBucket(), name=" + name + ", type=" + type + ", callbacks=" + callbacks + ", mode=" + mode, service);
 
         let req: ApiRequest;
         if (service.isOffline()) {
@@ -68,23 +70,24 @@ export class BaseBucket {
         } else {
             const path = "/buckets/" + type + "/" + encodeURIComponent(name);
             req = new HttpRequest(service, path);
+            req._applyCallbackOptions(callbacks);
             req.setMethod("GET");
             req.setContentType("application/json");
         }
 
         const promise = req.execute().then(response => {
             try {
-                nbLogger("BaseBucket.loadBucket(), success : " + response);
+                nbLogger("BaseBucket.loadBucket(), success : " + response, service);
                 const resObj = JSON.parse(response);
                 const resName = resObj.name;
 
                 if (resName == null) {
-                    nbLogger("BaseBucket.loadBucket(), invalid bucket name, name=" + resName);
-                    const error = _createError(0, "Invalid response", "", name);
+                    nbLogger("BaseBucket.loadBucket(), invalid bucket name, name=" + resName, service);
+                    const error = _createInvalidResponseError("Invalid response", "", name);
                     return Promise.reject(error);
                 }
 
-                nbLogger("BaseBucket.loadBucket(), new Bucket, name=" + resName);
+                nbLogger("BaseBucket.loadBucket(), new Bucket, name=" + resName, service);
 
                 let bucket: BaseBucket;
                 if (type === "file") {
@@ -95,7 +98,7 @@ export class BaseBucket {
 
                 const resAcl = resObj.ACL;
                 if (resAcl != null) {
-                    nbLogger("BaseBucket.loadBucket(), acl=" + resAcl);
+                    nbLogger("BaseBucket.loadBucket(), acl=" + resAcl, service);
                     const acl = new Acl();
                     acl._set(resAcl);
                     bucket.setAcl(acl);
@@ -103,7 +106,7 @@ export class BaseBucket {
 
                 const resContentAcl = resObj.contentACL;
                 if (resContentAcl != null) {
-                    nbLogger("BaseBucket.loadBucket(), contentAcl=" + resContentAcl);
+                    nbLogger("BaseBucket.loadBucket(), contentAcl=" + resContentAcl, service);
                     const contentAcl = new Acl();
                     contentAcl._set(resContentAcl);
                     bucket.setContentAcl(contentAcl);
@@ -111,18 +114,18 @@ export class BaseBucket {
 
                 const resDescription = resObj.description;
                 if (resDescription != null) {
-                    nbLogger("BaseBucket.loadBucket(), description=" + resDescription);
+                    nbLogger("BaseBucket.loadBucket(), description=" + resDescription, service);
                     bucket.setDescription(resDescription);
                 }
 
                 return Promise.resolve(bucket);
             } catch (e) {
-                nbLogger("BaseBucket.loadBucket(), error : exception" + e);
-                const error = _createError(0, e, e.toString(), name);
+                nbLogger("BaseBucket.loadBucket(), error : exception" + e, service);
+                const error = _createInvalidResponseError(e, e.toString(), name);
                 return Promise.reject(error);
             }
         }, error => {
-            nbLogger(("BaseBucket.loadBucket(), error: " + (_errorText(error))));
+            nbLogger(("BaseBucket.loadBucket(), error: " + (_errorText(error))), service);
             error.data = name;
             return Promise.reject(error);
         });
@@ -135,7 +138,7 @@ export class BaseBucket {
      * @private
      */
     protected static _baseGetBucketList(type: string, service: NebulaService, local: boolean, callbacks?: Callbacks): Promise<string[]> {
-        nbLogger("BaseBucket.getBucketList(), type=" + type + ", callbacks=" + callbacks);
+        nbLogger("BaseBucket.getBucketList(), type=" + type + ", callbacks=" + callbacks, service);
 
         let req: ApiRequest;
         if (service.isOffline()) {
@@ -148,43 +151,44 @@ export class BaseBucket {
         } else {
             const path = "/buckets/" + type;
             req = new HttpRequest(service, path);
+            req._applyCallbackOptions(callbacks);
             req.setMethod("GET");
             req.setContentType("application/json");
         }
 
         const promise = req.execute().then(response => {
             try {
-                nbLogger("BaseBucket.getBucketList(), success : " + response);
+                nbLogger("BaseBucket.getBucketList(), success : " + response, service);
                 const resObj = JSON.parse(response);
                 const buckets = resObj.results;
 
                 if (buckets != null) {
-                    nbLogger("BaseBucket.getBucketList(), buckets=" + buckets);
+                    nbLogger("BaseBucket.getBucketList(), buckets=" + buckets, service);
                     const bucketNames: string[] = [];
 
                     for (const bucket of buckets) {
-                        nbLogger("BaseBucket.getBucketList(), success : add bucketName = " + bucket.name);
+                        nbLogger("BaseBucket.getBucketList(), success : add bucketName = " + bucket.name, service);
 
                         if (bucket.name != null) {
                             bucketNames.push(bucket.name);
                         } else {
-                            nbLogger("BaseBucket.getBucketList(), [WARNING] No name in response");
+                            nbLogger("BaseBucket.getBucketList(), [WARNING] No name in response", service);
                         }
                     }
 
                     return Promise.resolve(bucketNames);
                 } else {
-                    nbLogger("BaseBucket.getBucketList(), invalid response");
-                    const error = _createError(0, "Invalid response", "", name);
+                    nbLogger("BaseBucket.getBucketList(), invalid response", service);
+                    const error = _createInvalidResponseError("Invalid response", "", name);
                     return Promise.reject(error);
                 }
             } catch (e) {
-                nbLogger("BaseBucket.getBucketList(), error : exception" + e);
-                const error = _createError(0, e, e);
+                nbLogger("BaseBucket.getBucketList(), error : exception" + e, service);
+                const error = _createInvalidResponseError(e, e);
                 return Promise.reject(error);
             }
         }, error => {
-            nbLogger(("BaseBucket.getBucketList(), error: " + (_errorText(error))));
+            nbLogger(("BaseBucket.getBucketList(), error: " + (_errorText(error))), service);
             return Promise.reject(error);
         });
 
@@ -196,7 +200,7 @@ export class BaseBucket {
      * @private
      */
     saveBucket(callbacks?: Callbacks): Promise<BaseBucket> {
-        nbLogger("BaseBucket.saveBucket(), callbacks=" + callbacks);
+        nbLogger("BaseBucket.saveBucket(), callbacks=" + callbacks, this._service);
 
         let req: ApiRequest;
         if (this._service.isOffline()) {
@@ -204,6 +208,7 @@ export class BaseBucket {
         } else {
             const path = this.getPath();
             req = new HttpRequest(this._service, path);
+            req._applyCallbackOptions(callbacks);
             req.setMethod("PUT");
             req.setContentType("application/json");
         }
@@ -232,14 +237,14 @@ export class BaseBucket {
         }
 
         req.setData(body);
-        nbLogger("BaseBucket.saveBucket(), body=" + JSON.stringify(body));
+        nbLogger("BaseBucket.saveBucket(), body=" + JSON.stringify(body), this._service);
 
         const promise = req.execute().then(response => {
-            nbLogger("success : " + response);
-            nbLogger("bucketName : " + this.getBucketName());
+            nbLogger("success : " + response, this._service);
+            nbLogger("bucketName : " + this.getBucketName(), this._service);
 
             try {
-                nbLogger("success : " + response);
+                nbLogger("success : " + response, this._service);
                 const resObj = JSON.parse(response);
 
                 if (resObj.ACL != null) {
@@ -260,11 +265,11 @@ export class BaseBucket {
 
                 return Promise.resolve(this);
             } catch (e) {
-                nbLogger("error : " + e);
+                nbLogger("error : " + e, this._service);
                 return Promise.reject(e);
             }
         }, err => {
-            nbLogger(("error: " + (_errorText(err))));
+            nbLogger(("error: " + (_errorText(err))), this._service);
             err.data = this;
             return Promise.reject(err);
         });
@@ -277,7 +282,7 @@ export class BaseBucket {
      * @private
      */
     deleteBucket(callbacks?: Callbacks): Promise<BaseBucket> {
-        nbLogger("BaseBucket.deleteBucket(), callbacks=" + callbacks);
+        nbLogger("BaseBucket.deleteBucket(), callbacks=" + callbacks, this._service);
 
         let req: ApiRequest;
         if (this._service.isOffline()) {
@@ -290,15 +295,16 @@ export class BaseBucket {
         } else {
             const path = this.getPath();
             req = new HttpRequest(this._service, path);
+            req._applyCallbackOptions(callbacks);
             req.setMethod("DELETE");
             req.setContentType("application/json");
         }
 
         const promise = req.execute().then(() => {
-            nbLogger("BaseBucket.deleteBucket(), success");
+            nbLogger("BaseBucket.deleteBucket(), success", this._service);
             return this;
         }, err => {
-            nbLogger(("BaseBucket.deleteBucket(), error: " + (_errorText(err))));
+            nbLogger(("BaseBucket.deleteBucket(), error: " + (_errorText(err))), this._service);
             err.data = this;
             return Promise.reject(err);
         });
@@ -401,6 +407,31 @@ export class BaseBucket {
         return this._mode;
     }
 
+    /**
+     * @description 応答キャッシュ使用有無の設定
+     * @private
+     */
+    setCacheEnabled(enabled: boolean) {
+        this._cacheEnabled = enabled;
+    }
+
+    /**
+     * @description 応答キャッシュ使用有無の取得
+     * @private
+     */
+    isCacheEnabled(): boolean {
+        return this._cacheEnabled;
+    }
+
+    /**
+     * @description 本バケットで使用する応答キャッシュの取得
+     * @return {ResponseCache} キャッシュを使用しない場合は null
+     * @private
+     */
+    _getResponseCache(): ResponseCache {
+        return this._cacheEnabled ? this._service.getResponseCache() : null;
+    }
+
     /**
      * @description バケットに関するREST APIのパスの取得
      * @private
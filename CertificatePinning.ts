@@ -0,0 +1,197 @@
+import {nbError, nbLogger} from "./Head";
+import {crypto} from "./NodeSupport";
+import {NebulaService} from "./NebulaService";
+
+/**
+ * 証明書ピンニングのオプション (Node.js専用)。
+ * pin はサーバ証明書チェーンの公開鍵情報(SubjectPublicKeyInfo)の SHA-256 ハッシュを BASE64 で表した文字列で、
+ * "sha256/" を前置してもよい。
+ */
+export interface CertificatePinningOptions {
+    /** 受け入れる pin のリスト */
+    pins: string[];
+    /** 鍵の更新に備えた予備の pin のリスト */
+    backupPins?: string[];
+    /** ピンニングを適用するホスト名のリスト。"*.example.com" 形式も指定できる。省略時は全ての接続先に適用する */
+    hosts?: string[];
+    /** true の場合、pin が一致しなくても接続を中断せず、通知のみ行う */
+    reportOnly?: boolean;
+    /** pin が一致しなかった場合に呼び出されるハンドラ */
+    reportHandler?: (report: CertificatePinningReport) => void;
+}
+
+/**
+ * 証明書ピンニングの失敗レポート
+ */
+export interface CertificatePinningReport {
+    /** 接続先ホスト名 */
+    hostname: string;
+    /** 接続先ポート番号 */
+    port: number;
+    /** 通知のみのモードの場合は true */
+    reportOnly: boolean;
+    /** サーバ証明書チェーンの pin (サーバ証明書から順) */
+    observedPins: string[];
+    /** 設定された pin (予備の pin を含む) */
+    expectedPins: string[];
+    /** 検出日時 (ISO 8601) */
+    date: string;
+}
+
+const PIN_PREFIX = "sha256/";
+
+/**
+ * @description pin を検査し、"sha256/" を除いた値を返す
+ * @param {string} pin pin
+ * @return {string} pin
+ * @private
+ */
+export const _normalizePin = (pin: string): string => {
+    if (typeof pin !== "string") {
+        throw new Error("Bad certificate pin");
+    }
+    const value = (pin.indexOf(PIN_PREFIX) === 0) ? pin.slice(PIN_PREFIX.length) : pin;
+    // SHA-256 (32バイト) の BASE64 表現
+    if (!/^[A-Za-z0-9+/]{43}=$/.test(value)) {
+        throw new Error("Bad certificate pin");
+    }
+    return value;
+};
+
+/**
+ * @description 証明書ピンニングを使用できるか調べる (Node.js v11.6.0 以降)
+ * @return {boolean} 使用できる場合は true
+ * @private
+ */
+const _isCertificatePinningSupported = (): boolean => {
+    return crypto != null && typeof crypto.createPublicKey === "function";
+};
+
+/**
+ * @description 証明書ピンニングのオプションを検査し、正規化したオプションを返す。
+ * 証明書ピンニングを使用できない環境の場合は例外となる。
+ * @param {CertificatePinningOptions} options オプション
+ * @return {CertificatePinningOptions} オプション。ピンニングしない場合は null
+ * @private
+ */
+export const _checkCertificatePinning = (options: CertificatePinningOptions): CertificatePinningOptions => {
+    if (options == null) {
+        return null;
+    }
+    if (!_isCertificatePinningSupported()) {
+        throw new Error("Bad certificatePinning: not supported (Node.js v11.6.0 or later is required)");
+    }
+    if (!Array.isArray(options.pins) || options.pins.length === 0) {
+        throw new Error("Bad certificatePinning: no pins");
+    }
+    if (options.backupPins != null && !Array.isArray(options.backupPins)) {
+        throw new Error("Bad certificatePinning: backupPins");
+    }
+    if (options.hosts != null && !Array.isArray(options.hosts)) {
+        throw new Error("Bad certificatePinning: hosts");
+    }
+    return {
+        pins: options.pins.map(_normalizePin),
+        backupPins: (options.backupPins || []).map(_normalizePin),
+        hosts: (options.hosts != null) ? options.hosts.map((host) => host.toLowerCase()) : null,
+        reportOnly: options.reportOnly === true,
+        reportHandler: options.reportHandler || null
+    };
+};
+
+/**
+ * @description ホストがピンニングの対象か判定する
+ * @param {string[]} hosts 対象ホストのリスト。null の場合は全ホストが対象
+ * @param {string} hostname ホスト名
+ * @return {boolean} 対象の場合は true
+ * @private
+ */
+export const _isPinnedHost = (hosts: string[], hostname: string): boolean => {
+    if (hosts == null) {
+        return true;
+    }
+    const name = String(hostname).toLowerCase();
+    for (const host of hosts) {
+        if (host === name || (host.indexOf("*.") === 0 && name.slice(-(host.length - 1)) === host.slice(1))) {
+            return true;
+        }
+    }
+    return false;
+};
+
+/**
+ * @description 証明書チェーンの pin を算出する
+ * @param cert tls.TLSSocket#getPeerCertificate(true) で取得した証明書
+ * @return {string[]} pin のリスト (サーバ証明書から順)
+ * @private
+ */
+export const _getSpkiPins = (cert: any): string[] => {
+    const pins: string[] = [];
+    const visited: any[] = [];
+    // ルート証明書の issuerCertificate は自分自身を指す
+    while (cert != null && cert.raw != null && visited.indexOf(cert) < 0) {
+        visited.push(cert);
+        pins.push(crypto.createHash("sha256").update(_getSpki(cert.raw)).digest("base64"));
+        cert = cert.issuerCertificate;
+    }
+    return pins;
+};
+
+/**
+ * @description 証明書から公開鍵情報(SubjectPublicKeyInfo)を取り出す
+ * @param {Buffer} raw DER 形式の証明書
+ * @return {Buffer} DER 形式の SubjectPublicKeyInfo
+ * @private
+ */
+const _getSpki = (raw: any): any => {
+    // getPeerCertificate() の pubkey は鍵種別によって形式が異なるため、証明書から取り出す
+    const lines = raw.toString("base64").match(/.{1,64}/g);
+    const pem = "-----BEGIN CERTIFICATE-----\n" + lines.join("\n") + "\n-----END CERTIFICATE-----\n";
+    return crypto.createPublicKey(pem).export({type: "spki", format: "der"});
+};
+
+/**
+ * @description TLS 接続のサーバ証明書チェーンがピンニング設定に一致するか検証する。
+ * 一致しない場合はエラーログを出力し、reportHandler を呼び出す。
+ * @param {NebulaService} service サービス
+ * @param socket TLS ソケット (ハンドシェイク完了後)
+ * @param {string} hostname 接続先ホスト名
+ * @param {number} port 接続先ポート番号
+ * @return {Error} 接続を中断すべき場合はエラー。それ以外は null
+ * @private
+ */
+export const _verifyCertificatePinning = (service: NebulaService, socket: any, hostname: string, port: number): Error => {
+    const options = service.getCertificatePinning();
+    if (options == null || socket == null || typeof socket.getPeerCertificate !== "function" || !_isPinnedHost(options.hosts, hostname)) {
+        return null;
+    }
+
+    const observedPins = _getSpkiPins(socket.getPeerCertificate(true));
+    const matches = (pins: string[]) => observedPins.some((pin) => pins.indexOf(pin) >= 0);
+    if (matches(options.pins)) {
+        return null;
+    }
+    if (matches(options.backupPins)) {
+        nbLogger("Certificate pinning: backup pin matched: " + hostname + ":" + port, service);
+        return null;
+    }
+
+    const report: CertificatePinningReport = {
+        hostname,
+        port,
+        reportOnly: options.reportOnly,
+        observedPins,
+        expectedPins: options.pins.concat(options.backupPins),
+        date: new Date().toISOString()
+    };
+    nbError("Certificate pinning failure: " + hostname + ":" + port + (options.reportOnly ? " (report only)" : ""),
+        service, {observedPins});
+    if (options.reportHandler != null) {
+        try {
+            options.reportHandler(report);
+        } catch (e) {
+            nbError("Certificate pinning: reportHandler failed: " + e, service);
+        }
+    }
+    return options.reportOnly ? null : new Error("Certificate pinning failure: " + hostname + ":" + port);
+};
@@ -0,0 +1,324 @@
+import {nbLogger} from "./Head";
+import {HttpRequestContext} from "./HttpInterceptor";
+import {CancelledError, CircuitOpenError, LocalError} from "./Errors";
+import {NebulaService} from "./NebulaService";
+
+import {Promise} from "es6-promise";
+
+/**
+ * サーキットブレーカの状態: 通常 (リクエストを送信する)
+ */
+export const CIRCUIT_CLOSED = "closed";
+
+/**
+ * サーキットブレーカの状態: 遮断 (リクエストを送信せずに失敗する)
+ */
+export const CIRCUIT_OPEN = "open";
+
+/**
+ * サーキットブレーカの状態: 試行 (一部のリクエストのみ送信し、回復を確認する)
+ */
+export const CIRCUIT_HALF_OPEN = "half-open";
+
+/**
+ * サーキットブレーカのオプション
+ */
+export interface CircuitBreakerOptions {
+    /** 遮断するまでの連続失敗回数。デフォルトは 5 */
+    failureThreshold?: number;
+    /** 失敗とみなすステータスコード。0 は通信エラー・タイムアウトを表す(LocalError は対象外)。デフォルトは [0, 500, 502, 503, 504] */
+    failureStatuses?: number[];
+    /** 遮断してから試行状態に移行するまでの時間(ミリ秒)。デフォルトは 30000 */
+    resetTimeout?: number;
+    /** 試行状態で同時に送信するリクエスト数。デフォルトは 1 */
+    halfOpenMaxRequests?: number;
+}
+
+/**
+ * サーキットブレーカの状態変化イベント
+ */
+export interface CircuitStateChangeEvent {
+    /** ベースURI */
+    baseUri: string;
+    /** 変化前の状態 */
+    previous: string;
+    /** 変化後の状態 ("closed", "open", "half-open") */
+    state: string;
+    /** 連続失敗回数 */
+    failures: number;
+}
+
+/**
+ * サーキットブレーカの状態変化リスナ
+ */
+export type CircuitStateListener = (event: CircuitStateChangeEvent) => void;
+
+const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+    failureThreshold: 5,
+    failureStatuses: [0, 500, 502, 503, 504],
+    resetTimeout: 30000,
+    halfOpenMaxRequests: 1
+};
+
+/**
+ * @description サーキットブレーカのオプションの未指定項目にデフォルト値を設定する
+ * @param {CircuitBreakerOptions} options オプション
+ * @return {CircuitBreakerOptions} オプション
+ * @private
+ */
+export const _normalizeCircuitBreakerOptions = (options: CircuitBreakerOptions): CircuitBreakerOptions => {
+    const result: CircuitBreakerOptions = {};
+    for (const key of Object.keys(DEFAULT_CIRCUIT_BREAKER_OPTIONS)) {
+        const value = (options != null) ? (options as any)[key] : undefined;
+        (result as any)[key] = (value !== undefined) ? value : (DEFAULT_CIRCUIT_BREAKER_OPTIONS as any)[key];
+    }
+    return result;
+};
+
+/**
+ * @class CircuitBreaker
+ * @classdesc サーキットブレーカクラス。ベースURI (NebulaService) 毎に保持する。
+ * <p>
+ * 失敗(通信エラー、タイムアウト、5xx 応答)が failureThreshold 回連続すると遮断(open)状態となり、
+ * 以降のリクエストはサーバに送信せずに {@link CircuitOpenError} で即座に失敗する。
+ * resetTimeout 経過後は試行(half-open)状態となり、halfOpenMaxRequests 個のリクエストのみ送信する。
+ * 試行したリクエストが成功すると通常(closed)状態に戻り、失敗すると再び遮断状態となる。
+ * @example
+ * Nebula.setCircuitBreaker({failureThreshold: 3, resetTimeout: 10000});
+ * Nebula.getCircuitBreaker().addStateListener(function(event) {
+ *     console.log(event.baseUri + ": " + event.previous + " -> " + event.state);
+ * });
+ */
+export class CircuitBreaker {
+    private _service: NebulaService;
+    private _baseUri: string;
+    private _options: CircuitBreakerOptions;
+    private _state = CIRCUIT_CLOSED;
+    private _failures = 0;
+    private _openedAt = 0;
+    private _trials = 0;
+    private _listeners: CircuitStateListener[] = [];
+
+    /**
+     * @param {NebulaService} service サービス
+     * @param {CircuitBreakerOptions} options オプション
+     * @private
+     */
+    constructor(service: NebulaService, options?: CircuitBreakerOptions) {
+        this._service = service;
+        this._baseUri = service.getBaseUri();
+        this.setOptions(options);
+    }
+
+    /**
+     * @memberOf CircuitBreaker
+     * @description オプションを設定する。状態は維持される。
+     * @param {CircuitBreakerOptions} options オプション。指定方法は {@link NebulaService#setCircuitBreaker} を参照。
+     * @return {CircuitBreaker} this
+     */
+    setOptions(options: CircuitBreakerOptions): CircuitBreaker {
+        this._options = _normalizeCircuitBreakerOptions(options);
+        return this;
+    }
+
+    /**
+     * @memberOf CircuitBreaker
+     * @description オプションを返却する
+     * @return {CircuitBreakerOptions} オプション
+     */
+    getOptions(): CircuitBreakerOptions {
+        return this._options;
+    }
+
+    /**
+     * @memberOf CircuitBreaker
+     * @description 状態を返却する。遮断状態で resetTimeout を経過している場合は試行状態となる。
+     * @return {string} "closed", "open", "half-open" のいずれか
+     */
+    getState(): string {
+        if (this._state === CIRCUIT_OPEN && Date.now() - this._openedAt >= this._options.resetTimeout) {
+            this._setState(CIRCUIT_HALF_OPEN);
+        }
+        return this._state;
+    }
+
+    /**
+     * @memberOf CircuitBreaker
+     * @description 連続失敗回数を返却する
+     * @return {number} 連続失敗回数
+     */
+    getFailureCount(): number {
+        return this._failures;
+    }
+
+    /**
+     * @memberOf CircuitBreaker
+     * @description 通常状態に戻す
+     * @return {CircuitBreaker} this
+     */
+    reset(): CircuitBreaker {
+        this._failures = 0;
+        this._trials = 0;
+        this._setState(CIRCUIT_CLOSED);
+        return this;
+    }
+
+    /**
+     * @memberOf CircuitBreaker
+     * @description 状態変化リスナを登録する
+     * @param {function} listener リスナ。引数は {@link CircuitStateChangeEvent}
+     * @return {CircuitBreaker} this
+     */
+    addStateListener(listener: CircuitStateListener): CircuitBreaker {
+        this._listeners.push(listener);
+        return this;
+    }
+
+    /**
+     * @memberOf CircuitBreaker
+     * @description 状態変化リスナを削除する
+     * @param {function} listener リスナ
+     * @return {CircuitBreaker} this
+     */
+    removeStateListener(listener: CircuitStateListener): CircuitBreaker {
+        const index = this._listeners.indexOf(listener);
+        if (index >= 0) {
+            this._listeners.splice(index, 1);
+        }
+        return this;
+    }
+
+    /**
+     * リクエストの送信可否を判定し、送信可能な場合は送信枠を確保する
+     * @return {boolean} 送信可能な場合は true
+     * @private
+     */
+    _acquire(): boolean {
+        switch (this.getState()) {
+            case CIRCUIT_CLOSED:
+                return true;
+            case CIRCUIT_HALF_OPEN:
+                if (this._trials < this._options.halfOpenMaxRequests) {
+                    this._trials++;
+                    return true;
+                }
+                return false;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * 遮断状態が解除されるまでの時間を返却する
+     * @return {number} 時間(ミリ秒)
+     * @private
+     */
+    _getRemaining(): number {
+        if (this._state !== CIRCUIT_OPEN) {
+            return 0;
+        }
+        return Math.max(0, this._options.resetTimeout - (Date.now() - this._openedAt));
+    }
+
+    /**
+     * リクエストの成功を記録する
+     * @private
+     */
+    _onSuccess(): void {
+        this._failures = 0;
+        if (this._state === CIRCUIT_HALF_OPEN) {
+            this._trials = 0;
+            this._setState(CIRCUIT_CLOSED);
+        }
+    }
+
+    /**
+     * リクエストの失敗を記録する
+     * @private
+     */
+    _onFailure(): void {
+        this._failures++;
+        if (this._state === CIRCUIT_HALF_OPEN ||
+            (this._state === CIRCUIT_CLOSED && this._failures >= this._options.failureThreshold)) {
+            this._trials = 0;
+            this._openedAt = Date.now();
+            this._setState(CIRCUIT_OPEN);
+        }
+    }
+
+    /**
+     * リクエストのキャンセルを記録する。試行状態の場合は送信枠を解放する。
+     * @private
+     */
+    _onCancel(): void {
+        if (this._state === CIRCUIT_HALF_OPEN && this._trials > 0) {
+            this._trials--;
+        }
+    }
+
+    /**
+     * 失敗とみなすエラーか判定する
+     * @private
+     */
+    _isFailure(error: any): boolean {
+        if (error == null || error instanceof LocalError) {
+            // 設定の不正等はサーバの障害ではない
+            return false;
+        }
+        return this._options.failureStatuses.indexOf(error.status) >= 0;
+    }
+
+    private _setState(state: string): void {
+        const previous = this._state;
+        if (previous === state) {
+            return;
+        }
+        this._state = state;
+        nbLogger("CircuitBreaker: " + this._baseUri + ": " + previous + " -> " + state, this._service);
+
+        const event: CircuitStateChangeEvent = {baseUri: this._baseUri, previous, state, failures: this._failures};
+        for (const listener of this._listeners.slice()) {
+            try {
+                listener(event);
+            } catch (e) {
+                // リスナのエラーは無視する
+            }
+        }
+    }
+}
+
+/**
+ * @description サーキットブレーカを使用してリクエストを実行する。
+ * <p>
+ * 遮断中の場合はリクエストを送信せずに CircuitOpenError で失敗する。
+ * @param {CircuitBreaker} breaker サーキットブレーカ。null の場合は使用しない
+ * @param {HttpRequestContext} context リクエストコンテキスト
+ * @param {function} send リクエスト送信処理
+ * @return {Promise} Promise
+ * @private
+ */
+export const _executeWithCircuitBreaker = (breaker: CircuitBreaker, context: HttpRequestContext,
+                                           send: (context: HttpRequestContext) => Promise<any>): Promise<any> => {
+    if (breaker == null) {
+        return send(context);
+    }
+    if (!breaker._acquire()) {
+        const error = new CircuitOpenError(0, "Circuit open", "Request blocked by circuit breaker: " + context.url);
+        error.retryAfter = breaker._getRemaining();
+        return Promise.reject(error);
+    }
+
+    return send(context).then((response) => {
+        breaker._onSuccess();
+        return response;
+    }, (error) => {
+        if (error instanceof CancelledError) {
+            breaker._onCancel();
+        } else if (breaker._isFailure(error)) {
+            breaker._onFailure();
+        } else {
+            breaker._onSuccess();
+        }
+        return Promise.reject(error);
+    });
+};
@@ -0,0 +1,126 @@
+import {nbLogger} from "./Head";
+import {zlib} from "./NodeSupport";
+import {NebulaService} from "./NebulaService";
+
+import {Buffer} from "buffer";
+
+/**
+ * 通信の圧縮オプション
+ */
+export interface CompressionOptions {
+    /** Accept-Encoding ヘッダを送信し、gzip/deflate/br で圧縮された応答を展開する場合は true。デフォルトは true */
+    decompressResponse?: boolean;
+    /** リクエストボディを圧縮して送信する場合は true。デフォルトは false */
+    compressRequest?: boolean;
+    /** リクエストボディを圧縮する最小サイズ(バイト)。デフォルトは 1024 */
+    threshold?: number;
+    /** リクエストボディの圧縮方式。"gzip", "deflate", "br" のいずれか。デフォルトは "gzip" */
+    encoding?: string;
+}
+
+const DEFAULT_COMPRESSION_OPTIONS: CompressionOptions = {
+    decompressResponse: true,
+    compressRequest: false,
+    threshold: 1024,
+    encoding: "gzip"
+};
+
+/**
+ * @description 圧縮オプションの未指定項目にデフォルト値を設定する
+ * @param {CompressionOptions} options オプション
+ * @return {CompressionOptions} オプション
+ * @private
+ */
+export const _normalizeCompressionOptions = (options: CompressionOptions): CompressionOptions => {
+    const result: CompressionOptions = {};
+    for (const key of Object.keys(DEFAULT_COMPRESSION_OPTIONS)) {
+        const value = (options != null) ? (options as any)[key] : undefined;
+        (result as any)[key] = (value !== undefined) ? value : (DEFAULT_COMPRESSION_OPTIONS as any)[key];
+    }
+    return result;
+};
+
+/**
+ * @description brotli を使用できるか調べる (Node.js v11.7.0 以降)
+ * @private
+ */
+const isBrotliSupported = (): boolean => {
+    return zlib != null && typeof zlib.createBrotliDecompress === "function";
+};
+
+/**
+ * @description 送信する Accept-Encoding ヘッダの値を返却する
+ * @return {string} Accept-Encoding ヘッダの値。zlib を使用できない場合は null
+ * @private
+ */
+export const _getAcceptEncoding = (): string => {
+    if (zlib == null) {
+        return null;
+    }
+    return isBrotliSupported() ? "gzip, deflate, br" : "gzip, deflate";
+};
+
+/**
+ * @description Content-Encoding に対応する展開用ストリームを生成する
+ * @param {string} contentEncoding Content-Encoding ヘッダの値
+ * @return {stream.Transform} 展開用ストリーム。圧縮されていない場合、未対応の方式の場合は null
+ * @private
+ */
+export const _createDecompressor = (contentEncoding: string): any => {
+    if (zlib == null || contentEncoding == null) {
+        return null;
+    }
+    switch (String(contentEncoding).trim().toLowerCase()) {
+        case "gzip":
+        case "x-gzip":
+            return zlib.createGunzip();
+        case "deflate":
+            return zlib.createInflate();
+        case "br":
+            return isBrotliSupported() ? zlib.createBrotliDecompress() : null;
+        default:
+            return null;
+    }
+};
+
+/**
+ * @description リクエストボディを圧縮する。
+ * <p>
+ * 圧縮が無効な場合、ボディがバイナリ(Buffer)の場合、サイズが閾値未満の場合は圧縮しない。
+ * @param {CompressionOptions} options 圧縮オプション
+ * @param body リクエストボディ (文字列または JSON オブジェクト)
+ * @param {NebulaService} service サービス
+ * @return {Object} 圧縮した場合はボディ(Buffer)と Content-Encoding、圧縮しない場合は null
+ * @private
+ */
+export const _compressRequestBody = (options: CompressionOptions, body: any, service: NebulaService): {body: Buffer, encoding: string} => {
+    options = _normalizeCompressionOptions(options);
+    if (!options.compressRequest || zlib == null || body == null || body instanceof Buffer) {
+        return null;
+    }
+
+    const data = Buffer.from((typeof body === "string" || body instanceof String) ? String(body) : JSON.stringify(body));
+    if (data.length < options.threshold) {
+        return null;
+    }
+
+    let compressed: Buffer;
+    switch (options.encoding) {
+        case "gzip":
+            compressed = zlib.gzipSync(data);
+            break;
+        case "deflate":
+            compressed = zlib.deflateSync(data);
+            break;
+        case "br":
+            if (!isBrotliSupported()) {
+                return null;
+            }
+            compressed = zlib.brotliCompressSync(data);
+            break;
+        default:
+            return null;
+    }
+    nbLogger("HttpNode: compress request body: " + data.length + " -> " + compressed.length + " bytes", service);
+    return {body: compressed, encoding: options.encoding};
+};
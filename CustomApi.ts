@@ -203,8 +203,40 @@ export class CustomApi {
         return this._execute(data, true);
     }
 
-    _execute(data: object, rawMessage: boolean, callbacks?: Callbacks): Promise<any> {
+    /**
+     * @memberOf CustomApi
+     * @description
+     *      カスタムAPIの呼び出し(ストリーミング受信版)。
+     *      <p>処理が成功した場合、Promise には {@link ResponseStream} が返される。
+     *      サーバ応答データは受信したチャンク単位で読み込むことができる。
+     *      HTTP/1.1, HTTP/2 のいずれでも使用できる。
+     *      <p>応答が 2xx 以外の場合は、execute() と同様にエラー要因(JSON)が返される。
+     *      <p>レスポンスヘッダ受信設定をしている場合は、body に ResponseStream が格納される。
+     * @example
+     * var customApi = ....;
+     *
+     * customApi.executeStream()
+     *     .then(async (stream) => {
+     *         for await (const chunk of stream) {
+     *             ....
+     *         }
+     *     });
+     *
+     * // ブラウザで ReadableStream として使用する場合
+     * customApi.executeStream()
+     *     .then((stream) => new Response(stream.toReadableStream()).blob());
+     * @param {Object} data API呼び出しデータ
+     * @param {Callbacks} callbacks 応答コールバック (Option)
+     * @return {Promise} callbacksを指定しなかった場合、Promiseオブジェクトを返す。callback指定時は返り値なし(undefined)。
+     */
+    executeStream(data: object, callbacks?: Callbacks): Promise<any> {
+        return this._execute(data, false, callbacks, true);
+    }
+
+    _execute(data: object, rawMessage: boolean, callbacks?: Callbacks, stream?: boolean): Promise<any> {
         const request = new HttpRequest(this._service, this.path);
+        request._applyCallbackOptions(callbacks);
+        request.setProgressListener(callbacks && callbacks.progress);
         request.setMethod(this.method);
 
         request.addQueryParams(this.queryParams);
@@ -216,12 +248,14 @@ export class CustomApi {
             }
         }
 
-        if (!rawMessage) {
+        if (rawMessage) {
+            request.rawMessage = true;
+        } else if (stream) {
+            request.setResponseStreaming(true);
+        } else {
             if (this.responseType != null) {
                 request.setResponseType(this.responseType);
             }
-        } else {
-            request.rawMessage = true;
         }
 
         if (this.contentType != null) {
@@ -234,11 +268,11 @@ export class CustomApi {
 
         const promise = request.execute()
             .then((response) => {
-                nbLogger("CustomApi#success");
+                nbLogger("CustomApi#success", this._service);
                 return response;
             })
             .catch((err) => {
-                nbLogger("CustomApi#error " + _errorText(err));
+                nbLogger("CustomApi#error " + _errorText(err), this._service);
                 return Promise.reject(err);
             });
 
@@ -0,0 +1,295 @@
+import {NbError} from "./Head";
+
+/**
+ * @class NebulaError
+ * @classdesc エラークラス。API 呼び出し失敗時のエラーの基底クラス。
+ * <p>
+ * 従来どおり status, statusText, responseText, data プロパティを持つ。
+ * サーバが JSON のエラー応答を返却した場合は、body, reason プロパティで参照できる。
+ * <p>
+ * ステータスコード等に応じて、以下のサブクラスのインスタンスとなる。
+ * <ul>
+ *   <li>{@link UnauthorizedError} : 401 Unauthorized</li>
+ *   <li>{@link ForbiddenError} : 403 Forbidden</li>
+ *   <li>{@link NotFoundError} : 404 Not Found</li>
+ *   <li>{@link ConflictError} : 409 Conflict</li>
+ *   <li>{@link RateLimitedError} : 429 Too Many Requests</li>
+ *   <li>{@link NetworkError} : 通信エラー (status は 0)</li>
+ *   <li>{@link CircuitOpenError} : サーキットブレーカによる遮断 (status は 0, NetworkError のサブクラス)</li>
+ *   <li>{@link TimeoutError} : タイムアウト (status は 0)</li>
+ *   <li>{@link CancelledError} : AbortSignal によるキャンセル (status は 0, name は "AbortError")</li>
+ *   <li>{@link InvalidResponseError} : サーバの応答が不正 (status は 0)</li>
+ *   <li>{@link LocalError} : URL・設定の不正、証明書ピンニングの不一致等、通信以外の要因による失敗 (status は 0)</li>
+ * </ul>
+ * <p>
+ * name はサブクラスのクラス名となる (CancelledError のみ "AbortError")。
+ * 従来は常に "Error" であったため、name で判定している場合は instanceof による判定に変更すること。
+ * サブクラスに該当しないエラー(NebulaError 自身)の name は従来どおり "Error" となる。
+ * @example
+ * bucket.load(id)
+ *     .catch(function(error) {
+ *         if (error instanceof Nebula.NotFoundError) {
+ *             ...
+ *         } else if (error instanceof Nebula.ConflictError) {
+ *             console.log(error.reason);
+ *         }
+ *     });
+ */
+export class NebulaError extends Error implements NbError {
+    /** ステータスコード */
+    status: number;
+    /** ステータステキスト */
+    statusText: string;
+    /** レスポンステキスト */
+    responseText: string;
+    /** データ(あれば) */
+    data?: any;
+
+    /**
+     * @param {number} status ステータスコード
+     * @param {string} statusText ステータステキスト
+     * @param {string} responseText レスポンステキスト
+     * @param data データ(あれば)
+     * @private
+     */
+    constructor(status: number, statusText: string, responseText: string, data?: any) {
+        super(`${statusText}(${status})`);
+        // ES5 で instanceof を使用できるようにする
+        Object.setPrototypeOf(this, new.target.prototype);
+        // サブクラスではクラス名で上書きする
+        this.name = "Error";
+        this.status = status;
+        this.statusText = statusText;
+        this.responseText = responseText;
+        if (data) {
+            this.data = data;
+        }
+    }
+
+    /**
+     * @memberOf NebulaError
+     * @description サーバのエラー応答を JSON として解析したもの。JSON でない場合は null
+     * @type {Object}
+     */
+    get body(): {[key: string]: any} {
+        if (this.data != null && typeof this.data === "object" && !_isBinary(this.data)) {
+            return this.data;
+        }
+        const text = this.responseText;
+        if (typeof text !== "string" || text.charAt(0) !== "{") {
+            return null;
+        }
+        try {
+            return JSON.parse(text);
+        } catch (e) {
+            return null;
+        }
+    }
+
+    /**
+     * @memberOf NebulaError
+     * @description サーバが返却したエラー理由 (エラー応答の error フィールド)。存在しない場合は null
+     * @type {string}
+     */
+    get reason(): string {
+        const body = this.body;
+        if (body == null) {
+            return null;
+        }
+        const reason = (body.error != null) ? body.error : body.reason;
+        return (typeof reason === "string") ? reason : null;
+    }
+}
+
+/**
+ * @class UnauthorizedError
+ * @classdesc 401 Unauthorized。セッショントークンの期限切れ、認証失敗等。
+ * @extends NebulaError
+ */
+export class UnauthorizedError extends NebulaError {
+    constructor(status: number, statusText: string, responseText: string, data?: any) {
+        super(status, statusText, responseText, data);
+        this.name = "UnauthorizedError";
+    }
+}
+
+/**
+ * @class ForbiddenError
+ * @classdesc 403 Forbidden。ACL により権限がない等。
+ * @extends NebulaError
+ */
+export class ForbiddenError extends NebulaError {
+    constructor(status: number, statusText: string, responseText: string, data?: any) {
+        super(status, statusText, responseText, data);
+        this.name = "ForbiddenError";
+    }
+}
+
+/**
+ * @class NotFoundError
+ * @classdesc 404 Not Found。オブジェクト、ファイル、バケット等が存在しない。
+ * @extends NebulaError
+ */
+export class NotFoundError extends NebulaError {
+    constructor(status: number, statusText: string, responseText: string, data?: any) {
+        super(status, statusText, responseText, data);
+        this.name = "NotFoundError";
+    }
+}
+
+/**
+ * @class ConflictError
+ * @classdesc 409 Conflict。ETag 不一致、重複等。
+ * @extends NebulaError
+ */
+export class ConflictError extends NebulaError {
+    constructor(status: number, statusText: string, responseText: string, data?: any) {
+        super(status, statusText, responseText, data);
+        this.name = "ConflictError";
+    }
+}
+
+/**
+ * @class RateLimitedError
+ * @classdesc 429 Too Many Requests。
+ * <p>
+ * サーバが Retry-After ヘッダを返却した場合は、retryAfter に待ち時間(ミリ秒)が設定される。
+ * @extends NebulaError
+ */
+export class RateLimitedError extends NebulaError {
+    /** 再試行までの待ち時間(ミリ秒)。不明な場合は null */
+    retryAfter: number = null;
+
+    constructor(status: number, statusText: string, responseText: string, data?: any) {
+        super(status, statusText, responseText, data);
+        this.name = "RateLimitedError";
+    }
+}
+
+/**
+ * @class NetworkError
+ * @classdesc 通信エラー。接続失敗、切断等によりサーバの応答を受信できなかった。
+ * <p>
+ * 接続の確立を検知できる通信方式(Node.js)では、connected に接続が確立していたかが設定される。
+ * false の場合、リクエストはサーバに送信されていない。
+ * @extends NebulaError
+ */
+export class NetworkError extends NebulaError {
+    /** 接続が確立していた場合は true、接続の確立前に失敗した場合は false。不明な場合は null */
+    connected: boolean = null;
+
+    constructor(status: number, statusText: string, responseText: string, data?: any) {
+        super(status, statusText, responseText, data);
+        this.name = "NetworkError";
+    }
+}
+
+/**
+ * @class CircuitOpenError
+ * @classdesc サーキットブレーカによる遮断。サーバにリクエストを送信せずに失敗した。
+ * <p>
+ * retryAfter に遮断が解除されるまでの時間(ミリ秒)が設定される。
+ * @extends NetworkError
+ */
+export class CircuitOpenError extends NetworkError {
+    /** 遮断が解除されるまでの時間(ミリ秒) */
+    retryAfter: number = null;
+
+    constructor(status: number, statusText: string, responseText: string, data?: any) {
+        super(status, statusText, responseText, data);
+        this.name = "CircuitOpenError";
+    }
+}
+
+/**
+ * @class TimeoutError
+ * @classdesc タイムアウト。
+ * <p>
+ * 接続・応答開始・全体の制限時間({@link NebulaService#setTimeoutOptions})を超えた場合は、
+ * phase に "connect", "firstByte", "total" のいずれかが設定される。
+ * デフォルト通信タイムアウト値({@link HttpRequest.setDefaultTimeout})を超えた場合は null となる。
+ * @extends NebulaError
+ */
+export class TimeoutError extends NebulaError {
+    /** タイムアウトの種別 ("connect", "firstByte", "total")。不明な場合は null */
+    phase: string = null;
+
+    constructor(status: number, statusText: string, responseText: string, data?: any) {
+        super(status, statusText, responseText, data);
+        this.name = "TimeoutError";
+    }
+}
+
+/**
+ * @class CancelledError
+ * @classdesc AbortSignal によるキャンセル。互換性のため name は "AbortError" となる。
+ * @extends NebulaError
+ */
+export class CancelledError extends NebulaError {
+    constructor(status: number, statusText: string, responseText: string, data?: any) {
+        super(status, statusText, responseText, data);
+        this.name = "AbortError";
+    }
+}
+
+/**
+ * @class InvalidResponseError
+ * @classdesc サーバの応答が不正 (JSON として解析できない、必須のプロパティが存在しない等)。
+ * @extends NebulaError
+ */
+export class InvalidResponseError extends NebulaError {
+    constructor(status: number, statusText: string, responseText: string, data?: any) {
+        super(status, statusText, responseText, data);
+        this.name = "InvalidResponseError";
+    }
+}
+
+/**
+ * @class LocalError
+ * @classdesc 通信以外の要因による失敗。URL の不正、クライアント証明書・プロキシの設定の不正、
+ * 証明書ピンニングの不一致等。
+ * <p>
+ * 再試行しても成功しないため、リトライ・サーキットブレーカ・書き込みキューの対象とならない。
+ * @extends NebulaError
+ */
+export class LocalError extends NebulaError {
+    constructor(status: number, statusText: string, responseText: string, data?: any) {
+        super(status, statusText, responseText, data);
+        this.name = "LocalError";
+    }
+}
+
+/**
+ * @description バイナリデータか判定する
+ * @private
+ */
+const _isBinary = (data: any): boolean => {
+    return (typeof Blob !== "undefined" && data instanceof Blob) ||
+        (typeof ArrayBuffer !== "undefined" && data instanceof ArrayBuffer) ||
+        (typeof data.readUInt8 === "function");
+};
+
+/**
+ * @description ステータスコードに対応するエラークラスを返却する
+ * @param {number} status ステータスコード
+ * @return エラークラス
+ * @private
+ */
+export const _getErrorClass = (status: number): typeof NebulaError => {
+    switch (status) {
+        case 0:
+            return NetworkError;
+        case 401:
+            return UnauthorizedError;
+        case 403:
+            return ForbiddenError;
+        case 404:
+            return NotFoundError;
+        case 409:
+            return ConflictError;
+        case 429:
+            return RateLimitedError;
+        default:
+            return NebulaError;
+    }
+};
@@ -1,11 +1,12 @@
 import {BaseBucket} from "./BaseBucket";
 import {NebulaService} from "./NebulaService";
 import {Nebula} from "./Nebula";
-import {_createError, _errorText, _promisify, Callbacks, nbLogger} from "./Head";
-import {Acl} from "./Acl";
+import {_createInvalidResponseError, _errorText, _promisify, Callbacks, nbLogger} from "./Head";
+import {Acl, AclJson} from "./Acl";
 import {FileMetadata, FileMetadataJson} from "./FileMetadata";
 import {ApiRequest, HttpRequest} from "./HttpRequest";
 import {_SdeRequest} from "./SdeRequest";
+import {_enqueueWrite, WRITE_FILE_SAVE} from "./WriteQueue";
 
 import {Promise} from "es6-promise";
 import {Buffer} from "buffer";
@@ -38,6 +39,8 @@ export interface FileRequestOptions {
     rangeStart?: number;
     /** 終了位置 **/
     rangeEnd?: number;
+    /** ストリーミング受信する */
+    stream?: boolean;
 }
 
 /**
@@ -88,7 +91,7 @@ export class FileBucket extends BaseBucket {
     static loadBucket(name:string , callbacks?: Callbacks): Promise<FileBucket> { return null; }
 
     protected static _loadBucket(service: NebulaService, name:string , callbacks?: Callbacks): Promise<FileBucket> {
-        nbLogger("FileBucket.loadBucket(), name=" + name + ", callbacks=" + callbacks);
+        nbLogger("FileBucket.loadBucket(), name=" + name + ", callbacks=" + callbacks, service);
         return BaseBucket._baseLoadBucket("file", service, name, Nebula.BUCKET_MODE_ONLINE, callbacks) as Promise<FileBucket>;
     }
 
@@ -322,6 +325,35 @@ export class FileBucket extends BaseBucket {
         return super.getDescription();
     }
 
+    /**
+     * @memberOf FileBucket
+     * @description
+     *      本バケットで応答キャッシュを使用するか設定する。デフォルトは true。
+     *      <p>
+     *      NebulaService に応答キャッシュ({@link NebulaService#setResponseCache})が設定されている場合のみ有効。
+     *      有効な場合、load() は ETag による条件付き GET を行う。
+     * @example
+     * var bucket = ....;
+     * ....
+     * bucket.setCacheEnabled(false);
+     * @param {boolean} enabled 応答キャッシュを使用する場合は true
+     * @return {FileBucket} this
+     */
+    setCacheEnabled(enabled: boolean): FileBucket {
+        super.setCacheEnabled(enabled);
+        return this;
+    }
+
+    /**
+     * @memberOf FileBucket
+     * @description
+     *      本バケットで応答キャッシュを使用するか返却する
+     * @return {boolean} 応答キャッシュを使用する場合は true
+     */
+    isCacheEnabled(): boolean {
+        return super.isCacheEnabled();
+    }
+
     /**
      * @memberOf FileBucket
      * @description
@@ -347,44 +379,51 @@ export class FileBucket extends BaseBucket {
         return this;
     }
 
-    private _save(fileName: string, data: any, metadata: FileMetadata, update: boolean, callbacks: Callbacks): Promise<FileMetadata> {
-        nbLogger("FileBucket._save()");
+    _save(fileName: string, data: any, metadata: FileMetadata, update: boolean, callbacks: Callbacks, queueable = true,
+          etag?: string): Promise<FileMetadata> {
+        nbLogger("FileBucket._save()", this._service);
 
         if (!fileName) {
-            nbLogger("FileBucket._save(), Parameter is invalid : fileName");
+            nbLogger("FileBucket._save(), Parameter is invalid : fileName", this._service);
             throw new Error("No fileName");
         }
 
         if (!data) {
-            nbLogger("FileBucket._save(), Parameter is invalid : data");
+            nbLogger("FileBucket._save(), Parameter is invalid : data", this._service);
             throw new Error("No data");
         }
 
         if (!(typeof Blob !== "undefined" && Blob !== null) && !(typeof Buffer !== "undefined" && Buffer !== null)) {
-            nbLogger("FileBucket._save(), Not supported Blob nor Buffer");
+            nbLogger("FileBucket._save(), Not supported Blob nor Buffer", this._service);
             throw new Error("No Blob/Buffer support");
         }
 
         if ((typeof data !== "string")
             && (typeof Blob !== "undefined" && Blob !== null && !(data instanceof Blob))
             && (typeof Buffer !== "undefined" && Buffer !== null && !(Buffer.isBuffer(data)))) {
-            nbLogger("FileBucket._save(), Data is not String, Blob nor Buffer");
+            nbLogger("FileBucket._save(), Data is not String, Blob nor Buffer", this._service);
             throw new Error("data is not String, Blob nor Buffer");
         }
 
         if (!update) {
             if (!metadata || !metadata.getContentType()) {
-                nbLogger("FileBucket._save(), Parameter is invalid : metadata.contentType");
+                nbLogger("FileBucket._save(), Parameter is invalid : metadata.contentType", this._service);
                 throw new Error("No contentType in metadata");
             }
         }
 
         const path = this.getDataPath("/" + encodeURIComponent(fileName));
-        nbLogger("FileBucket._save(), path=" + path);
+        nbLogger("FileBucket._save(), path=" + path, this._service);
         const req = new HttpRequest(this._service, path);
+        req._applyCallbackOptions(callbacks);
+        req.setProgressListener(callbacks && callbacks.progress);
 
         if (update) {
             req.setMethod("PUT");
+            req.setResponseCache(this._getResponseCache());
+            if (etag) {
+                req.setQueryParam("fileETag", etag);
+            }
         } else {
             req.setMethod("POST");
             req.setContentType(metadata.getContentType());
@@ -410,13 +449,26 @@ export class FileBucket extends BaseBucket {
                 metadata._setMetadata(resObj);
                 return Promise.resolve(metadata);
             } catch (e) {
-                nbLogger("FileBucket._save(), success: exception=" + e);
-                const error = _createError(0, "Invalid response from server", e, fileName);
+                nbLogger("FileBucket._save(), success: exception=" + e, this._service);
+                const error = _createInvalidResponseError("Invalid response from server", e, fileName);
                 return Promise.reject(error);
             }
         }, error => {
-            nbLogger(("FileBucket._save(), error: " + (_errorText(error))));
+            nbLogger(("FileBucket._save(), error: " + (_errorText(error))), this._service);
             error.data = fileName;
+            if (queueable) {
+                return _enqueueWrite(this._service, error, {
+                    type: WRITE_FILE_SAVE,
+                    bucketName: this.getBucketName(),
+                    fileName,
+                    fileData: data,
+                    update,
+                    etag: etag || null,
+                    contentType: metadata && metadata.getContentType(),
+                    acl: (metadata && metadata.getAcl() != null) ? metadata.getAcl()._toJsonObject() as AclJson : null,
+                    options: metadata && metadata.getOptions()
+                });
+            }
             return Promise.reject(error);
         });
 
@@ -493,6 +545,14 @@ export class FileBucket extends BaseBucket {
      *   <li>保存するファイルのデータ。文字列/Blobオブジェクト/Bufferオブジェクトのいずれか。
      * </ul>
      * @param {Callbacks} callbacks コールバック (Option)
+     * @param {string} etag ファイルのETag値 (Option)。
+     *      <p>
+     *      ETag値は、ファイルのメタデータ({@link FileMetadata#getFileETag})で参照できる。
+     *      etagを指定すると、サーバに保存されているファイルのETag値と照合される。
+     *      <p>
+     *      一致しなかった場合は、データ衝突として「409 Conflict」エラーとなり、ファイルは更新されない。
+     *      etagを指定しなかった場合、または、nullを指定した場合は、ETag値は照合されずファイルは無条件で更新される。
+     *      また、書き込みキュー({@link WriteQueue})には登録されない。
      * @return {Promise} callbacksを指定しなかった場合、Promiseオブジェクトを返す。callback指定時は返り値なし(undefined)。
      * <p>処理完了時に渡される値は以下の通り。
      * <ul>
@@ -508,8 +568,8 @@ export class FileBucket extends BaseBucket {
      * </pre>
      * </ul>
      */
-    save(fileName: string, data: any, callbacks?: Callbacks): Promise<FileMetadata> {
-        return this._save(fileName, data, null, true, callbacks);
+    save(fileName: string, data: any, callbacks?: Callbacks, etag?: string): Promise<FileMetadata> {
+        return this._save(fileName, data, null, true, callbacks, true, etag);
     }
 
     /**
@@ -568,6 +628,16 @@ export class FileBucket extends BaseBucket {
      *                 HTTP/2のステータスコードを取得するには、'response'イベントの':status'を参照する。
      *                 具体的な指定方法はexamplesを参照。
      *
+     *  <li>"stream"
+     *      <p>ファイルをストリーミング受信する場合にtrueを設定する。(オプション)
+     *      <p>処理が成功した場合、Promise には {@link ResponseStream} が返される。
+     *      ファイルデータは受信したチャンク単位で読み込むことができる。
+     *      rawRequest と異なり、エラー応答の判定、中断処理は通常の読み込みと同様に行われる。
+     *      HTTP/1.1, HTTP/2 のいずれでも使用できる。
+     *      ブラウザでも使用できるが、XHR使用時はチャンクが文字列となるため、
+     *      バイナリファイルを読み込む場合は transport に "fetch" を指定すること。
+     *      <p>rawRequest と同時に指定した場合は、rawRequest が優先される。
+     *
      *  <li>"extraResponse"
      *      <p>レスポンスにステータスコード、ヘッダを追加する。(オプション)</p>
      *      <p>通常レスポンスにはBuffer オブジェクトを返却するが、
@@ -634,6 +704,8 @@ export class FileBucket extends BaseBucket {
      *     </pre>
      *     </li>
      *     <li>c) http.IncomingMessage または http2.ClientHttpStream (option に {rawRequest: true} を指定した場合)</li>
+     *     <li>d) ResponseStream (option に {stream: true} を指定した場合)。
+     *       extraResponse を指定した場合は、b) の body に ResponseStream が格納される。</li>
      *     </ul>
      * </li>
      * <li>失敗時: エラー要因(JSON)
@@ -684,6 +756,16 @@ export class FileBucket extends BaseBucket {
      *         message.on('close', () => {....});
      *     });
      * @example
+     * // ストリーミング受信の例
+     * var writable = fs.createWriteStream(....);
+     * bucket.loadWithOptions("MyFile.jpg", {stream: true})
+     *     .then(async (stream) => {
+     *         for await (const chunk of stream) {
+     *             writable.write(chunk);
+     *         }
+     *         writable.end();
+     *     });
+     * @example
      * // start,end 指定の例 詳細はRFC7233を参照
      * // サーバに1000 byteのファイルが格納されている場合
      * // 最初の50byteを取得
@@ -720,38 +802,47 @@ export class FileBucket extends BaseBucket {
     }
 
     _load(fileName: string, options?: FileRequestOptions, callbacks?: Callbacks): Promise<any> {
-        nbLogger("FileBucket._load()");
+        nbLogger("FileBucket._load()", this._service);
 
         if (!(typeof fileName !== "undefined" && fileName !== null)) {
-            nbLogger("FileBucket._load(), Parameter is invalid : fileName");
+            nbLogger("FileBucket._load(), Parameter is invalid : fileName", this._service);
             throw new Error("No fileName");
         }
 
         let rawRequest: boolean = false;
+        let stream = false;
         if (typeof options !== "undefined") {
             // validate options
             if (options === null || typeof options !== "object") {
                 // typeof null -> "object"
-                nbLogger("FileBucket._load(), Invalid options: " + options);
+                nbLogger("FileBucket._load(), Invalid options: " + options, this._service);
                 throw new Error("Invalid options: " + options);
             }
 
             if (options["rawRequest"] === true) {
                 if (!(typeof Blob !== "undefined" && Blob !== null) && !(typeof Buffer !== "undefined" && Buffer !== null)) {
-                    nbLogger("FileBucket._load(), Not supported Blob nor Buffer");
+                    nbLogger("FileBucket._load(), Not supported Blob nor Buffer", this._service);
                     throw new Error("No Blob/Buffer support");
                 }
                 rawRequest = true;
             }
+            if (options["stream"] === true) {
+                stream = true;
+            }
         }
 
         const path = this.getDataPath("/" + encodeURIComponent(fileName));
-        nbLogger("FileBucket._load(), path=" + path);
+        nbLogger("FileBucket._load(), path=" + path, this._service);
         const req = new HttpRequest(this._service, path);
+        req._applyCallbackOptions(callbacks);
+        req.setProgressListener(callbacks && callbacks.progress);
         req.setMethod("GET");
+        req.setResponseCache(this._getResponseCache());
 
         if (rawRequest) {
             req.rawMessage = true;
+        } else if (stream) {
+            req.setResponseStreaming(true);
         } else {
             if (typeof Blob !== "undefined" && Blob !== null) {
                 req.setResponseType("blob");
@@ -789,7 +880,7 @@ export class FileBucket extends BaseBucket {
         const promise = req.execute().then(response => {
             return response;
         }, err => {
-            nbLogger(("FileBucket._load(), error: " + (_errorText(err))));
+            nbLogger(("FileBucket._load(), error: " + (_errorText(err))), this._service);
             err.data = fileName;
             return Promise.reject(err);
         });
@@ -859,10 +950,10 @@ export class FileBucket extends BaseBucket {
      * @since v4.0.1
      */
     remove(fileName: string, callbacks?: Callbacks): Promise<string> {
-        nbLogger("FileBucket.remove()");
+        nbLogger("FileBucket.remove()", this._service);
 
         if (!(typeof fileName !== "undefined" && fileName !== null)) {
-            nbLogger("FileBucket.remove(), Parameter is invalid : fileName");
+            nbLogger("FileBucket.remove(), Parameter is invalid : fileName", this._service);
             throw new Error("No fileName");
         }
 
@@ -876,16 +967,18 @@ export class FileBucket extends BaseBucket {
             req.setData(body);
         } else {
             const path = this.getDataPath("/" + encodeURIComponent(fileName));
-            nbLogger("FileBucket.remove(), path=" + path);
+            nbLogger("FileBucket.remove(), path=" + path, this._service);
             req = new HttpRequest(this._service, path);
+            req._applyCallbackOptions(callbacks);
             req.setMethod("DELETE");
+            req.setResponseCache(this._getResponseCache());
         }
 
         const promise = req.execute().then(response => {
-            nbLogger("FileBucket.remove(), success: " + fileName);
+            nbLogger("FileBucket.remove(), success: " + fileName, this._service);
             return fileName;
         }, err => {
-            nbLogger(("FileBucket.remove(), error: " + (_errorText(err)) + " : " + (fileName)));
+            nbLogger(("FileBucket.remove(), error: " + (_errorText(err)) + " : " + (fileName)), this._service);
             err.data = fileName;
             return Promise.reject(err);
         });
@@ -916,10 +1009,10 @@ export class FileBucket extends BaseBucket {
     }
 
     private _publish(fileName: string, published: boolean, callbacks?: Callbacks): Promise<FileMetadata> {
-        nbLogger("FileBucket._publish(), fileName=" + fileName + ", setFlg=" + published);
+        nbLogger("FileBucket._publish(), fileName=" + fileName + ", setFlg=" + published, this._service);
 
         if (!(typeof fileName !== "undefined" && fileName !== null)) {
-            nbLogger("FileBucket._publish(), Parameter is invalid : fileName");
+            nbLogger("FileBucket._publish(), Parameter is invalid : fileName", this._service);
             throw new Error("No fileName");
         }
 
@@ -934,8 +1027,9 @@ export class FileBucket extends BaseBucket {
             req.setData(body);
         } else {
             const path = this.getDataPath("/" + encodeURIComponent(fileName) + "/publish");
-            nbLogger("FileBucket._publish(), path=" + path);
+            nbLogger("FileBucket._publish(), path=" + path, this._service);
             req = new HttpRequest(this._service, path);
+            req._applyCallbackOptions(callbacks);
 
             if (published) {
                 req.setMethod("PUT");
@@ -945,20 +1039,20 @@ export class FileBucket extends BaseBucket {
         }
 
         const promise = req.execute().then(response => {
-            nbLogger("FileBucket._publish(), success: " + fileName);
+            nbLogger("FileBucket._publish(), success: " + fileName, this._service);
 
             try {
                 const resObj = JSON.parse(response);
                 const metadata = this._createMetadata(resObj);
                 return Promise.resolve(metadata);
             } catch (e) {
-                nbLogger("FileBucket._publish(), success: exception=" + e);
-                const errorResult = _createError(0, "Invalid response from server", e);
+                nbLogger("FileBucket._publish(), success: exception=" + e, this._service);
+                const errorResult = _createInvalidResponseError("Invalid response from server", e);
                 errorResult.data = fileName;
                 return Promise.reject(errorResult);
             }
         }, err => {
-            nbLogger(("FileBucket._publish(), error: " + (_errorText) + " : " + (fileName)));
+            nbLogger(("FileBucket._publish(), error: " + (_errorText) + " : " + (fileName)), this._service);
             err.data = fileName;
             return Promise.reject(err);
         });
@@ -996,7 +1090,7 @@ export class FileBucket extends BaseBucket {
      * </ul>
      */
     publish(fileName: string, callbacks?: Callbacks): Promise<FileMetadata> {
-        nbLogger("FileBucket.publish()");
+        nbLogger("FileBucket.publish()", this._service);
         return this._publish(fileName, true, callbacks);
     }
 
@@ -1027,12 +1121,12 @@ export class FileBucket extends BaseBucket {
      * </ul>
      */
     unpublish(fileName: string, callbacks?: Callbacks): Promise<FileMetadata> {
-        nbLogger("FileBucket.unpublish()");
+        nbLogger("FileBucket.unpublish()", this._service);
         return this._publish(fileName, false, callbacks);
     }
 
     private _getList(published: boolean, deleteMark: boolean, callbacks?: Callbacks): Promise<FileMetadata[]> {
-        nbLogger("FileBucket._getList(), published=" + published);
+        nbLogger("FileBucket._getList(), published=" + published, this._service);
 
         let req: ApiRequest;
         if (this._service.isOffline()) {
@@ -1045,8 +1139,9 @@ export class FileBucket extends BaseBucket {
             req.setData(body);
         } else {
             const path = this.getDataPath();
-            nbLogger("FileBucket._getList(), path=" + path);
+            nbLogger("FileBucket._getList(), path=" + path, this._service);
             req = new HttpRequest(this._service, path);
+            req._applyCallbackOptions(callbacks);
             req.setMethod("GET");
 
             if (published) {
@@ -1059,7 +1154,7 @@ export class FileBucket extends BaseBucket {
         }
 
         const promise = req.execute().then(response => {
-            nbLogger("FileBucket._getList(), success");
+            nbLogger("FileBucket._getList(), success", this._service);
 
             try {
                 const resObj = JSON.parse(response);
@@ -1075,12 +1170,12 @@ export class FileBucket extends BaseBucket {
 
                 return Promise.resolve(metaList);
             } catch (e) {
-                nbLogger("FileBucket._getList(), success: exception=" + e);
-                const errorResult = _createError(0, "Invalid response from server", e);
+                nbLogger("FileBucket._getList(), success: exception=" + e, this._service);
+                const errorResult = _createInvalidResponseError("Invalid response from server", e);
                 return Promise.reject(errorResult);
             }
         }, err => {
-            nbLogger(("FileBucket._getList(), error: " + (_errorText(err))));
+            nbLogger(("FileBucket._getList(), error: " + (_errorText(err))), this._service);
             return Promise.reject(err);
         });
 
@@ -1106,7 +1201,7 @@ export class FileBucket extends BaseBucket {
      * </ul>
      */
     getList(callbacks?: Callbacks): Promise<FileMetadata[]> {
-        nbLogger("FileBucket.getList()");
+        nbLogger("FileBucket.getList()", this._service);
         return this._getList(false, false, callbacks);
     }
 
@@ -1129,7 +1224,7 @@ export class FileBucket extends BaseBucket {
      * </ul>
      */
     getPublishedList(callbacks?: Callbacks): Promise<FileMetadata[]> {
-        nbLogger("FileBucket.getPublishedList()");
+        nbLogger("FileBucket.getPublishedList()", this._service);
         return this._getList(true, false, callbacks);
     }
 
@@ -1160,10 +1255,10 @@ export class FileBucket extends BaseBucket {
      * </ul>
      */
     getMetadata(fileName: string, callbacks?: Callbacks): Promise<FileMetadata> {
-        nbLogger("FileBucket.getMetadata(), fileName=" + fileName);
+        nbLogger("FileBucket.getMetadata(), fileName=" + fileName, this._service);
 
         if (!(typeof fileName !== "undefined" && fileName !== null)) {
-            nbLogger("FileBucket.getMetadata(), Parameter is invalid : fileName");
+            nbLogger("FileBucket.getMetadata(), Parameter is invalid : fileName", this._service);
             throw new Error("No fileName");
         }
 
@@ -1177,26 +1272,27 @@ export class FileBucket extends BaseBucket {
             req.setData(body);
         } else {
             const path = this.getDataPath("/" + encodeURIComponent(fileName) + "/meta");
-            nbLogger("FileBucket.getMetadata(), path=" + path);
+            nbLogger("FileBucket.getMetadata(), path=" + path, this._service);
             req = new HttpRequest(this._service, path);
+            req._applyCallbackOptions(callbacks);
             req.setMethod("GET");
         }
 
         const promise = req.execute().then(response => {
-            nbLogger("FileBucket.getMetadata(), success");
+            nbLogger("FileBucket.getMetadata(), success", this._service);
 
             try {
                 const resObj = JSON.parse(response);
                 const metadata = this._createMetadata(resObj);
                 return Promise.resolve(metadata);
             } catch (e) {
-                nbLogger("FileBucket.getMetadata(), Invalid response : " + response);
-                const errorResult = _createError(0, "Invalid response from server", e);
+                nbLogger("FileBucket.getMetadata(), Invalid response : " + response, this._service);
+                const errorResult = _createInvalidResponseError("Invalid response from server", e);
                 errorResult.data = fileName;
                 return Promise.reject(errorResult);
             }
         }, err => {
-            nbLogger(("FileBucket.getMetadata(), error: " + (_errorText(err))));
+            nbLogger(("FileBucket.getMetadata(), error: " + (_errorText(err))), this._service);
             err.data = fileName;
             return Promise.reject(err);
         });
@@ -1235,15 +1331,15 @@ export class FileBucket extends BaseBucket {
      * </ul>
      */
     updateMetadata(fileName: string, metadata: FileMetadata, callbacks?: Callbacks): Promise<FileMetadata> {
-        nbLogger("FileBucket.updateMetadata(), fileName=" + fileName);
+        nbLogger("FileBucket.updateMetadata(), fileName=" + fileName, this._service);
 
         if (fileName == null || fileName === "") {
-            nbLogger("FileBucket.updateMetadata(), Parameter is invalid : fileName");
+            nbLogger("FileBucket.updateMetadata(), Parameter is invalid : fileName", this._service);
             throw new Error("No fileName");
         }
 
         if (!(metadata instanceof FileMetadata)) {
-            nbLogger("FileBucket.updateMetadata(), Parameter is invalid : metadata");
+            nbLogger("FileBucket.updateMetadata(), Parameter is invalid : metadata", this._service);
             throw new Error("metadata is not instance of FileMetadata");
         }
 
@@ -1256,8 +1352,9 @@ export class FileBucket extends BaseBucket {
             body.cacheDisabled = metadata.isCacheDisabled();
         } else {
             const path = this.getDataPath("/" + encodeURIComponent(fileName) + "/meta");
-            nbLogger("FileBucket.updateMetadata(), path=" + path);
+            nbLogger("FileBucket.updateMetadata(), path=" + path, this._service);
             req = new HttpRequest(this._service, path);
+            req._applyCallbackOptions(callbacks);
             req.setMethod("PUT");
         }
 
@@ -1280,20 +1377,20 @@ export class FileBucket extends BaseBucket {
         req.setData(body);
 
         const promise = req.execute().then(response => {
-            nbLogger("FileBucket.updateMetadata(), success");
+            nbLogger("FileBucket.updateMetadata(), success", this._service);
 
             try {
                 const resObj = JSON.parse(response);
                 metadata._setMetadata(resObj);
                 return Promise.resolve(metadata);
             } catch (e) {
-                nbLogger("FileBucket.updateMetadata(), success: exception=" + e);
-                const errorResult = _createError(0, "Invalid response from server", e);
+                nbLogger("FileBucket.updateMetadata(), success: exception=" + e, this._service);
+                const errorResult = _createInvalidResponseError("Invalid response from server", e);
                 errorResult.data = fileName;
                 return Promise.reject(errorResult);
             }
         }, err => {
-            nbLogger(("FileBucket.updateMetadata(), error: " + (_errorText(err))));
+            nbLogger(("FileBucket.updateMetadata(), error: " + (_errorText(err))), this._service);
             err.data = fileName;
             return Promise.reject(err);
         });
@@ -1305,11 +1402,11 @@ export class FileBucket extends BaseBucket {
 
     private static _checkOfflineService(service: NebulaService) {
         if (service !== Nebula) {
-            nbLogger("ObjectBucket.setSyncScope(): Can't use for multitenant instance");
+            nbLogger("ObjectBucket.setSyncScope(): Can't use for multitenant instance", service);
             throw new Error("No multitenant support");
         }
         if (!service.isOffline()) {
-            nbLogger("ObjectBucket.setSyncScope(), supported offline mode only");
+            nbLogger("ObjectBucket.setSyncScope(), supported offline mode only", service);
             throw new Error("No offline mode enabled");
         }
     }
@@ -1341,7 +1438,7 @@ export class FileBucket extends BaseBucket {
     static selectUploadFile(callbacks?: Callbacks): Promise<FileInfo> { return null; }
 
     protected static _selectUploadFile(service: NebulaService, callbacks?: Callbacks): Promise<FileInfo> {
-        nbLogger("FileBucket.selectUploadFile()");
+        nbLogger("FileBucket.selectUploadFile()", service);
 
         this._checkOfflineService(service);
 
@@ -1352,12 +1449,12 @@ export class FileBucket extends BaseBucket {
                 const resObj = JSON.parse(response);
                 return Promise.resolve(resObj);
             } catch (e) {
-                nbLogger("FileBucket.selectUploadFile(), success: exception=" + e);
-                const errorResult = _createError(0, "Invalid response from server", e);
+                nbLogger("FileBucket.selectUploadFile(), success: exception=" + e, service);
+                const errorResult = _createInvalidResponseError("Invalid response from server", e);
                 return Promise.reject(errorResult);
             }
         }, err => {
-            nbLogger(("FileBucket.selectUploadFile(), error: " + (_errorText(err))));
+            nbLogger(("FileBucket.selectUploadFile(), error: " + (_errorText(err))), service);
             return Promise.reject(err);
         });
 
@@ -1384,7 +1481,7 @@ export class FileBucket extends BaseBucket {
     static selectDirectory(callbacks?: Callbacks): Promise<string> { return null; }
 
     protected static _selectDirectory(service: NebulaService, callbacks?: Callbacks): Promise<string> {
-        nbLogger("FileBucket.selectDirectory()");
+        nbLogger("FileBucket.selectDirectory()", service);
 
         this._checkOfflineService(service);
 
@@ -1395,12 +1492,12 @@ export class FileBucket extends BaseBucket {
                 const resObj = JSON.parse(response);
                 return Promise.resolve(resObj.path);
             } catch (e) {
-                nbLogger("FileBucket.selectUploadFile(), success: exception=" + e);
-                const errorResult = _createError(0, "Invalid response from server", e);
+                nbLogger("FileBucket.selectUploadFile(), success: exception=" + e, service);
+                const errorResult = _createInvalidResponseError("Invalid response from server", e);
                 return Promise.reject(errorResult);
             }
         }, err => {
-            nbLogger(("FileBucket.selectDirectory(), error: " + (_errorText(err))));
+            nbLogger(("FileBucket.selectDirectory(), error: " + (_errorText(err))), service);
             return Promise.reject(err);
         });
 
@@ -1408,25 +1505,25 @@ export class FileBucket extends BaseBucket {
     }
 
     private _uploadFile(fileName: string, filePath: string, metadata: FileMetadata, update: boolean, callbacks?: Callbacks): Promise<FileMetadata> {
-        nbLogger("FileBucket._uploadFile()");
+        nbLogger("FileBucket._uploadFile()", this._service);
 
         if (!this._service.isOffline()) {
-            nbLogger("FileBucket._uploadFile(), only offline mode");
+            nbLogger("FileBucket._uploadFile(), only offline mode", this._service);
             throw new Error("No offline mode enabled");
         }
 
         if (!fileName || fileName === "") {
-            nbLogger("FileBucket._uploadFile(), Parameter is invalid : fileName");
+            nbLogger("FileBucket._uploadFile(), Parameter is invalid : fileName", this._service);
             throw new Error("No fileName");
         }
 
         if (!filePath || filePath === "") {
-            nbLogger("FileBucket._uploadFile(), Parameter is invalid : filePath");
+            nbLogger("FileBucket._uploadFile(), Parameter is invalid : filePath", this._service);
             throw new Error("No filePath");
         }
 
         if (!metadata || !metadata.getContentType() || metadata.getContentType() === "") {
-            nbLogger("FileBucket._uploadFile(), Parameter is invalid : metadata");
+            nbLogger("FileBucket._uploadFile(), Parameter is invalid : metadata", this._service);
             throw new Error("No metadata.contentType");
         }
 
@@ -1464,13 +1561,13 @@ export class FileBucket extends BaseBucket {
                 metadata._setMetadata(resObj);
                 return Promise.resolve(metadata);
             } catch (e) {
-                nbLogger("FileBucket.uploadNewFile(), success: exception=" + e);
-                const errorResult = _createError(0, "Invalid response from server", e);
+                nbLogger("FileBucket.uploadNewFile(), success: exception=" + e, this._service);
+                const errorResult = _createInvalidResponseError("Invalid response from server", e);
                 errorResult.data = fileName;
                 return Promise.reject(errorResult);
             }
         }, err => {
-            nbLogger(("FileBucket.uploadNewFile(), error: " + (_errorText(err))));
+            nbLogger(("FileBucket.uploadNewFile(), error: " + (_errorText(err))), this._service);
             err.data = fileName;
             return Promise.reject(err);
         });
@@ -1524,7 +1621,7 @@ export class FileBucket extends BaseBucket {
      * </ul>
      */
     uploadNewFile(fileName: string, filePath: string, metadata: FileMetadata, callbacks?: Callbacks): Promise<FileMetadata> {
-        nbLogger("FileBucket.uploadNewFile()");
+        nbLogger("FileBucket.uploadNewFile()", this._service);
         return this._uploadFile(fileName, filePath, metadata, false, callbacks);
     }
 
@@ -1574,7 +1671,7 @@ export class FileBucket extends BaseBucket {
      * </ul>
      */
     uploadUpdateFile(fileName: string, filePath: string, metadata: FileMetadata, callbacks?: Callbacks): Promise<FileMetadata> {
-        nbLogger("FileBucket.uploadUpdateFile()");
+        nbLogger("FileBucket.uploadUpdateFile()", this._service);
         return this._uploadFile(fileName, filePath, metadata, true, callbacks);
     }
 
@@ -1608,17 +1705,17 @@ export class FileBucket extends BaseBucket {
      * </ul>
      */
     downloadFile(fileName: string, filePath: string, callbacks?: Callbacks): Promise<string> {
-        nbLogger("FileBucket.downloadFile()");
+        nbLogger("FileBucket.downloadFile()", this._service);
 
         FileBucket._checkOfflineService(this._service);
 
         if (!fileName || fileName === "") {
-            nbLogger("FileBucket.downloadFile(), Parameter is invalid : fileName");
+            nbLogger("FileBucket.downloadFile(), Parameter is invalid : fileName", this._service);
             throw new Error("No fileName");
         }
 
         if (!filePath || filePath === "") {
-            nbLogger("FileBucket.downloadFile(), Parameter is invalid : filePath");
+            nbLogger("FileBucket.downloadFile(), Parameter is invalid : filePath", this._service);
             throw new Error("No filePath");
         }
 
@@ -1633,16 +1730,16 @@ export class FileBucket extends BaseBucket {
         const promise = req.execute().then(response => {
             try {
                 const resObj = JSON.parse(response);
-                nbLogger("FileBucket.downloadFile(), response=" + response);
+                nbLogger("FileBucket.downloadFile(), response=" + response, this._service);
                 return Promise.resolve(fileName);
             } catch (e) {
-                nbLogger("FileBucket.downloadFile(), success: exception=" + e);
-                const errorResult = _createError(0, "Invalid response from server", e);
+                nbLogger("FileBucket.downloadFile(), success: exception=" + e, this._service);
+                const errorResult = _createInvalidResponseError("Invalid response from server", e);
                 errorResult.data = fileName;
                 return Promise.reject(errorResult);
             }
         }, err => {
-            nbLogger(("FileBucket.downloadFile(), error: " + (_errorText(err))));
+            nbLogger(("FileBucket.downloadFile(), error: " + (_errorText(err))), this._service);
             err.data = fileName;
             return Promise.reject(err);
         });
@@ -1688,12 +1785,12 @@ export class FileBucket extends BaseBucket {
      * @private
      */
     requestCancel(fileName: string, callbacks?: Callbacks): Promise<string> {
-        nbLogger("FileBucket.requestCancel()");
+        nbLogger("FileBucket.requestCancel()", this._service);
 
         FileBucket._checkOfflineService(this._service);
 
         if (!(typeof fileName !== "undefined" && fileName !== null) || fileName === "") {
-            nbLogger("FileBucket.requestCancel(), Parameter is invalid : fileName");
+            nbLogger("FileBucket.requestCancel(), Parameter is invalid : fileName", this._service);
             throw new Error("No fileName");
         }
 
@@ -1706,16 +1803,16 @@ export class FileBucket extends BaseBucket {
 
         const promise = req.execute().then(response => {
             try {
-                nbLogger("FileBucket.requestCancel(), response=" + response);
+                nbLogger("FileBucket.requestCancel(), response=" + response, this._service);
                 return Promise.resolve(fileName);
             } catch (e) {
-                nbLogger("FileBucket.requestCancel(), success: exception=" + e);
-                const errorResult = _createError(0, "Invalid response from server", e);
+                nbLogger("FileBucket.requestCancel(), success: exception=" + e, this._service);
+                const errorResult = _createInvalidResponseError("Invalid response from server", e);
                 errorResult.data = fileName;
                 return Promise.reject(errorResult);
             }
         }, err => {
-            nbLogger(("FileBucket.requestCancel(), error: " + (_errorText(err))));
+            nbLogger(("FileBucket.requestCancel(), error: " + (_errorText(err))), this._service);
             err.data = fileName;
             return Promise.reject(err);
         });
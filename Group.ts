@@ -147,7 +147,7 @@ export class Group {
         try {
             jsonObj = JSON.parse(response);
         } catch (undefined) {
-            nbError("Group._setGroupInfo#json error.");
+            nbError("Group._setGroupInfo#json error.", this._service);
             return;
         }
 
@@ -228,7 +228,7 @@ export class Group {
                 this.etag = value as string;
                 break;
             default:
-                nbError("Invalid property: " + property);
+                nbError("Invalid property: " + property, this._service);
                 throw new Error("Invalid property: " + property);
         }
     }
@@ -263,7 +263,7 @@ export class Group {
             case "etag":
                 return this.etag;
             default:
-                nbError("Invalid property: " + property);
+                nbError("Invalid property: " + property, this._service);
                 throw new Error("Invalid property: " + property);
         }
     }
@@ -304,7 +304,7 @@ export class Group {
      * </ul>
      */
     addEntry(entry: User|Group): boolean {
-        nbLogger("Group.addEntry#start");
+        nbLogger("Group.addEntry#start", this._service);
         let _entries: string[] = [];
         let _add: string = null;
 
@@ -329,7 +329,7 @@ export class Group {
             _entries.push(_add);
         }
 
-        nbLogger("Group.addEntry#end");
+        nbLogger("Group.addEntry#end", this._service);
         return true;
     }
 
@@ -369,7 +369,7 @@ export class Group {
      * </ul>
      */
     removeEntry(entry: User|Group): boolean {
-        nbLogger("Group.removeEntry#start");
+        nbLogger("Group.removeEntry#start", this._service);
         let _entries: string[] = [];
         let _remove: string = null;
 
@@ -390,7 +390,7 @@ export class Group {
             }
         }
 
-        nbLogger("Group.removeEntry#end");
+        nbLogger("Group.removeEntry#end", this._service);
         return true;
     }
 
@@ -432,7 +432,7 @@ export class Group {
      * </ul>
      */
     save(callbacks?: Callbacks): Promise<Group> {
-        nbLogger("Group.save#start");
+        nbLogger("Group.save#start", this._service);
 
         if (this.groupname == null) {
             throw new Error("Group.save: no group name");
@@ -450,8 +450,9 @@ export class Group {
             }
         } else {
             const path = "/groups/" + encodeURIComponent(this.groupname);
-            nbLogger("Group.save#REST API Request path = " + path);
+            nbLogger("Group.save#REST API Request path = " + path, this._service);
             request = new HttpRequest(this._service, path);
+            request._applyCallbackOptions(callbacks);
 
             if (this.etag != null) {
                 request.setQueryParam("etag", this.etag);
@@ -471,17 +472,17 @@ export class Group {
         request.setData(saveParams);
 
         const promise = request.execute().then(response => {
-            nbLogger("Group.save#success callback start");
-            nbLogger("Group.save#response = " + response);
+            nbLogger("Group.save#success callback start", this._service);
+            nbLogger("Group.save#response = " + response, this._service);
             this._setGroupInfo(response);
             return this;
         }).catch(error => {
-            nbLogger("Group.save#error callback start");
-            nbLogger(("Group.save#error = " + (_errorText(error))));
+            nbLogger("Group.save#error callback start", this._service);
+            nbLogger(("Group.save#error = " + (_errorText(error))), this._service);
             return Promise.reject(error);
         });
 
-        nbLogger("Group.save#end");
+        nbLogger("Group.save#end", this._service);
         return _promisify(promise, callbacks);
     }
 
@@ -526,7 +527,7 @@ export class Group {
     }
 
     protected _addRemoveMembers(mode: string, userIds: string[], groups: string[], callbacks?: Callbacks): Promise<Group> {
-        nbLogger(`Group.${mode}Members#start`);
+        nbLogger(`Group.${mode}Members#start`, this._service);
 
         if (this.groupname == null) {
             throw new Error("No group name");
@@ -537,6 +538,7 @@ export class Group {
 
         const path = "/groups/" + encodeURIComponent(this.groupname) + `/${mode}Members`;
         const request: ApiRequest  = new HttpRequest(this._service, path);
+        request._applyCallbackOptions(callbacks);
         request.setMethod("PUT");
         request.setContentType("application/json");
 
@@ -547,11 +549,11 @@ export class Group {
         request.setData(body);
 
         const promise = request.execute().then(response => {
-            nbLogger(`Group.${mode}Members#response = ${response}`);
+            nbLogger(`Group.${mode}Members#response = ${response}`, this._service);
             this._setGroupInfo(response);
             return this;
         }).catch(error => {
-            nbLogger(`Group.${mode}Members#error = ${_errorText(error)}`);
+            nbLogger(`Group.${mode}Members#error = ${_errorText(error)}`, this._service);
             return Promise.reject(error);
         });
 
@@ -593,7 +595,7 @@ export class Group {
     }
 
     protected _remove(callbacks?: Callbacks): Promise<void> {
-        nbLogger("Group.remove#start");
+        nbLogger("Group.remove#start", this._service);
 
         let request: ApiRequest;
         if (this._service.isOffline()) {
@@ -611,8 +613,9 @@ export class Group {
             request.setData(deleteParams);
         } else {
             const path = "/groups/" + encodeURIComponent(this.groupname);
-            nbLogger("Group.remove#REST API Request path = " + path);
+            nbLogger("Group.remove#REST API Request path = " + path, this._service);
             request = new HttpRequest(this._service, path);
+            request._applyCallbackOptions(callbacks);
 
             const etag = this.etag;
             if (etag != null) {
@@ -623,16 +626,16 @@ export class Group {
         }
 
         const promise = request.execute().then(response => {
-            nbLogger("Group.remove#success callback start");
-            nbLogger("Group.remove#response = " + response);
+            nbLogger("Group.remove#success callback start", this._service);
+            nbLogger("Group.remove#response = " + response, this._service);
             return;
         }).catch(error => {
-            nbLogger("Group.remove#error callback start");
-            nbLogger(("Group.remove#error = " + (_errorText(error))));
+            nbLogger("Group.remove#error callback start", this._service);
+            nbLogger(("Group.remove#error = " + (_errorText(error))), this._service);
             return Promise.reject(error);
         });
 
-        nbLogger("Group.remove#end");
+        nbLogger("Group.remove#end", this._service);
         return _promisify(promise, callbacks);
     }
 
@@ -675,7 +678,7 @@ export class Group {
     static query(conditions: GroupQuery, callbacks?: Callbacks): Promise<Group[]> { return null; }
 
     protected static _query(service: NebulaService, conditions: GroupQuery, callbacks?: Callbacks): Promise<Group[]> {
-        nbLogger("Group.query#start");
+        nbLogger("Group.query#start", service);
         let groupname = null;
         if (conditions != null) {
             if (conditions.groupname != null) {
@@ -702,14 +705,15 @@ export class Group {
                 path = "/groups";
             }
 
-            nbLogger("Group.query#REST API Request path = " + path);
+            nbLogger("Group.query#REST API Request path = " + path, service);
             request = new HttpRequest(service, path);
+            request._applyCallbackOptions(callbacks);
             request.setMethod("GET");
             request.setContentType("application/json");
         }
 
         const promise = request.execute().then(response => {
-            nbLogger("Group.query#response = " + response);
+            nbLogger("Group.query#response = " + response, service);
             const obj: JsonObject = JSON.parse(response);
             let objArray: JsonObject[] = [];
             const groupArray: Group[] = [];
@@ -728,11 +732,11 @@ export class Group {
 
             return groupArray;
         }).catch(error => {
-            nbLogger(("Group.query#error = " + (_errorText(error))));
+            nbLogger(("Group.query#error = " + (_errorText(error))), service);
             return Promise.reject(error);
         });
 
-        nbLogger("Group.query#end");
+        nbLogger("Group.query#end", service);
         return _promisify(promise, callbacks);
     }
 }
@@ -0,0 +1,386 @@
+import {nbError} from "./Head";
+import {_redactHeaderValue, _redactText} from "./Logger";
+import {fs} from "./NodeSupport";
+import {_RequestTimer} from "./Timeout";
+import {_getHeaderValue, Headers} from "./HttpRequest";
+import {HttpRequestContext} from "./HttpInterceptor";
+import {NebulaService} from "./NebulaService";
+
+import {Promise} from "es6-promise";
+import {Buffer} from "buffer";
+
+/**
+ * HAR 記録のオプション
+ */
+export interface HarCaptureOptions {
+    /** 保持する最大エントリ数。超えた場合は古いものから削除する。デフォルトは 1000 */
+    maxEntries?: number;
+    /** 記録するボディの最大サイズ(バイト)。超えた部分は切り捨てる。0 の場合はボディを記録しない。デフォルトは 65536 */
+    maxBodySize?: number;
+}
+
+/**
+ * HAR 1.2 のエントリ
+ */
+export interface HarEntry {
+    startedDateTime: string;
+    time: number;
+    request: {[key: string]: any};
+    response: {[key: string]: any};
+    cache: {[key: string]: any};
+    timings: {[key: string]: number};
+    /** 通信エラー時のエラーメッセージ (独自フィールド) */
+    _error?: string;
+}
+
+/**
+ * HAR 1.2 ドキュメント
+ */
+export interface HarDocument {
+    log: {
+        version: string;
+        creator: {name: string, version: string};
+        entries: HarEntry[];
+    };
+}
+
+// HAR の creator。バージョンは Prefix.js の SDK バージョンと合わせること
+const HAR_CREATOR = {name: "@nec-baas/jssdk", version: "7.5.2"};
+
+const DEFAULT_HAR_CAPTURE_OPTIONS: HarCaptureOptions = {
+    maxEntries: 1000,
+    maxBodySize: 64 * 1024
+};
+
+/**
+ * @description HAR 記録のオプションの未指定項目にデフォルト値を設定する
+ * @param {HarCaptureOptions} options オプション
+ * @return {HarCaptureOptions} オプション
+ * @private
+ */
+export const _normalizeHarCaptureOptions = (options: HarCaptureOptions): HarCaptureOptions => {
+    const result: HarCaptureOptions = {};
+    for (const key of Object.keys(DEFAULT_HAR_CAPTURE_OPTIONS)) {
+        const value = (options != null) ? (options as any)[key] : undefined;
+        (result as any)[key] = (value !== undefined) ? value : (DEFAULT_HAR_CAPTURE_OPTIONS as any)[key];
+    }
+    return result;
+};
+
+/**
+ * @class HarRecorder
+ * @classdesc HAR 記録クラス。NebulaService 毎に保持する。
+ * <p>
+ * 記録中は、本サービスが送信したリクエストと応答(タイミング、ヘッダ、ボディ)を記録し、
+ * HAR 1.2 形式で出力する。リトライした場合は試行毎に記録される。
+ * <p>
+ * セッショントークン、アプリケーションキー、パスワード等の秘匿情報はマスクされる。
+ * ボディは maxBodySize までを記録し、Blob・ストリームの内容は記録しない。
+ * @example
+ * Nebula.getHarRecorder().start({maxBodySize: 4096});
+ * ....
+ * // Node.js
+ * Nebula.getHarRecorder().save("/tmp/nebula.har");
+ * // ブラウザ
+ * var blob = new Blob([Nebula.getHarRecorder().export()], {type: "application/json"});
+ */
+export class HarRecorder {
+    private _service: NebulaService;
+    private _options: HarCaptureOptions;
+    private _recording = false;
+    private _entries: HarEntry[] = [];
+
+    /**
+     * @param {NebulaService} service サービス
+     * @private
+     */
+    constructor(service: NebulaService) {
+        this._service = service;
+        this._options = _normalizeHarCaptureOptions(null);
+    }
+
+    /**
+     * @memberOf HarRecorder
+     * @description 記録を開始する。記録済みのエントリは保持される。
+     * @param {Object} options オプション。以下のプロパティを指定する(いずれも省略可)。
+     * <ul>
+     *   <li>maxEntries (number) : 保持する最大エントリ数。超えた場合は古いものから削除する。デフォルトは 1000</li>
+     *   <li>maxBodySize (number) : 記録するボディの最大サイズ(バイト)。0 の場合はボディを記録しない。デフォルトは 65536</li>
+     * </ul>
+     * @return {HarRecorder} this
+     */
+    start(options?: HarCaptureOptions): HarRecorder {
+        this._options = _normalizeHarCaptureOptions(options);
+        this._recording = true;
+        return this;
+    }
+
+    /**
+     * @memberOf HarRecorder
+     * @description 記録を停止する。記録済みのエントリは保持される。
+     * @return {HarRecorder} this
+     */
+    stop(): HarRecorder {
+        this._recording = false;
+        return this;
+    }
+
+    /**
+     * @memberOf HarRecorder
+     * @description 記録中か調べる
+     * @return {boolean} 記録中の場合は true
+     */
+    isRecording(): boolean {
+        return this._recording;
+    }
+
+    /**
+     * @memberOf HarRecorder
+     * @description 記録済みのエントリを削除する
+     * @return {HarRecorder} this
+     */
+    clear(): HarRecorder {
+        this._entries = [];
+        return this;
+    }
+
+    /**
+     * @memberOf HarRecorder
+     * @description 記録済みのエントリを返却する
+     * @return {Object[]} エントリ (HAR 1.2 の entries)
+     */
+    getEntries(): HarEntry[] {
+        return this._entries.slice();
+    }
+
+    /**
+     * @memberOf HarRecorder
+     * @description HAR 1.2 ドキュメントを返却する
+     * @return {Object} HAR ドキュメント
+     */
+    toHar(): HarDocument {
+        return {
+            log: {
+                version: "1.2",
+                creator: HAR_CREATOR,
+                entries: this.getEntries()
+            }
+        };
+    }
+
+    /**
+     * @memberOf HarRecorder
+     * @description HAR 1.2 ドキュメントを JSON 文字列で返却する
+     * @return {string} HAR ドキュメント
+     */
+    export(): string {
+        return JSON.stringify(this.toHar(), null, 2);
+    }
+
+    /**
+     * @memberOf HarRecorder
+     * @description HAR 1.2 ドキュメントをファイルに保存する。Node.js でのみ使用できる。
+     * @param {string} path ファイルのパス
+     * @return {Promise} Promise
+     */
+    save(path: string): Promise<void> {
+        if (fs == null) {
+            return Promise.reject(new Error("No file system support"));
+        }
+        const data = this.export();
+        return new Promise<void>((resolve, reject) => {
+            fs.writeFile(path, data, "utf8", (err: any) => err ? reject(err) : resolve());
+        });
+    }
+
+    /**
+     * リクエストの結果を記録する
+     * @param {HttpRequestContext} context リクエストコンテキスト
+     * @param {_RequestTimer} timer リクエストのタイマ (タイミングの算出に使用)
+     * @param {boolean} http2 HTTP/2 を使用した場合は true
+     * @param {number} status ステータスコード。不明な場合は null
+     * @param {Object} headers レスポンスヘッダ
+     * @param response 応答 (成功時)
+     * @param error エラー (失敗時)
+     * @private
+     */
+    _record(context: HttpRequestContext, timer: _RequestTimer, http2: boolean, status: number,
+            headers: {[name: string]: any}, response: any, error: any): void {
+        if (!this._recording) {
+            return;
+        }
+        try {
+            this._push(this._createEntry(context, timer, http2, status, headers, response, error));
+        } catch (e) {
+            nbError("HarRecorder: record failed: " + e, this._service);
+        }
+    }
+
+    private _push(entry: HarEntry): void {
+        this._entries.push(entry);
+        const overflow = this._entries.length - this._options.maxEntries;
+        if (overflow > 0) {
+            this._entries.splice(0, overflow);
+        }
+    }
+
+    private _createEntry(context: HttpRequestContext, timer: _RequestTimer, http2: boolean, status: number,
+                         headers: {[name: string]: any}, response: any, error: any): HarEntry {
+        const httpVersion = http2 ? "HTTP/2.0" : "HTTP/1.1";
+        const startedAt = (timer.startedAt != null) ? timer.startedAt : Date.now();
+        const endedAt = Date.now();
+        const url = _redactText(context.url);
+
+        const requestBody = this._content(context.body, _getHeaderValue(context.headers, "Content-Type"));
+        const request: {[key: string]: any} = {
+            method: context.method,
+            url,
+            httpVersion,
+            cookies: [] as any[],
+            headers: _harHeaders(context.headers),
+            queryString: _harQueryString(url),
+            headersSize: -1,
+            bodySize: (requestBody != null) ? requestBody.size : 0
+        };
+        if (requestBody != null) {
+            request.postData = {mimeType: requestBody.mimeType, text: requestBody.text || ""};
+            if (requestBody.comment != null) {
+                request.postData.comment = requestBody.comment;
+            }
+        }
+
+        const responseHeaders = headers || {};
+        const mimeType = _getHeaderValue(responseHeaders as Headers, "Content-Type") || "";
+        let content: {[key: string]: any};
+        if (error != null) {
+            if (status == null && error.status > 0) {
+                status = error.status;
+            }
+            content = this._content(error.responseText || null, mimeType) || {size: 0, mimeType};
+        } else {
+            content = this._content(response, mimeType) || {size: 0, mimeType};
+        }
+
+        // 接続・応答開始を検知できなかった場合は、全体を wait とする
+        const respondedAt = (timer.respondedAt != null) ? timer.respondedAt : endedAt;
+        const connectedAt = (timer.connectedAt != null) ? timer.connectedAt : null;
+        const entry: HarEntry = {
+            startedDateTime: new Date(startedAt).toISOString(),
+            time: endedAt - startedAt,
+            request,
+            response: {
+                status: (status != null) ? status : 0,
+                statusText: (error != null && error.statusText) ? error.statusText : "",
+                httpVersion,
+                cookies: [] as any[],
+                headers: _harHeaders(responseHeaders),
+                content,
+                redirectURL: "",
+                headersSize: -1,
+                bodySize: (content.size >= 0) ? content.size : -1
+            },
+            cache: {},
+            timings: {
+                blocked: -1,
+                dns: -1,
+                connect: (connectedAt != null) ? connectedAt - startedAt : -1,
+                send: 0,
+                wait: respondedAt - ((connectedAt != null) ? connectedAt : startedAt),
+                receive: endedAt - respondedAt,
+                ssl: -1
+            }
+        };
+        if (error != null) {
+            entry._error = _redactText(String(error.message || error));
+        }
+        return entry;
+    }
+
+    /**
+     * ボディを HAR の content 形式に変換する。秘匿情報はマスクし、maxBodySize を超えた部分は切り捨てる。
+     * @return content。ボディがない場合は null
+     */
+    private _content(body: any, mimeType: string): {[key: string]: any} {
+        if (body == null) {
+            return null;
+        }
+        if (body.body !== undefined && body.headers !== undefined && body.status !== undefined) {
+            // receiveResponseHeaders 指定時の応答
+            body = body.body;
+        }
+
+        const max = this._options.maxBodySize;
+        const content: {[key: string]: any} = {size: -1, mimeType: mimeType || ""};
+        if (typeof body === "string") {
+            content.size = Buffer.byteLength(body);
+            if (max > 0) {
+                content.text = _redactText(body.length > max ? body.slice(0, max) : body);
+            }
+        } else if (typeof Buffer !== "undefined" && Buffer.isBuffer(body)) {
+            content.size = body.length;
+            if (max > 0) {
+                content.text = body.slice(0, max).toString("base64");
+                content.encoding = "base64";
+            }
+        } else if (typeof Blob !== "undefined" && body instanceof Blob) {
+            content.size = body.size;
+            content.comment = "Blob content is not recorded";
+            return content;
+        } else if (typeof body === "object" && (typeof body.pipe === "function" || typeof body.getReader === "function" ||
+            Object.getPrototypeOf(body) !== Object.prototype && !Array.isArray(body))) {
+            // ストリーム等
+            content.comment = "Stream content is not recorded";
+            return content;
+        } else {
+            const text = JSON.stringify(body);
+            content.size = Buffer.byteLength(text);
+            if (max > 0) {
+                content.text = _redactText(text.length > max ? text.slice(0, max) : text);
+            }
+        }
+        if (max > 0 && content.size > max) {
+            content.comment = "Truncated to " + max + " bytes";
+        }
+        return content;
+    }
+}
+
+/**
+ * @description ヘッダを HAR の形式に変換する。秘匿情報はマスクする。
+ * @private
+ */
+const _harHeaders = (headers: {[name: string]: any}): Array<{name: string, value: string}> => {
+    const result: Array<{name: string, value: string}> = [];
+    for (const name of Object.keys(headers || {})) {
+        if (name.charAt(0) === ":") {
+            // HTTP/2 の疑似ヘッダ
+            continue;
+        }
+        const values = Array.isArray(headers[name]) ? headers[name] : [headers[name]];
+        for (const value of values) {
+            result.push({name, value: _redactHeaderValue(name, String(value))});
+        }
+    }
+    return result;
+};
+
+/**
+ * @description URL のクエリパラメータを HAR の形式に変換する
+ * @private
+ */
+const _harQueryString = (url: string): Array<{name: string, value: string}> => {
+    const index = url.indexOf("?");
+    if (index < 0) {
+        return [];
+    }
+    return url.slice(index + 1).split("&").filter((param) => param !== "").map((param) => {
+        const eq = param.indexOf("=");
+        const name = (eq >= 0) ? param.slice(0, eq) : param;
+        const value = (eq >= 0) ? param.slice(eq + 1) : "";
+        try {
+            return {name: decodeURIComponent(name), value: decodeURIComponent(value)};
+        } catch (e) {
+            return {name, value};
+        }
+    });
+};
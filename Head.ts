@@ -1,4 +1,8 @@
 import {Nebula} from "./Nebula";
+import {NebulaService} from "./NebulaService";
+import {_redactText, Logger} from "./Logger";
+import {_getErrorClass, CancelledError, InvalidResponseError, LocalError, TimeoutError} from "./Errors";
+import {TimeoutOptions} from "./Timeout";
 import {Promise} from "es6-promise";
 
 interface Window { XMLHttpRequest: XMLHttpRequest; }
@@ -30,29 +34,85 @@ export interface JsonArray extends Array<AnyJson> {}
  *    "responseText"  : レスポンスメッセージ
  * }
  * </pre>
+ * @property {AbortSignal} signal 通信のキャンセルに使用する AbortSignal (省略可)。<br>
+ * abort された場合、通信は中断され name が "AbortError" のエラーで失敗する。
+ * success, error を省略して signal のみを指定した場合は、非同期 API は Promise を返却する。
+ * @property {function} progress 転送の進捗通知コールバック (省略可)。<br>
+ * FileBucket のファイル保存・読み込み、CustomApi の呼び出しで有効。引数は {@link TransferProgress} となる。
+ * @property {string} priority リクエストの優先度 (省略可)。"interactive"(デフォルト) または "background"。<br>
+ * 最大同時リクエスト数を設定している場合に有効。詳細は {@link NebulaService#setMaxConcurrentRequests} を参照。
+ * @property {number|Object} timeout タイムアウト (省略可)。数値の場合は全体の制限時間(ミリ秒)。<br>
+ * connect, firstByte, total を指定した Object も指定できる。詳細は {@link NebulaService#setTimeoutOptions} を参照。
  */
 export interface Callbacks {
     success?(data: any): void;
     error?(error: Error): void;
+    signal?: AbortSignalLike;
+    progress?(progress: TransferProgress): void;
+    priority?: string;
+    timeout?: number | TimeoutOptions;
 }
 
+/**
+ * 転送の進捗情報
+ */
+export interface TransferProgress {
+    /** "upload" または "download" */
+    type: string;
+    /** 転送済みのバイト数 */
+    loaded: number;
+    /** 全体のバイト数。不明な場合は null */
+    total: number;
+    /** 転送開始からの平均転送速度(バイト/秒) */
+    rate: number;
+}
+
+/**
+ * AbortSignal 互換オブジェクト
+ */
+export interface AbortSignalLike {
+    readonly aborted: boolean;
+    addEventListener(type: "abort", listener: () => void): void;
+    removeEventListener(type: "abort", listener: () => void): void;
+}
+
+/**
+ * @description ログ出力に使用するロガーを返却する
+ * @param {NebulaService} service NebulaService。省略時は Nebula
+ * @private
+ */
+const _getLogger = (service: NebulaService): Logger => {
+    const target = service || Nebula;
+    return (target != null) ? target.getLogger() : null;
+};
+
 /**
  * @description エラーログを出力する
+ * @param {string} message メッセージ
+ * @param {NebulaService} service 出力先の NebulaService。省略時は Nebula
+ * @param {Object} fields 付加情報 (省略可)
  * @private
  */
-export const nbError = (message: string) => {
-    if (typeof console !== "undefined") {
-        console.log("[BAAS ERROR] : " + message);
+export const nbError = (message: string, service?: NebulaService, fields?: {[name: string]: any}) => {
+    const logger = _getLogger(service);
+    if (logger != null) {
+        logger.error(message, fields);
+    } else if (typeof console !== "undefined") {
+        console.log("[BAAS ERROR] : " + _redactText(message));
     }
 };
 
 /**
  * @description ログを出力する
+ * @param {string} message メッセージ
+ * @param {NebulaService} service 出力先の NebulaService。省略時は Nebula
+ * @param {Object} fields 付加情報 (省略可)
  * @private
  */
-export const nbLogger = (message: string) => {
-    if (Nebula.getDebugMode() === "debug" && typeof console !== "undefined") {
-        console.log("[BAAS] : " + message);
+export const nbLogger = (message: string, service?: NebulaService, fields?: {[name: string]: any}) => {
+    const logger = _getLogger(service);
+    if (logger != null) {
+        logger.debug(message, fields);
     }
 };
 
@@ -80,7 +140,7 @@ export const _doBadRequestCallback = (callbacks: Callbacks, name: string): Promi
  * @private
  */
 export const _promisify = (promise: Promise<any>, callbacks?: Callbacks): Promise<any> => {
-    if (callbacks) {
+    if (callbacks && (callbacks.success || callbacks.error)) {
         promise.then((arg) => {
             if (callbacks.success) {
                 callbacks.success(arg);
@@ -124,20 +184,76 @@ export interface NbError extends Error {
  * @param statusText ステータステキスト
  * @param responseText レスポンステキスト
  * @param data データ(あれば)
- * @returns {any} エラーオブジェクト
+ * @returns {NbError} エラーオブジェクト。ステータスコードに応じた NebulaError のサブクラスとなる
  * @private
  */
 export const _createError = (status: number, statusText: string, responseText: string, data?: any): NbError => {
-    const error: NbError = new Error(`${statusText}(${status})`) as NbError;
-    error.status = status;
-    error.statusText = statusText;
-    error.responseText = responseText;
-    if (data) {
-        error.data = data;
+    const errorClass = _getErrorClass(status);
+    return new errorClass(status, statusText, responseText, data);
+};
+
+/**
+ * @description キャンセル時のエラーオブジェクトを返す
+ * @returns {NbError} エラーオブジェクト(CancelledError)。name は "AbortError" となる。
+ * @private
+ */
+export const _createAbortError = (): NbError => {
+    return new CancelledError(0, "Request aborted", "The request was aborted.");
+};
+
+/**
+ * @description タイムアウト時のエラーオブジェクトを返す
+ * @param {string} responseText 詳細メッセージ
+ * @param {string} phase タイムアウトの種別 ("connect", "firstByte", "total")。省略時は null
+ * @returns {NbError} エラーオブジェクト(TimeoutError)
+ * @private
+ */
+export const _createTimeoutError = (responseText: string, phase?: string): NbError => {
+    const error = new TimeoutError(0, "Timeout error", responseText);
+    if (phase != null) {
+        error.phase = phase;
     }
     return error;
 };
 
+/**
+ * @description サーバの応答が不正な場合のエラーオブジェクトを返す
+ * @param statusText ステータステキスト
+ * @param responseText レスポンステキスト
+ * @param data データ(あれば)
+ * @returns {NbError} エラーオブジェクト(InvalidResponseError)
+ * @private
+ */
+export const _createInvalidResponseError = (statusText: string, responseText: string, data?: any): NbError => {
+    return new InvalidResponseError(0, statusText, responseText, data);
+};
+
+/**
+ * @description 通信以外の要因(設定の不正等)で失敗した場合のエラーオブジェクトを返す
+ * @param statusText ステータステキスト
+ * @param responseText レスポンステキスト
+ * @returns {NbError} エラーオブジェクト(LocalError)。status は 0
+ * @private
+ */
+export const _createLocalError = (statusText: string, responseText: string): NbError => {
+    return new LocalError(0, statusText, responseText);
+};
+
+/**
+ * @description AbortSignal に abort リスナを登録する
+ * @param {AbortSignalLike} signal AbortSignal。null の場合は何もしない。
+ * @param {function} listener リスナ
+ * @returns {function} リスナの登録を解除する関数
+ * @private
+ */
+export const _onAbort = (signal: AbortSignalLike, listener: () => void): () => void => {
+    if (signal == null) {
+        return () => undefined;
+    }
+    signal.addEventListener("abort", listener);
+    return () => signal.removeEventListener("abort", listener);
+};
+
 /**
  * @private
  */
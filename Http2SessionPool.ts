@@ -0,0 +1,611 @@
+import {nbError, nbLogger} from "./Head";
+import {crypto} from "./NodeSupport";
+import {NebulaService} from "./NebulaService";
+
+import {ClientHttp2Session} from "http2";
+
+/**
+ * HTTP/2 セッション管理オプション
+ */
+export interface Http2SessionOptions {
+    /** ストリームが存在しない状態でセッションを維持する時間(ミリ秒)。0 の場合はクローズしない。デフォルトは 300000 */
+    idleTimeout?: number;
+    /** PING によるヘルスチェック間隔(ミリ秒)。0 の場合はヘルスチェックしない。デフォルトは 60000 */
+    pingInterval?: number;
+    /** PING 応答の待ち時間(ミリ秒)。超過した場合はセッションを破棄する。デフォルトは 10000 */
+    pingTimeout?: number;
+    /** セッション毎の最大同時ストリーム数。超過したリクエストは待ち合わせる。デフォルトは 100 */
+    maxConcurrentStreams?: number;
+}
+
+/**
+ * HTTP/2 セッション統計情報
+ */
+export interface Http2SessionStats {
+    /** 接続先 (例: "https://example.com:443") */
+    authority: string;
+    /** セッション生成日時(エポックミリ秒) */
+    createdAt: number;
+    /** 実行中のストリーム数 */
+    activeStreams: number;
+    /** 待ち合わせ中のリクエスト数 */
+    queuedStreams: number;
+    /** 本セッションで生成したストリームの総数 */
+    totalStreams: number;
+    /** 最大同時ストリーム数(サーバ設定値を考慮した値) */
+    maxConcurrentStreams: number;
+    /** 成功した PING の回数 */
+    pingCount: number;
+    /** 直近の PING の往復時間(ミリ秒)。未計測の場合は null */
+    lastPingRtt: number;
+    /** 接続先で受信した GOAWAY の回数 */
+    goawayCount: number;
+    /** 接続先で異常切断 (通信エラー、PING 失敗) 後に再接続した回数。GOAWAY 受信後の接続は含まない */
+    reconnectCount: number;
+}
+
+const DEFAULT_HTTP2_SESSION_OPTIONS: Http2SessionOptions = {
+    idleTimeout: 300000,
+    pingInterval: 60000,
+    pingTimeout: 10000,
+    maxConcurrentStreams: 100
+};
+
+/**
+ * @description HTTP/2 セッション管理オプションの未指定項目にデフォルト値を設定する
+ * @param {Http2SessionOptions} options オプション
+ * @return {Http2SessionOptions} オプション
+ * @private
+ */
+export const _normalizeHttp2SessionOptions = (options: Http2SessionOptions): Http2SessionOptions => {
+    const result: Http2SessionOptions = {};
+    for (const key of Object.keys(DEFAULT_HTTP2_SESSION_OPTIONS)) {
+        const value = (options != null) ? (options as any)[key] : undefined;
+        (result as any)[key] = (value !== undefined) ? value : (DEFAULT_HTTP2_SESSION_OPTIONS as any)[key];
+    }
+    return result;
+};
+
+/**
+ * ストリーム開始待ちのリクエスト
+ * @private
+ */
+interface Http2StreamWaiter {
+    authority: string;
+    key: string;
+    connect: () => ClientHttp2Session;
+    options: Http2SessionOptions;
+    start: (session: ClientHttp2Session, release: () => void) => void;
+    cancelled: boolean;
+    /** 要求したサービス。ログの出力に使用する */
+    service: NebulaService;
+}
+
+/**
+ * タイマを解放する。Node.js ではタイマがプロセスの終了を妨げないようにする。
+ * @private
+ */
+const _unrefTimer = (timer: any): any => {
+    if (timer != null && typeof timer.unref === "function") {
+        timer.unref();
+    }
+    return timer;
+};
+
+/**
+ * @class HTTP/2 セッション (Node.js 専用)
+ * <p>
+ * アイドルタイムアウト、PING によるヘルスチェック、同時ストリーム数の制限を行う。
+ * @private
+ */
+export class _Http2SessionEntry {
+    readonly authority: string;
+    /** プール内のキー */
+    readonly key: string;
+    readonly session: ClientHttp2Session;
+    /** セッションを生成したサービス。ログの出力に使用する */
+    readonly service: NebulaService;
+    private _pool: _Http2SessionPool;
+    private _options: Http2SessionOptions;
+    private _createdAt = Date.now();
+    private _activeStreams = 0;
+    private _totalStreams = 0;
+    private _pingCount = 0;
+    private _lastPingRtt: number = null;
+    private _waiters: Http2StreamWaiter[] = [];
+    private _draining = false;
+    private _closed = false;
+    private _idleTimer: any = null;
+    private _pingTimer: any = null;
+
+    constructor(pool: _Http2SessionPool, authority: string, key: string, session: ClientHttp2Session, options: Http2SessionOptions,
+                service: NebulaService) {
+        this._pool = pool;
+        this.authority = authority;
+        this.key = key;
+        this.session = session;
+        this.service = service;
+        this._options = _normalizeHttp2SessionOptions(options);
+
+        session.on('goaway', (errorCode: number) => {
+            nbLogger('HTTP/2 session [' + authority + '] received GOAWAY: code=' + errorCode, service);
+            this._pool._onGoaway(this);
+            this._drain();
+        });
+        session.on('error', (e: Error) => {
+            nbError('HTTP/2 session [' + authority + '] error: ' + e.toString(), service);
+            this._pool._onLost(this);
+        });
+        session.on('close', () => {
+            this._onClose();
+        });
+        session.on('remoteSettings', () => {
+            this._startWaiters();
+        });
+
+        this._startPing();
+        this._startIdleTimer();
+    }
+
+    /**
+     * 新規ストリームに使用できる状態か判定する
+     * @return {boolean}
+     */
+    isAvailable(): boolean {
+        return !this._draining && !this._closed && !this.session.destroyed && !this.session.closed;
+    }
+
+    /**
+     * 最大同時ストリーム数を返却する。サーバの SETTINGS を考慮する。
+     * @return {number}
+     */
+    getMaxConcurrentStreams(): number {
+        let max = this._options.maxConcurrentStreams;
+        if (!(max > 0)) {
+            max = Infinity;
+        }
+        const remote = this.session.remoteSettings;
+        if (remote != null && remote.maxConcurrentStreams != null && remote.maxConcurrentStreams > 0) {
+            max = Math.min(max, remote.maxConcurrentStreams);
+        }
+        return max;
+    }
+
+    /**
+     * ストリームの開始を要求する。同時ストリーム数が上限に達している場合は待ち合わせる。
+     * @param {Http2StreamWaiter} waiter 要求
+     */
+    enqueue(waiter: Http2StreamWaiter): void {
+        this._waiters.push(waiter);
+        this._startWaiters();
+    }
+
+    /**
+     * セッションをクローズする。実行中のストリームは完了まで継続する。
+     * @param {function} callback クローズ完了後のコールバック
+     */
+    close(callback?: () => void): void {
+        this._draining = true;
+        this._clearTimers();
+        this._closeSession(callback);
+    }
+
+    /**
+     * 統計情報を返却する
+     * @return {Http2SessionStats}
+     */
+    getStats(): Http2SessionStats {
+        return {
+            authority: this.authority,
+            createdAt: this._createdAt,
+            activeStreams: this._activeStreams,
+            queuedStreams: this._waiters.length,
+            totalStreams: this._totalStreams,
+            maxConcurrentStreams: this.getMaxConcurrentStreams(),
+            pingCount: this._pingCount,
+            lastPingRtt: this._lastPingRtt,
+            goawayCount: this._pool._getGoawayCount(this.authority),
+            reconnectCount: this._pool._getReconnectCount(this.authority)
+        };
+    }
+
+    private _startWaiters(): void {
+        while (this._waiters.length > 0) {
+            if (!this.isAvailable()) {
+                // 新しいセッションで再実行する
+                const waiters = this._waiters;
+                this._waiters = [];
+                for (const waiter of waiters) {
+                    this._pool._dispatch(waiter);
+                }
+                return;
+            }
+            if (this._activeStreams >= this.getMaxConcurrentStreams()) {
+                return;
+            }
+
+            const waiter = this._waiters.shift();
+            if (waiter.cancelled) {
+                continue;
+            }
+            this._startStream(waiter);
+        }
+    }
+
+    private _startStream(waiter: Http2StreamWaiter): void {
+        this._activeStreams++;
+        this._totalStreams++;
+        this._clearIdleTimer();
+
+        let released = false;
+        const release = () => {
+            if (released) {
+                return;
+            }
+            released = true;
+            this._activeStreams--;
+            this._startWaiters();
+            this._onStreamsChanged();
+        };
+
+        waiter.start(this.session, release);
+    }
+
+    private _onStreamsChanged(): void {
+        if (this._activeStreams > 0 || this._waiters.length > 0) {
+            return;
+        }
+        if (this._draining) {
+            this.close();
+        } else {
+            this._startIdleTimer();
+        }
+    }
+
+    /**
+     * 新規ストリームの受付を停止し、実行中のストリーム完了後にクローズする
+     */
+    private _drain(): void {
+        if (this._draining) {
+            return;
+        }
+        this._draining = true;
+        this._startWaiters();
+        this._onStreamsChanged();
+    }
+
+    private _onClose(): void {
+        if (this._closed) {
+            return;
+        }
+        this._closed = true;
+        this._clearTimers();
+        this._pool._remove(this);
+        this._startWaiters();
+        nbLogger('HTTP/2 session [' + this.authority + '] has been closed', this.service);
+    }
+
+    private _closeSession(callback?: () => void): void {
+        const session: any = this.session;
+        if (session.destroyed || session.closed) {
+            if (callback) {
+                callback();
+            }
+            return;
+        }
+        if ('close' in session) {
+            session.close(callback); // for v8.11.2+
+        } else if ('shutdown' in session) {
+            session.shutdown({'graceful': true}, callback); // for v8.4. shutdown() is removed at v8.11.2
+        } else {
+            // fail safe
+            session.destroy();
+            if (callback) {
+                callback();
+            }
+        }
+    }
+
+    private _startIdleTimer(): void {
+        this._clearIdleTimer();
+        const timeout = this._options.idleTimeout;
+        if (!(timeout > 0) || this._activeStreams > 0) {
+            return;
+        }
+        this._idleTimer = _unrefTimer(setTimeout(() => {
+            this._idleTimer = null;
+            nbLogger('HTTP/2 session [' + this.authority + '] is idle, going to close', this.service);
+            this._pool._remove(this);
+            this.close();
+        }, timeout));
+    }
+
+    private _clearIdleTimer(): void {
+        if (this._idleTimer != null) {
+            clearTimeout(this._idleTimer);
+            this._idleTimer = null;
+        }
+    }
+
+    private _startPing(): void {
+        const interval = this._options.pingInterval;
+        if (!(interval > 0) || typeof this.session.ping !== "function") {
+            return;
+        }
+        this._pingTimer = _unrefTimer(setInterval(() => this._ping(), interval));
+    }
+
+    /**
+     * PING を送信し、応答がない場合はセッションを破棄する
+     */
+    private _ping(): void {
+        if (this._closed || this.session.destroyed) {
+            return;
+        }
+
+        let answered = false;
+        const timer = _unrefTimer(setTimeout(() => {
+            if (!answered) {
+                nbError('HTTP/2 session [' + this.authority + '] PING timeout', this.service);
+                this._destroy();
+            }
+        }, this._options.pingTimeout));
+
+        try {
+            this.session.ping((err: Error, duration: number) => {
+                answered = true;
+                clearTimeout(timer);
+                if (err != null) {
+                    if (!this._closed) {
+                        nbError('HTTP/2 session [' + this.authority + '] PING failed: ' + err.toString(), this.service);
+                        this._destroy();
+                    }
+                    return;
+                }
+                this._pingCount++;
+                this._lastPingRtt = duration;
+            });
+        } catch (e) {
+            clearTimeout(timer);
+            nbError('HTTP/2 session [' + this.authority + '] PING failed: ' + e.toString(), this.service);
+            this._destroy();
+        }
+    }
+
+    /**
+     * 異常を検出したセッションを破棄する。次回のリクエストで再接続する。
+     */
+    private _destroy(): void {
+        this._pool._onLost(this);
+        this._clearTimers();
+        this.session.destroy();
+    }
+
+    private _clearTimers(): void {
+        this._clearIdleTimer();
+        if (this._pingTimer != null) {
+            clearInterval(this._pingTimer);
+            this._pingTimer = null;
+        }
+    }
+}
+
+/**
+ * @class HTTP/2 セッションプール (Node.js 専用)
+ * <p>
+ * 接続先(authority)と接続設定(セッション管理オプション、TLS 設定等)の組み合わせ毎にセッションを保持する。
+ * 接続設定の異なるサービス間ではセッションを共有しない。
+ * GOAWAY 受信、PING 失敗、通信エラー等で使用できなくなったセッションはプールから除外され、
+ * 次回のリクエスト時に再接続する。
+ * @private
+ */
+export class _Http2SessionPool {
+    private _entries: {[key: string]: _Http2SessionEntry} = {};
+    private _lost: {[key: string]: boolean} = {};
+    private _goawayCounts: {[authority: string]: number} = {};
+    private _reconnectCounts: {[authority: string]: number} = {};
+
+    /**
+     * URL から接続先(authority)を生成する。例: "https://test.example.com:1234"
+     * @param {Object} url URL (protocol, hostname, port)
+     * @return {string} authority
+     */
+    static toAuthority(url: {protocol?: string, hostname?: string, port?: string}): string {
+        let authority = url.protocol + '//' + url.hostname;
+        if (url.port != null && url.port !== "") {
+            authority += ':' + url.port;
+        }
+        return authority;
+    }
+
+    /**
+     * 接続先と接続設定からプール内のキーを生成する
+     * @param {string} authority 接続先
+     * @param {Object} settings 接続設定。JSON に変換して比較する
+     * @return {string} キー
+     */
+    static toKey(authority: string, settings: object): string {
+        // 秘密鍵等を含むため、ハッシュ値とする
+        return authority + '#' + crypto.createHash('sha256').update(JSON.stringify(settings)).digest('base64');
+    }
+
+    /**
+     * ストリームの開始を要求する
+     * @param {string} authority 接続先
+     * @param {string} key プール内のキー ({@link _Http2SessionPool.toKey})
+     * @param {Http2SessionOptions} options セッション管理オプション(新規接続時のみ使用)
+     * @param {function} connect 新規セッションを生成する関数
+     * @param {function} start ストリーム開始時に呼び出される関数。
+     * ストリーム終了時に引数の release を呼び出すこと。
+     * @param {NebulaService} service 要求したサービス。ログの出力に使用する
+     * @return {function} 待ち合わせ中の要求を取り消す関数
+     */
+    acquire(authority: string, key: string, options: Http2SessionOptions, connect: () => ClientHttp2Session,
+            start: (session: ClientHttp2Session, release: () => void) => void, service: NebulaService): () => void {
+        const waiter: Http2StreamWaiter = {authority, key, connect, options, start, cancelled: false, service};
+        this._dispatch(waiter);
+        return () => {
+            waiter.cancelled = true;
+        };
+    }
+
+    /**
+     * セッションを返却する
+     * @param {string} authority 接続先
+     * @return {ClientHttp2Session} セッション。存在しない場合は null
+     */
+    get(authority: string): ClientHttp2Session {
+        for (const key of Object.keys(this._entries)) {
+            if (this._entries[key].authority === authority) {
+                return this._entries[key].session;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * セッションを全て返却する
+     * @return {Object} authority をキーとするセッションのマップ。接続先毎に最初のセッションのみ含む
+     */
+    getAll(): {[authority: string]: ClientHttp2Session} {
+        const result: {[authority: string]: ClientHttp2Session} = {};
+        for (const key of Object.keys(this._entries)) {
+            const entry = this._entries[key];
+            if (result[entry.authority] === undefined) {
+                result[entry.authority] = entry.session;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * セッションを登録する。登録したセッションは接続先のみをキーとする
+     * @param {string} authority 接続先
+     * @param {ClientHttp2Session} session セッション
+     * @param {Http2SessionOptions} options セッション管理オプション
+     */
+    set(authority: string, session: ClientHttp2Session, options?: Http2SessionOptions): void {
+        const current = this._entries[authority];
+        if (current != null && current.session === session) {
+            return;
+        }
+        this._open(authority, authority, session, options);
+    }
+
+    /**
+     * セッションをクローズする
+     * @param {string} authority 接続先。未指定の場合は全てのセッションをクローズする
+     */
+    close(authority?: string): void {
+        for (const key of Object.keys(this._entries)) {
+            const entry = this._entries[key];
+            if (authority !== undefined && entry.authority !== authority) {
+                continue;
+            }
+            delete this._entries[key];
+            if (entry.session.destroyed) {
+                entry.session.removeAllListeners();
+                nbLogger('HTTP/2 session [' + entry.authority + '] is already destroyed', entry.service);
+            } else {
+                nbLogger('HTTP/2 session [' + entry.authority + '] is going to close', entry.service);
+                entry.close(() => {
+                    entry.session.removeAllListeners();
+                });
+            }
+        }
+    }
+
+    /**
+     * 統計情報を返却する
+     * @param {string} authority 接続先。未指定の場合は全てのセッションの統計情報を返却する
+     * @return {Http2SessionStats[]} 統計情報
+     */
+    getStats(authority?: string): Http2SessionStats[] {
+        const result: Http2SessionStats[] = [];
+        for (const key of Object.keys(this._entries)) {
+            if (authority === undefined || authority === this._entries[key].authority) {
+                result.push(this._entries[key].getStats());
+            }
+        }
+        return result;
+    }
+
+    /**
+     * 要求を使用可能なセッションに割り当てる。セッションが存在しない場合は接続する。
+     * @private
+     */
+    _dispatch(waiter: Http2StreamWaiter): void {
+        if (waiter.cancelled) {
+            return;
+        }
+        let entry = this._entries[waiter.key];
+        if (entry != null && !entry.isAvailable()) {
+            nbLogger('http2 session ' + waiter.authority + ' is destroyed or closed state', waiter.service);
+            this._remove(entry);
+            entry = null;
+        }
+        if (entry == null) {
+            entry = this._open(waiter.authority, waiter.key, waiter.connect(), waiter.options, waiter.service);
+        }
+        entry.enqueue(waiter);
+    }
+
+    /**
+     * @private
+     */
+    _remove(entry: _Http2SessionEntry): void {
+        if (this._entries[entry.key] === entry) {
+            delete this._entries[entry.key];
+        }
+    }
+
+    /**
+     * GOAWAY 受信時の処理。以降のリクエストは新しいセッションで実行する。
+     * <p>
+     * サーバからの正常な切断であるため、新しいセッションへの接続は再接続回数に含めない。
+     * @private
+     */
+    _onGoaway(entry: _Http2SessionEntry): void {
+        if (this._entries[entry.key] === entry) {
+            this._goawayCounts[entry.authority] = this._getGoawayCount(entry.authority) + 1;
+            this._remove(entry);
+        }
+    }
+
+    /**
+     * セッションが使用できなくなった場合の処理
+     * @private
+     */
+    _onLost(entry: _Http2SessionEntry): void {
+        if (this._entries[entry.key] === entry) {
+            this._lost[entry.key] = true;
+            this._remove(entry);
+        }
+    }
+
+    /**
+     * @private
+     */
+    _getGoawayCount(authority: string): number {
+        return this._goawayCounts[authority] || 0;
+    }
+
+    /**
+     * @private
+     */
+    _getReconnectCount(authority: string): number {
+        return this._reconnectCounts[authority] || 0;
+    }
+
+    private _open(authority: string, key: string, session: ClientHttp2Session, options: Http2SessionOptions,
+                  service?: NebulaService): _Http2SessionEntry {
+        if (this._lost[key]) {
+            delete this._lost[key];
+            this._reconnectCounts[authority] = this._getReconnectCount(authority) + 1;
+            nbLogger('HTTP/2 session [' + authority + '] reconnected', service);
+        }
+        const entry = new _Http2SessionEntry(this, authority, key, session, options, service);
+        this._entries[key] = entry;
+        return entry;
+    }
+}
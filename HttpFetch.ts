@@ -0,0 +1,293 @@
+import {_createError, _createLocalError, _createTimeoutError, nbError} from "./Head";
+import {Headers, HttpRequest, HttpRequestExecutor} from "./HttpRequest";
+
+import {Buffer} from "buffer";
+
+/**
+ * Fetch API が定義されているか調べる
+ * @returns {boolean}
+ * @private
+ */
+export const _hasFetch = (): boolean => {
+    return typeof fetch !== "undefined";
+};
+
+export const initHttpFetch = () => {
+    HttpRequestExecutor.setFetchFactory((req) => new HttpFetch(req));
+};
+
+/**
+ * Fetch API 実行クラス
+ * @private
+ */
+export class HttpFetch extends HttpRequestExecutor {
+    private _controller: AbortController = null;
+    private _rawMessage = false;
+    private _timedOut = false;
+    private _aborted = false;
+
+    constructor(req: HttpRequest) {
+        super(req);
+    }
+
+    /**
+     * true を指定すると、execute 成功時の応答は Response オブジェクトとなる
+     * @param {boolean} rawMessage
+     */
+    setReturnRawMessage(rawMessage: boolean): void {
+        this._rawMessage = rawMessage;
+    }
+
+    abort(): void {
+        this._aborted = true;
+        if (this._controller != null) {
+            this._controller.abort();
+        }
+    }
+
+    execute(method: string, url: string, headers: Headers, body: any, timeout: number,
+            responseType: string, receiveResponseHeaders: boolean, useHttp2: boolean): void {
+        if (!_hasFetch()) {
+            this._reject(_createLocalError("No fetch support", ""));
+            return;
+        }
+
+        const init: any = {
+            method,
+            headers,
+            body
+        };
+
+        // ReadableStream を送信する場合は duplex 指定が必要
+        if (typeof ReadableStream !== "undefined" && body instanceof ReadableStream) {
+            init.duplex = "half";
+        }
+
+        if (typeof AbortController !== "undefined") {
+            this._controller = new AbortController();
+            init.signal = this._controller.signal;
+        }
+
+        let timer: any = null;
+        if (timeout > 0 && this._controller != null) {
+            timer = setTimeout(() => {
+                this._timedOut = true;
+                this._controller.abort();
+            }, timeout);
+        }
+        const clearTimer = () => {
+            if (timer != null) {
+                clearTimeout(timer);
+                timer = null;
+            }
+        };
+
+        fetch(url, init).then((response: Response) => {
+            this._notifyResponseStarted(response.status);
+
+            // save response headers
+            const responseHeaders = HttpFetch._toHeadersObject(response.headers);
+            this._req.responseHeaders = responseHeaders;
+
+            if (this._rawMessage) {
+                // Response 直接返却
+                clearTimer();
+                this._resolve(response);
+                return;
+            }
+
+            if (this._streaming && response.ok) {
+                clearTimer();
+                this._readStream(response, responseHeaders, receiveResponseHeaders);
+                return;
+            }
+
+            return this._readBody(this._trackProgress(response), responseType).then((responseBody) => {
+                clearTimer();
+                if (response.ok) {
+                    if (receiveResponseHeaders) {
+                        this._resolve({
+                            body: responseBody,
+                            headers: responseHeaders,
+                            status: response.status
+                        });
+                    } else {
+                        this._resolve(responseBody);
+                    }
+                } else {
+                    const responseText = (typeof responseBody === "string") ? responseBody :
+                        (responseType === "json" && responseBody != null) ? JSON.stringify(responseBody) : "";
+                    const error = _createError(response.status, response.statusText, responseText, responseBody);
+                    this._logResponseError(response.status, "HTTP Response Error: status=" + response.status + " - " + response.statusText);
+                    this._reject(error);
+                }
+            });
+        }).catch((e: Error) => {
+            clearTimer();
+            if (this._aborted) {
+                // 中断済み
+                return;
+            }
+
+            if (this._timedOut) {
+                nbError("HTTP Response Error: Timeout Error: " + timeout + "[msec]", this._req.service);
+                this._reject(_createTimeoutError("Request timeout: " + timeout + "[msec]"));
+            } else {
+                nbError("HTTP Request Error: " + e.toString(), this._req.service);
+                this._reject(_createError(0, "HTTP request error", e.toString()));
+            }
+        });
+    }
+
+    /**
+     * レスポンスボディをストリーミング受信する
+     * @param {Response} response レスポンス
+     * @param {Object} headers レスポンスヘッダ
+     * @param {boolean} receiveResponseHeaders レスポンスヘッダ受信設定
+     * @private
+     */
+    private _readStream(response: Response, headers: {[index: string]: string}, receiveResponseHeaders: boolean): void {
+        const reader = (response.body != null) ? response.body.getReader() : null;
+        let paused = false;
+        let reading = false;
+        const progress = this._createProgressReporter("download", HttpFetch._getContentLength(headers));
+
+        const pump = () => {
+            if (paused || reading) {
+                return;
+            }
+            reading = true;
+            reader.read().then((result) => {
+                reading = false;
+                if (result.done) {
+                    stream._end();
+                } else {
+                    stream._push(result.value);
+                    if (progress != null) {
+                        progress.add(result.value.length);
+                    }
+                    pump();
+                }
+            }, (e: any) => {
+                reading = false;
+                if (!this._aborted) {
+                    nbError("HTTP Response Error: " + e.toString(), this._req.service);
+                    stream._fail(_createError(0, "HTTP response error", e.toString()));
+                }
+            });
+        };
+
+        const stream = this._resolveStream(response.status, headers, {
+            pause: () => {
+                paused = true;
+            },
+            resume: () => {
+                paused = false;
+                pump();
+            },
+            cancel: () => this.abort()
+        }, receiveResponseHeaders);
+
+        if (reader == null) {
+            stream._end();
+        } else {
+            pump();
+        }
+    }
+
+    /**
+     * 進捗通知が必要な場合、受信量を計測する Response に置き換える
+     * @param {Response} response レスポンス
+     * @returns {Response}
+     * @private
+     */
+    private _trackProgress(response: Response): Response {
+        const progress = this._createProgressReporter("download", HttpFetch._getContentLength(this._req.responseHeaders as any));
+        if (progress == null || response.body == null) {
+            return response;
+        }
+
+        const reader = response.body.getReader();
+        const body = new ReadableStream({
+            pull: (controller) => {
+                return reader.read().then((result) => {
+                    if (result.done) {
+                        controller.close();
+                    } else {
+                        progress.add(result.value.length);
+                        controller.enqueue(result.value);
+                    }
+                });
+            },
+            cancel: (reason) => reader.cancel(reason)
+        });
+        return new Response(body, {status: response.status, statusText: response.statusText, headers: response.headers});
+    }
+
+    /**
+     * Content-Length ヘッダの値を返す
+     * @param headers レスポンスヘッダ
+     * @returns {number} Content-Length。存在しない場合は null
+     * @private
+     */
+    private static _getContentLength(headers: {[index: string]: string}): number {
+        const value = headers["content-length"];
+        return (value != null) ? Number(value) : null;
+    }
+
+    /**
+     * レスポンスボディを読み込む
+     * @param {Response} response レスポンス
+     * @param {string} responseType レスポンスタイプ
+     * @returns {Promise}
+     * @private
+     */
+    private _readBody(response: Response, responseType: string): Promise<any> {
+        switch (responseType) {
+            case "json":
+                return response.text().then((text) => {
+                    try {
+                        return JSON.parse(text);
+                    } catch (e) {
+                        return text;
+                    }
+                });
+
+            case "blob":
+                return response.blob();
+
+            case "arraybuffer":
+                return response.arrayBuffer();
+
+            case "buffer":
+                return response.arrayBuffer().then((data) => {
+                    return (typeof Buffer !== "undefined" && Buffer !== null) ? Buffer.from(data) : data;
+                });
+
+            default:
+            case "text":
+                return response.text();
+        }
+    }
+
+    /**
+     * fetch の Headers を Object に変換する。ヘッダ名は小文字となる。
+     * @param headers Headers
+     * @returns {Object}
+     * @private
+     */
+    static _toHeadersObject(headers: any): {[index: string]: string} {
+        const result: {[index: string]: string} = {};
+        if (headers != null) {
+            headers.forEach((value: string, name: string) => {
+                result[name.toLowerCase()] = value;
+            });
+        }
+        return result;
+    }
+}
+
+// factory を投入する
+HttpRequestExecutor.setFetchFactory((req) => {
+    return new HttpFetch(req);
+});
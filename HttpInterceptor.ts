@@ -0,0 +1,87 @@
+import {NebulaService} from "./NebulaService";
+import {Headers, HttpRequest} from "./HttpRequest";
+
+import {Promise} from "es6-promise";
+
+/**
+ * HTTPリクエストコンテキスト。
+ * インターセプタに渡され、内容を変更するとリクエストに反映される。
+ */
+export interface HttpRequestContext {
+    /** リクエスト */
+    request: HttpRequest;
+    /** NebulaService */
+    service: NebulaService;
+    /** HTTPメソッド */
+    method: string;
+    /** URL (クエリパラメータを含む) */
+    url: string;
+    /** リクエストヘッダ */
+    headers: Headers;
+    /** リクエストボディ */
+    body: any;
+}
+
+/**
+ * HTTPインターセプタ。
+ * <p>
+ * 各ハンドラは省略可能で、値または Promise を返却できる。
+ * <ul>
+ *   <li>onRequest : リクエスト送信前に呼び出される。undefined 以外の値を返却すると
+ *       以降のインターセプタおよび通信は行われず、その値がレスポンスとなる。</li>
+ *   <li>onResponse : レスポンス受信後に呼び出される。undefined 以外の値を返却すると
+ *       レスポンスが置き換えられる。</li>
+ *   <li>onError : エラー発生時に呼び出される。undefined 以外の値を返却すると
+ *       エラーから回復し、その値がレスポンスとなる。例外を送出するとエラーが置き換えられる。</li>
+ * </ul>
+ */
+export interface HttpInterceptor {
+    onRequest?(context: HttpRequestContext): any;
+    onResponse?(response: any, context: HttpRequestContext): any;
+    onError?(error: any, context: HttpRequestContext): any;
+}
+
+/**
+ * @description インターセプタチェインを実行する。
+ * <p>
+ * onRequest は登録順、onResponse/onError は逆順に呼び出される。
+ * @param {HttpInterceptor[]} interceptors インターセプタ
+ * @param {HttpRequestContext} context リクエストコンテキスト
+ * @param {function} send リクエスト送信処理
+ * @return {Promise} Promise
+ * @private
+ */
+export const _runInterceptors = (interceptors: HttpInterceptor[], context: HttpRequestContext,
+                                 send: (context: HttpRequestContext) => Promise<any>): Promise<any> => {
+    const invoke = (index: number): Promise<any> => {
+        if (index >= interceptors.length) {
+            return send(context);
+        }
+
+        const interceptor = interceptors[index];
+        return Promise.resolve()
+            .then(() => interceptor.onRequest ? interceptor.onRequest(context) : undefined)
+            .then((result) => {
+                if (result !== undefined) {
+                    // short-circuit: 以降のインターセプタ・通信は行わない
+                    return result;
+                }
+
+                return invoke(index + 1).then((response) => {
+                    if (!interceptor.onResponse) {
+                        return response;
+                    }
+                    return Promise.resolve(interceptor.onResponse(response, context))
+                        .then((replaced) => (replaced !== undefined) ? replaced : response);
+                }, (error) => {
+                    if (!interceptor.onError) {
+                        return Promise.reject(error);
+                    }
+                    return Promise.resolve(interceptor.onError(error, context))
+                        .then((recovered) => (recovered !== undefined) ? recovered : Promise.reject(error));
+                });
+            });
+    };
+
+    return invoke(0);
+};
@@ -1,11 +1,15 @@
-import {_createError, nbError, nbLogger} from "./Head";
+import {_createError, _createLocalError, _createTimeoutError, nbError, nbLogger} from "./Head";
 import {URL, http, https, tls, fs, util, http2} from "./NodeSupport";
 
 import {Buffer} from "buffer";
 import * as _url from "url";
 import * as _http from "http";
 import * as _util from "util";
-import {Headers, HttpRequest, HttpRequestExecutor} from "./HttpRequest";
+import {_getHeaderValue, _TransferProgressReporter, Headers, HttpRequest, HttpRequestExecutor} from "./HttpRequest";
+import {ResponseStream} from "./ResponseStream";
+import {_Http2SessionPool, Http2SessionOptions, Http2SessionStats} from "./Http2SessionPool";
+import {_compressRequestBody, _createDecompressor, _getAcceptEncoding} from "./Compression";
+import {_verifyCertificatePinning} from "./CertificatePinning";
 import {ClientHttp2Session, ClientHttp2Stream, IncomingHttpHeaders} from "http2"; // KEEP
 import {Url} from "url"; // KEEP
 
@@ -20,6 +24,9 @@ interface HttpRequestOptions extends _http.RequestOptions, TlsCreateServerOption
     [index: string]: any;
 }
 
+// 進捗通知時のリクエストボディ書き込み単位
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
+
 export const initHttpNode = () => {
     HttpRequestExecutor.setNodeFactory((req) => new HttpNode(req));
 };
@@ -30,20 +37,38 @@ export const initHttpNode = () => {
  */
 export class HttpNode extends HttpRequestExecutor {
     // for http2 support
-    private static _http2Sessions : {[index: string]: ClientHttp2Session}= {};
+    private static _http2Pool = new _Http2SessionPool();
 
     private _responseType: string;
     private _receiveResponseHeaders: boolean;
     private _rawMessage: boolean = false;
+    private _decompress = false;
+    private _clientRequest: _http.ClientRequest = null;
+    private _http2Stream: ClientHttp2Stream = null;
+    private _cancelHttp2Request: () => void = null;
 
     constructor(req: HttpRequest) {
         super(req);
+        this._observesConnect = true;
     }
 
     setReturnRawMessage(returnRawMessage: boolean) {
         this._rawMessage = returnRawMessage;
     }
 
+    abort(): void {
+        if (this._clientRequest != null) {
+            this._clientRequest.abort();
+        }
+        if (this._http2Stream != null) {
+            HttpNode._closeStream(this._http2Stream, http2.constants.NGHTTP2_CANCEL);
+        }
+        if (this._cancelHttp2Request != null) {
+            this._cancelHttp2Request();
+            this._cancelHttp2Request = null;
+        }
+    }
+
     execute(method: string, urlString: string, headers: Headers, body: any, timeout: number,
             responseType: string, receiveResponseHeaders: boolean, useHttp2 : boolean): void {
         this._responseType = responseType;
@@ -53,19 +78,39 @@ export class HttpNode extends HttpRequestExecutor {
         try {
             url = URL.parse(urlString);
         } catch (e) {
-            nbError("Bad URL: " + urlString);
-            this._reject(_createError(0, "Bad URL: " + urlString, ""));
+            nbError("Bad URL: " + urlString, this._req.service);
+            this._reject(_createLocalError("Bad URL: " + urlString, ""));
             return;
         }
         const isHttps = HttpNode._isHttps(url);
 
+        // 圧縮設定。rawMessage 指定時は応答をそのまま返却するため、Accept-Encoding を付与しない
+        headers = HttpNode._copyHeaders(headers);
+        const compression = this._req.service.getCompressionOptions();
+        this._decompress = !this._rawMessage && compression.decompressResponse;
+        if (this._decompress && _getHeaderValue(headers, "Accept-Encoding") == null) {
+            const acceptEncoding = _getAcceptEncoding();
+            if (acceptEncoding != null) {
+                headers["Accept-Encoding"] = acceptEncoding;
+            }
+        }
+        if (_getHeaderValue(headers, "Content-Encoding") == null) {
+            const compressed = _compressRequestBody(compression, body, this._req.service);
+            if (compressed != null) {
+                body = compressed.body;
+                headers["Content-Encoding"] = compressed.encoding;
+            }
+        }
+
+        const proxy = this._req.service._resolveProxy(url.protocol, url.hostname, Number(url.port));
+
         const options: HttpRequestOptions = {
             method,
             hostname: url.hostname,
             port: url.port,
             path: url.path, // path + queryString
             headers,
-            agent: isHttps ? HttpRequest._httpsAgent : HttpRequest._httpAgent,
+            agent: (proxy != null) ? proxy.agent : null,
             timeout,
 
             // client cert options with null
@@ -92,8 +137,8 @@ export class HttpNode extends HttpRequestExecutor {
                         options[key] = clientCertOptions[key];
                     } else {
                         // 許容しないキーが設定されていた
-                        nbError('invalid parameter ' + key + ' detected. value: ' + JSON.stringify(clientCertOptions[key]));
-                        this._reject(_createError(0, 'invalid parameter: ' + key, ' value: ' + JSON.stringify(clientCertOptions[key])));
+                        nbError('invalid parameter ' + key + ' detected. value: ' + JSON.stringify(clientCertOptions[key]), this._req.service);
+                        this._reject(_createLocalError('invalid parameter: ' + key, ' value: ' + JSON.stringify(clientCertOptions[key])));
                         return;
                     }
                 }
@@ -102,7 +147,7 @@ export class HttpNode extends HttpRequestExecutor {
             // self signed cert option
             if (this._req.service._config.allowSelfSignedCert) {
                 options.rejectUnauthorized = false;
-                nbLogger('HTTPS Request Warning : accept self-signed certificate. make sure the risk of this setting.');
+                nbLogger('HTTPS Request Warning : accept self-signed certificate. make sure the risk of this setting.', this._req.service);
             } else {
                 options.rejectUnauthorized = true;
             }
@@ -111,12 +156,12 @@ export class HttpNode extends HttpRequestExecutor {
         }
 
         // httpsOptions verify
-        if (isHttps && options.agent != null && HttpRequest._httpsAgentOptions != null) {
+        if (isHttps && proxy != null && proxy.options != null) {
             try {
-                tls.createSecureContext(HttpRequest._httpsAgentOptions);
+                tls.createSecureContext(proxy.options);
             } catch (e) {
-                nbError("HttpsAgentOptions invalid. check proxy options " + e.toString());
-                const error = _createError(0, "Client Error", e.toString());
+                nbError("HttpsAgentOptions invalid. check proxy options " + e.toString(), this._req.service);
+                const error = _createLocalError("Client Error", e.toString());
                 this._reject(error);
                 return;
             }
@@ -144,25 +189,18 @@ export class HttpNode extends HttpRequestExecutor {
      */
     private _sendHttp2Request(url: _url.Url, options: HttpRequestOptions, body: any) {
         // create authority, such as "https://test.example.com:1234"
-        let authority = url.protocol + '//' + url.hostname;
-        if (url.port != null) {
-            authority += ':' + url.port;
-        }
-
-        // cleanup cached sessions
-        const sessions = HttpNode.getHttp2Sessions();
-        for (const key in sessions) {
-            const session = sessions[key];
-            if (session.destroyed == true || session.closed == true) {
-                nbLogger('http2 session ' + authority + ' is destroyed or closed state');
-                HttpNode.closeHttp2Session(key);
-            }
-        }
-
-        // ensure session
-        let http2Session = HttpNode.getHttp2Session(authority);
-        if (http2Session == null) {
-            nbLogger('create http2 session: [' + authority + ']');
+        const authority = _Http2SessionPool.toAuthority(url);
+        const http2Options = this._req.service.getHttp2Options();
+        // セッション管理オプション・TLS 設定・証明書ピンニング設定の異なるサービス間ではセッションを共有しない
+        const key = _Http2SessionPool.toKey(authority, HttpNode._isHttps(url) ? {
+            http2Options,
+            tls: [options['pfx'], options['passphrase'], options['key'], options['cert'], options['ca'], options['rejectUnauthorized']],
+            pinning: this._req.service.getCertificatePinning()
+        } : {http2Options});
+
+        // ensure session. 同時ストリーム数が上限に達している場合は待ち合わせる
+        const connect = (): ClientHttp2Session => {
+            nbLogger('create http2 session: [' + authority + ']', this._req.service);
             // new connection
             const http2SessionOptions: object = {
                 allowHTTP1: true,
@@ -176,24 +214,72 @@ export class HttpNode extends HttpRequestExecutor {
             };
 
             // create http2 connection
-            http2Session = http2.connect(authority, (HttpNode._isHttps(url) ? http2SessionOptions : undefined));
-            HttpNode.setHttp2Session(authority, http2Session);
-        }
+            return http2.connect(authority, (HttpNode._isHttps(url) ? http2SessionOptions : undefined));
+        };
 
+        this._cancelHttp2Request = HttpNode._http2Pool.acquire(authority, key, http2Options, connect,
+            (session, release) => {
+                this._cancelHttp2Request = null;
+                this._sendHttp2Stream(session, release, url, options, body);
+            }, this._req.service);
+    }
+
+    /**
+     * HTTP/2ストリームを生成してリクエストを送信する
+     * @param {module:http2.ClientHttp2Session} http2Session セッション
+     * @param {function} release ストリーム終了時に呼び出す関数
+     * @param {module:url.Url} url URL
+     * @param {HttpRequestOptions} options ヘッダ等のオプション情報
+     * @param body リクエストボディ
+     * @private
+     */
+    private _sendHttp2Stream(http2Session: ClientHttp2Session, release: () => void,
+                             url: _url.Url, options: HttpRequestOptions, body: any) {
         // create a http2 stream
         const outgoingHttpHeaders = options.headers;
         outgoingHttpHeaders[':method'] = options.method;
         outgoingHttpHeaders[':path'] = url.path;
         // commented out to avoid printing secret info
         //nbLogger('[request] ' + _util.inspect(outgoingHttpHeaders));
-        const http2Stream: ClientHttp2Stream = http2Session.request(outgoingHttpHeaders);
+        // 証明書ピンニングを検証する。セッションは他のリクエストと共有されるため、リクエスト毎に検証する
+        if (HttpNode._isHttps(url)) {
+            if (http2Session.connecting) {
+                // 接続完了後に検証してから送信する
+                this._waitHttp2Connect(http2Session, release, () => this._sendHttp2Stream(http2Session, release, url, options, body));
+                return;
+            }
+            const error = this._verifyCertificatePinning(http2Session.socket, url);
+            if (error != null) {
+                // セッションは破棄せず、このリクエストのみ失敗させる
+                release();
+                this._reject(_createLocalError("HTTP/2 Session Error", error.toString()));
+                return;
+            }
+        }
+
+        let http2Stream: ClientHttp2Stream;
+        try {
+            http2Stream = http2Session.request(outgoingHttpHeaders);
+        } catch (e) {
+            release();
+            nbError("HTTP/2 Request Error: " + e.toString(), this._req.service);
+            this._reject(_createError(0, "HTTP/2 Stream Error", e.toString()));
+            return;
+        }
+        this._http2Stream = http2Stream;
+        http2Stream.on('close', release);
+        http2Stream.once('ready', () => this._notifyConnected());
+        http2Stream.once('response', (headers: IncomingHttpHeaders) => {
+            this._notifyResponseStarted(Number(headers[http2.constants.HTTP2_HEADER_STATUS]));
+        });
 
         // set handlers
         if (options.timeout > 0) {
             http2Stream.setTimeout(options.timeout, () => {
                 HttpNode._closeStream(http2Stream);
-                const error = _createError(0, "HTTP/2 Request timeout: " + options.timeout + "[msec]", "");
-                nbError("Timeout detected: " + error);
+                const error = _createTimeoutError("HTTP/2 Request timeout: " + options.timeout + "[msec]");
+                nbError("Timeout detected: " + error, this._req.service);
+                this._reject(error);
             });
         }
         if (this._rawMessage) {
@@ -202,13 +288,7 @@ export class HttpNode extends HttpRequestExecutor {
             this._setHttp2ResponseHandlers(http2Stream);
         }
 
-        if (body != null) {
-            if (typeof body === "string" || body instanceof String || body instanceof Buffer) {
-                http2Stream.write(body);
-            } else {
-                http2Stream.write(JSON.stringify(body));
-            }
-        }
+        this._writeBody(http2Stream, body);
         http2Stream.end();
     }
 
@@ -221,6 +301,7 @@ export class HttpNode extends HttpRequestExecutor {
      */
     private _sendHttpRequest(url: _url.Url, options: HttpRequestOptions, body: any) {
         const handler = (res: _http.IncomingMessage) => {
+            this._notifyResponseStarted(res.statusCode);
             if (this._rawMessage) {
                 // IncomingMessage 直接返却
                 this._resolve(res);
@@ -234,29 +315,156 @@ export class HttpNode extends HttpRequestExecutor {
                 this._setResponseHandlers(status, res);
             }
         };
-        const req = HttpNode._isHttps(url) ? https.request(options, handler) : http.request(options, handler);
+        const isHttps = HttpNode._isHttps(url);
+        const req = isHttps ? https.request(options, handler) : http.request(options, handler);
+        this._clientRequest = req;
+
+        // 証明書ピンニングは、リクエストの送信前(ハンドシェイク完了時・keep-alive による再利用時)に検証する
+        let pinningError: Error = null;
+        const onConnected = (socket: any) => {
+            const error = isHttps ? this._verifyCertificatePinning(socket, url) : null;
+            if (error != null) {
+                pinningError = error;
+                socket.destroy(error);
+            } else {
+                this._notifyConnected();
+            }
+        };
+        req.on('socket', (socket: any) => {
+            if (socket.connecting || (isHttps && !HttpNode._isSecureEstablished(socket))) {
+                socket.once(isHttps ? 'secureConnect' : 'connect', () => onConnected(socket));
+            } else {
+                // keep-alive により接続済み
+                onConnected(socket);
+            }
+        });
 
         // #9694: HTTPタイムアウトを設定
         if (options.timeout > 0) {
-            req.setTimeout(options.timeout, () => req.abort());
+            req.setTimeout(options.timeout, () => {
+                nbError("HTTP Request Error: Timeout Error: " + options.timeout + "[msec]", this._req.service);
+                this._reject(_createTimeoutError("Request timeout: " + options.timeout + "[msec]"));
+                req.abort();
+            });
         }
 
         req.on('error', (e: Error) => {
-            const error = _createError(0, "HTTP request error", e.toString());
-            nbError("HTTP Request Error: " + e.toString());
+            // ピンニングの不一致は再試行しても成功しないため、通信エラーとしない
+            const error = (pinningError != null) ? _createLocalError("HTTP request error", pinningError.toString()) :
+                _createError(0, "HTTP request error", e.toString());
+            nbError("HTTP Request Error: " + e.toString(), this._req.service);
             this._reject(error);
         });
 
-        if (body != null) {
-            if (typeof body === "string" || body instanceof String || body instanceof Buffer) {
-                req.write(body);
-            } else {
-                req.write(JSON.stringify(body));
-            }
-        }
+        this._writeBody(req, body);
         req.end();
     }
 
+    /**
+     * リクエストボディを書き込む。
+     * 進捗通知が必要な場合は、分割して書き込み、書き込み完了毎に通知する。
+     * @param writable 書き込み先 (http.ClientRequest または http2.ClientHttp2Stream)
+     * @param body リクエストボディ
+     * @private
+     */
+    private _writeBody(writable: any, body: any) {
+        if (body == null) {
+            return;
+        }
+        const data = (typeof body === "string" || body instanceof String || body instanceof Buffer) ? body : JSON.stringify(body);
+
+        const buffer: Buffer = (data instanceof Buffer) ? data : Buffer.from(String(data));
+        const progress = this._createProgressReporter("upload", buffer.length);
+        if (progress == null) {
+            writable.write(data);
+            return;
+        }
+
+        for (let offset = 0; offset < buffer.length; offset += UPLOAD_CHUNK_SIZE) {
+            const chunk = buffer.slice(offset, offset + UPLOAD_CHUNK_SIZE);
+            writable.write(chunk, () => progress.add(chunk.length));
+        }
+    }
+
+    /**
+     * Content-Length ヘッダの値を返す
+     * @param headers レスポンスヘッダ
+     * @returns {number} Content-Length。存在しない場合は null
+     * @private
+     */
+    private static _getContentLength(headers: {[index: string]: any}): number {
+        const value = headers["content-length"];
+        return (value != null) ? Number(value) : null;
+    }
+
+    /**
+     * HTTP/2セッションの接続完了を待ち合わせる
+     * @param {module:http2.ClientHttp2Session} http2Session セッション
+     * @param {function} release ストリーム終了時に呼び出す関数
+     * @param {function} connected 接続完了時に呼び出す関数
+     * @private
+     */
+    private _waitHttp2Connect(http2Session: ClientHttp2Session, release: () => void, connected: () => void) {
+        let sessionError: Error = null;
+        const removeListeners = () => {
+            this._cancelHttp2Request = null;
+            http2Session.removeListener('connect', onConnect);
+            http2Session.removeListener('error', onError);
+            http2Session.removeListener('close', onClose);
+        };
+        const onConnect = () => {
+            removeListeners();
+            connected();
+        };
+        const onError = (e: Error) => {
+            sessionError = e;
+        };
+        const onClose = () => {
+            removeListeners();
+            release();
+            const message = (sessionError != null) ? sessionError.toString() : "Session closed";
+            nbError("HTTP/2 Session Error: " + message, this._req.service);
+            this._reject(_createError(0, "HTTP/2 Session Error", message));
+        };
+        http2Session.once('connect', onConnect);
+        http2Session.on('error', onError);
+        http2Session.once('close', onClose);
+        this._cancelHttp2Request = () => {
+            removeListeners();
+            release();
+        };
+    }
+
+    /**
+     * 証明書ピンニングを検証する
+     * @param socket TLS ソケット
+     * @param {module:url.Url} url URL
+     * @return {Error} 接続を中断すべき場合(検証処理に失敗した場合を含む)はエラー
+     * @private
+     */
+    private _verifyCertificatePinning(socket: any, url: _url.Url): Error {
+        const port = (url.port != null) ? Number(url.port) : 443;
+        try {
+            return _verifyCertificatePinning(this._req.service, socket, url.hostname, port);
+        } catch (e) {
+            // 検証処理の失敗はソケットのイベントハンドラから送出させず、リクエストを失敗させる
+            nbError("Certificate pinning: verification failed: " + e, this._req.service);
+            return e;
+        }
+    }
+
+    /**
+     * TLS ハンドシェイクが完了しているか判定する
+     * @param socket TLS ソケット
+     * @return {boolean} 完了している場合は true
+     * @private
+     */
+    private static _isSecureEstablished(socket: any): boolean {
+        // ハンドシェイク完了前は空のオブジェクトが返却される
+        const cert = (typeof socket.getPeerCertificate === "function") ? socket.getPeerCertificate() : null;
+        return cert != null && Object.keys(cert).length > 0;
+    }
+
     /**
      * スキームが'https'であるか判定する
      * @param {module:url.Url} url 判定対象のURL
@@ -274,12 +482,19 @@ export class HttpNode extends HttpRequestExecutor {
      * @private
      */
     private _setResponseHandlers(status: number, res: _http.IncomingMessage) {
+        if (this._streaming && 200 <= status && status < 300) {
+            this._setStreamingResponseHandlers(status, res);
+            return;
+        }
+
         const chunks: Buffer[] = [];
+        const progress = this._createProgressReporter("download", HttpNode._getContentLength(res.headers));
+        const body = this._decodeResponse(res, res.headers, progress);
 
-        res.on('data', (data: Buffer) => {
+        body.on('data', (data: Buffer) => {
             chunks.push(data);
         });
-        res.on('end', () => {
+        body.on('end', () => {
             const buffer = Buffer.concat(chunks);
             const responseBody = this._parseNodeResponse(buffer);
 
@@ -296,19 +511,60 @@ export class HttpNode extends HttpRequestExecutor {
             } else {
                 const responseText = (this._responseType !== "buffer" && responseBody != null) ? responseBody.toString() : "";
                 const error = _createError(status, res.statusMessage, responseText, responseBody);
-                nbError("HTTP Response Error: status=" + status + " - " + res.statusMessage);
+                this._logResponseError(status, "HTTP Response Error: status=" + status + " - " + res.statusMessage);
                 this._reject(error);
             }
         });
-        res.on('error', (e: Error) => {
+        const onError = (e: Error) => {
             const error = _createError(0, "Client Error", e.toString());
-            nbError("HTTP Response Error: Client Error: " + e.toString());
+            nbError("HTTP Response Error: Client Error: " + e.toString(), this._req.service);
             this._reject(error);
+        };
+        res.on('error', onError);
+        if (body !== res) {
+            body.on('error', onError);
+        }
+    }
+
+    /**
+     * HTTPレスポンスをストリーミング受信するハンドラを設定する (Node.js用)
+     * @param {number} status ステータスコード
+     * @param res Stream(http.IncomingMessageなど)
+     * @private
+     */
+    private _setStreamingResponseHandlers(status: number, res: _http.IncomingMessage) {
+        const progress = this._createProgressReporter("download", HttpNode._getContentLength(res.headers));
+        const body = this._decodeResponse(res, res.headers, progress);
+        const responseStream = this._resolveStream(status, res.headers, {
+            pause: () => HttpNode._pauseStreams(res, body),
+            resume: () => HttpNode._resumeStreams(res, body),
+            cancel: () => this.abort()
+        }, this._receiveResponseHeaders);
+
+        body.on('data', (data: Buffer) => {
+            responseStream._push(data);
+        });
+        body.on('end', () => {
+            responseStream._end();
         });
+        res.on('aborted', () => {
+            nbError("HTTP Response Error: Client Error: aborted", this._req.service);
+            responseStream._fail(_createError(0, "Client Error", "Response aborted"));
+        });
+        const onError = (e: Error) => {
+            nbError("HTTP Response Error: Client Error: " + e.toString(), this._req.service);
+            responseStream._fail(_createError(0, "Client Error", e.toString()));
+        };
+        res.on('error', onError);
+        if (body !== res) {
+            body.on('error', onError);
+        }
     }
 
     /**
      * HTTP/2レスポンス受信用のハンドラを設定する (Node.js用)
+     * <p>
+     * ストリーミング受信時は、2xx の応答ヘッダ受信時点で ResponseStream を返却する。
      * @param stream (http2.ClientHttp2Stream)
      * @private
      */
@@ -316,16 +572,24 @@ export class HttpNode extends HttpRequestExecutor {
         const chunks: Buffer[] = [];
         let resHeaders: IncomingHttpHeaders = {};
         let statusCode: number = 0;
+        let responseStream: ResponseStream = null;
+        let progress: _TransferProgressReporter = null;
+        let decompressor: any = null;
+
+        const onData = (data: Buffer) => {
+            if (responseStream != null) {
+                responseStream._push(data);
+            } else {
+                chunks.push(data);
+            }
+        };
+        const onEnd = () => {
+            if (responseStream != null) {
+                HttpNode._closeStream(stream);
+                responseStream._end();
+                return;
+            }
 
-        stream.on('response', (headers: IncomingHttpHeaders, flags: number) => {
-            // responses including status code and headers
-            resHeaders = headers;
-            statusCode = Number(headers[http2.constants.HTTP2_HEADER_STATUS]);
-            // commented out to avoid printing secret info
-            // nbLogger('[response]' + _util.inspect(headers));
-        }).on('data', (data: Buffer) => {
-            chunks.push(data);
-        }).on('end', () => {
             const buffer = Buffer.concat(chunks);
             const responseBody = this._parseNodeResponse(buffer);
             HttpNode._closeStream(stream);
@@ -343,28 +607,135 @@ export class HttpNode extends HttpRequestExecutor {
                 const statusMessage = (statusCode == 0) ? "Unable to get proper response" : "";
                 const responseText = (this._responseType !== "buffer" && responseBody != null) ? responseBody.toString() : "";
                 const error = _createError(statusCode, statusMessage, responseText, responseBody);
-                nbError("HTTP/2 Response Error: status=" + statusCode);
+                this._logResponseError(statusCode, "HTTP/2 Response Error: status=" + statusCode);
                 this._reject(error);
             }
-        }).on('error', (e: Error) => {
+        };
+        const onError = (e: Error) => {
             HttpNode._closeStream(stream);
             const error = _createError(0, "HTTP/2 Stream Error", e.toString());
-            nbError("HTTP/2 Stream Error: " + e.toString());
-            this._reject(error);
-        }).on('push', (headers: IncomingHttpHeaders, flags: number) => {
-            nbLogger('HTTP/2 Stream push');
+            nbError("HTTP/2 Stream Error: " + e.toString(), this._req.service);
+            if (responseStream != null) {
+                responseStream._fail(error);
+            } else {
+                this._reject(error);
+            }
+        };
+
+        stream.on('response', (headers: IncomingHttpHeaders, flags: number) => {
+            // responses including status code and headers
+            resHeaders = headers;
+            statusCode = Number(headers[http2.constants.HTTP2_HEADER_STATUS]);
+
+            // save response headers
+            this._req.responseHeaders = headers;
+            // commented out to avoid printing secret info
+            // nbLogger('[response]' + _util.inspect(headers));
+            progress = this._createProgressReporter("download", HttpNode._getContentLength(headers));
+
+            if (this._decompress) {
+                decompressor = _createDecompressor(_getHeaderValue(headers as Headers, "Content-Encoding"));
+            }
+            if (decompressor != null) {
+                decompressor.on('data', onData).on('end', onEnd).on('error', onError);
+            }
+
+            if (this._streaming && 200 <= statusCode && statusCode < 300) {
+                responseStream = this._resolveStream(statusCode, headers, {
+                    pause: () => HttpNode._pauseStreams(stream, decompressor),
+                    resume: () => HttpNode._resumeStreams(stream, decompressor),
+                    cancel: () => HttpNode._closeStream(stream, http2.constants.NGHTTP2_CANCEL)
+                }, this._receiveResponseHeaders);
+            }
+        }).on('data', (data: Buffer) => {
+            if (progress != null) {
+                progress.add(data.length);
+            }
+            if (decompressor != null) {
+                decompressor.write(data);
+            } else {
+                onData(data);
+            }
+        }).on('end', () => {
+            if (decompressor != null) {
+                decompressor.end();
+            } else {
+                onEnd();
+            }
+        }).on('error', onError).on('push', (headers: IncomingHttpHeaders, flags: number) => {
+            nbLogger('HTTP/2 Stream push', this._req.service);
             // nbLogger('HTTP/2 Stream push: ' + _util.inspect(headers));
         }).on('finish', () => {
-            nbLogger('HTTP/2 Stream finish');
+            nbLogger('HTTP/2 Stream finish', this._req.service);
         }).on('altsvc', (alt: string, origin: string, streamId: number) => {
             // available after v9.4.0+
-            nbLogger('HTTP/2 Stream altsvc');
+            nbLogger('HTTP/2 Stream altsvc', this._req.service);
             // nbLogger('HTTP/2 Stream altsvc altsvc:' + alt + ' origin:' + origin + ' streamId:' + streamId);
         }).on('aborted', () => {
-            nbLogger('HTTP/2 Stream aborted');
+            nbLogger('HTTP/2 Stream aborted', this._req.service);
+        }).on('close', () => {
+            // 終端受信前に close された場合 (タイムアウト等)
+            if (responseStream != null) {
+                responseStream._fail(_createError(0, "HTTP/2 Stream Error", "Stream closed"));
+            }
         });
     }
 
+    /**
+     * 圧縮された応答を展開するストリームを生成する
+     * @param res 応答ストリーム (http.IncomingMessage)
+     * @param headers レスポンスヘッダ
+     * @param {_TransferProgressReporter} progress 進捗通知 (受信したバイト数を通知する)
+     * @return 応答ボディのストリーム。圧縮されていない場合は res
+     * @private
+     */
+    private _decodeResponse(res: any, headers: {[index: string]: any}, progress: _TransferProgressReporter): any {
+        if (progress != null) {
+            res.on('data', (data: Buffer) => progress.add(data.length));
+        }
+        const decompressor = this._decompress ? _createDecompressor(_getHeaderValue(headers, "Content-Encoding")) : null;
+        if (decompressor == null) {
+            return res;
+        }
+        res.on('data', (data: Buffer) => decompressor.write(data));
+        res.on('end', () => decompressor.end());
+        return decompressor;
+    }
+
+    /**
+     * 受信ストリームを一時停止する
+     * @private
+     */
+    private static _pauseStreams(source: any, decompressor: any): void {
+        source.pause();
+        if (decompressor != null) {
+            decompressor.pause();
+        }
+    }
+
+    /**
+     * 受信ストリームを再開する
+     * @private
+     */
+    private static _resumeStreams(source: any, decompressor: any): void {
+        source.resume();
+        if (decompressor != null) {
+            decompressor.resume();
+        }
+    }
+
+    /**
+     * ヘッダをコピーする
+     * @private
+     */
+    private static _copyHeaders(headers: Headers): Headers {
+        const result: Headers = {};
+        for (const key of Object.keys(headers || {})) {
+            result[key] = headers[key];
+        }
+        return result;
+    }
+
     private _parseNodeResponse(buffer: Buffer): Buffer | string | object {
         try {
             switch (this._responseType) {
@@ -384,39 +755,21 @@ export class HttpNode extends HttpRequestExecutor {
                     return buffer;
             }
         } catch (e) {
-            nbError("bad response: e=" + e.toString());
+            nbError("bad response: e=" + e.toString(), this._req.service);
             return null;
         }
     }
 
-    /**
-     * HTTP/2のsessionをcloseする(Node.js用)
-     * @param session http2.ClientHttp2Sessionだが、互換性維持のためanyを使用
-     * @param {function(): void} callback close完了後のコールバック
-     * @private
-     */
-    private static _closeSession(session: any, callback?: () => void): void {
-        if ('close' in session) {
-            session.close(callback); // for v8.11.2+
-        } else if ('shutdown' in session) {
-            const options = {'graceful': true};
-            session.shutdown(options, callback); // for v8.4. shutdown() is removed at v8.11.2
-        } else {
-            // fail safe
-            session.destroy();
-            session.removeAllListeners();
-        }
-    }
-
     /**
      * HTTP/2のstreamをcloseする(Node.js用)
      * node versionによりcloseに使用するAPIが異なるため
      * @param stream http2.ClientHttp2Streamだが、互換性維持のためanyを使用
+     * @param {number} code RST_STREAM のエラーコード(省略時は NGHTTP2_NO_ERROR)
      * @private
      */
-    private static _closeStream(stream: any): void {
+    private static _closeStream(stream: any, code?: number): void {
         if ('close' in stream) {
-            stream.close(); // for v9+
+            stream.close(code); // for v9+
         } else {
             stream.destroy(); // for v8.4
         }
@@ -427,7 +780,7 @@ export class HttpNode extends HttpRequestExecutor {
      * @returns {{index: string, module:http2.ClientHttp2Session}}
      */
     static getHttp2Sessions(): { [index: string]: ClientHttp2Session } {
-        return HttpNode._http2Sessions;
+        return HttpNode._http2Pool.getAll();
     }
 
     /**
@@ -436,20 +789,17 @@ export class HttpNode extends HttpRequestExecutor {
      * @returns {module:http2.ClientHttp2Session} session
      */
     static getHttp2Session(authority: string): ClientHttp2Session {
-        let session = null;
-        if (authority in HttpNode._http2Sessions) {
-            session = HttpNode._http2Sessions[authority];
-        }
-        return session;
+        return HttpNode._http2Pool.get(authority);
     }
 
     /**
      * HTTP/2セッションをキャッシュする
      * @param {string} authority
      * @param {module:http2.ClientHttp2Session} session
+     * @param {Http2SessionOptions} options セッション管理オプション
      */
-    static setHttp2Session(authority: string, session: ClientHttp2Session): void {
-        HttpNode._http2Sessions[authority] = session;
+    static setHttp2Session(authority: string, session: ClientHttp2Session, options?: Http2SessionOptions): void {
+        HttpNode._http2Pool.set(authority, session, options);
     }
 
     /**
@@ -457,26 +807,16 @@ export class HttpNode extends HttpRequestExecutor {
      * @param {string} authority 未指定の場合は、保持するセッションを全てクローズする
      */
     static closeHttp2Session(authority?: string): void {
-        if (authority === undefined) {
-            for (const key in HttpNode._http2Sessions) {
-                HttpNode.closeHttp2Session(key);
-            }
-            return;
-        }
-        const session = HttpNode._http2Sessions[authority];
-        if (session != null) {
-            if (session.destroyed) {
-                session.removeAllListeners();
-                nbLogger('HTTP/2 session [' + authority + '] is already destroyed');
-            } else {
-                nbLogger('HTTP/2 session [' + authority + '] is going to close');
-                HttpNode._closeSession(session, () => {
-                    session.removeAllListeners();
-                    nbLogger('HTTP/2 session [' + authority + '] has been closed');
-                });
-            }
-            delete HttpNode._http2Sessions[authority];
-        }
+        HttpNode._http2Pool.close(authority);
+    }
+
+    /**
+     * HTTP/2セッションの統計情報を返却する
+     * @param {string} authority 未指定の場合は、保持する全てのセッションの統計情報を返却する
+     * @returns {Http2SessionStats[]} 統計情報
+     */
+    static getHttp2SessionStats(authority?: string): Http2SessionStats[] {
+        return HttpNode._http2Pool.getStats(authority);
     }
 }
 
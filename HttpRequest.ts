@@ -1,13 +1,25 @@
 import {NebulaService, ProxyServer} from "./NebulaService";
-import {JsonObject, nbLogger} from "./Head";
-import {http2} from "./NodeSupport";
-
-import * as _tls from "tls";
+import {Nebula} from "./Nebula";
+import {_createAbortError, _createTimeoutError, _onAbort, AbortSignalLike, Callbacks, JsonObject, nbError, nbLogger, TransferProgress} from "./Head";
+import {http, http2} from "./NodeSupport";
 
 import {Promise} from "es6-promise";
 import {Buffer} from "buffer";
 import {HttpNode} from "./HttpNode";
 import {HttpXhr} from "./HttpXhr";
+import {_hasFetch} from "./HttpFetch";
+import {_runInterceptors, HttpInterceptor, HttpRequestContext} from "./HttpInterceptor";
+import {_executeWithRetry, _parseRetryAfter, RetryPolicy} from "./RetryPolicy";
+import {ResponseStream, ResponseStreamSource} from "./ResponseStream";
+import {Http2SessionStats} from "./Http2SessionPool";
+import {_RequestCoalescer} from "./RequestCoalescer";
+import {_RequestScheduler, PRIORITY_INTERACTIVE} from "./RequestScheduler";
+import {_executeWithCache, _getResponseETag, ETagResolver, ResponseCache} from "./ResponseCache";
+import {NetworkError, RateLimitedError} from "./Errors";
+import {_executeWithCircuitBreaker} from "./CircuitBreaker";
+import {_mergeTimeoutOptions, _RequestTimer, TimeoutOptions} from "./Timeout";
+import {HarRecorder} from "./HarRecorder";
+import {_executeWithSession} from "./SessionManager";
 
 /**
  * APIリクエストインタフェース。
@@ -22,6 +34,11 @@ export interface ApiRequest {
     setQueryParam?(key: string, value: any): void;
     setQueryParams?(params: any): void;
     setSessionToken?(token: string): void;
+    setAbortSignal?(signal: AbortSignalLike): void;
+    setResponseCache?(cache: ResponseCache, etagResolver?: ETagResolver): void;
+    setPriority?(priority: string): void;
+    setTimeoutOptions?(timeout: number | TimeoutOptions): void;
+    _applyCallbackOptions?(callbacks: Callbacks): void;
 }
 
 export interface Headers {
@@ -32,6 +49,27 @@ export interface QueryParams {
     [index: string]: string;
 }
 
+/**
+ * ヘッダ値を取得する。ヘッダ名の大文字・小文字は区別しない。
+ * @param {Headers} headers ヘッダ
+ * @param {string} name ヘッダ名
+ * @returns {string} ヘッダ値。存在しない場合は null
+ * @private
+ */
+export const _getHeaderValue = (headers: Headers, name: string): string => {
+    if (headers == null) {
+        return null;
+    }
+
+    const lowerName = name.toLowerCase();
+    for (const key of Object.keys(headers)) {
+        if (key.toLowerCase() === lowerName) {
+            return headers[key];
+        }
+    }
+    return null;
+};
+
 /**
  * XHRが定義されているか調べる
  * @returns {boolean}
@@ -41,13 +79,83 @@ export const _hasXhr = (): boolean => {
     return typeof XMLHttpRequest !== "undefined";
 }
 
+/**
+ * 転送の進捗を通知するクラス
+ * @private
+ */
+export class _TransferProgressReporter {
+    private _type: string;
+    private _total: number;
+    private _loaded = 0;
+    private _startTime: number;
+    private _listener: (progress: TransferProgress) => void;
+
+    constructor(type: string, total: number, listener: (progress: TransferProgress) => void) {
+        this._type = type;
+        this._total = (total != null && !isNaN(total)) ? total : null;
+        this._listener = listener;
+        this._startTime = Date.now();
+    }
+
+    /**
+     * 転送済みのバイト数を加算して通知する
+     * @param {number} bytes バイト数
+     */
+    add(bytes: number): void {
+        this.update(this._loaded + bytes);
+    }
+
+    /**
+     * 転送済みのバイト数を更新して通知する
+     * @param {number} loaded 転送済みのバイト数
+     * @param {number} total 全体のバイト数
+     */
+    update(loaded: number, total?: number): void {
+        this._loaded = loaded;
+        if (total != null) {
+            this._total = total;
+        }
+
+        const elapsed = Date.now() - this._startTime;
+        try {
+            this._listener({
+                type: this._type,
+                loaded,
+                total: this._total,
+                rate: (elapsed > 0) ? Math.round(loaded * 1000 / elapsed) : 0
+            });
+        } catch (e) {
+            nbError("progress listener error: " + e);
+        }
+    }
+}
+
+/**
+ * HttpRequestExecutor ファクトリ
+ */
+export type HttpRequestExecutorFactory = (req: HttpRequest) => HttpRequestExecutor;
+
+/**
+ * 通信方式毎の HttpRequestExecutor ファクトリ
+ * @private
+ */
+export interface HttpRequestExecutorFactories {
+    xhr: HttpRequestExecutorFactory;
+    node: HttpRequestExecutorFactory;
+    fetch: HttpRequestExecutorFactory;
+}
+
 export abstract class HttpRequestExecutor {
     _req: HttpRequest;
     _resolve: any;
     _reject: any;
+    _streaming = false;
+    // 接続の確立を通知する (_notifyConnected を呼び出す) 場合は true
+    _observesConnect = false;
 
-    static _xhrFactory: (req: HttpRequest) => HttpRequestExecutor;
-    static _nodeFactory: (req: HttpRequest) => HttpRequestExecutor;
+    static _xhrFactory: HttpRequestExecutorFactory;
+    static _nodeFactory: HttpRequestExecutorFactory;
+    static _fetchFactory: HttpRequestExecutorFactory;
 
     constructor(req: HttpRequest) {
         this._req = req;
@@ -72,6 +180,96 @@ export abstract class HttpRequestExecutor {
 
     abstract setReturnRawMessage(rawMessage: boolean): void;
 
+    /**
+     * true を指定すると、execute 成功時の応答は ResponseStream となる
+     * @param {boolean} streaming
+     */
+    setResponseStreaming(streaming: boolean): void {
+        this._streaming = streaming;
+    }
+
+    /**
+     * 進捗通知クラスを生成する
+     * @param {string} type "upload" または "download"
+     * @param {number} total 全体のバイト数
+     * @return {_TransferProgressReporter} 進捗通知が不要な場合は null
+     * @private
+     */
+    _createProgressReporter(type: string, total: number): _TransferProgressReporter {
+        const listener = this._req.getProgressListener();
+        return (listener != null) ? new _TransferProgressReporter(type, total, listener) : null;
+    }
+
+    /**
+     * エラー応答のログを出力する。
+     * 条件付き GET (If-None-Match 付き)に対する 304 応答は応答キャッシュで処理されるため、デバッグログとする。
+     * @param {number} status ステータスコード
+     * @param {string} message メッセージ
+     * @private
+     */
+    _logResponseError(status: number, message: string): void {
+        if (status === 304 && this._req._isConditional()) {
+            nbLogger(message, this._req.service);
+        } else {
+            nbError(message, this._req.service);
+        }
+    }
+
+    /**
+     * ストリーミング応答を生成して返却する
+     * @param {number} status ステータスコード
+     * @param {Object} headers レスポンスヘッダ
+     * @param {ResponseStreamSource} source データ供給元
+     * @param {boolean} receiveResponseHeaders レスポンスヘッダ受信設定
+     * @return {ResponseStream}
+     * @private
+     */
+    _resolveStream(status: number, headers: {[index: string]: any}, source: ResponseStreamSource,
+                   receiveResponseHeaders: boolean): ResponseStream {
+        const stream = new ResponseStream(status, headers, source, this._req.getAbortSignal());
+        if (receiveResponseHeaders) {
+            this._resolve({
+                body: stream,
+                headers,
+                status
+            });
+        } else {
+            this._resolve(stream);
+        }
+        return stream;
+    }
+
+    /**
+     * 接続が確立したことを通知する。接続タイムアウトの監視を終了する。
+     * @private
+     */
+    _notifyConnected(): void {
+        const timer = this._req._requestTimer;
+        if (timer != null) {
+            timer.connected();
+        }
+    }
+
+    /**
+     * 応答の受信を開始したことを通知する。接続・応答開始タイムアウトの監視を終了する。
+     * @param {number} status ステータスコード
+     * @private
+     */
+    _notifyResponseStarted(status?: number): void {
+        if (status != null) {
+            this._req._responseStatus = status;
+        }
+        const timer = this._req._requestTimer;
+        if (timer != null) {
+            timer.responseStarted();
+        }
+    }
+
+    /**
+     * 実行中のリクエストを中断する
+     */
+    abstract abort(): void;
+
     /**
      * セッションをcloseする (Node.js 使用時、HTTP/2使用時のみ有効)
      * @param {string} authority 対象のauthority (例: 'http://example.com:1234' パスやパラメータは含めない)
@@ -87,25 +285,89 @@ export abstract class HttpRequestExecutor {
     }
 
     /**
-     * HttpRequestExecutor のファクトリメソッド
+     * HTTP/2 セッションの統計情報を返却する (Node.js 使用時、HTTP/2使用時のみ有効)
+     * @param {string} authority 対象のauthority。未指定の場合は全てのセッションの統計情報を返却する
+     * @return {Http2SessionStats[]} 統計情報
+     */
+    static getHttp2SessionStats(authority?: string): Http2SessionStats[] {
+        if (_hasXhr()) {
+            return [];
+        }
+        return HttpNode.getHttp2SessionStats(authority);
+    }
+
+    /**
+     * HttpRequestExecutor のファクトリメソッド。
+     * <p>
+     * NebulaService にファクトリが設定されている場合はそれを使用する。
+     * 設定されていない場合は transport 設定に従って実行クラスを選択する。
      * @param {HttpRequest} req
      * @return {HttpRequestExecutor}
      */
     static create(req: HttpRequest): HttpRequestExecutor {
-        if (_hasXhr()) {
-            return this._xhrFactory(req);
-        } else {
-            return this._nodeFactory(req);
+        const factory: HttpRequestExecutorFactory = req.service.getExecutorFactory();
+        if (factory != null) {
+            return factory(req);
         }
+        return this._selectFactory(req.service.getTransport(), this._getFactories())(req);
     }
 
-    static setXhrFactory(factory: (req: HttpRequest) => HttpRequestExecutor) {
+    /**
+     * 現在設定されているファクトリを返す
+     * @return {HttpRequestExecutorFactories}
+     * @private
+     */
+    static _getFactories(): HttpRequestExecutorFactories {
+        return {
+            xhr: this._xhrFactory,
+            node: this._nodeFactory,
+            fetch: this._fetchFactory
+        };
+    }
+
+    /**
+     * 通信方式に対応するファクトリを選択する。
+     * "auto" の場合は XHR, Node.js, Fetch API の順に利用可能なものを使用する。
+     * @param {string} transport 通信方式
+     * @param {HttpRequestExecutorFactories} factories ファクトリ
+     * @return {HttpRequestExecutorFactory}
+     * @private
+     */
+    static _selectFactory(transport: string, factories: HttpRequestExecutorFactories): HttpRequestExecutorFactory {
+        switch (transport) {
+            case "xhr":
+                return factories.xhr;
+
+            case "node":
+                return factories.node;
+
+            case "fetch":
+                return factories.fetch;
+
+            default:
+            case "auto":
+                if (_hasXhr()) {
+                    return factories.xhr;
+                } else if (http == null && _hasFetch()) {
+                    // Service Worker, Edge runtime など
+                    return factories.fetch;
+                } else {
+                    return factories.node;
+                }
+        }
+    }
+
+    static setXhrFactory(factory: HttpRequestExecutorFactory) {
         this._xhrFactory = factory;
     }
 
-    static setNodeFactory(factory: (req: HttpRequest) => HttpRequestExecutor) {
+    static setNodeFactory(factory: HttpRequestExecutorFactory) {
         this._nodeFactory = factory;
     }
+
+    static setFetchFactory(factory: HttpRequestExecutorFactory) {
+        this._fetchFactory = factory;
+    }
 }
 
 /*
@@ -121,9 +383,21 @@ export class HttpRequest implements ApiRequest {
     private _queryParams: QueryParams;
     private _data: any;
     private _sessionToken: string;
+    private _usesCurrentUserToken = true;
     private _timeout: number;
     private _rawMessage: boolean = false;
+    private _streaming = false;
     private _useHttp2: boolean = false;
+    private _retryPolicy: RetryPolicy;
+    private _signal: AbortSignalLike = null;
+    private _progressListener: (progress: TransferProgress) => void = null;
+    private _responseCache: ResponseCache = null;
+    private _etagResolver: ETagResolver = _getResponseETag;
+    private _priority = PRIORITY_INTERACTIVE;
+    private _timeoutOptions: number | TimeoutOptions = null;
+    // internal use only
+    _requestTimer: _RequestTimer = null;
+    _responseStatus: number = null;
 
     _resolve: any;
     _reject: any;
@@ -132,35 +406,14 @@ export class HttpRequest implements ApiRequest {
     private _responseHeaders: object;
 
     private static _defaultTimeout = 0;
-    static _httpAgent: any;
-    static _httpsAgent: any;
-    static _httpsAgentOptions: _tls.SecureContextOptions;
-    static _proxy: ProxyServer;
-
-    static getProxy(): ProxyServer {
-        return HttpRequest._proxy;
-    }
-
-    static setProxy(proxy: ProxyServer) {
-        HttpRequest._proxy = proxy;
-    }
-
-    static setHttpAgent(agent: any) {
-        HttpRequest._httpAgent = agent;
-    }
-
-    static setHttpsAgent(agent: any, options?: any) {
-        HttpRequest._httpsAgent = agent;
-        HttpRequest._httpsAgentOptions = options;
-    }
-
     // internal use only
     get service(): any {
         return this._service;
     }
 
     /**
-     * @description レスポンスヘッダ(Node.js のみ)
+     * @description レスポンスヘッダ。
+     * <p>ヘッダ名をキーとした Object。ブラウザ(XHR)の場合、ヘッダ名は小文字に変換される。
      * @name HttpRequest#responseHeaders
      * @type {Object}
      */
@@ -190,6 +443,51 @@ export class HttpRequest implements ApiRequest {
         return this._defaultTimeout;
     }
 
+    /**
+     * @memberOf HttpRequest
+     * @description デフォルトの NebulaService ({@link Nebula}) に最後に設定したプロキシを返却する (Deprecated)
+     * <p>本APIは Deprecated である。{@link NebulaService#getHttpProxy}, {@link NebulaService#getHttpsProxy} を使用すること。
+     * @return {Object} プロキシ設定
+     * @deprecated
+     */
+    static getProxy(): ProxyServer {
+        return Nebula._proxySettings.getProxy();
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description {@link HttpRequest.getProxy} が返却するプロキシを設定する (Deprecated)。通信には影響しない。
+     * <p>本APIは Deprecated である。{@link NebulaService#setHttpProxy}, {@link NebulaService#setHttpsProxy} を使用すること。
+     * @param {Object} proxy プロキシ設定
+     * @deprecated
+     */
+    static setProxy(proxy: ProxyServer) {
+        Nebula._proxySettings.setProxy(proxy);
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description デフォルトの NebulaService ({@link Nebula}) で http の接続先に使用するエージェントを設定する (Deprecated, Node.js専用)
+     * <p>本APIは Deprecated である。{@link NebulaService#setHttpProxy} を使用すること。
+     * @param {http.Agent} agent エージェント。null の場合は設定を解除する
+     * @deprecated
+     */
+    static setHttpAgent(agent: any) {
+        Nebula._proxySettings.setHttpAgent(agent);
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description デフォルトの NebulaService ({@link Nebula}) で https の接続先に使用するエージェントを設定する (Deprecated, Node.js専用)
+     * <p>本APIは Deprecated である。{@link NebulaService#setHttpsProxy} を使用すること。
+     * @param {https.Agent} agent エージェント。null の場合は設定を解除する
+     * @param {Object} options エージェントの TLS オプション
+     * @deprecated
+     */
+    static setHttpsAgent(agent: any, options?: any) {
+        Nebula._proxySettings.setHttpsAgent(agent, options);
+    }
+
     /**
      * @description raw response message を返す場合に true をセットする (Node.js専用)。
      * <p>true を指定すると、execute 成功時の応答は http.IncomingMessage となる。
@@ -232,7 +530,7 @@ export class HttpRequest implements ApiRequest {
      * @param {Object} option オプション。noprefix プロパティに true を設定すると、パスプレフィクス("/1/{tenantId}")を付与しない。
      */
     constructor(service: NebulaService, path: string, option?: JsonObject) {
-        nbLogger("HttpRequest#start:path = " + path);
+        nbLogger("HttpRequest#start:path = " + path, service);
         this._service = service;
         this._url = this._service.getBaseUri();
 
@@ -252,6 +550,7 @@ export class HttpRequest implements ApiRequest {
         this._receiveResponseHeaders = false;
         this._timeout = HttpRequest.getDefaultTimeout();
         this._useHttp2 = this._service.getHttp2();
+        this._retryPolicy = this._service.getRetryPolicy();
 
         const _currentObj = this._service.getCurrentUser();
 
@@ -284,60 +583,247 @@ export class HttpRequest implements ApiRequest {
      * @memberOf HttpRequest
      * @description HTTP リクエストを実行する。
      * X-Application-Id, X-Application-Key, X-Session-Token ヘッダは自動的に付与される。
+     * <p>
+     * NebulaService にインターセプタが登録されている場合は、インターセプタを経由して実行される。
+     * リトライポリシが設定されている場合は、一時的なエラー発生時に自動的にリトライする。
+     * 応答キャッシュが設定されている場合は、条件付き GET を行う。
+     * <p>
+     * AbortSignal が abort された場合は、処理の段階(インターセプタ、待ち合わせ、リトライ待ち、通信中等)に関わらず、
+     * 直ちに AbortError で失敗する。
      * @return {Promise} Promise
      */
     execute(): Promise<any> {
-        return new Promise((resolve, reject) => {
-            this._resolve = resolve;
-            this._reject = reject;
-            this._headers["X-Application-Id"] = this._service.getAppID();
-            this._headers["X-Application-Key"] = this._service.getAppKey();
-
-            // ヘッダ
-            if (this._contentType !== null) {
-                this._headers["Content-Type"] = this._contentType;
+        const signal = this._signal;
+        if (signal != null && signal.aborted) {
+            return Promise.reject(_createAbortError());
+        }
+
+        const promise = _executeWithSession(this._service.getSessionManager(), this, () => Promise.resolve().then(() => {
+            const context = this._createContext();
+            const interceptors: HttpInterceptor[] = this._service.getInterceptors();
+            return _runInterceptors(interceptors, context,
+                (ctx) => this._coalesce(ctx, (c, s) => _executeWithCache(this._responseCache, this._etagResolver, c,
+                    (c2) => _executeWithRetry(this._retryPolicy, c2, s,
+                        (c3) => _executeWithCircuitBreaker(this._service.getCircuitBreaker(), c3,
+                            (c4) => this._schedule(c4, s))))));
+        }));
+        if (signal == null) {
+            return promise;
+        }
+
+        // 後続の各段階は abort を検出した時点で処理を中止する
+        return new Promise<any>((resolve, reject) => {
+            const removeAbortListener = _onAbort(signal, () => reject(_createAbortError()));
+            promise.then((response) => {
+                removeAbortListener();
+                resolve(response);
+            }, (error) => {
+                removeAbortListener();
+                reject(error);
+            });
+        });
+    }
+
+    /**
+     * 同一内容の GET リクエストが実行中の場合は、その通信と結果を共有する。
+     * <p>
+     * 共有中のリクエストを abort した場合は、そのリクエストのみ中断される。
+     * 共有している全てのリクエストが abort された場合に通信が中断される。
+     * 応答ヘッダは通信を行ったリクエストのものを共有する。
+     * @param {HttpRequestContext} context リクエストコンテキスト
+     * @param {function} send リクエスト送信処理。第2引数は通信の中断に使用する AbortSignal
+     * @return {Promise} Promise
+     * @private
+     */
+    private _coalesce(context: HttpRequestContext,
+                      send: (context: HttpRequestContext, signal: AbortSignalLike) => Promise<any>): Promise<any> {
+        const coalescer: _RequestCoalescer = this._service.isRequestCoalescing() ? this._service._requestCoalescer : null;
+        const key = this._getCoalescingKey(context);
+        if (coalescer == null || key == null) {
+            return send(context, this._signal);
+        }
+
+        // 通信は共有リクエストの AbortSignal で中断する
+        return coalescer.execute(key, this._signal, (sharedSignal) => send(context, sharedSignal).then((response) => {
+            return {response, responseHeaders: this._responseHeaders};
+        })).then((result) => {
+            this._responseHeaders = result.responseHeaders;
+            return result.response;
+        });
+    }
+
+    /**
+     * リクエスト集約のキーを生成する。集約できないリクエストの場合は null を返却する。
+     * @param {HttpRequestContext} context リクエストコンテキスト
+     * @return {string} キー
+     * @private
+     */
+    private _getCoalescingKey(context: HttpRequestContext): string {
+        if ((context.method || "GET").toUpperCase() !== "GET" || context.body != null ||
+            this._rawMessage || this._streaming || this._progressListener != null) {
+            return null;
+        }
+
+        const headers: string[] = [];
+        for (const name of Object.keys(context.headers).sort()) {
+            headers.push(name.toLowerCase() + ":" + context.headers[name]);
+        }
+        return [context.url, headers.join("\n"), this._responseType, String(this._receiveResponseHeaders)].join("\n");
+    }
+
+    /**
+     * リクエストコンテキストを生成する
+     * @return {HttpRequestContext}
+     * @private
+     */
+    private _createContext(): HttpRequestContext {
+        this._headers["X-Application-Id"] = this._service.getAppID();
+        this._headers["X-Application-Key"] = this._service.getAppKey();
+
+        // ヘッダ
+        if (this._contentType !== null) {
+            this._headers["Content-Type"] = this._contentType;
+        }
+
+        if (this._sessionToken !== null) {
+            this._headers["X-Session-Token"] = this._sessionToken;
+        }
+
+        let url = this._url;
+
+        // クエリパラメータ
+        if (this._queryParams) {
+            const p: string[] = [];
+
+            for (const key of Object.keys(this._queryParams)) {
+                if (this._queryParams.hasOwnProperty(key)) {
+                    p.push(encodeURIComponent(key) + "=" + encodeURIComponent(this._queryParams[key]));
+                }
             }
 
-            if (this._sessionToken !== null) {
-                this._headers["X-Session-Token"] = this._sessionToken;
+            if (p.length > 0) {
+                url += "?" + p.join("&");
             }
+        }
 
-            let url = this._url;
+        // ボディ
+        let body: any;
+        if (!(this._data != null)) {
+            body = null;
+        } else if (
+            (typeof this._data === "string") ||
+            (typeof Blob !== "undefined" && Blob !== null && this._data instanceof Blob) ||
+            (typeof Buffer !== "undefined" && Buffer !== null && Buffer.isBuffer(this._data)) ||
+            (typeof ReadableStream !== "undefined" && this._data instanceof ReadableStream)) {
+            body = this._data;
+        } else {
+            body = JSON.stringify(this._data);
+        }
+
+        return {
+            request: this,
+            service: this._service,
+            method: this._method,
+            url,
+            headers: this._headers,
+            body
+        };
+    }
 
-            // クエリパラメータ
-            if (this._queryParams) {
-                const p: string[] = [];
+    /**
+     * NebulaService のスケジューラを経由してリクエストを送信する。
+     * ホスト毎の同時実行数が上限に達している場合は、優先度順に待ち合わせる。
+     * @param {HttpRequestContext} context リクエストコンテキスト
+     * @param {AbortSignalLike} signal AbortSignal
+     * @return {Promise} Promise
+     * @private
+     */
+    private _schedule(context: HttpRequestContext, signal: AbortSignalLike): Promise<any> {
+        const scheduler: _RequestScheduler = this._service._requestScheduler;
+        const match = /^[a-z][a-z0-9+.-]*:\/\/[^\/?#]*/i.exec(context.url);
+        const host = (match != null) ? match[0].toLowerCase() : "";
+        return scheduler.schedule(host, this._priority, signal, () => this._send(context, signal));
+    }
+
+    /**
+     * リクエストを送信する
+     * @param {HttpRequestContext} context リクエストコンテキスト
+     * @param {AbortSignalLike} signal AbortSignal
+     * @return {Promise} Promise
+     * @private
+     */
+    private _send(context: HttpRequestContext, signal: AbortSignalLike): Promise<any> {
+        return new Promise((resolve, reject) => {
+            if (signal != null && signal.aborted) {
+                reject(_createAbortError());
+                return;
+            }
 
-                for (const key of Object.keys(this._queryParams)) {
-                    if (this._queryParams.hasOwnProperty(key)) {
-                        p.push(encodeURIComponent(key) + "=" + encodeURIComponent(this._queryParams[key]));
-                    }
+            let executor: HttpRequestExecutor = null;
+            const timer = new _RequestTimer(this.getTimeoutOptions(), (phase, limit) => {
+                nbError("HTTP Request Error: Timeout Error: " + phase + " " + limit + "[msec]", this._service);
+                this._reject(_createTimeoutError("Request " + phase + " timeout: " + limit + "[msec]", phase));
+                if (executor != null) {
+                    executor.abort();
                 }
+            });
+            this._requestTimer = timer;
+            this._responseStatus = null;
 
-                if (p.length > 0) {
-                    url += "?" + p.join("&");
+            // HAR 記録
+            const recorder: HarRecorder = this._service.getHarRecorder();
+            let recorded = false;
+            const record = (response: any, error: any) => {
+                if (recorded || !recorder.isRecording()) {
+                    return;
                 }
-            }
+                recorded = true;
+                const status = this._responseStatus;
+                const headers = (status != null) ? this.responseHeaders as Headers : null;
+                recorder._record(context, timer, this._useHttp2, status, headers, response, error);
+            };
 
-            // ボディ
-            let body: any;
-            if (!(this._data != null)) {
-                body = null;
-            } else if (
-                (typeof this._data === "string") ||
-                (typeof Blob !== "undefined" && Blob !== null && this._data instanceof Blob) ||
-                (typeof Buffer !== "undefined" && Buffer !== null && Buffer.isBuffer(this._data))) {
-                body = this._data;
-            } else {
-                body = JSON.stringify(this._data);
-            }
+            const removeAbortListener = _onAbort(signal, () => {
+                nbLogger("HttpRequest#aborted", this._service);
+                timer.stop();
+                const error = _createAbortError();
+                record(null, error);
+                reject(error);
+                if (executor != null) {
+                    executor.abort();
+                }
+            });
+
+            this._resolve = (value: any) => {
+                timer.stop();
+                removeAbortListener();
+                record(value, null);
+                resolve(value);
+            };
+            this._reject = (error: any) => {
+                timer.stop();
+                removeAbortListener();
+                if (error instanceof RateLimitedError) {
+                    error.retryAfter = _parseRetryAfter(_getHeaderValue(this.responseHeaders as Headers, "Retry-After"));
+                }
+                if (error instanceof NetworkError && executor != null && executor._observesConnect) {
+                    error.connected = timer.connectedAt != null;
+                }
+                record(null, error);
+                reject(error);
+            };
 
-            const executor = HttpRequestExecutor.create(this);
+            nbLogger("HttpRequest#send", this._service, {method: context.method, url: context.url, headers: context.headers});
+            executor = HttpRequestExecutor.create(this);
             if (this._rawMessage) {
                 executor.setReturnRawMessage(this._rawMessage);
             }
+            if (this._streaming) {
+                executor.setResponseStreaming(this._streaming);
+            }
 
-            executor.execute(this._method, url, this._headers, body, this._timeout,
+            timer.start(executor._observesConnect);
+            executor.execute(context.method, context.url, context.headers, context.body, this._timeout,
                 this._responseType, this._receiveResponseHeaders, this._useHttp2);
         });
     }
@@ -351,6 +837,18 @@ export class HttpRequest implements ApiRequest {
         HttpRequestExecutor.closeHttp2Session(authority);
     }
 
+    /**
+     * @memberOf HttpRequest
+     * @description HTTP/2 セッションの統計情報を返却する (Node.js 使用時、HTTP/2使用時のみ有効)
+     * <p>
+     * 統計情報には、実行中/待ち合わせ中のストリーム数、PING の往復時間、GOAWAY 受信回数、再接続回数等が含まれる。
+     * @param {string} authority 対象のauthority (例: 'https://example.com:443')。未指定の場合は全てのセッションの統計情報を返却する
+     * @return {Http2SessionStats[]} 統計情報
+     */
+    static getHttp2SessionStats(authority?: string): Http2SessionStats[] {
+        return HttpRequestExecutor.getHttp2SessionStats(authority);
+    }
+
     /**
      * @memberOf HttpRequest
      * @description HTTP メソッドを設定する
@@ -422,6 +920,7 @@ export class HttpRequest implements ApiRequest {
      * 文字列を指定した場合は文字列がそのまま設定される。
      * Objectを指定した場合は JSON 文字列に変換される。
      * Blob および Buffer を指定した場合は、バイナリデータが設定される。
+     * ReadableStream を指定した場合は、ストリーミング送信される (Fetch API 使用時のみ)。
      * @param {Object} data データ
      * @return {HttpRequest} this
      */
@@ -440,9 +939,56 @@ export class HttpRequest implements ApiRequest {
      */
     setSessionToken(sessionToken: string): HttpRequest {
         this._sessionToken = sessionToken;
+        this._usesCurrentUserToken = false;
         return this;
     }
 
+    /**
+     * カレントユーザのセッショントークンを使用するか調べる
+     * @return {boolean} setSessionToken で明示的に指定していない場合は true
+     * @private
+     */
+    _usesCurrentSession(): boolean {
+        return this._usesCurrentUserToken;
+    }
+
+    /**
+     * セッショントークンをカレントユーザのものに更新する (セッション更新後の再送用)
+     * @private
+     */
+    _refreshSessionToken(): void {
+        const current = this._service.getCurrentUser();
+        this._sessionToken = (current != null && current.sessionToken != null) ? current.sessionToken : null;
+        if (this._sessionToken === null) {
+            delete this._headers["X-Session-Token"];
+        }
+    }
+
+    /**
+     * @return {string} セッショントークン
+     * @private
+     */
+    _getSessionToken(): string {
+        return this._sessionToken;
+    }
+
+    /**
+     * @return {boolean} 条件付きリクエスト(If-None-Match 付き)の場合は true
+     * @private
+     */
+    _isConditional(): boolean {
+        return _getHeaderValue(this._headers, "If-None-Match") != null;
+    }
+
+    /**
+     * 再送できるリクエストか調べる。ストリームのボディは再送できない。
+     * @return {boolean} 再送できる場合は true
+     * @private
+     */
+    _isReplayable(): boolean {
+        return !(typeof ReadableStream !== "undefined" && this._data instanceof ReadableStream);
+    }
+
     /**
      * @memberOf HttpRequest
      * @description ResponseType を設定する。
@@ -453,6 +999,7 @@ export class HttpRequest implements ApiRequest {
      *     <li>json : JSON。レスポンスは JSON.parse されたもの。</li>
      *     <li>blob : blob (ブラウザのみ)</li>
      *     <li>buffer : Buffer (Node.jsのみ)</li>
+     *     <li>arraybuffer : ArrayBuffer (Fetch API 使用時のみ)</li>
      * </ul>
      * @param {string} responseType レスポンスタイプ
      * @return {HttpRequest} this
@@ -462,6 +1009,210 @@ export class HttpRequest implements ApiRequest {
         return this;
     }
 
+    /**
+     * @memberOf HttpRequest
+     * @description ストリーミング受信設定を行う。
+     * <p>
+     * true に設定すると、execute 成功時の応答は {@link ResponseStream} となり、
+     * レスポンスボディを受信したチャンク単位で読み込むことができる。
+     * レスポンスヘッダ受信設定をしている場合は、body に ResponseStream が格納される。
+     * 応答が 2xx 以外の場合は、ボディを全て受信した後、通常と同様にエラーとなる。
+     * <p>
+     * ストリーミング受信時は、レスポンスタイプの設定は無視される。
+     * @param {boolean} enable true の場合はストリーミング受信する
+     * @return {HttpRequest} this
+     */
+    setResponseStreaming(enable: boolean): HttpRequest {
+        this._streaming = enable;
+        return this;
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description ストリーミング受信設定を取得する
+     * @return {boolean} ストリーミング受信する場合は true
+     */
+    isResponseStreaming(): boolean {
+        return this._streaming;
+    }
+
+    /**
+     * @return {string} レスポンスタイプ
+     * @private
+     */
+    _getResponseType(): string {
+        return this._responseType;
+    }
+
+    /**
+     * @return {boolean} レスポンスヘッダを含めて応答する場合は true
+     * @private
+     */
+    _isReceiveResponseHeaders(): boolean {
+        return this._receiveResponseHeaders;
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description 転送の進捗通知リスナを設定する。
+     * <p>
+     * リクエストボディの送信時は type が "upload"、レスポンスボディの受信時は "download" の
+     * {@link TransferProgress} が通知される。
+     * Fetch API 使用時は、送信の進捗は通知されない。
+     * @param {function} listener リスナ。null の場合は通知しない。
+     * @return {HttpRequest} this
+     */
+    setProgressListener(listener: (progress: TransferProgress) => void): HttpRequest {
+        this._progressListener = (listener != null) ? listener : null;
+        return this;
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description 転送の進捗通知リスナを取得する
+     * @return {function} リスナ
+     */
+    getProgressListener(): (progress: TransferProgress) => void {
+        return this._progressListener;
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description リクエストのキャンセルに使用する AbortSignal を設定する。
+     * <p>
+     * abort された場合、通信は中断され name が "AbortError" のエラーで失敗する。
+     * リトライ待ち合わせ中の場合は、待ち合わせを中断する。
+     * @param {AbortSignal} signal AbortSignal。null の場合はキャンセルしない。
+     * @return {HttpRequest} this
+     */
+    setAbortSignal(signal: AbortSignalLike): HttpRequest {
+        this._signal = (signal != null) ? signal : null;
+        return this;
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description AbortSignal を取得する
+     * @return {AbortSignal} AbortSignal
+     */
+    getAbortSignal(): AbortSignalLike {
+        return this._signal;
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description リトライポリシを設定する。
+     * <p>
+     * 初期値は NebulaService に設定されたリトライポリシである。
+     * リトライは GET/HEAD/OPTIONS、または ETag で保護された更新リクエストに対してのみ行われる。
+     * @param {Object} policy リトライポリシ。null を指定するとリトライしない。
+     * 指定方法は {@link NebulaService#setRetryPolicy} を参照。
+     * @return {HttpRequest} this
+     */
+    setRetryPolicy(policy: RetryPolicy): HttpRequest {
+        this._retryPolicy = policy;
+        return this;
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description リトライポリシを取得する。
+     * @return {Object} リトライポリシ
+     */
+    getRetryPolicy(): RetryPolicy {
+        return this._retryPolicy;
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description リクエストの優先度を設定する。
+     * <p>
+     * NebulaService にホスト毎の最大同時リクエスト数 ({@link NebulaService#setMaxConcurrentRequests}) が
+     * 設定されている場合、上限を超えたリクエストは優先度順に待ち合わせる。
+     * "interactive" のリクエストは "background" のリクエストより先に実行される。
+     * @param {string} priority 優先度。"interactive"(デフォルト) または "background"。null の場合は "interactive"
+     * @return {HttpRequest} this
+     */
+    setPriority(priority: string): HttpRequest {
+        this._priority = priority || PRIORITY_INTERACTIVE;
+        return this;
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description リクエストの優先度を取得する。
+     * @return {string} 優先度
+     */
+    getPriority(): string {
+        return this._priority;
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description タイムアウトを設定する。
+     * <p>
+     * 指定しなかった項目は NebulaService のタイムアウト ({@link NebulaService#setTimeoutOptions}) に従う。
+     * リトライする場合は、試行毎に計測する。
+     * 制限時間を超えた場合、リクエストは中断され {@link TimeoutError} で失敗する。
+     * @param {number|Object} timeout タイムアウト。数値の場合は全体の制限時間(ミリ秒)。
+     * 指定方法は {@link NebulaService#setTimeoutOptions} を参照。null の場合は NebulaService の設定に従う。
+     * @return {HttpRequest} this
+     */
+    setTimeoutOptions(timeout: number | TimeoutOptions): HttpRequest {
+        this._timeoutOptions = (timeout !== undefined) ? timeout : null;
+        return this;
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description タイムアウトを取得する。NebulaService の設定と合成した値を返却する。
+     * @return {Object} タイムアウト (connect, firstByte, total)
+     */
+    getTimeoutOptions(): TimeoutOptions {
+        return _mergeTimeoutOptions(this._service.getTimeoutOptions(), this._timeoutOptions);
+    }
+
+    /**
+     * コールバックに指定された signal, priority, timeout をリクエストに設定する
+     * @param {Callbacks} callbacks コールバック。null の場合は既定値を設定する。
+     * @return {HttpRequest} this
+     * @private
+     */
+    _applyCallbackOptions(callbacks: Callbacks): HttpRequest {
+        this.setAbortSignal(callbacks && callbacks.signal);
+        this.setPriority(callbacks && callbacks.priority);
+        this.setTimeoutOptions(callbacks && callbacks.timeout);
+        return this;
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description 応答キャッシュを設定する。
+     * <p>
+     * GET の場合、キャッシュ済みの応答があれば If-None-Match ヘッダを付与し、
+     * 304 Not Modified を受信した場合はキャッシュした応答を返却する。
+     * GET 以外の場合は、成功時に同じ URL のキャッシュを削除する。
+     * rawMessage 指定時、ストリーミング受信時はキャッシュを使用しない。
+     * @param {ResponseCache} cache 応答キャッシュ。null を指定するとキャッシュを使用しない。
+     * @param {function} etagResolver 応答から ETag 値を取得する関数 (response, context) => string。
+     * 省略時は ETag レスポンスヘッダを使用する。
+     * @return {HttpRequest} this
+     */
+    setResponseCache(cache: ResponseCache, etagResolver?: ETagResolver): HttpRequest {
+        this._responseCache = cache;
+        this._etagResolver = etagResolver || _getResponseETag;
+        return this;
+    }
+
+    /**
+     * @memberOf HttpRequest
+     * @description 応答キャッシュを取得する。
+     * @return {ResponseCache} 応答キャッシュ
+     */
+    getResponseCache(): ResponseCache {
+        return this._responseCache;
+    }
+
     /**
      * @memberOf HttpRequest
      * @description リクエストヘッダを設定する。
@@ -472,7 +1223,7 @@ export class HttpRequest implements ApiRequest {
      */
     addRequestHeader(header: string, value: string): HttpRequest {
         if (this._headers[header] !== undefined) {
-            nbLogger("HTTP Request Warning : This header already exists.");
+            nbLogger("HTTP Request Warning : This header already exists.", this._service);
         }
 
         this._headers[header] = value;
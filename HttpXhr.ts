@@ -1,6 +1,7 @@
-import {_createError, nbError, root} from "./Head";
+import {_createError, _createTimeoutError, nbError, root} from "./Head";
 
 import {_hasXhr, Headers, HttpRequest, HttpRequestExecutor} from "./HttpRequest";
+import {ResponseStream} from "./ResponseStream";
 
 export const initHttpXhr = () => {
     HttpRequestExecutor.setXhrFactory((req) => new HttpXhr(req));
@@ -13,6 +14,8 @@ export const initHttpXhr = () => {
 export class HttpXhr extends HttpRequestExecutor {
     private _xhr: XMLHttpRequest;
     private _receiveResponseHeaders: boolean;
+    private _responseStream: ResponseStream = null;
+    private _streamOffset = 0;
 
     constructor(req: HttpRequest) {
         super(req);
@@ -23,6 +26,13 @@ export class HttpXhr extends HttpRequestExecutor {
         throw new Error("Not supported");
     }
 
+    abort(): void {
+        if (this._xhr != null) {
+            this._xhr.onreadystatechange = null;
+            this._xhr.abort();
+        }
+    }
+
     execute(method: string, url: string, headers: Headers, body: any, timeout: number,
             responseType: string, receiveResponseHeaders: boolean, useHttp2 : boolean): void {
         this._receiveResponseHeaders = receiveResponseHeaders;
@@ -53,9 +63,11 @@ export class HttpXhr extends HttpRequestExecutor {
         } catch (e) {
         }
 
-        if (responseType != null) {
+        if (!this._streaming && responseType != null) {
+            // ストリーミング受信時は受信途中の responseText を読み込むため text 固定
             this._xhr.responseType = responseType as XMLHttpRequestResponseType;
         }
+        this._setProgressHandlers();
 
         this._xhr.send(body);
     }
@@ -85,7 +97,19 @@ export class HttpXhr extends HttpRequestExecutor {
     _onReadyStateChange(): any {
         const xhr = this._xhr;
 
+        if (xhr.readyState >= 2) {
+            // HEADERS_RECEIVED
+            this._notifyResponseStarted(xhr.status);
+        }
+
+        if (this._streaming && this._onStreamingStateChange()) {
+            return;
+        }
+
         if (xhr.readyState === 4) {
+            // save response headers
+            this._req.responseHeaders = HttpXhr._parseResponseHeaders(xhr.getAllResponseHeaders());
+
             if (xhr.status >= 200 && xhr.status < 300) {
                 const body = (xhr.response != null) ? xhr.response : xhr.responseText;
                 if (this._receiveResponseHeaders) {
@@ -109,20 +133,119 @@ export class HttpXhr extends HttpRequestExecutor {
                     error.responseText = "Not found anything that matches the request URI.";
                 }
 
-                nbError("HTTP Request Error: " + error.message + " " + error.responseText);
+                this._logResponseError(xhr.status, "HTTP Request Error: " + error.message + " " + error.responseText);
                 return this._reject(error);
             }
         }
     }
 
+    /**
+     * ストリーミング受信時のXHR状態変更ハンドラ
+     * @returns {boolean} 処理済みの場合は true
+     * @private
+     */
+    _onStreamingStateChange(): boolean {
+        const xhr = this._xhr;
+
+        if (this._responseStream == null) {
+            // 2xx 以外の応答は通常と同様に全て受信してからエラーとする
+            if (xhr.readyState < 2 || !(xhr.status >= 200 && xhr.status < 300)) {
+                return false;
+            }
+            const headers = HttpXhr._parseResponseHeaders(xhr.getAllResponseHeaders());
+            this._req.responseHeaders = headers;
+            this._responseStream = this._resolveStream(xhr.status, headers, {
+                cancel: () => this.abort()
+            }, this._receiveResponseHeaders);
+        }
+
+        if (xhr.readyState === 4) {
+            if (xhr.status === 0) {
+                nbError("HTTP Response Error: stream interrupted", this._req.service);
+                this._responseStream._fail(_createError(0, "HTTP response error", "Stream interrupted"));
+            } else {
+                this._pushStreamData();
+                this._responseStream._end();
+            }
+        }
+        return true;
+    }
+
+    /**
+     * 進捗通知、ストリーミング受信用のハンドラを設定する
+     * @private
+     */
+    _setProgressHandlers(): void {
+        const xhr = this._xhr;
+        const toTotal = (e: ProgressEvent) => e.lengthComputable ? e.total : null;
+
+        const upload = this._createProgressReporter("upload", null);
+        if (upload != null && xhr.upload != null) {
+            xhr.upload.onprogress = (e: ProgressEvent) => upload.update(e.loaded, toTotal(e));
+        }
+
+        const download = this._createProgressReporter("download", null);
+        if (download != null || this._streaming) {
+            xhr.onprogress = (e: ProgressEvent) => {
+                if (this._streaming) {
+                    this._pushStreamData();
+                }
+                if (download != null) {
+                    download.update(e.loaded, toTotal(e));
+                }
+            };
+        }
+    }
+
+    /**
+     * 受信済みのデータをストリームに追加する
+     * @private
+     */
+    _pushStreamData(): void {
+        if (this._responseStream == null) {
+            return;
+        }
+        const text = this._xhr.responseText;
+        if (text != null && text.length > this._streamOffset) {
+            this._responseStream._push(text.substring(this._streamOffset));
+            this._streamOffset = text.length;
+        }
+    }
+
+    /**
+     * レスポンスヘッダ文字列を Object に変換する。ヘッダ名は小文字に変換される。
+     * @param {string} headers XMLHttpRequest#getAllResponseHeaders() の値
+     * @returns {Object}
+     * @private
+     */
+    static _parseResponseHeaders(headers: string): {[index: string]: string} {
+        const result: {[index: string]: string} = {};
+        if (headers == null) {
+            return result;
+        }
+
+        for (const line of headers.split(/\r?\n/)) {
+            const index = line.indexOf(":");
+            if (index > 0) {
+                const name = line.substring(0, index).trim().toLowerCase();
+                result[name] = line.substring(index + 1).trim();
+            }
+        }
+        return result;
+    }
+
     /**
      * XHRタイムアウトハンドラ
      * @private
      */
     _onXhrTimeout(e: any) {
-        const error = _createError(0, "Timeout error", e.toString());
-        nbError("HTTP Response Error: Timeout Error: " + e.toString());
-        this._reject(error);
+        const error = _createTimeoutError(e.toString());
+        nbError("HTTP Response Error: Timeout Error: " + e.toString(), this._req.service);
+        if (this._responseStream != null) {
+            this._responseStream._fail(error);
+        } else {
+            this._reject(error);
+        }
     }
 }
 
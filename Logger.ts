@@ -0,0 +1,309 @@
+import {NebulaService} from "./NebulaService";
+
+/**
+ * ログレベル: デバッグ
+ */
+export const LOG_LEVEL_DEBUG = "debug";
+
+/**
+ * ログレベル: 情報
+ */
+export const LOG_LEVEL_INFO = "info";
+
+/**
+ * ログレベル: 警告
+ */
+export const LOG_LEVEL_WARN = "warn";
+
+/**
+ * ログレベル: エラー
+ */
+export const LOG_LEVEL_ERROR = "error";
+
+/**
+ * ログレベル: 出力しない
+ */
+export const LOG_LEVEL_NONE = "none";
+
+// ログレベルの優先順位。値が大きいほど重要
+const LOG_LEVELS: {[level: string]: number} = {
+    debug: 0,
+    info: 1,
+    warn: 2,
+    error: 3,
+    none: 4
+};
+
+/**
+ * ログレコード
+ */
+export interface LogRecord {
+    /** ログレベル ("debug", "info", "warn", "error") */
+    level: string;
+    /** メッセージ (秘匿情報はマスク済み) */
+    message: string;
+    /** 付加情報 (秘匿情報はマスク済み)。指定されていない場合は null */
+    fields: {[name: string]: any};
+    /** テナントID。未初期化の場合は null */
+    tenant: string;
+    /** 出力日時(エポックミリ秒) */
+    timestamp: number;
+}
+
+/**
+ * ログ出力先。LogRecord を受け取る関数。
+ */
+export type LogHandler = (record: LogRecord) => void;
+
+// マスク後の値
+const REDACTED = "****";
+
+// マスク対象の名前 (ヘッダ名、JSON のキー、パラメータ名)
+const SECRET_NAME = "(?:x-session-token|x-application-key|session_?token|app_?key|authorization|proxy-authorization|" +
+    "[a-z_-]*password|[a-z_-]*passphrase)";
+
+const SECRET_NAME_REGEXP = new RegExp("^" + SECRET_NAME + "$", "i");
+
+// テキスト中の "name": "value", name: value, name=value 形式の値
+const SECRET_TEXT_REGEXP = new RegExp("(\"?" + SECRET_NAME + "\"?\\s*[:=]\\s*)(\"(?:[^\"\\\\]|\\\\.)*\"|[^\\s,&;}\\]]+)", "gi");
+
+/**
+ * @description 名前がマスク対象か判定する
+ * @param {string} name ヘッダ名、キー名
+ * @return {boolean} マスク対象の場合は true
+ * @private
+ */
+export const _isSecretName = (name: string): boolean => {
+    return name != null && SECRET_NAME_REGEXP.test(name);
+};
+
+/**
+ * @description テキスト中の秘匿情報をマスクする
+ * @param {string} text テキスト
+ * @return {string} マスクしたテキスト
+ * @private
+ */
+export const _redactText = (text: string): string => {
+    if (text == null) {
+        return text;
+    }
+    return String(text).replace(SECRET_TEXT_REGEXP, (match: string, prefix: string, value: string) => {
+        return prefix + ((value.charAt(0) === "\"") ? "\"" + REDACTED + "\"" : REDACTED);
+    });
+};
+
+/**
+ * @description ヘッダ値の秘匿情報をマスクする
+ * @param {string} name ヘッダ名
+ * @param {string} value 値
+ * @return {string} マスクした値
+ * @private
+ */
+export const _redactHeaderValue = (name: string, value: string): string => {
+    return _isSecretName(name) ? REDACTED : _redactText(value);
+};
+
+/**
+ * @description オブジェクト中の秘匿情報をマスクしたコピーを返却する
+ * @param value 値
+ * @param {number} depth 再帰の深さ
+ * @return マスクした値
+ * @private
+ */
+export const _redactValue = (value: any, depth = 0): any => {
+    if (typeof value === "string") {
+        return _redactText(value);
+    }
+    if (value == null || typeof value !== "object" || depth > 8) {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => _redactValue(item, depth + 1));
+    }
+    if (Object.getPrototypeOf(value) !== Object.prototype) {
+        // Buffer, Error 等はそのまま
+        return value;
+    }
+    const result: {[name: string]: any} = {};
+    for (const key of Object.keys(value)) {
+        result[key] = _isSecretName(key) ? REDACTED : _redactValue(value[key], depth + 1);
+    }
+    return result;
+};
+
+/**
+ * @description コンソールにログを出力する (デフォルトの出力先)
+ * @param {LogRecord} record ログレコード
+ * @private
+ */
+export const _consoleLogHandler: LogHandler = (record: LogRecord): void => {
+    if (typeof console === "undefined") {
+        return;
+    }
+    let prefix: string;
+    switch (record.level) {
+        case LOG_LEVEL_ERROR:
+            prefix = "[BAAS ERROR] : ";
+            break;
+        case LOG_LEVEL_WARN:
+            prefix = "[BAAS WARN] : ";
+            break;
+        default:
+            prefix = "[BAAS] : ";
+            break;
+    }
+    const fields = (record.fields != null) ? " " + JSON.stringify(record.fields) : "";
+    console.log(prefix + record.message + fields);
+};
+
+/**
+ * @class Logger
+ * @classdesc ロガークラス。NebulaService 毎に保持する。
+ * <p>
+ * ログレベルを明示的に設定しない場合は、NebulaService の debugMode が "debug" であれば "debug"、
+ * それ以外は "error" レベル以上を出力する。
+ * <p>
+ * メッセージ・付加情報中の X-Session-Token, X-Application-Key ヘッダ、セッショントークン、パスワード、
+ * クライアント証明書のパスフレーズ等は自動的にマスクされる。
+ * @example
+ * Nebula.getLogger()
+ *     .setLevel("info")
+ *     .setHandler(function(record) {
+ *         myLogger.log(record.level, record.message, record.fields);
+ *     });
+ */
+export class Logger {
+    private _service: NebulaService;
+    private _level: string = null;
+    private _handler: LogHandler = null;
+
+    /**
+     * @param {NebulaService} service NebulaService
+     * @private
+     */
+    constructor(service: NebulaService) {
+        this._service = service;
+    }
+
+    /**
+     * @memberOf Logger
+     * @description ログレベルを設定する
+     * @param {string} level ログレベル。"debug", "info", "warn", "error", "none" のいずれか。
+     * null の場合は debugMode に従う
+     * @return {Logger} this
+     */
+    setLevel(level: string): Logger {
+        if (level != null && LOG_LEVELS[level] === undefined) {
+            throw new Error("Bad log level");
+        }
+        this._level = level;
+        return this;
+    }
+
+    /**
+     * @memberOf Logger
+     * @description 有効なログレベルを返却する
+     * @return {string} ログレベル
+     */
+    getLevel(): string {
+        if (this._level != null) {
+            return this._level;
+        }
+        return (this._service.getDebugMode() === "debug") ? LOG_LEVEL_DEBUG : LOG_LEVEL_ERROR;
+    }
+
+    /**
+     * @memberOf Logger
+     * @description ログの出力先を設定する
+     * @param {function} handler 出力先。引数は {@link LogRecord}。null の場合はコンソールに出力する
+     * @return {Logger} this
+     */
+    setHandler(handler: LogHandler): Logger {
+        this._handler = handler;
+        return this;
+    }
+
+    /**
+     * @memberOf Logger
+     * @description ログの出力先を返却する
+     * @return {function} 出力先。未設定の場合は null
+     */
+    getHandler(): LogHandler {
+        return this._handler;
+    }
+
+    /**
+     * @memberOf Logger
+     * @description 指定したレベルのログが出力されるか判定する
+     * @param {string} level ログレベル
+     * @return {boolean} 出力される場合は true
+     */
+    isEnabled(level: string): boolean {
+        return level !== LOG_LEVEL_NONE && LOG_LEVELS[level] >= LOG_LEVELS[this.getLevel()];
+    }
+
+    /**
+     * @memberOf Logger
+     * @description デバッグログを出力する
+     * @param {string} message メッセージ
+     * @param {Object} fields 付加情報 (省略可)
+     */
+    debug(message: string, fields?: {[name: string]: any}): void {
+        this.log(LOG_LEVEL_DEBUG, message, fields);
+    }
+
+    /**
+     * @memberOf Logger
+     * @description 情報ログを出力する
+     * @param {string} message メッセージ
+     * @param {Object} fields 付加情報 (省略可)
+     */
+    info(message: string, fields?: {[name: string]: any}): void {
+        this.log(LOG_LEVEL_INFO, message, fields);
+    }
+
+    /**
+     * @memberOf Logger
+     * @description 警告ログを出力する
+     * @param {string} message メッセージ
+     * @param {Object} fields 付加情報 (省略可)
+     */
+    warn(message: string, fields?: {[name: string]: any}): void {
+        this.log(LOG_LEVEL_WARN, message, fields);
+    }
+
+    /**
+     * @memberOf Logger
+     * @description エラーログを出力する
+     * @param {string} message メッセージ
+     * @param {Object} fields 付加情報 (省略可)
+     */
+    error(message: string, fields?: {[name: string]: any}): void {
+        this.log(LOG_LEVEL_ERROR, message, fields);
+    }
+
+    /**
+     * @memberOf Logger
+     * @description ログを出力する。秘匿情報はマスクされる。
+     * @param {string} level ログレベル
+     * @param {string} message メッセージ
+     * @param {Object} fields 付加情報 (省略可)
+     */
+    log(level: string, message: string, fields?: {[name: string]: any}): void {
+        if (!this.isEnabled(level)) {
+            return;
+        }
+        const record: LogRecord = {
+            level,
+            message: _redactText(message),
+            fields: (fields != null) ? _redactValue(fields) : null,
+            tenant: this._service.getTenantID(),
+            timestamp: Date.now()
+        };
+        try {
+            (this._handler || _consoleLogHandler)(record);
+        } catch (e) {
+            // 出力先のエラーは無視する
+        }
+    }
+}
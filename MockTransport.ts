@@ -0,0 +1,638 @@
+import {_createError, nbLogger} from "./Head";
+import {_getHeaderValue, Headers, HttpRequest, HttpRequestExecutor, HttpRequestExecutorFactories, HttpRequestExecutorFactory} from "./HttpRequest";
+import {fs} from "./NodeSupport";
+import {NebulaService} from "./NebulaService";
+
+import {Promise} from "es6-promise";
+import {Buffer} from "buffer";
+
+/**
+ * モック通信で受信したリクエスト
+ */
+export interface MockRequest {
+    /** HTTPメソッド */
+    method: string;
+    /** URL (ベースURIからの相対パス、クエリパラメータを含む) */
+    url: string;
+    /** パス (ベースURIからの相対パス、クエリパラメータを含まない) */
+    path: string;
+    /** パスパラメータ (ルートのパスに ":name" を指定した場合) */
+    params: {[name: string]: string};
+    /** クエリパラメータ (デコード済み) */
+    query: {[name: string]: string};
+    /** リクエストヘッダ */
+    headers: Headers;
+    /** リクエストボディ。Content-Type が application/json の場合は解析済みの値 */
+    body: any;
+}
+
+/**
+ * モック通信の応答
+ */
+export interface MockResponse {
+    /** ステータスコード。デフォルトは 200。0 を指定すると通信エラーとなる */
+    status?: number;
+    /** ステータステキスト */
+    statusText?: string;
+    /** レスポンスヘッダ */
+    headers?: {[name: string]: string};
+    /** レスポンスボディ (文字列, Buffer, または JSON に変換可能な値) */
+    body?: any;
+    /** 応答までの遅延時間(ミリ秒) */
+    delay?: number;
+    /** true の場合は接続の確立前の通信エラー(接続失敗)となる。status 等は無視される */
+    connectError?: boolean;
+}
+
+/**
+ * モック通信のルートハンドラ。応答または応答の Promise を返却する。
+ */
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+/**
+ * モック通信のフィクスチャ (記録された通信)
+ */
+export interface MockFixture {
+    method: string;
+    url: string;
+    status: number;
+    statusText?: string;
+    headers?: {[name: string]: string};
+    body?: any;
+    /** body が Base64 エンコードされている場合は "base64" */
+    encoding?: string;
+}
+
+/**
+ * ルート定義
+ * @private
+ */
+interface MockRoute {
+    method: string;
+    path: RegExp;
+    paramNames: string[];
+    query: {[name: string]: string | RegExp};
+    handler: MockHandler | MockResponse;
+}
+
+/**
+ * @class MockTransport
+ * @classdesc モック通信クラス。テスト用に、サーバと通信せずにリクエストを処理する。
+ * <p>
+ * 以下のモードで動作する。
+ * <ul>
+ *   <li>mock : 登録したルートハンドラで応答する (デフォルト)</li>
+ *   <li>record : 実サーバと通信し、通信内容をフィクスチャとして記録する</li>
+ *   <li>replay : 記録したフィクスチャを順に応答する</li>
+ * </ul>
+ * install() で全サービスに、install(service) で特定のサービスにのみ適用される。
+ * @example
+ * const mock = new MockTransport();
+ * mock.on("GET", "/1/tenant1/objects/bucket1/:id", (req) => {
+ *     return {status: 200, body: {_id: req.params.id}};
+ * });
+ * mock.install(service);
+ * ....
+ * mock.uninstall();
+ */
+export class MockTransport {
+    private _routes: MockRoute[] = [];
+    private _mode = "mock";
+    private _fixtures: MockFixture[] = [];
+    private _replayed: boolean[] = [];
+    private _requests: MockRequest[] = [];
+    private _savedFactories: HttpRequestExecutorFactories = null;
+    private _services: NebulaService[] = [];
+
+    /**
+     * @memberOf MockTransport
+     * @description ルートハンドラを登録する。先に登録したものが優先される。
+     * @param {string} method HTTPメソッド。"*" を指定すると全メソッドに一致する。
+     * @param {string|RegExp} path パス (ベースURIからの相対パス)。
+     * 文字列の場合は完全一致とし、":name" 形式のセグメントはパスパラメータとなる。
+     * @param {Function|Object} handler ハンドラ、または固定の応答
+     * @param {Object} query クエリパラメータの条件。値には文字列または RegExp を指定する。
+     * @return {MockTransport} this
+     */
+    on(method: string, path: string | RegExp, handler: MockHandler | MockResponse,
+       query?: {[name: string]: string | RegExp}): MockTransport {
+        const paramNames: string[] = [];
+        let pattern: RegExp;
+        if (typeof path === "string") {
+            const source = path.split("/").map((segment) => {
+                if (segment.charAt(0) === ":") {
+                    paramNames.push(segment.substring(1));
+                    return "([^/]+)";
+                }
+                return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+            }).join("/");
+            pattern = new RegExp("^" + source + "$");
+        } else {
+            pattern = path;
+        }
+
+        this._routes.push({
+            method: method.toUpperCase(),
+            path: pattern,
+            paramNames,
+            query: query || {},
+            handler
+        });
+        return this;
+    }
+
+    /**
+     * @memberOf MockTransport
+     * @description 登録したルート、フィクスチャ、受信リクエスト履歴を全て消去する
+     * @return {MockTransport} this
+     */
+    reset(): MockTransport {
+        this._routes = [];
+        this._fixtures = [];
+        this._replayed = [];
+        this._requests = [];
+        return this;
+    }
+
+    /**
+     * @memberOf MockTransport
+     * @description 動作モードを設定する
+     * @param {string} mode "mock", "record", "replay" のいずれか
+     * @return {MockTransport} this
+     */
+    setMode(mode: string): MockTransport {
+        if (["mock", "record", "replay"].indexOf(mode) < 0) {
+            throw new Error("Bad mode");
+        }
+        this._mode = mode;
+        this._replayed = [];
+        return this;
+    }
+
+    /**
+     * @memberOf MockTransport
+     * @description 動作モードを返却する
+     * @return {string} 動作モード
+     */
+    getMode(): string {
+        return this._mode;
+    }
+
+    /**
+     * @memberOf MockTransport
+     * @description 受信したリクエストの履歴を返却する
+     * @return {MockRequest[]} リクエスト
+     */
+    getRequests(): MockRequest[] {
+        return this._requests.concat();
+    }
+
+    /**
+     * @memberOf MockTransport
+     * @description フィクスチャを返却する
+     * @return {MockFixture[]} フィクスチャ
+     */
+    getFixtures(): MockFixture[] {
+        return this._fixtures.concat();
+    }
+
+    /**
+     * @memberOf MockTransport
+     * @description フィクスチャを設定する。replay 済みの状態はリセットされる。
+     * @param {MockFixture[]} fixtures フィクスチャ
+     * @return {MockTransport} this
+     */
+    setFixtures(fixtures: MockFixture[]): MockTransport {
+        this._fixtures = fixtures.concat();
+        this._replayed = [];
+        return this;
+    }
+
+    /**
+     * @memberOf MockTransport
+     * @description フィクスチャを JSON ファイルに保存する (Node.js のみ)
+     * @param {string} path ファイルパス
+     * @return {MockTransport} this
+     */
+    saveFixtures(path: string): MockTransport {
+        if (fs == null) {
+            throw new Error("Not supported");
+        }
+        fs.writeFileSync(path, JSON.stringify(this._fixtures, null, 2));
+        return this;
+    }
+
+    /**
+     * @memberOf MockTransport
+     * @description フィクスチャを JSON ファイルから読み込む (Node.js のみ)
+     * @param {string} path ファイルパス
+     * @return {MockTransport} this
+     */
+    loadFixtures(path: string): MockTransport {
+        if (fs == null) {
+            throw new Error("Not supported");
+        }
+        return this.setFixtures(JSON.parse(fs.readFileSync(path, "utf-8")));
+    }
+
+    /**
+     * @memberOf MockTransport
+     * @description モック通信を適用する。
+     * <p>
+     * service を省略した場合は HttpRequestExecutor のファクトリ(XHR, Node.js, Fetch API)を全て置き換える。
+     * service を指定した場合は、そのサービスのみに適用する。
+     * @param {NebulaService} service サービス
+     * @return {MockTransport} this
+     */
+    install(service?: NebulaService): MockTransport {
+        const factory: HttpRequestExecutorFactory = (req) => new MockExecutor(req, this);
+        if (service != null) {
+            service.setExecutorFactory(factory);
+            this._services.push(service);
+        } else {
+            if (this._savedFactories == null) {
+                this._savedFactories = HttpRequestExecutor._getFactories();
+            }
+            HttpRequestExecutor.setXhrFactory(factory);
+            HttpRequestExecutor.setNodeFactory(factory);
+            HttpRequestExecutor.setFetchFactory(factory);
+        }
+        return this;
+    }
+
+    /**
+     * @memberOf MockTransport
+     * @description install() で適用したモック通信を全て解除する
+     * @return {MockTransport} this
+     */
+    uninstall(): MockTransport {
+        if (this._savedFactories != null) {
+            HttpRequestExecutor.setXhrFactory(this._savedFactories.xhr);
+            HttpRequestExecutor.setNodeFactory(this._savedFactories.node);
+            HttpRequestExecutor.setFetchFactory(this._savedFactories.fetch);
+            this._savedFactories = null;
+        }
+        for (const service of this._services) {
+            service.setExecutorFactory(null);
+        }
+        this._services = [];
+        return this;
+    }
+
+    /**
+     * 実サーバと通信する HttpRequestExecutor を生成する (record モード用)
+     * @private
+     */
+    _createRealExecutor(req: HttpRequest): HttpRequestExecutor {
+        const factories = this._savedFactories || HttpRequestExecutor._getFactories();
+        return HttpRequestExecutor._selectFactory(req.service.getTransport(), factories)(req);
+    }
+
+    /**
+     * リクエストに対する応答を生成する (mock, replay モード用)
+     * @private
+     */
+    _handle(request: MockRequest): Promise<MockResponse> {
+        this._requests.push(request);
+
+        if (this._mode === "replay") {
+            for (let i = 0; i < this._fixtures.length; i++) {
+                const fixture = this._fixtures[i];
+                if (!this._replayed[i] && fixture.method === request.method && fixture.url === request.url) {
+                    this._replayed[i] = true;
+                    const body = (fixture.encoding === "base64") ? Buffer.from(fixture.body, "base64") : fixture.body;
+                    return Promise.resolve({
+                        status: fixture.status,
+                        statusText: fixture.statusText,
+                        headers: fixture.headers,
+                        body
+                    });
+                }
+            }
+            return Promise.resolve(MockTransport._noRoute(request));
+        }
+
+        for (const route of this._routes) {
+            if (route.method !== "*" && route.method !== request.method) {
+                continue;
+            }
+            const matched = route.path.exec(request.path);
+            if (matched == null || !MockTransport._matchQuery(route.query, request.query)) {
+                continue;
+            }
+
+            request.params = {};
+            route.paramNames.forEach((name, index) => {
+                request.params[name] = decodeURIComponent(matched[index + 1]);
+            });
+
+            const handler = route.handler;
+            return Promise.resolve()
+                .then(() => (typeof handler === "function") ? handler(request) : handler)
+                .then((response) => response || {});
+        }
+        return Promise.resolve(MockTransport._noRoute(request));
+    }
+
+    /**
+     * 通信内容をフィクスチャとして記録する (record モード用)
+     * @private
+     */
+    _record(request: MockRequest, response: MockResponse): void {
+        const fixture: MockFixture = {
+            method: request.method,
+            url: request.url,
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers
+        };
+
+        let body = response.body;
+        if (typeof ArrayBuffer !== "undefined" && body instanceof ArrayBuffer && Buffer != null) {
+            body = Buffer.from(body);
+        }
+        if (Buffer != null && Buffer.isBuffer(body)) {
+            fixture.body = body.toString("base64");
+            fixture.encoding = "base64";
+        } else if (typeof Blob !== "undefined" && body instanceof Blob) {
+            nbLogger("MockTransport#record: Blob body is not recorded");
+        } else {
+            fixture.body = body;
+        }
+        this._fixtures.push(fixture);
+    }
+
+    private static _noRoute(request: MockRequest): MockResponse {
+        return {
+            status: 404,
+            statusText: "No mock route",
+            body: "No mock route: " + request.method + " " + request.url
+        };
+    }
+
+    private static _matchQuery(condition: {[name: string]: string | RegExp}, query: {[name: string]: string}): boolean {
+        for (const name of Object.keys(condition)) {
+            const expected = condition[name];
+            const value = query[name];
+            if (value === undefined) {
+                return false;
+            }
+            if (expected instanceof RegExp ? !expected.test(value) : expected !== value) {
+                return false;
+            }
+        }
+        return true;
+    }
+}
+
+/**
+ * モック通信 実行クラス
+ * @private
+ */
+export class MockExecutor extends HttpRequestExecutor {
+    private _transport: MockTransport;
+    private _rawMessage = false;
+    private _aborted = false;
+    private _timer: any = null;
+    private _realExecutor: HttpRequestExecutor = null;
+
+    constructor(req: HttpRequest, transport: MockTransport) {
+        super(req);
+        this._transport = transport;
+        // record モードでは実際の通信方式に従う
+        this._observesConnect = transport.getMode() !== "record";
+    }
+
+    setReturnRawMessage(rawMessage: boolean): void {
+        this._rawMessage = rawMessage;
+    }
+
+    abort(): void {
+        this._aborted = true;
+        if (this._timer != null) {
+            clearTimeout(this._timer);
+            this._timer = null;
+        }
+        if (this._realExecutor != null) {
+            this._realExecutor.abort();
+        }
+    }
+
+    execute(method: string, url: string, headers: Headers, body: any, timeout: number,
+            responseType: string, receiveResponseHeaders: boolean, useHttp2: boolean): void {
+        const request = this._createMockRequest(method, url, headers, body);
+
+        if (this._transport.getMode() === "record") {
+            this._executeReal(request, url, headers, body, timeout, responseType, receiveResponseHeaders, useHttp2);
+            return;
+        }
+
+        this._transport._handle(request).then((response) => {
+            if (!response.connectError && !this._aborted) {
+                this._notifyConnected();
+            }
+            if (response.delay > 0) {
+                return new Promise((resolve) => {
+                    this._timer = setTimeout(() => {
+                        this._timer = null;
+                        resolve(response);
+                    }, response.delay);
+                });
+            }
+            return response;
+        }).then((response: MockResponse) => {
+            if (!this._aborted) {
+                this._respond(response, responseType, receiveResponseHeaders);
+            }
+        }).catch((e: any) => {
+            if (!this._aborted) {
+                this._reject(_createError(0, "Mock handler error", (e != null) ? e.toString() : ""));
+            }
+        });
+    }
+
+    /**
+     * 実サーバと通信し、通信内容を記録する
+     * @private
+     */
+    private _executeReal(request: MockRequest, url: string, headers: Headers, body: any, timeout: number,
+                         responseType: string, receiveResponseHeaders: boolean, useHttp2: boolean): void {
+        const real = this._transport._createRealExecutor(this._req);
+        this._realExecutor = real;
+        real.setReturnRawMessage(this._rawMessage);
+        real.setResponseStreaming(this._streaming);
+
+        real._resolve = (response: any) => {
+            if (this._rawMessage || this._streaming) {
+                // raw message, ストリーミング応答は記録しない
+                this._resolve(response);
+                return;
+            }
+            this._transport._record(request, {
+                status: response.status,
+                headers: this._req.responseHeaders as {[name: string]: string},
+                body: response.body
+            });
+            this._resolve(receiveResponseHeaders ? response : response.body);
+        };
+        real._reject = (error: any) => {
+            if (error != null && error.status > 0) {
+                this._transport._record(request, {
+                    status: error.status,
+                    statusText: error.statusText,
+                    headers: this._req.responseHeaders as {[name: string]: string},
+                    body: error.responseText
+                });
+            }
+            this._reject(error);
+        };
+        // 記録のためステータスコードを常に受信する
+        const passThrough = this._rawMessage || this._streaming;
+        real.execute(request.method, url, headers, body, timeout, responseType,
+            passThrough ? receiveResponseHeaders : true, useHttp2);
+    }
+
+    /**
+     * 応答を HttpRequest に返却する
+     * @private
+     */
+    private _respond(response: MockResponse, responseType: string, receiveResponseHeaders: boolean): void {
+        if (response.connectError) {
+            this._reject(_createError(0, "Connection failed", "Mock connection error"));
+            return;
+        }
+        const status = (response.status != null) ? response.status : 200;
+        const statusText = response.statusText || "";
+        const responseHeaders: {[name: string]: string} = {};
+        if (response.headers != null) {
+            for (const name of Object.keys(response.headers)) {
+                responseHeaders[name.toLowerCase()] = response.headers[name];
+            }
+        }
+        this._req.responseHeaders = responseHeaders;
+        if (status > 0) {
+            this._notifyResponseStarted(status);
+        }
+
+        const raw = response.body;
+        let responseText: string;
+        if (raw == null) {
+            responseText = "";
+        } else if (typeof raw === "string") {
+            responseText = raw;
+        } else if (Buffer != null && Buffer.isBuffer(raw)) {
+            responseText = raw.toString("utf-8");
+        } else {
+            responseText = JSON.stringify(raw);
+        }
+
+        if (status === 0) {
+            this._reject(_createError(0, statusText || "HTTP request error", responseText));
+            return;
+        }
+
+        if (this._rawMessage) {
+            this._resolve({status, statusText, headers: responseHeaders, body: raw});
+            return;
+        }
+
+        if (this._streaming && status >= 200 && status < 300) {
+            const stream = this._resolveStream(status, responseHeaders, {
+                cancel: () => this.abort()
+            }, receiveResponseHeaders);
+            if (raw != null) {
+                stream._push((Buffer != null && Buffer.isBuffer(raw)) ? raw : responseText);
+            }
+            stream._end();
+            return;
+        }
+
+        const responseBody = MockExecutor._convertBody(raw, responseText, responseType);
+        if (status >= 200 && status < 300) {
+            if (receiveResponseHeaders) {
+                this._resolve({
+                    body: responseBody,
+                    headers: responseHeaders,
+                    status
+                });
+            } else {
+                this._resolve(responseBody);
+            }
+        } else {
+            this._reject(_createError(status, statusText, responseText, responseBody));
+        }
+    }
+
+    /**
+     * MockRequest を生成する
+     * @private
+     */
+    private _createMockRequest(method: string, url: string, headers: Headers, body: any): MockRequest {
+        const baseUri = encodeURI(this._req.service.getBaseUri());
+        const relative = (url.indexOf(baseUri) === 0) ? url.substring(baseUri.length) : url;
+        const index = relative.indexOf("?");
+        const path = (index >= 0) ? relative.substring(0, index) : relative;
+
+        const query: {[name: string]: string} = {};
+        if (index >= 0) {
+            for (const pair of relative.substring(index + 1).split("&")) {
+                if (pair === "") {
+                    continue;
+                }
+                const eq = pair.indexOf("=");
+                const name = (eq >= 0) ? pair.substring(0, eq) : pair;
+                const value = (eq >= 0) ? pair.substring(eq + 1) : "";
+                query[decodeURIComponent(name)] = decodeURIComponent(value.replace(/\+/g, " "));
+            }
+        }
+
+        let requestBody = body;
+        const contentType = _getHeaderValue(headers, "Content-Type");
+        if (typeof body === "string" && contentType != null && contentType.indexOf("application/json") >= 0) {
+            try {
+                requestBody = JSON.parse(body);
+            } catch (e) {
+                // 解析できない場合はそのまま
+            }
+        }
+
+        return {
+            method: (method || "GET").toUpperCase(),
+            url: relative,
+            path,
+            params: {},
+            query,
+            headers,
+            body: requestBody
+        };
+    }
+
+    /**
+     * レスポンスボディを responseType に合わせて変換する
+     * @private
+     */
+    private static _convertBody(raw: any, responseText: string, responseType: string): any {
+        switch (responseType) {
+            case "json":
+                // オブジェクトの場合もハンドラ側の値を共有しないよう文字列から復元する
+                try {
+                    return JSON.parse(responseText);
+                } catch (e) {
+                    return responseText;
+                }
+
+            case "buffer":
+                return (Buffer != null && Buffer.isBuffer(raw)) ? raw : Buffer.from(responseText);
+
+            case "blob":
+                if (typeof Blob === "undefined") {
+                    return raw;
+                }
+                return new Blob([(Buffer != null && Buffer.isBuffer(raw)) ? raw : responseText]);
+
+            default:
+            case "text":
+                return responseText;
+        }
+    }
+}
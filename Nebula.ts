@@ -1,10 +1,12 @@
 import {NebulaService} from "./NebulaService";
 import {initHttpXhr} from "./HttpXhr";
 import {initHttpNode} from "./HttpNode";
+import {initHttpFetch} from "./HttpFetch";
 
 // initialize http modules
 initHttpXhr();
 initHttpNode();
+initHttpFetch();
 
 /**
  * @namespace Nebula
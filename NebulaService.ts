@@ -1,5 +1,5 @@
 import {_createError, _errorText, _promisify, Callbacks, JsonObject, nbError, nbLogger} from "./Head";
-import {_node_require, http2} from "./NodeSupport";
+import {_node_require, http2, URL} from "./NodeSupport";
 import {Nebula} from "./Nebula";
 import {User, UserJson} from "./User";
 import {Group} from "./Group";
@@ -8,7 +8,27 @@ import {FileBucket} from "./FileBucket";
 import {declarePushSender, PushSender} from "./push/PushSender";
 import {CustomApi, declareCustomApi} from "./CustomApi";
 import {Acl, AclGroup, AclPermission} from "./Acl";
-import {HttpRequest} from "./HttpRequest";
+import {HttpRequest, HttpRequestExecutorFactory} from "./HttpRequest";
+import {HttpInterceptor} from "./HttpInterceptor";
+import {RetryPolicy} from "./RetryPolicy";
+import {_ProxySettings, ProxyAgent} from "./ProxySettings";
+import {_onCurrentUserChanged, ResponseCache, StorageCacheBackend} from "./ResponseCache";
+import {_RequestCoalescer} from "./RequestCoalescer";
+import {_RequestScheduler, PRIORITY_BACKGROUND, PRIORITY_INTERACTIVE} from "./RequestScheduler";
+import {_Http2SessionPool, Http2SessionOptions, Http2SessionStats} from "./Http2SessionPool";
+import {_normalizeCompressionOptions, CompressionOptions} from "./Compression";
+import {Logger, LogHandler} from "./Logger";
+import {HarRecorder} from "./HarRecorder";
+import {CancelledError, CircuitOpenError, ConflictError, ForbiddenError, InvalidResponseError, LocalError, NebulaError, NetworkError, NotFoundError, RateLimitedError, TimeoutError, UnauthorizedError} from "./Errors";
+import {CircuitBreaker, CircuitBreakerOptions} from "./CircuitBreaker";
+import {_checkTimeoutOptions, TimeoutOptions} from "./Timeout";
+import {_checkCertificatePinning, CertificatePinningOptions} from "./CertificatePinning";
+import {FileWriteQueueBackend, IndexedDbWriteQueueBackend, StorageWriteQueueBackend, WriteQueue} from "./WriteQueue";
+import {SessionManager} from "./SessionManager";
+import {_SessionEventEmitter, SESSION_EVENT_CURRENT_USER_CHANGED, SessionEventListener} from "./SessionEvents";
+import {_createSessionStore, _SessionStoreCache, EncryptedSessionStore, FileSessionStore, MemorySessionStore, SessionStore, WebStorageSessionStore} from "./SessionStore";
+import {_SessionSync} from "./SessionSync";
+import {_createUserView} from "./UserView";
 import {Clause, RegexOption} from "./Clause";
 import {ObjectQuery} from "./ObjectQuery";
 import {FileMetadata} from "./FileMetadata";
@@ -27,30 +47,6 @@ import {Buffer} from "buffer";
 
 declare var require: any;
 
-/**
- * @class ローカルストレージ実装(In Memory, for Node.js)
- * @private
- */
-export class LocalStorageInMemory {
-    data: any;
-
-    constructor() {
-        this.data = {};
-    }
-
-    getItem(key: string): any {
-        return this.data[key];
-    }
-
-    setItem(key: string, value: any): void {
-        this.data[key] = value;
-    }
-
-    removeItem(key: string): void {
-        delete this.data[key];
-    }
-}
-
 /**
  * クライアント証明書オプション (Node.js only)
  * tls.connect() オプションのサブセット。
@@ -78,8 +74,25 @@ export class NebulaConfig {
     serviceId: string;
     debugMode = "release";
     clientCertOptions: ClientCertOptions;
+    certificatePinning: CertificatePinningOptions = null;
     // for http2 support
     enableHttp2: boolean = false;
+    http2Options: Http2SessionOptions = null;
+    compression: CompressionOptions = null;
+    timeout: TimeoutOptions = null;
+    retryPolicy: RetryPolicy = null;
+    circuitBreaker: CircuitBreakerOptions = null;
+    responseCache: ResponseCache = null;
+    coalesceRequests = false;
+    maxConcurrentRequests = 0;
+    logLevel: string = null;
+    logHandler: LogHandler = null;
+    transport = "auto";
+    executorFactory: HttpRequestExecutorFactory = null;
+    proxyFromEnv = false;
+    sessionExpiringLeadTime = 60;
+    sessionStore: string | SessionStore = null;
+    sessionSync = true;
 
     constructor(params: any) {
         this.tenant = params.tenant;
@@ -111,9 +124,75 @@ export class NebulaConfig {
         if (params.debugMode !== undefined) {
             this.debugMode = params.debugMode;
         }
+        if (params.certificatePinning !== undefined) {
+            this.certificatePinning = _checkCertificatePinning(params.certificatePinning);
+        }
         if (params.enableHttp2 !== undefined) {
             this.enableHttp2 = params.enableHttp2;
         }
+        if (params.http2Options !== undefined) {
+            this.http2Options = params.http2Options;
+        }
+        if (params.compression !== undefined) {
+            this.compression = NebulaConfig._checkCompression(params.compression);
+        }
+        if (params.timeout !== undefined) {
+            this.timeout = _checkTimeoutOptions(params.timeout);
+        }
+        if (params.retryPolicy !== undefined) {
+            this.retryPolicy = params.retryPolicy;
+        }
+        if (params.circuitBreaker !== undefined) {
+            this.circuitBreaker = params.circuitBreaker;
+        }
+        if (params.coalesceRequests !== undefined) {
+            this.coalesceRequests = params.coalesceRequests;
+        }
+        if (params.maxConcurrentRequests !== undefined) {
+            this.maxConcurrentRequests = params.maxConcurrentRequests;
+        }
+        if (params.logLevel !== undefined) {
+            this.logLevel = params.logLevel;
+        }
+        if (params.logHandler !== undefined) {
+            this.logHandler = params.logHandler;
+        }
+        if (params.proxyFromEnv !== undefined) {
+            this.proxyFromEnv = params.proxyFromEnv;
+        }
+        if (params.transport !== undefined) {
+            this.transport = NebulaConfig._checkTransport(params.transport);
+        }
+        if (params.sessionExpiringLeadTime !== undefined) {
+            this.sessionExpiringLeadTime = NebulaConfig._checkSessionExpiringLeadTime(params.sessionExpiringLeadTime);
+        }
+        if (params.sessionStore !== undefined) {
+            this.sessionStore = params.sessionStore;
+        }
+        if (params.sessionSync !== undefined) {
+            this.sessionSync = params.sessionSync;
+        }
+    }
+
+    static _checkCompression(options: CompressionOptions): CompressionOptions {
+        if (options != null && options.encoding != null && ["gzip", "deflate", "br"].indexOf(options.encoding) < 0) {
+            throw new Error("Bad compression encoding");
+        }
+        return options;
+    }
+
+    static _checkSessionExpiringLeadTime(seconds: number): number {
+        if (typeof seconds !== "number" || !(seconds >= 0)) {
+            throw new Error("Bad sessionExpiringLeadTime");
+        }
+        return seconds;
+    }
+
+    static _checkTransport(transport: string): string {
+        if (["auto", "xhr", "node", "fetch"].indexOf(transport) < 0) {
+            throw new Error("Bad transport");
+        }
+        return transport;
     }
 }
 
@@ -129,7 +208,22 @@ export interface NebulaInitParam {
     allowSelfSignedCert?: boolean;
     serviceId?: string;
     debugMode?: string;
+    certificatePinning?: CertificatePinningOptions;
     enableHttp2?: boolean;
+    http2Options?: Http2SessionOptions;
+    compression?: CompressionOptions;
+    timeout?: TimeoutOptions;
+    retryPolicy?: RetryPolicy;
+    circuitBreaker?: CircuitBreakerOptions;
+    coalesceRequests?: boolean;
+    maxConcurrentRequests?: number;
+    logLevel?: string;
+    logHandler?: LogHandler;
+    transport?: string;
+    proxyFromEnv?: boolean;
+    sessionExpiringLeadTime?: number;
+    sessionStore?: string | SessionStore;
+    sessionSync?: boolean;
 }
 
 /**
@@ -138,6 +232,14 @@ export interface NebulaInitParam {
 export interface ProxyServer {
     host: string;
     port: number;
+    /** プロキシ認証(Basic)のユーザ名 */
+    username?: string;
+    /** プロキシ認証(Basic)のパスワード */
+    password?: string;
+    /** プロキシを使用しない接続先ホストのリスト。形式は NO_PROXY 環境変数と同じ */
+    bypass?: string[];
+    /** プロキシとの接続に TLS を使用する場合は true */
+    secure?: boolean;
 }
 
 /**
@@ -177,8 +279,43 @@ export class NebulaService {
     _SdeSyncEventListener: typeof _SdeSyncEventListener;
     BatchRequest: typeof BatchRequest;
     AccountLink: typeof AccountLink;
-
-    _localStorage: any;
+    ResponseCache: typeof ResponseCache;
+    StorageCacheBackend: typeof StorageCacheBackend;
+    WriteQueue: typeof WriteQueue;
+    SessionManager: typeof SessionManager;
+    StorageWriteQueueBackend: typeof StorageWriteQueueBackend;
+    FileWriteQueueBackend: typeof FileWriteQueueBackend;
+    IndexedDbWriteQueueBackend: typeof IndexedDbWriteQueueBackend;
+    MemorySessionStore: typeof MemorySessionStore;
+    WebStorageSessionStore: typeof WebStorageSessionStore;
+    FileSessionStore: typeof FileSessionStore;
+    EncryptedSessionStore: typeof EncryptedSessionStore;
+    NebulaError: typeof NebulaError;
+    UnauthorizedError: typeof UnauthorizedError;
+    ForbiddenError: typeof ForbiddenError;
+    NotFoundError: typeof NotFoundError;
+    ConflictError: typeof ConflictError;
+    RateLimitedError: typeof RateLimitedError;
+    NetworkError: typeof NetworkError;
+    TimeoutError: typeof TimeoutError;
+    CancelledError: typeof CancelledError;
+    CircuitOpenError: typeof CircuitOpenError;
+    InvalidResponseError: typeof InvalidResponseError;
+    LocalError: typeof LocalError;
+
+    _localStorage: _SessionStoreCache;
+    _sessionLoading: Promise<void> = null;
+    _interceptors: HttpInterceptor[];
+    _proxySettings: _ProxySettings;
+    _requestCoalescer: _RequestCoalescer;
+    _requestScheduler: _RequestScheduler;
+    _logger: Logger;
+    _harRecorder: HarRecorder;
+    _sessionEvents: _SessionEventEmitter;
+    _sessionSync: _SessionSync;
+    _circuitBreaker: CircuitBreaker = null;
+    _writeQueue: WriteQueue = null;
+    _sessionManager: SessionManager = null;
 
     /**
      * @memberOf NebulaService
@@ -201,8 +338,29 @@ export class NebulaService {
      */
     BUCKET_MODE_LOCAL = 2;
 
+    /**
+     * @memberOf NebulaService
+     * @description リクエスト優先度 - 対話的処理 (デフォルト)
+     * @const
+     */
+    PRIORITY_INTERACTIVE = PRIORITY_INTERACTIVE;
+
+    /**
+     * @memberOf NebulaService
+     * @description リクエスト優先度 - バックグラウンド処理
+     * @const
+     */
+    PRIORITY_BACKGROUND = PRIORITY_BACKGROUND;
+
     /** @private */
     constructor() {
+        this._logger = new Logger(this);
+        this._harRecorder = new HarRecorder(this);
+        this._sessionEvents = new _SessionEventEmitter(this);
+        // カレントユーザが変更された場合は、変更前のセッションの応答キャッシュを削除する
+        this._sessionEvents.add(SESSION_EVENT_CURRENT_USER_CHANGED, (event) => _onCurrentUserChanged(this, event));
+        this._sessionSync = new _SessionSync(this);
+
         declareUser(this);
         declareGroup(this);
         declareObjectBucket(this);
@@ -210,6 +368,11 @@ export class NebulaService {
         declareCustomApi(this);
         declarePushSender(this);
 
+        this._interceptors = [];
+        this._proxySettings = new _ProxySettings();
+        this._requestCoalescer = new _RequestCoalescer(this);
+        this._requestScheduler = new _RequestScheduler(this);
+
         // export all classes/namespaces
         this.NebulaService = NebulaService;
         this.HttpRequest = HttpRequest;
@@ -222,6 +385,29 @@ export class NebulaService {
         this.FileMetadata = FileMetadata;
         this.BatchRequest = BatchRequest;
         this.AccountLink = AccountLink;
+        this.ResponseCache = ResponseCache;
+        this.StorageCacheBackend = StorageCacheBackend;
+        this.WriteQueue = WriteQueue;
+        this.SessionManager = SessionManager;
+        this.StorageWriteQueueBackend = StorageWriteQueueBackend;
+        this.FileWriteQueueBackend = FileWriteQueueBackend;
+        this.IndexedDbWriteQueueBackend = IndexedDbWriteQueueBackend;
+        this.MemorySessionStore = MemorySessionStore;
+        this.WebStorageSessionStore = WebStorageSessionStore;
+        this.FileSessionStore = FileSessionStore;
+        this.EncryptedSessionStore = EncryptedSessionStore;
+        this.NebulaError = NebulaError;
+        this.UnauthorizedError = UnauthorizedError;
+        this.ForbiddenError = ForbiddenError;
+        this.NotFoundError = NotFoundError;
+        this.ConflictError = ConflictError;
+        this.RateLimitedError = RateLimitedError;
+        this.NetworkError = NetworkError;
+        this.TimeoutError = TimeoutError;
+        this.CancelledError = CancelledError;
+        this.CircuitOpenError = CircuitOpenError;
+        this.InvalidResponseError = InvalidResponseError;
+        this.LocalError = LocalError;
 
         // SDE
         this._SdeRequest = _SdeRequest;
@@ -377,6 +563,7 @@ export class NebulaService {
      */
     setClientCertificate(certInfo: ClientCertOptions): NebulaService {
         this._config.clientCertOptions = certInfo;
+        this._proxySettings.clearEnvAgents();
         return this;
     }
 
@@ -391,6 +578,56 @@ export class NebulaService {
         return (this._config.clientCertOptions != null);
     }
 
+    /**
+     * @memberOf NebulaService
+     * @description 証明書ピンニングの設定を返却する (Node.js専用)。
+     * @return {Object} 設定。pin は "sha256/" を除いた値となる。ピンニングしない場合は null
+     */
+    getCertificatePinning(): CertificatePinningOptions {
+        if (this._config === undefined) {
+            return null;
+        } else {
+            return this._config.certificatePinning;
+        }
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 証明書ピンニング(SPKI ハッシュ)を設定する (Node.js専用)。
+     * <p>
+     * HTTPS 接続(HTTP/1.1, HTTP/2)時に、サーバ証明書チェーンのいずれかの証明書の公開鍵情報(SubjectPublicKeyInfo)の
+     * SHA-256 ハッシュが pins または backupPins のいずれかと一致することを、リクエストの送信前に検証する。
+     * 一致しない場合は接続を切断し、リクエストは失敗する。
+     * 検証は通常の証明書の検証に加えて行われ、allowSelfSignedCert を true とした場合も適用される。
+     * Node.js v11.6.0 以降が必要で、それ以前のバージョンでは例外となる。
+     * <p>
+     * pin は以下のコマンド等で算出できる。
+     * <pre>
+     * openssl x509 -in server.crt -pubkey -noout | openssl pkey -pubin -outform der | openssl dgst -sha256 -binary | base64
+     * </pre>
+     * @param {Object} options オプション。以下のプロパティを指定する。null の場合はピンニングしない。
+     * <ul>
+     *   <li>pins (string[]) : 受け入れる pin のリスト。pin は SHA-256 ハッシュの BASE64 表現で、"sha256/" を前置してもよい。必須</li>
+     *   <li>backupPins (string[]) : 鍵の更新に備えた予備の pin のリスト。一致した場合は pins と同様に受け入れ、ログを出力する</li>
+     *   <li>hosts (string[]) : ピンニングを適用するホスト名のリスト。"*.example.com" 形式でサブドメインを指定できる。
+     *       省略時は全ての接続先に適用する</li>
+     *   <li>reportOnly (boolean) : true の場合、一致しなくても接続を切断せず、エラーログの出力と reportHandler の呼び出しのみ行う。
+     *       デフォルトは false</li>
+     *   <li>reportHandler (function) : 一致しなかった場合に呼び出される関数。引数は {@link CertificatePinningReport}</li>
+     * </ul>
+     * @return {NebulaService} this
+     * @example
+     * Nebula.setCertificatePinning({
+     *     pins: ["sha256/AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA="],
+     *     backupPins: ["sha256/BBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB="],
+     *     hosts: ["api.example.com"]
+     * });
+     */
+    setCertificatePinning(options: CertificatePinningOptions): NebulaService {
+        this._config.certificatePinning = _checkCertificatePinning(options);
+        return this;
+    }
+
     /**
      * @memberOf NebulaService
      * @description カレントユーザのログイン情報を返す。
@@ -398,20 +635,33 @@ export class NebulaService {
      * @returns {Object} ユーザ情報。_id, username, email, sessionToken, expire, options, groups フィールドが含まれる。
      */
     getCurrentUser(): UserJson {
+        const _jsonObj = this._loadCurrentUser();
+        if (_jsonObj === null || !("expire" in _jsonObj)) {
+            return null;
+        }
+        if (_jsonObj.expire < new Date().getTime() / 1000) {
+            this._sessionEvents.expired(_jsonObj);
+            return null;
+        }
+        return _jsonObj;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 保存されているカレントユーザのログイン情報を、有効期限に関わらず返す。
+     * @returns {Object} ユーザ情報。保存されていない場合は null
+     * @private
+     */
+    _loadCurrentUser(): UserJson {
         const _saveStr = this._localStorage.getItem(this._userItemKey());
         if (!_saveStr) {
             return null;
         }
 
         try {
-            let _jsonObj: UserJson = JSON.parse(_saveStr);
-            if (!("expire" in _jsonObj) || _jsonObj.expire < new Date().getTime() / 1000) {
-                _jsonObj = null;
-            }
-
-            return _jsonObj;
+            return JSON.parse(_saveStr);
         } catch (e) {
-            nbLogger("Nebula.getCurrentUser#" + e.message);
+            nbLogger("Nebula.getCurrentUser#" + e.message, this);
             return null;
         }
     }
@@ -419,7 +669,8 @@ export class NebulaService {
     /**
      * @memberOf NebulaService
      * @description カレントユーザのログイン情報をセットする。
-     * <p>ブラウザでは local storage に永続化され、NebulaService 間で共有される。
+     * <p>初期化パラメータ sessionStore で指定したセッションストアに保存される。
+     * 未指定の場合、ブラウザでは local storage に永続化され、NebulaService 間で共有される。
      * Node.js では NebulaService 内(メモリ)に個別に保持される。
      * @param user {User} ユーザ
      * @return {NebulaService} this
@@ -435,7 +686,9 @@ export class NebulaService {
             groups: user.groups
         };
 
+        const previous = this._loadCurrentUser();
         this._localStorage.setItem(this._userItemKey(), JSON.stringify(_saveObj));
+        this._sessionEvents.changed(previous, this._loadCurrentUser());
         return this;
     }
 
@@ -444,7 +697,8 @@ export class NebulaService {
      * @description セッショントークンをセットする。セッショントークンの有効期限は無期限扱い。
      * <p>ユーザがログイン済みの場合は、セッショントークンのみが変更される。
      * 未ログインの場合は、ダミーユーザが保存される (セッショントークン以外のフィールドは空)。
-     * <p>ブラウザでは local storage に永続化され、NebulaService 間で共有される。
+     * <p>初期化パラメータ sessionStore で指定したセッションストアに保存される。
+     * 未指定の場合、ブラウザでは local storage に永続化され、NebulaService 間で共有される。
      * Node.js では NebulaService 内(メモリ)に個別に保持される。
      * @param {string} sessionToken セッショントークン
      * @return {NebulaService} this
@@ -470,7 +724,9 @@ export class NebulaService {
             _json.expire = expire;
         }
 
+        const previous = this._loadCurrentUser();
         this._localStorage.setItem(this._userItemKey(), JSON.stringify(_json));
+        this._sessionEvents.changed(previous, this._loadCurrentUser());
         return this;
     }
 
@@ -480,7 +736,204 @@ export class NebulaService {
      * @return {NebulaService} this
      */
     removeCurrentUser(): NebulaService {
+        const previous = this._loadCurrentUser();
         this._localStorage.removeItem(this._userItemKey());
+        this._sessionEvents.changed(previous, null);
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description セッションストアからのカレントユーザのログイン情報の読み込み完了を待つ。
+     * <p>
+     * {@link FileSessionStore} など非同期のセッションストアを使用する場合、ログイン情報は
+     * {@link NebulaService#initialize} 後にバックグラウンドで読み込まれる。
+     * 読み込み完了前は {@link NebulaService#getCurrentUser} は null を返すため、
+     * 初期化後は本メソッドの完了を待ってからリクエストを実行すること。
+     * 読み込みで変更されたログイン情報は currentUserChanged イベントでも通知される。
+     * <p>
+     * localStorage, sessionStorage, メモリを使用する場合は、初期化時に同期的に読み込まれる。
+     * @return {Promise} Promise。カレントユーザのログイン情報(未ログインの場合は null)が返却される。
+     * 読み込みに失敗した場合はエラーログを出力し、未ログインとして扱う。
+     * @example
+     * Nebula.initialize({..., sessionStore: new Nebula.FileSessionStore("session.json")});
+     * Nebula.restoreSession().then(function(user) {
+     *     ....
+     * });
+     */
+    restoreSession(): Promise<UserJson> {
+        if (this._sessionLoading == null) {
+            return Promise.reject(new Error("Not initialized"));
+        }
+        return this._sessionLoading.then(() => this.getCurrentUser());
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description セッションストアへの未反映の書き込みの完了を待つ。
+     * <p>
+     * 非同期のセッションストアへの書き込みはバックグラウンドで順番に行われる。
+     * Node.js でプロセスを終了する前などに使用する。
+     * @return {Promise} Promise。書き込みに失敗した場合はエラーログを出力し、成功となる
+     */
+    flushSessionStore(): Promise<void> {
+        if (this._localStorage == null) {
+            return Promise.resolve();
+        }
+        return this._localStorage.flush();
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 指定したセッショントークンのユーザとしてリクエストを実行するビューを返却する。
+     * <p>
+     * 1 つのサービスで複数のエンドユーザのリクエストを処理するサーバ(Node.js)での使用を想定している。
+     * ビューの ObjectBucket, FileBucket, User, Group, CustomApi, PushSender は、
+     * カレントユーザの代わりに指定したセッショントークンを使用する。
+     * <p>
+     * ビューは設定・インターセプタ等を本サービスと共有するが、カレントユーザは共有しない。
+     * ビューでのログイン・ログアウト、{@link NebulaService#setSessionToken} 等は、
+     * 本サービスおよび他のビューのカレントユーザに影響しない。
+     * また、セッション管理({@link NebulaService#setSessionManager})、
+     * 書き込みキュー({@link NebulaService#setWriteQueue})は適用されない。
+     * ビューの設定を変更すると本サービスの設定も変更されるため、設定は本サービスで行うこと。
+     * @param {string} sessionToken セッショントークン。null の場合は未ログインとしてリクエストを実行する
+     * @return {NebulaService} ビュー
+     * @example
+     * app.get("/todos", function(req, res) {
+     *     var bucket = new (Nebula.asUser(req.get("X-Session-Token")).ObjectBucket)("todos");
+     *     bucket.query(new Nebula.ObjectQuery()).then(function(objects) {
+     *         res.json(objects);
+     *     });
+     * });
+     */
+    asUser(sessionToken: string): NebulaService {
+        if (this._config === undefined) {
+            throw new Error("Not initialized");
+        }
+        return _createUserView(this, sessionToken);
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description タブ・ウィンドウ間のセッション同期の有効/無効を返却する
+     * @return {boolean} 有効な場合は true
+     */
+    isSessionSync(): boolean {
+        if (this._config === undefined) {
+            return false;
+        } else {
+            return this._config.sessionSync;
+        }
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description タブ・ウィンドウ間のセッション同期の有効/無効を設定する。ブラウザでのみ有効。
+     * <p>
+     * 有効にすると、他のタブ・ウィンドウでのログイン・ログアウト・セッショントークンの更新を検出し、
+     * currentUserChanged イベントを通知する。イベントの remote は true となる。
+     * <ul>
+     *   <li>localStorage を使用する場合は storage イベントで検出する。
+     *       カレントユーザは常に localStorage から読み込まれるため、変更は直ちに反映される</li>
+     *   <li>非同期のセッションストアを使用する場合は、書き込み完了時に BroadcastChannel で通知し、
+     *       受信したタブ・ウィンドウはセッションストアから読み込み直す</li>
+     * </ul>
+     * sessionStorage, メモリを使用する場合はタブ間で共有されないため、同期しない。
+     * @param {boolean} enabled 有効にする場合は true
+     * @return {NebulaService} this
+     * @example
+     * Nebula.addEventListener("currentUserChanged", function(event) {
+     *     if (event.remote && event.user == null) {
+     *         showLoginPage();
+     *     }
+     * });
+     */
+    setSessionSync(enabled: boolean): NebulaService {
+        this._config.sessionSync = enabled;
+        if (enabled) {
+            this._sessionSync.start();
+        } else {
+            this._sessionSync.stop();
+        }
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description セッションストアを返却する
+     * @return {SessionStore} セッションストア。未初期化の場合は null
+     */
+    getSessionStore(): SessionStore {
+        if (this._localStorage == null) {
+            return null;
+        }
+        return this._localStorage.getStore();
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description セッションイベントのリスナを登録する。
+     * <p>
+     * 以下のイベントを通知する。リスナの引数は {@link SessionEvent}。
+     * <ul>
+     *   <li>login : {@link User.login} でログインした</li>
+     *   <li>logout : {@link User.logout} でログアウトした。user はログアウトしたユーザ</li>
+     *   <li>sessionExpiring : セッションの有効期限が近づいた。
+     *       通知する時間は {@link NebulaService#setSessionExpiringLeadTime} で指定する</li>
+     *   <li>sessionExpired : セッションの有効期限が切れた。user は有効期限切れのログイン情報</li>
+     *   <li>currentUserChanged : カレントユーザのログイン情報が変更された
+     *       (ログイン・ログアウト、{@link NebulaService#setCurrentUser}, {@link NebulaService#setSessionToken},
+     *       {@link NebulaService#removeCurrentUser} 等)。previousUser は変更前のログイン情報。
+     *       他のタブ・ウィンドウでの変更の場合は remote が true となる ({@link NebulaService#setSessionSync})</li>
+     * </ul>
+     * sessionExpiring, sessionExpired はセッション毎に 1 回だけ通知される。
+     * @param {string} type イベント種別
+     * @param {function} listener リスナ
+     * @return {NebulaService} this
+     * @example
+     * Nebula.addEventListener("sessionExpiring", function(event) {
+     *     console.log("session expires at " + new Date(event.user.expire * 1000));
+     * });
+     */
+    addEventListener(type: string, listener: SessionEventListener): NebulaService {
+        this._sessionEvents.add(type, listener);
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description セッションイベントのリスナを削除する
+     * @param {string} type イベント種別
+     * @param {function} listener リスナ
+     * @return {NebulaService} this
+     */
+    removeEventListener(type: string, listener: SessionEventListener): NebulaService {
+        this._sessionEvents.remove(type, listener);
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description sessionExpiring イベントを通知する時間を返却する
+     * @return {number} 有効期限までの秒数
+     */
+    getSessionExpiringLeadTime(): number {
+        return this._sessionEvents.getLeadTime();
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description sessionExpiring イベントを通知する時間を設定する。
+     * @param {number} seconds 有効期限までの秒数。デフォルトは 60
+     * @return {NebulaService} this
+     */
+    setSessionExpiringLeadTime(seconds: number): NebulaService {
+        seconds = NebulaConfig._checkSessionExpiringLeadTime(seconds);
+        if (this._config !== undefined) {
+            this._config.sessionExpiringLeadTime = seconds;
+        }
+        this._sessionEvents.setLeadTime(seconds);
         return this;
     }
 
@@ -517,6 +970,580 @@ export class NebulaService {
         this._config.enableHttp2 = enable;
     }
 
+    /**
+     * @memberOf NebulaService
+     * @description HTTP/2 セッション管理オプションを返却する
+     * @return {Object} オプション。未設定の場合は null
+     */
+    getHttp2Options(): Http2SessionOptions {
+        if (this._config === undefined) {
+            return null;
+        } else {
+            return this._config.http2Options;
+        }
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description HTTP/2 セッション管理オプションを設定する。(Node.js使用時のみ有効)
+     * <p>
+     * HTTP/2 セッションは接続先毎に保持され、以下のように管理される。
+     * セッションは本オプション・クライアント証明書等の設定が同じサービス間でのみ共有される。
+     * <ul>
+     *   <li>ストリームが存在しない状態が idleTimeout を超えるとクローズする</li>
+     *   <li>pingInterval 毎に PING を送信し、pingTimeout 以内に応答がない場合はセッションを破棄する</li>
+     *   <li>GOAWAY を受信した場合は、実行中のストリーム完了後にクローズし、以降のリクエストは再接続したセッションで実行する</li>
+     *   <li>実行中のストリーム数が maxConcurrentStreams (またはサーバの SETTINGS_MAX_CONCURRENT_STREAMS) に
+     *       達している場合、リクエストは待ち合わせる</li>
+     * </ul>
+     * 設定を変更した場合、以降のリクエストは設定に応じたセッションで実行する。
+     * @param {Object} options オプション。以下のプロパティを指定する(いずれも省略可)。
+     * <ul>
+     *   <li>idleTimeout (number) : アイドルタイムアウト(ミリ秒)。0 の場合はクローズしない。デフォルトは 300000</li>
+     *   <li>pingInterval (number) : PING 送信間隔(ミリ秒)。0 の場合は送信しない。デフォルトは 60000</li>
+     *   <li>pingTimeout (number) : PING 応答の待ち時間(ミリ秒)。デフォルトは 10000</li>
+     *   <li>maxConcurrentStreams (number) : 最大同時ストリーム数。デフォルトは 100</li>
+     * </ul>
+     * @example
+     * Nebula.setHttp2Options({idleTimeout: 60000, maxConcurrentStreams: 20});
+     * @return {NebulaService} this
+     */
+    setHttp2Options(options: Http2SessionOptions): NebulaService {
+        this._config.http2Options = options;
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 本サービスの接続先の HTTP/2 セッション統計情報を返却する。(Node.js使用時のみ有効)
+     * @return {Http2SessionStats[]} 統計情報。セッションが存在しない場合は空配列
+     */
+    getHttp2SessionStats(): Http2SessionStats[] {
+        if (this._config === undefined || URL == null) {
+            return [];
+        }
+        return HttpRequest.getHttp2SessionStats(_Http2SessionPool.toAuthority(URL.parse(this.getBaseUri())));
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 通信の圧縮オプションを返却する
+     * @return {Object} オプション。未指定の項目にはデフォルト値が設定される
+     */
+    getCompressionOptions(): CompressionOptions {
+        if (this._config === undefined) {
+            return _normalizeCompressionOptions(null);
+        } else {
+            return _normalizeCompressionOptions(this._config.compression);
+        }
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 通信の圧縮オプションを設定する。(Node.js使用時のみ有効)
+     * <p>
+     * decompressResponse が true の場合、Accept-Encoding ヘッダを送信し、
+     * gzip/deflate/br で圧縮された応答を展開してから返却する。
+     * rawMessage 指定時は Accept-Encoding ヘッダを付与せず、応答もそのまま返却する。
+     * <p>
+     * compressRequest が true の場合、文字列・JSON のリクエストボディが threshold 以上であれば
+     * 圧縮して Content-Encoding ヘッダを付与する。ObjectBucket の longQuery, aggregate や BatchRequest 等の
+     * 大きな JSON の送信量を削減できる。サーバがリクエストの圧縮に対応している場合にのみ有効にすること。
+     * バイナリ(ファイル)のボディは圧縮しない。
+     * <p>
+     * HTTP/1.1, HTTP/2 のいずれでも有効。
+     * @param {Object} options オプション。以下のプロパティを指定する(いずれも省略可)。
+     * <ul>
+     *   <li>decompressResponse (boolean) : 応答を展開する場合は true。デフォルトは true</li>
+     *   <li>compressRequest (boolean) : リクエストボディを圧縮する場合は true。デフォルトは false</li>
+     *   <li>threshold (number) : リクエストボディを圧縮する最小サイズ(バイト)。デフォルトは 1024</li>
+     *   <li>encoding (string) : リクエストボディの圧縮方式。"gzip", "deflate", "br" のいずれか。デフォルトは "gzip"</li>
+     * </ul>
+     * @example
+     * Nebula.setCompressionOptions({compressRequest: true, threshold: 4096});
+     * @return {NebulaService} this
+     */
+    setCompressionOptions(options: CompressionOptions): NebulaService {
+        this._config.compression = NebulaConfig._checkCompression(options);
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description タイムアウトを返却する
+     * @return {Object} タイムアウト。未設定の場合は null
+     */
+    getTimeoutOptions(): TimeoutOptions {
+        if (this._config === undefined) {
+            return null;
+        } else {
+            return this._config.timeout;
+        }
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description タイムアウトを設定する。
+     * <p>
+     * 本サービスの全リクエストに適用される。リクエスト毎に Callbacks の timeout プロパティで上書きできる。
+     * 制限時間を超えた場合、リクエストは中断され {@link TimeoutError} で失敗する。
+     * TimeoutError の phase プロパティには、超過した制限時間の種別("connect", "firstByte", "total")が設定される。
+     * <p>
+     * ブラウザ(XHR, fetch)では接続の確立を検知できないため、connect, firstByte はいずれも送信開始から応答ヘッダの受信までの時間に適用される。
+     * ストリーミング受信時および rawMessage 指定時は、total は応答ヘッダの受信までの時間に適用される。
+     * リトライポリシを設定している場合は、試行毎に計測する。
+     * <p>
+     * 本設定は {@link HttpRequest.setDefaultTimeout} とは独立して動作する。
+     * @param {Object} options タイムアウト。null を指定すると制限しない。以下のプロパティを指定する(いずれも省略可、ミリ秒)。
+     * 0 または省略した場合は制限しない。
+     * <ul>
+     *   <li>connect (number) : 接続の確立までの制限時間</li>
+     *   <li>firstByte (number) : 接続の確立から応答(ステータス・ヘッダ)の受信開始までの制限時間</li>
+     *   <li>total (number) : 送信開始から応答の受信完了までの制限時間</li>
+     * </ul>
+     * @example
+     * Nebula.setTimeoutOptions({connect: 5000, firstByte: 10000, total: 60000});
+     * bucket.load(id, {timeout: 3000})
+     *     .catch(function(error) {
+     *         if (error instanceof Nebula.TimeoutError) {
+     *             console.log("timeout: " + error.phase);
+     *         }
+     *     });
+     * @return {NebulaService} this
+     */
+    setTimeoutOptions(options: TimeoutOptions): NebulaService {
+        this._config.timeout = _checkTimeoutOptions(options);
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 本サービスのロガーを返却する。
+     * <p>
+     * ログレベル、出力先は {@link Logger#setLevel}, {@link Logger#setHandler} で変更できる。
+     * @return {Logger} ロガー
+     */
+    getLogger(): Logger {
+        return this._logger;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 本サービスの HAR 記録を返却する。
+     * <p>
+     * {@link HarRecorder#start} で記録を開始すると、本サービスの通信を記録し、
+     * {@link HarRecorder#export} で HAR 1.2 形式で出力できる。
+     * @example
+     * Nebula.getHarRecorder().start();
+     * ....
+     * console.log(Nebula.getHarRecorder().export());
+     * @return {HarRecorder} HAR 記録
+     */
+    getHarRecorder(): HarRecorder {
+        return this._harRecorder;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 通信方式を返却する
+     * @return {string} 通信方式 ("auto", "xhr", "node", "fetch")
+     */
+    getTransport(): string {
+        if (this._config === undefined) {
+            return "auto";
+        } else {
+            return this._config.transport;
+        }
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 通信方式を設定する。
+     * <ul>
+     *   <li>auto : XMLHttpRequest, Node.js(http/https/http2), Fetch API の順に利用可能なものを使用する</li>
+     *   <li>xhr : XMLHttpRequest を使用する</li>
+     *   <li>node : Node.js の http/https/http2 モジュールを使用する</li>
+     *   <li>fetch : Fetch API を使用する。Service Worker 等 XMLHttpRequest を使用できない環境向け</li>
+     * </ul>
+     * Fetch API 使用時は HTTP/2 設定、Proxy 設定、クライアント証明書設定は無効である。
+     * @param {string} transport 通信方式
+     * @example
+     * Nebula.setTransport("fetch");
+     * @return {NebulaService} this
+     */
+    setTransport(transport: string): NebulaService {
+        this._config.transport = NebulaConfig._checkTransport(transport);
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description HttpRequestExecutor ファクトリを返却する
+     * @return {function} ファクトリ。未設定の場合は null
+     * @private
+     */
+    getExecutorFactory(): HttpRequestExecutorFactory {
+        if (this._config === undefined) {
+            return null;
+        } else {
+            return this._config.executorFactory;
+        }
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 本サービスの通信に使用する HttpRequestExecutor ファクトリを設定する。
+     * <p>
+     * 設定した場合、transport 設定は無視される。
+     * テスト時にモック通信 ({@link MockTransport}) を本サービスにのみ適用する場合等に使用する。
+     * @param {function} factory ファクトリ。null を指定すると設定を解除する。
+     * @return {NebulaService} this
+     * @private
+     */
+    setExecutorFactory(factory: HttpRequestExecutorFactory): NebulaService {
+        this._config.executorFactory = factory;
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description リトライポリシを返却する
+     * @return {Object} リトライポリシ。未設定の場合は null
+     */
+    getRetryPolicy(): RetryPolicy {
+        return this._config.retryPolicy;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description リトライポリシを設定する。
+     * <p>
+     * 通信エラー、または 429/5xx 応答を受信した場合に、指数バックオフで自動的にリトライする。
+     * Retry-After ヘッダを受信した場合は、その値に従って待ち合わせる。
+     * リトライは GET/HEAD/OPTIONS、または ETag で保護された更新リクエスト(ETag 指定の ObjectBucket#save 等)に対してのみ行われる。
+     * <p>
+     * リクエスト毎の設定は {@link HttpRequest#setRetryPolicy} で変更できる。
+     * @param {Object} policy リトライポリシ。null を指定するとリトライしない。
+     * 以下のプロパティを指定する(いずれも省略可)。
+     * <ul>
+     *   <li>maxAttempts (number) : 最大試行回数(初回を含む)。デフォルトは 3</li>
+     *   <li>baseDelay (number) : バックオフの初期待ち時間(ミリ秒)。試行毎に2倍となる。デフォルトは 1000</li>
+     *   <li>maxDelay (number) : 最大待ち時間(ミリ秒)。Retry-After がこれを超える場合はリトライしない。デフォルトは 30000</li>
+     *   <li>jitter (boolean) : 待ち時間にジッタを付与する。デフォルトは true</li>
+     *   <li>retryStatuses (number[]) : リトライ対象のステータスコード。0 は通信エラーを表す。
+     *       デフォルトは [0, 429, 500, 502, 503, 504]</li>
+     * </ul>
+     * @example
+     * Nebula.setRetryPolicy({maxAttempts: 5, baseDelay: 500});
+     * @return {NebulaService} this
+     */
+    setRetryPolicy(policy: RetryPolicy): NebulaService {
+        this._config.retryPolicy = policy;
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description サーキットブレーカを返却する
+     * @return {CircuitBreaker} サーキットブレーカ。無効な場合は null
+     */
+    getCircuitBreaker(): CircuitBreaker {
+        return this._circuitBreaker;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description サーキットブレーカを設定する。
+     * <p>
+     * 有効にすると、本サービスのベースURIへのリクエストの失敗(通信エラー、タイムアウト、5xx 応答)が
+     * failureThreshold 回連続した場合に遮断状態となり、resetTimeout の間はサーバにリクエストを送信せずに
+     * {@link CircuitOpenError} で即座に失敗する。
+     * resetTimeout 経過後は halfOpenMaxRequests 個のリクエストのみ送信し、成功した場合は遮断を解除する。
+     * <p>
+     * リトライポリシを設定している場合、リトライの各試行が失敗として数えられる。遮断中はリトライしない。
+     * 状態の変化は {@link CircuitBreaker#addStateListener} で通知を受けることができる。
+     * <p>
+     * 既にサーキットブレーカが有効な場合は、状態とリスナを維持したままオプションのみ変更する。
+     * @param {Object} options オプション。null を指定すると無効にする。以下のプロパティを指定する(いずれも省略可)。
+     * <ul>
+     *   <li>failureThreshold (number) : 遮断するまでの連続失敗回数。デフォルトは 5</li>
+     *   <li>failureStatuses (number[]) : 失敗とみなすステータスコード。0 は通信エラー・タイムアウトを表す。
+     *       デフォルトは [0, 500, 502, 503, 504]</li>
+     *   <li>resetTimeout (number) : 遮断してから試行状態に移行するまでの時間(ミリ秒)。デフォルトは 30000</li>
+     *   <li>halfOpenMaxRequests (number) : 試行状態で同時に送信するリクエスト数。デフォルトは 1</li>
+     * </ul>
+     * @example
+     * Nebula.setCircuitBreaker({failureThreshold: 3, resetTimeout: 10000});
+     * @return {NebulaService} this
+     */
+    setCircuitBreaker(options: CircuitBreakerOptions): NebulaService {
+        this._config.circuitBreaker = options;
+        if (options == null) {
+            this._circuitBreaker = null;
+        } else if (this._circuitBreaker != null) {
+            this._circuitBreaker.setOptions(options);
+        } else {
+            this._circuitBreaker = new CircuitBreaker(this, options);
+        }
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 応答キャッシュを返却する
+     * @return {ResponseCache} 応答キャッシュ。未設定の場合は null
+     */
+    getResponseCache(): ResponseCache {
+        if (this._config === undefined) {
+            return null;
+        } else {
+            return this._config.responseCache;
+        }
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 応答キャッシュを設定する。
+     * <p>
+     * 設定すると、ObjectBucket#load および FileBucket#load は ETag による条件付き GET を行い、
+     * サーバが 304 Not Modified を応答した場合はキャッシュした内容を返却する。
+     * オブジェクト・ファイルを save/remove した場合、該当するキャッシュは削除される。
+     * <p>
+     * バケット毎の有効/無効は ObjectBucket#setCacheEnabled, FileBucket#setCacheEnabled で設定する。
+     * @param {ResponseCache} cache 応答キャッシュ。null を指定するとキャッシュを使用しない。
+     * @example
+     * Nebula.setResponseCache(new Nebula.ResponseCache({
+     *     maxEntries: 200,
+     *     backend: new Nebula.StorageCacheBackend(localStorage)
+     * }));
+     * @return {NebulaService} this
+     */
+    setResponseCache(cache: ResponseCache): NebulaService {
+        this._config.responseCache = cache;
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 書き込みキューを返却する
+     * @return {WriteQueue} 書き込みキュー。未設定の場合は null
+     */
+    getWriteQueue(): WriteQueue {
+        return this._writeQueue;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 書き込みキューを設定する。
+     * <p>
+     * 設定すると、ObjectBucket#save, ObjectBucket#insert, ObjectBucket#remove, FileBucket#saveAs, FileBucket#save が
+     * 通信エラー・タイムアウト・サーキットブレーカによる遮断で失敗した場合に、操作を書き込みキューに登録する。
+     * 登録した操作は、通信の回復時(ブラウザの online イベント)または {@link WriteQueue#replay} の呼び出し時に登録順に再送される。
+     * <p>
+     * オフラインモード(SDE)では使用されない。
+     * @param {WriteQueue} queue 書き込みキュー。null を指定すると書き込みキューを使用しない。
+     * @example
+     * Nebula.setWriteQueue(new Nebula.WriteQueue({
+     *     backend: new Nebula.StorageWriteQueueBackend(localStorage)
+     * }));
+     * @return {NebulaService} this
+     */
+    setWriteQueue(queue: WriteQueue): NebulaService {
+        if (this._writeQueue != null) {
+            this._writeQueue._attach(null);
+        }
+        this._writeQueue = queue;
+        if (queue != null) {
+            queue._attach(this);
+        }
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description セッション管理を返却する
+     * @return {SessionManager} セッション管理。未設定の場合は null
+     */
+    getSessionManager(): SessionManager {
+        return this._sessionManager;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description セッション管理を設定する。
+     * <p>
+     * 設定すると、セッションの有効期限が近づいた場合や、リクエストが 401 Unauthorized で失敗した場合に、
+     * 登録した credentialProvider の認証情報で自動的に再ログインする。
+     * 401 Unauthorized で失敗したリクエストは、再ログイン後に 1 回だけ再送される。
+     * 詳細は {@link SessionManager} を参照。
+     * @param {SessionManager} manager セッション管理。null を指定するとセッション管理を使用しない。
+     * @example
+     * Nebula.setSessionManager(new Nebula.SessionManager({
+     *     credentialProvider: function() {
+     *         return {username: "foo", password: "secret"};
+     *     }
+     * }));
+     * @return {NebulaService} this
+     */
+    setSessionManager(manager: SessionManager): NebulaService {
+        if (this._sessionManager != null) {
+            this._sessionManager._attach(null);
+        }
+        this._sessionManager = manager;
+        if (manager != null) {
+            manager._attach(this);
+        }
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description リクエスト集約の有効/無効を返却する
+     * @return {boolean} 有効な場合は true
+     */
+    isRequestCoalescing(): boolean {
+        if (this._config === undefined) {
+            return false;
+        } else {
+            return this._config.coalesceRequests;
+        }
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description リクエスト集約の有効/無効を設定する。
+     * <p>
+     * 有効にすると、同一内容の GET リクエスト(URL、クエリパラメータ、セッショントークン等のヘッダが同一)が
+     * 実行中の場合、新たに通信を行わずに実行中のリクエストの結果を共有する。
+     * 複数の画面部品から同時に ObjectBucket#load や User.queryCurrent を呼び出す場合等に、重複した通信を削減できる。
+     * <p>
+     * 結果を共有する場合、応答の JSON オブジェクトは同一インスタンスとなる場合がある。
+     * rawMessage 指定時、ストリーミング受信時、進捗通知指定時のリクエストは集約しない。
+     * @param {boolean} enabled 有効にする場合は true
+     * @return {NebulaService} this
+     */
+    setRequestCoalescing(enabled: boolean): NebulaService {
+        this._config.coalesceRequests = enabled;
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description ホスト毎の最大同時リクエスト数を返却する
+     * @return {number} 最大同時リクエスト数。0 の場合は制限なし
+     */
+    getMaxConcurrentRequests(): number {
+        return this._requestScheduler.getMaxConcurrent();
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description ホスト毎の最大同時リクエスト数を設定する。
+     * <p>
+     * 上限を超えたリクエストは通信を開始せずに待ち合わせ、実行中のリクエストが完了した時点で優先度順に実行される。
+     * "interactive" 優先度のリクエストは "background" 優先度のリクエストより先に実行され、
+     * 同一優先度内では呼び出し順に実行される。
+     * 優先度は各 API の callbacks の priority に指定する。
+     * <p>
+     * 大量のオブジェクトやファイルをループで保存する場合等に、ブラウザやサーバの接続数を超えないように制限できる。
+     * 待ち合わせ中に AbortSignal で abort した場合は、通信を行わずに失敗する。
+     * リトライポリシによる再送も 1 リクエストとして数える。
+     * @param {number} max 最大同時リクエスト数。0 の場合は制限しない(デフォルト)
+     * @return {NebulaService} this
+     * @example
+     * Nebula.setMaxConcurrentRequests(4);
+     * for (var i = 0; i < objects.length; i++) {
+     *     bucket.save(objects[i], {priority: "background"});
+     * }
+     */
+    setMaxConcurrentRequests(max: number): NebulaService {
+        if (max == null || max < 0) {
+            throw new Error("Bad maxConcurrentRequests");
+        }
+        this._config.maxConcurrentRequests = max;
+        this._requestScheduler.setMaxConcurrent(max);
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 実行待ちのリクエスト数を返却する
+     * @param {string} priority 優先度 ("interactive" または "background")。省略時は全ての優先度の合計
+     * @return {number} 実行待ちのリクエスト数
+     */
+    getRequestQueueDepth(priority?: string): number {
+        return this._requestScheduler.getQueueDepth(priority);
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 実行中のリクエスト数を返却する
+     * @return {number} 実行中のリクエスト数
+     */
+    getActiveRequestCount(): number {
+        return this._requestScheduler.getActiveCount();
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description HTTPインターセプタを登録する。
+     * <p>
+     * 本サービスを使用する全ての HTTP リクエスト (ObjectBucket, FileBucket, User, Group, CustomApi, PushSender 等)
+     * は、登録されたインターセプタを経由して実行される。
+     * onRequest は登録順、onResponse/onError は登録の逆順に呼び出される。
+     * @param {Object} interceptor インターセプタ。onRequest, onResponse, onError を指定する(いずれも省略可)。
+     * <ul>
+     *   <li>onRequest(context) : リクエスト送信前に呼び出される。
+     *       context の method, url, headers, body を変更するとリクエストに反映される。
+     *       undefined 以外の値を返却した場合は通信を行わず、その値がレスポンスとなる。</li>
+     *   <li>onResponse(response, context) : レスポンス受信後に呼び出される。
+     *       undefined 以外の値を返却した場合は、レスポンスが置き換えられる。</li>
+     *   <li>onError(error, context) : エラー発生時に呼び出される。
+     *       undefined 以外の値を返却した場合は、エラーから回復しその値がレスポンスとなる。</li>
+     * </ul>
+     * 各ハンドラは Promise を返却することもできる。
+     * @example
+     * Nebula.addInterceptor({
+     *     onRequest: function(context) {
+     *         context.headers["X-Request-Id"] = createRequestId();
+     *     },
+     *     onError: function(error, context) {
+     *         console.log(context.method + " " + context.url + " failed: " + error.status);
+     *     }
+     * });
+     * @return {NebulaService} this
+     */
+    addInterceptor(interceptor: HttpInterceptor): NebulaService {
+        if (interceptor == null || typeof interceptor !== "object") {
+            throw new Error("Bad interceptor");
+        }
+        this._interceptors.push(interceptor);
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description HTTPインターセプタの登録を解除する。
+     * @param {Object} interceptor 登録済みのインターセプタ
+     * @return {NebulaService} this
+     */
+    removeInterceptor(interceptor: HttpInterceptor): NebulaService {
+        const index = this._interceptors.indexOf(interceptor);
+        if (index >= 0) {
+            this._interceptors.splice(index, 1);
+        }
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 登録済みのHTTPインターセプタ一覧を返す。
+     * @return {Object[]} インターセプタの配列(コピー)
+     */
+    getInterceptors(): HttpInterceptor[] {
+        return this._interceptors.slice();
+    }
+
     /**
      * @memberOf NebulaService
      * @description MBaaS JavaScript SDK 初期化
@@ -549,6 +1576,8 @@ export class NebulaService {
      *       <p>NebulaService毎に割り当てられるユニークなID
      *       <p>マルチテナント機能を使用して複数のNebulaService(インスタンス)を生成する場合等に使用。
      *       本IDはログイン情報キャッシュ時のKey情報に利用される。
+     *     <li>certificatePinning (Object)(オプション, 初期値: null)
+     *       <p>証明書ピンニングの設定。Node.js使用時のみ有効。指定方法は {@link NebulaService#setCertificatePinning} を参照。
      *     <li>debugMode (string)（オプション）
      *       <p>ログ出力レベル。
      *       <p>"release", "debug" のいずれかを指定
@@ -560,19 +1589,66 @@ export class NebulaService {
      *       <p>HTTP/2使用設定
      *       <p>Node.js使用時(v8.4.0以降)のみ有効。
      *       通信にHTTP/2を利用する場合はtrueを指定する。
+     *     <li>http2Options (Object)(オプション, 初期値: null)
+     *       <p>HTTP/2 セッション管理オプション。指定方法は {@link NebulaService#setHttp2Options} を参照。
+     *     <li>logLevel (string)(オプション, 初期値: null)
+     *       <p>ログレベル。"debug", "info", "warn", "error", "none" のいずれか。
+     *       null の場合は debugMode に従う。詳細は {@link Logger#setLevel} を参照。
+     *     <li>logHandler (function)(オプション, 初期値: null)
+     *       <p>ログの出力先。引数は {@link LogRecord}。null の場合はコンソールに出力する。
+     *     <li>compression (Object)(オプション, 初期値: null)
+     *       <p>通信の圧縮オプション。指定方法は {@link NebulaService#setCompressionOptions} を参照。
+     *     <li>timeout (Object)(オプション, 初期値: null)
+     *       <p>タイムアウト。指定方法は {@link NebulaService#setTimeoutOptions} を参照。
+     *     <li>retryPolicy (Object)(オプション, 初期値: null)
+     *       <p>リトライポリシ。指定方法は {@link NebulaService#setRetryPolicy} を参照。
+     *     <li>circuitBreaker (Object)(オプション, 初期値: null)
+     *       <p>サーキットブレーカのオプション。指定方法は {@link NebulaService#setCircuitBreaker} を参照。
+     *     <li>coalesceRequests (boolean)(オプション, 初期値: false)
+     *       <p>同一内容の GET リクエストを集約する場合は true。詳細は {@link NebulaService#setRequestCoalescing} を参照。
+     *     <li>maxConcurrentRequests (number)(オプション, 初期値: 0)
+     *       <p>ホスト毎の最大同時リクエスト数。0 の場合は制限しない。
+     *       詳細は {@link NebulaService#setMaxConcurrentRequests} を参照。
+     *     <li>proxyFromEnv (boolean)(オプション, 初期値: false)
+     *       <p>環境変数(HTTP_PROXY, HTTPS_PROXY, NO_PROXY)のプロキシ設定を使用する場合は true。
+     *       Node.js使用時のみ有効。詳細は {@link NebulaService#setProxyFromEnv} を参照。
+     *     <li>transport (string)(オプション, 初期値: "auto")
+     *       <p>通信方式。"auto", "xhr", "node", "fetch" のいずれかを指定する。
+     *       詳細は {@link NebulaService#setTransport} を参照。
+     *     <li>sessionExpiringLeadTime (number)(オプション, 初期値: 60)
+     *       <p>sessionExpiring イベントを通知する時間(有効期限までの秒数)。
+     *       詳細は {@link NebulaService#addEventListener} を参照。
+     *     <li>sessionStore (string|Object)(オプション, 初期値: null)
+     *       <p>カレントユーザのログイン情報の保存先。"memory", "localStorage", "sessionStorage" のいずれか、
+     *       または {@link SessionStore} を実装したオブジェクト
+     *       ({@link FileSessionStore}, {@link EncryptedSessionStore} 等)を指定する。
+     *       null の場合、ブラウザでは localStorage、Node.js ではメモリに保存する。
+     *       非同期のセッションストアを使用する場合は {@link NebulaService#restoreSession} を参照。
+     *     <li>sessionSync (boolean)(オプション, 初期値: true)
+     *       <p>ブラウザで、他のタブ・ウィンドウでのログイン情報の変更を検出する場合は true。
+     *       詳細は {@link NebulaService#setSessionSync} を参照。
      * </ul>
      * @return {NebulaService} this
      */
     initialize(params: NebulaInitParam): NebulaService {
         this._config = new NebulaConfig(params);
-
-        if (typeof localStorage !== 'undefined' && localStorage != null) {
-            this._localStorage = localStorage;
-        } else {
-            // ブラウザのlocalStorageを使用できない場合はメモリ上にログインキャッシュ情報を保持する
-            this._localStorage = new LocalStorageInMemory();
+        this._requestScheduler.setMaxConcurrent(this._config.maxConcurrentRequests);
+        this._logger.setLevel(this._config.logLevel).setHandler(this._config.logHandler);
+        this._circuitBreaker = null;
+        if (this._config.circuitBreaker != null) {
+            this.setCircuitBreaker(this._config.circuitBreaker);
         }
 
+        // sessionStore 未指定時、ブラウザのlocalStorageを使用できない場合はメモリ上にログインキャッシュ情報を保持する
+        this._localStorage = new _SessionStoreCache(this, _createSessionStore(this._config.sessionStore));
+        this._sessionEvents.setLeadTime(this._config.sessionExpiringLeadTime);
+        this._sessionLoading = this._localStorage.load(this._userItemKey()).then((loaded) => {
+            if (loaded) {
+                this._sessionEvents.changed(null, this._loadCurrentUser());
+            }
+        });
+        this.setSessionSync(this._config.sessionSync);
+
         if (this._config.offline) {
             if (this !== Nebula) {
                 // マルチテナントインスタンスはオフラインモード使用不可
@@ -595,14 +1671,14 @@ export class NebulaService {
                 request.setData(initializeParams);
 
                 request.execute().then(response => {
-                    nbLogger("Nebula.initialize#Success");
-                    nbLogger("Nebula.initialize#response = " + response);
+                    nbLogger("Nebula.initialize#Success", this);
+                    nbLogger("Nebula.initialize#response = " + response, this);
                 }).catch(error => {
-                    nbLogger("Nebula.initialize#Error = " + _errorText(error));
+                    nbLogger("Nebula.initialize#Error = " + _errorText(error), this);
                     this._config.offline = false;
                 });
             } catch (e) {
-                nbLogger("Nebula.initialize#" + e.message);
+                nbLogger("Nebula.initialize#" + e.message, this);
                 this._config.offline = false;
             }
         }
@@ -622,7 +1698,7 @@ export class NebulaService {
      * @return {Promise<any>} Promise
      */
     setLoginCacheValidTime(expire: number, callbacks?: Callbacks): Promise<void> {
-        nbLogger("Nebula.setLoginCacheValidTime#start");
+        nbLogger("Nebula.setLoginCacheValidTime#start", this);
 
         if (expire <= 0) {
             throw new Error("Nebula.setLoginCacheValidTime: bad expire");
@@ -640,14 +1716,14 @@ export class NebulaService {
         request.setData(setLoginCacheValidTimeParams);
 
         const promise = request.execute().then(() => {
-            nbLogger("Nebula.setLoginCacheValidTime#Success");
+            nbLogger("Nebula.setLoginCacheValidTime#Success", this);
             return;
         }).catch(error => {
-            nbLogger(("Nebula.setLoginCacheValidTime#error = " + (_errorText(error))));
+            nbLogger(("Nebula.setLoginCacheValidTime#error = " + (_errorText(error))), this);
             return Promise.reject(error);
         });
 
-        nbLogger("Nebula.setLoginCacheValidTime#end");
+        nbLogger("Nebula.setLoginCacheValidTime#end", this);
         return _promisify(promise, callbacks);
     }
 
@@ -665,7 +1741,7 @@ export class NebulaService {
      * </ul>
      */
     getLoginCacheValidTime(callbacks?: Callbacks): Promise<number> {
-        nbLogger("Nebula.getLoginCacheValidTime#start");
+        nbLogger("Nebula.getLoginCacheValidTime#start", this);
 
         if (!this.isOffline()) {
             throw new Error("Not offline mode!");
@@ -674,13 +1750,13 @@ export class NebulaService {
         const request = new _SdeRequest("Nebula", "getLoginCacheValidTime");
 
         const promise = request.execute().then(response => {
-            nbLogger("Nebula.getLoginCacheValidTime#Success");
+            nbLogger("Nebula.getLoginCacheValidTime#Success", this);
 
             let jsonObj: JsonObject;
             try {
                 jsonObj = JSON.parse(response);
             } catch (e) {
-                nbError("Nebula.getLoginCacheValidTime#" + e.message);
+                nbError("Nebula.getLoginCacheValidTime#" + e.message, this);
                 jsonObj = null;
             }
 
@@ -691,12 +1767,12 @@ export class NebulaService {
                 return Promise.reject(error);
             }
         }).catch(error => {
-            nbLogger("Nebula.getLoginCacheValidTime#error callback start");
-            nbLogger(("Nebula.getLoginCacheValidTime#error = " + (_errorText(error))));
+            nbLogger("Nebula.getLoginCacheValidTime#error callback start", this);
+            nbLogger(("Nebula.getLoginCacheValidTime#error = " + (_errorText(error))), this);
             return Promise.reject(error);
         });
 
-        nbLogger("Nebula.getLoginCacheValidTime#end");
+        nbLogger("Nebula.getLoginCacheValidTime#end", this);
         return _promisify(promise, callbacks);
     }
 
@@ -722,7 +1798,7 @@ export class NebulaService {
      * @return {NebulaService} this
      */
     setNetworkEventListener(listener: NetworkEventListener): NebulaService {
-        nbLogger("Nebula.setNetworkEventListener#start");
+        nbLogger("Nebula.setNetworkEventListener#start", this);
         let paramOk = false;
         if (arguments.length === 1) {
             if (listener != null) {
@@ -737,17 +1813,17 @@ export class NebulaService {
         }
 
         if (!paramOk) {
-            nbError("Nebula.setNetworkEventListener#invalid parameter.");
+            nbError("Nebula.setNetworkEventListener#invalid parameter.", this);
             return;
         }
 
         if (this.isOffline()) {
             _SdeNetworkEventListener.setCallback(listener);
         } else {
-            nbLogger("Nebula.setNetworkEventListener#Disabled Offline");
+            nbLogger("Nebula.setNetworkEventListener#Disabled Offline", this);
         }
 
-        nbLogger("Nebula.setNetworkEventListener#end");
+        nbLogger("Nebula.setNetworkEventListener#end", this);
         return this;
     }
 
@@ -755,27 +1831,50 @@ export class NebulaService {
      * @memberOf NebulaService
      * @description HTTP プロキシを設定する (Node.js専用)。
      * <p>
-     * 注: 本設定はグローバル設定である(NebulaService毎ではない)
-     * @param {Object} proxy プロキシ設定。host, port を指定する。
+     * 本設定は NebulaService 毎の設定である。
+     * 設定した場合、http の接続先には環境変数(HTTP_PROXY)の設定は使用されない。
+     * @param {Object} proxy プロキシ設定。null を指定すると設定を解除する。
+     * 以下のプロパティを指定する。
+     * <ul>
+     *   <li>host (string) : ホスト名 (必須)</li>
+     *   <li>port (number) : ポート番号 (必須)</li>
+     *   <li>username (string) : プロキシ認証(Basic)のユーザ名 (省略可)</li>
+     *   <li>password (string) : プロキシ認証(Basic)のパスワード (省略可)</li>
+     *   <li>bypass (string[]) : プロキシを使用しない接続先ホストのリスト (省略可)。
+     *       "example.com" はサブドメインを含めて一致する。"example.com:8080" のようにポート番号を指定できる。
+     *       "*" は全てのホストに一致する。</li>
+     * </ul>
      * @example
      * Nebula.setHttpProxy({ host: 'proxysv.example.com', port: 8080});
+     *
+     * // プロキシ認証を使用し、社内ホストはプロキシを使用しない
+     * Nebula.setHttpProxy({ host: 'proxysv.example.com', port: 8080,
+     *     username: 'user', password: 'pass', bypass: ['.intra.example.com', 'localhost']});
      */
     setHttpProxy(proxy: ProxyServer): void {
-        let agent: object = null;
         if (proxy != null) {
             NebulaService.verifyProxy(proxy);
-            agent = _node_require('tunnel-fork').httpOverHttp({proxy});
         }
-        HttpRequest.setProxy(proxy);
-        HttpRequest.setHttpAgent(agent);
+        this._proxySettings.setHttpProxy(proxy);
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description HTTP プロキシ設定を返却する (Node.js専用)。
+     * @return {Object} プロキシ設定。未設定の場合は null
+     */
+    getHttpProxy(): ProxyServer {
+        return this._proxySettings.getHttpProxy();
     }
 
     /**
      * @memberOf NebulaService
      * @description HTTPS プロキシを設定する (Node.js専用)。
      * <p>
-     * 注: 本設定はグローバル設定である(NebulaService毎ではない)
-     * @param {Object} proxy プロキシ設定。host, port を指定する。
+     * 本設定は NebulaService 毎の設定である。
+     * 設定した場合、https の接続先には環境変数(HTTPS_PROXY)の設定は使用されない。
+     * @param {Object} proxy プロキシ設定。null を指定すると設定を解除する。
+     * 指定方法は {@link NebulaService#setHttpProxy} を参照。
      * @param {Object} options https.request() に引き渡すオプション(省略可)。
      * <p>
      * クライアント証明書認証に使用する証明書の設定などを行う。
@@ -808,18 +1907,71 @@ export class NebulaService {
      * });
      */
     setHttpsProxy(proxy: ProxyServer, options?: JsonObject): void {
-        let agent: any = null;
         if (proxy != null) {
-            if(options == null) {
+            NebulaService.verifyProxy(proxy);
+            if (options == null) {
                 options = {};
             }
-            options.proxy =  proxy as any;
-            NebulaService.verifyProxy(proxy);
-            agent = _node_require('tunnel-fork').httpsOverHttp(options);
-            agent.defaultPort = 443;
         }
-        HttpRequest.setProxy(proxy);
-        HttpRequest.setHttpsAgent(agent, options);
+        this._proxySettings.setHttpsProxy(proxy, options);
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description HTTPS プロキシ設定を返却する (Node.js専用)。
+     * @return {Object} プロキシ設定。未設定の場合は null
+     */
+    getHttpsProxy(): ProxyServer {
+        return this._proxySettings.getHttpsProxy();
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 環境変数のプロキシ設定を使用するか設定する (Node.js専用)。
+     * <p>
+     * 有効な場合、{@link NebulaService#setHttpProxy}、{@link NebulaService#setHttpsProxy} で
+     * プロキシを設定していなければ、環境変数 HTTP_PROXY, HTTPS_PROXY, NO_PROXY (小文字も可) の設定に従う。
+     * プロキシURLにユーザ名・パスワードが含まれる場合は、プロキシ認証(Basic)を行う。
+     * https の接続先には、クライアント証明書、自己署名証明書の設定が適用される。
+     * <p>
+     * デフォルトは無効である。
+     * @param {boolean} enable 使用する場合は true
+     * @return {NebulaService} this
+     */
+    setProxyFromEnv(enable: boolean): NebulaService {
+        this._config.proxyFromEnv = enable;
+        return this;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 環境変数のプロキシ設定を使用するか返却する (Node.js専用)。
+     * @return {boolean} 使用する場合は true
+     */
+    isProxyFromEnv(): boolean {
+        return this._config.proxyFromEnv;
+    }
+
+    /**
+     * @memberOf NebulaService
+     * @description 接続先に使用するプロキシを解決する
+     * @param {string} protocol "http:" または "https:"
+     * @param {string} hostname 接続先ホスト名
+     * @param {number} port 接続先ポート番号
+     * @return {ProxyAgent} プロキシを使用しない場合は null
+     * @private
+     */
+    _resolveProxy(protocol: string, hostname: string, port: number): ProxyAgent {
+        const tlsOptions: JsonObject = {
+            rejectUnauthorized: !this._config.allowSelfSignedCert
+        };
+        const clientCertOptions = this._config.clientCertOptions as JsonObject;
+        if (clientCertOptions != null) {
+            for (const key of Object.keys(clientCertOptions)) {
+                tlsOptions[key] = clientCertOptions[key];
+            }
+        }
+        return this._proxySettings.resolve(protocol, hostname, port, this._config.proxyFromEnv, tlsOptions);
     }
 
     private static verifyProxy(proxy: ProxyServer): void {
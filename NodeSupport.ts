@@ -48,6 +48,8 @@ export const http = _node_require('http');
 export const tls = _node_require('tls');
 export const fs = _node_require('fs');
 export const util = _node_require('util');
+export const zlib = _node_require('zlib');
+export const crypto = _node_require('crypto');
 
 let __http2 = null;
 try {
@@ -1,13 +1,16 @@
 import {BaseBucket} from "./BaseBucket";
 import {Nebula} from "./Nebula";
 import {NebulaService} from "./NebulaService";
-import {_compareObject, _createError, _errorText, _promisify, Callbacks, JsonObject, nbError, nbLogger} from "./Head";
+import {_compareObject, _createInvalidResponseError, _errorText, _promisify, Callbacks, JsonObject, nbError, nbLogger} from "./Head";
 import {Acl} from "./Acl";
 import {ApiRequest, HttpRequest, QueryParams} from "./HttpRequest";
 import {_SdeRequest} from "./SdeRequest";
 import {ObjectQuery} from "./ObjectQuery";
 import {_SdeSyncEventListener, ResolveConflictParams, SyncEventListener} from "./SdeSyncEventListener";
 import {BatchRequest, BatchResponseJson} from "./BatchRequest";
+import {HttpRequestContext} from "./HttpInterceptor";
+import {_getResponseETag} from "./ResponseCache";
+import {_enqueueWrite, WRITE_OBJECT_REMOVE, WRITE_OBJECT_SAVE} from "./WriteQueue";
 
 import {Promise} from "es6-promise";
 
@@ -147,7 +150,7 @@ export class ObjectBucket extends BaseBucket {
     static loadBucket(name: string, callbacks?: Callbacks, mode?: number): Promise<ObjectBucket> { return null; }
 
     protected static _loadBucket(service: NebulaService, name: string, callbacks?: Callbacks, mode?: number): Promise<ObjectBucket> {
-        nbLogger("ObjectBucket.loadBucket(), name=" + name + ", callbacks=" + callbacks);
+        nbLogger("ObjectBucket.loadBucket(), name=" + name + ", callbacks=" + callbacks, service);
         return BaseBucket._baseLoadBucket("object", service, name, mode, callbacks) as Promise<ObjectBucket>;
     }
 
@@ -170,7 +173,7 @@ export class ObjectBucket extends BaseBucket {
     static getBucketList(callbacks?: Callbacks): Promise<string[]> { return null; }
 
     protected static _getBucketList(service: NebulaService, callbacks?: Callbacks): Promise<string[]> {
-        nbLogger("ObjectBucket.getBucketList(), callbacks=" + callbacks);
+        nbLogger("ObjectBucket.getBucketList(), callbacks=" + callbacks, service);
         return BaseBucket._baseGetBucketList("object", service, false, callbacks);
     }
 
@@ -194,7 +197,7 @@ export class ObjectBucket extends BaseBucket {
     static getLocalBucketList(callbacks?: Callbacks): Promise<string[]> { return null; }
 
     protected static _getLocalBucketList(service: NebulaService, callbacks?: Callbacks): Promise<string[]> {
-        nbLogger("ObjectBucket.getLocalBucketList(), callbacks=" + callbacks);
+        nbLogger("ObjectBucket.getLocalBucketList(), callbacks=" + callbacks, service);
         return BaseBucket._baseGetBucketList("object", service, true, callbacks);
     }
 
@@ -445,6 +448,35 @@ export class ObjectBucket extends BaseBucket {
         return super.getBucketMode();
     }
 
+    /**
+     * @memberOf ObjectBucket
+     * @description
+     *      本バケットで応答キャッシュを使用するか設定する。デフォルトは true。
+     *      <p>
+     *      NebulaService に応答キャッシュ({@link NebulaService#setResponseCache})が設定されている場合のみ有効。
+     *      有効な場合、load() は ETag による条件付き GET を行う。
+     * @example
+     * var bucket = ....;
+     * ....
+     * bucket.setCacheEnabled(false);
+     * @param {boolean} enabled 応答キャッシュを使用する場合は true
+     * @return {ObjectBucket} this
+     */
+    setCacheEnabled(enabled: boolean): ObjectBucket {
+        super.setCacheEnabled(enabled);
+        return this;
+    }
+
+    /**
+     * @memberOf ObjectBucket
+     * @description
+     *      本バケットで応答キャッシュを使用するか返却する
+     * @return {boolean} 応答キャッシュを使用する場合は true
+     */
+    isCacheEnabled(): boolean {
+        return super.isCacheEnabled();
+    }
+
     /**
      * @memberOf ObjectBucket
      * @description
@@ -473,10 +505,10 @@ export class ObjectBucket extends BaseBucket {
      * </ul>
      */
     load(objectId: string, callbacks?: Callbacks): Promise<JsonObject> {
-        nbLogger("ObjectBucket.load()");
+        nbLogger("ObjectBucket.load()", this._service);
 
         if (objectId == null) {
-            nbError("ObjectBucket.load(), Parameter is invalid");
+            nbError("ObjectBucket.load(), Parameter is invalid", this._service);
             throw new Error("No objectId");
         }
 
@@ -492,23 +524,25 @@ export class ObjectBucket extends BaseBucket {
         } else {
             const path = this.getDataPath("/" + objectId);
             req = new HttpRequest(this._service, path);
+            req._applyCallbackOptions(callbacks);
             req.setMethod("GET");
             req.setContentType("application/json");
+            req.setResponseCache(this._getResponseCache(), ObjectBucket._getObjectETag);
         }
 
         const promise = req.execute().then((response) => {
             try {
                 const resObj = JSON.parse(response);
-                nbLogger("ObjectBucket.load(), success : response=" + response);
+                nbLogger("ObjectBucket.load(), success : response=" + response, this._service);
                 return Promise.resolve(resObj);
             } catch (e) {
-                nbLogger("ObjectBucket.load(), error : response=" + response);
-                const errorResult = _createError(0, "Invalid response from server", e);
+                nbLogger("ObjectBucket.load(), error : response=" + response, this._service);
+                const errorResult = _createInvalidResponseError("Invalid response from server", e);
                 errorResult.data = objectId;
                 return Promise.reject(errorResult);
             }
         }, (err) => {
-            nbLogger(("ObjectBucket.load(), error: " + (_errorText(err))));
+            nbLogger(("ObjectBucket.load(), error: " + (_errorText(err))), this._service);
             err.data = objectId;
             return Promise.reject(err);
         });
@@ -516,6 +550,23 @@ export class ObjectBucket extends BaseBucket {
         return _promisify(promise, callbacks);
     }
 
+    /**
+     * オブジェクトの ETag 値を取得する。ETag レスポンスヘッダがない場合はオブジェクトの etag プロパティを使用する。
+     * @private
+     */
+    private static _getObjectETag(response: any, context: HttpRequestContext): string {
+        const etag = _getResponseETag(response, context);
+        if (etag != null) {
+            return etag;
+        }
+        try {
+            const obj = JSON.parse(response);
+            return (obj != null && obj.etag != null) ? String(obj.etag) : null;
+        } catch (e) {
+            return null;
+        }
+    }
+
     /**
      * @memberOf ObjectBucket
      * @description
@@ -555,10 +606,14 @@ export class ObjectBucket extends BaseBucket {
      * @since v4.0.1
      */
     remove(objectId: string, callbacks?: Callbacks, etag?: string): Promise<string> {
-        nbLogger("ObjectBucket.delete)");
+        return this._remove(objectId, callbacks, etag, true);
+    }
+
+    _remove(objectId: string, callbacks: Callbacks, etag: string, queueable: boolean): Promise<string> {
+        nbLogger("ObjectBucket.delete)", this._service);
 
         if (!objectId) {
-            nbError("ObjectBucket.remove(), Parameter is invalid");
+            nbError("ObjectBucket.remove(), Parameter is invalid", this._service);
             throw new Error("No objectId");
         }
 
@@ -579,8 +634,10 @@ export class ObjectBucket extends BaseBucket {
         } else {
             const path = this.getDataPath("/" + objectId);
             req = new HttpRequest(this._service, path);
+            req._applyCallbackOptions(callbacks);
             req.setMethod("DELETE");
             req.setContentType("application/json");
+            req.setResponseCache(this._getResponseCache());
 
             if (etag) {
                 req.setQueryParam("etag", etag);
@@ -588,11 +645,15 @@ export class ObjectBucket extends BaseBucket {
         }
 
         const promise = req.execute().then((response) => {
-            nbLogger("ObjectBucket.delete(), success");
+            nbLogger("ObjectBucket.delete(), success", this._service);
             return objectId;
         }, err => {
-            nbLogger(("ObjectBucket.delete(), error: " + (_errorText(err))));
+            nbLogger(("ObjectBucket.delete(), error: " + (_errorText(err))), this._service);
             err.objectId = objectId;
+            if (queueable) {
+                return _enqueueWrite(this._service, err,
+                    {type: WRITE_OBJECT_REMOVE, bucketName: this.getBucketName(), objectId, etag});
+            }
             return Promise.reject(err);
         });
 
@@ -659,7 +720,7 @@ export class ObjectBucket extends BaseBucket {
      * @see #insert
      */
     save(object: JsonObject, callbacks?: Callbacks): Promise<JsonObject> {
-        nbLogger("ObjectBucket.save()");
+        nbLogger("ObjectBucket.save()", this._service);
         return this._save(object, !object._id, callbacks);
     }
 
@@ -705,13 +766,13 @@ export class ObjectBucket extends BaseBucket {
      * @since 7.5.1
      */
     insert(object: JsonObject, callbacks?: Callbacks): Promise<JsonObject> {
-        nbLogger("ObjectBucket.insert()");
+        nbLogger("ObjectBucket.insert()", this._service);
         return this._save(object, true, callbacks);
     }
 
-    _save(object: JsonObject, isNew: boolean, callbacks?: Callbacks): Promise<JsonObject> {
+    _save(object: JsonObject, isNew: boolean, callbacks?: Callbacks, queueable = true): Promise<JsonObject> {
         if (!object) {
-            nbError("ObjectBucket.save/insert, Parameter is invalid");
+            nbError("ObjectBucket.save/insert, Parameter is invalid", this._service);
             throw new Error("No object");
         }
 
@@ -740,28 +801,34 @@ export class ObjectBucket extends BaseBucket {
                 method = "POST";
             }
 
-            nbLogger("ObjectBucket.save(), path=" + path);
+            nbLogger("ObjectBucket.save(), path=" + path, this._service);
             req = new HttpRequest(this._service, path);
+            req._applyCallbackOptions(callbacks);
             req.setContentType("application/json");
             req.setMethod(method);
             req.setQueryParams(queryParams);
             req.setData(object);
+            req.setResponseCache(this._getResponseCache());
         }
 
         const promise = req.execute().then(response => {
             try {
                 const resObj = JSON.parse(response);
-                nbLogger("ObjectBucket.save(), success");
+                nbLogger("ObjectBucket.save(), success", this._service);
                 return resObj;
             } catch (e) {
-                nbLogger("ObjectBucket.save(), error : exception=" + e);
-                const errorResult = _createError(0, "Invalid response from server", e);
+                nbLogger("ObjectBucket.save(), error : exception=" + e, this._service);
+                const errorResult = _createInvalidResponseError("Invalid response from server", e);
                 errorResult.data = object;
                 return Promise.reject(errorResult);
             }
         }, err => {
-            nbLogger(("ObjectBucket.save(), error: " + (_errorText(err))));
+            nbLogger(("ObjectBucket.save(), error: " + (_errorText(err))), this._service);
             err.data = object;
+            if (queueable) {
+                return _enqueueWrite(this._service, err,
+                    {type: WRITE_OBJECT_SAVE, bucketName: this.getBucketName(), object, isNew, etag: object.etag as string});
+            }
             return Promise.reject(err);
         });
 
@@ -862,7 +929,7 @@ export class ObjectBucket extends BaseBucket {
 
     // クエリ本体
     private _query(aQuery: ObjectQuery, option: any, callbacks?: Callbacks): Promise<any/*JsonObject[]|JsonObject*/> {
-        nbLogger("ObjectBucket.query()");
+        nbLogger("ObjectBucket.query()", this._service);
 
         if (option.countQuery) {
             if (aQuery == null) {
@@ -896,6 +963,7 @@ export class ObjectBucket extends BaseBucket {
         } else if (!option.longQuery) {
             path = this.getDataPath();
             req = new HttpRequest(this._service, path);
+            req._applyCallbackOptions(callbacks);
             req.setMethod("GET");
 
             if (aQuery != null) {
@@ -904,6 +972,7 @@ export class ObjectBucket extends BaseBucket {
         } else {
             path = this.getDataPath("/_query");
             req = new HttpRequest(this._service, path);
+            req._applyCallbackOptions(callbacks);
             req.setMethod("POST");
             req.setContentType("application/json");
 
@@ -914,7 +983,7 @@ export class ObjectBucket extends BaseBucket {
             try {
                 const resObj = JSON.parse(response);
                 const objects = resObj.results;
-                nbLogger("ObjectBucket.query(), success : size=" + objects.length);
+                nbLogger("ObjectBucket.query(), success : size=" + objects.length, this._service);
 
                 if (aQuery != null && aQuery._isCountQuery() === true) {
                     let count = -1;
@@ -931,13 +1000,13 @@ export class ObjectBucket extends BaseBucket {
                     return objects;
                 }
             } catch (e) {
-                nbLogger("ObjectBucket.query(), error : exception=" + e);
-                const errorResult = _createError(0, e.toString(), e);
+                nbLogger("ObjectBucket.query(), error : exception=" + e, this._service);
+                const errorResult = _createInvalidResponseError(e.toString(), e);
                 return Promise.reject(errorResult);
             }
 
         }, err => {
-            nbLogger(("ObjectBucket.query(), error: " + (_errorText(err))));
+            nbLogger(("ObjectBucket.query(), error: " + (_errorText(err))), this._service);
             return Promise.reject(err);
         });
 
@@ -948,11 +1017,11 @@ export class ObjectBucket extends BaseBucket {
 
     private _checkOfflineService() {
         if (this._service !== Nebula) {
-            nbError("ObjectBucket.setSyncScope(): Can't use for multitenant instance");
+            nbError("ObjectBucket.setSyncScope(): Can't use for multitenant instance", this._service);
             throw new Error("No multitenant support");
         }
         if (!this._service.isOffline()) {
-            nbError("ObjectBucket.setSyncScope(), supported offline mode only");
+            nbError("ObjectBucket.setSyncScope(), supported offline mode only", this._service);
             throw new Error("No offline mode enabled");
         }
     }
@@ -985,10 +1054,11 @@ export class ObjectBucket extends BaseBucket {
      * @since 7.0.0
      */
     aggregate(pipeline: JsonObject[], options?: JsonObject, callbacks?: Callbacks): Promise<JsonObject[]> {
-        nbLogger("ObjectBucket.aggregate()");
+        nbLogger("ObjectBucket.aggregate()", this._service);
 
         const path = this.getDataPath("/_aggregate");
         const req = new HttpRequest(this._service, path);
+        req._applyCallbackOptions(callbacks);
         req.setMethod("POST");
         req.setContentType("application/json");
 
@@ -1002,16 +1072,16 @@ export class ObjectBucket extends BaseBucket {
             try {
                 const resObj = JSON.parse(response);
                 const objects = resObj.results;
-                nbLogger("ObjectBucket.aggregate(), success : size=" + objects.length);
+                nbLogger("ObjectBucket.aggregate(), success : size=" + objects.length, this._service);
                 return objects;
             } catch (e) {
-                nbLogger("ObjectBucket.aggregate(), error : exception=" + e);
-                const errorResult = _createError(0, e.toString(), e);
+                nbLogger("ObjectBucket.aggregate(), error : exception=" + e, this._service);
+                const errorResult = _createInvalidResponseError(e.toString(), e);
                 return Promise.reject(errorResult);
             }
 
         }, err => {
-            nbLogger(("ObjectBucket.aggregate(), error: " + (_errorText(err))));
+            nbLogger(("ObjectBucket.aggregate(), error: " + (_errorText(err))), this._service);
             return Promise.reject(err);
         });
 
@@ -1064,14 +1134,14 @@ export class ObjectBucket extends BaseBucket {
 
         body.bucketName = this.getBucketName();
         body.bucketMode = this.getBucketMode();
-        nbLogger("ObjectBucket.setSyncScope(), body=" + JSON.stringify(body));
+        nbLogger("ObjectBucket.setSyncScope(), body=" + JSON.stringify(body), this._service);
         req.setData(body);
 
         const promise = req.execute().then(response => {
-            nbLogger("ObjectBucket.setSyncScope(), success : response=" + response);
+            nbLogger("ObjectBucket.setSyncScope(), success : response=" + response, this._service);
             return;
         }, err => {
-            nbLogger(("ObjectBucket.setSyncScope(), error: " + (_errorText(err))));
+            nbLogger(("ObjectBucket.setSyncScope(), error: " + (_errorText(err))), this._service);
             return Promise.reject(err);
         });
 
@@ -1106,7 +1176,7 @@ export class ObjectBucket extends BaseBucket {
         req.setData(body);
 
         const promise = req.execute().then(response => {
-            nbLogger("ObjectBucket.getSyncScope(), success : response=" + response);
+            nbLogger("ObjectBucket.getSyncScope(), success : response=" + response, this._service);
 
             try {
                 const resObj = JSON.parse(response);
@@ -1118,18 +1188,18 @@ export class ObjectBucket extends BaseBucket {
                         query = ObjectQuery._toObjectQuery(resObj.scope);
                     }
 
-                    nbLogger("ObjectBucket.getSyncScope(), success : callback_data=" + resObj.scope);
+                    nbLogger("ObjectBucket.getSyncScope(), success : callback_data=" + resObj.scope, this._service);
                     return Promise.resolve(query);
                 } else {
-                    nbLogger("ObjectBucket.getSyncScope(), error : no scope property");
-                    return Promise.reject(_createError(0, "Invalid response - no scope property", ""));
+                    nbLogger("ObjectBucket.getSyncScope(), error : no scope property", this._service);
+                    return Promise.reject(_createInvalidResponseError("Invalid response - no scope property", ""));
                 }
             } catch (e) {
-                nbLogger("ObjectBucket.getSyncScope(), error : exception=" + e);
-                return Promise.reject(_createError(0, e.toString(), e));
+                nbLogger("ObjectBucket.getSyncScope(), error : exception=" + e, this._service);
+                return Promise.reject(_createInvalidResponseError(e.toString(), e));
             }
         }, err => {
-            nbLogger(("ObjectBucket.getSyncScope(), error: " + (_errorText(err))));
+            nbLogger(("ObjectBucket.getSyncScope(), error: " + (_errorText(err))), this._service);
             return Promise.reject(err);
         });
 
@@ -1160,7 +1230,7 @@ export class ObjectBucket extends BaseBucket {
      * </ul>
      */
     getResolveConflictPolicy(callbacks?: Callbacks): Promise<number> {
-        nbLogger("ObjectBucket.getResolveConflictPolicy()");
+        nbLogger("ObjectBucket.getResolveConflictPolicy()", this._service);
 
         this._checkOfflineService();
 
@@ -1172,7 +1242,7 @@ export class ObjectBucket extends BaseBucket {
         req.setData(body);
 
         const promise = req.execute().then(response => {
-            nbLogger("ObjectBucket.getResolveConflictPolicy(), success : response=" + response);
+            nbLogger("ObjectBucket.getResolveConflictPolicy(), success : response=" + response, this._service);
 
             try {
                 const resObj = JSON.parse(response);
@@ -1180,16 +1250,16 @@ export class ObjectBucket extends BaseBucket {
                 if (resObj.results != null) {
                     return Promise.resolve(resObj.results); // TODO: number?
                 } else {
-                    nbLogger("ObjectBucket.getResolveConflictPolicy(), error : no results");
-                    return Promise.reject(_createError(0, "No results", ""));
+                    nbLogger("ObjectBucket.getResolveConflictPolicy(), error : no results", this._service);
+                    return Promise.reject(_createInvalidResponseError("No results", ""));
                 }
             } catch (e) {
-                nbLogger("ObjectBucket.getResolveConflictPolicy(), error : exception=" + e);
-                return Promise.reject(_createError(0, e.toString(), e));
+                nbLogger("ObjectBucket.getResolveConflictPolicy(), error : exception=" + e, this._service);
+                return Promise.reject(_createInvalidResponseError(e.toString(), e));
             }
 
         }, err => {
-            nbLogger(("ObjectBucket.getResolveConflictPolicy(), error: " + (_errorText(err))));
+            nbLogger(("ObjectBucket.getResolveConflictPolicy(), error: " + (_errorText(err))), this._service);
             return Promise.reject(err);
         });
 
@@ -1218,12 +1288,12 @@ export class ObjectBucket extends BaseBucket {
      * @return {Promise} callbacksを指定しなかった場合、Promiseオブジェクトを返す。callback指定時は返り値なし(undefined)。
      */
     setResolveConflictPolicy(policy: number, callbacks?: Callbacks): Promise<void> {
-        nbLogger("ObjectBucket.setResolveConflictPolicy()");
+        nbLogger("ObjectBucket.setResolveConflictPolicy()", this._service);
 
         this._checkOfflineService();
 
         if (policy == null) {
-            nbError("ObjectBucket.setResolveConflictPolicy(), invalid parameter: no policy");
+            nbError("ObjectBucket.setResolveConflictPolicy(), invalid parameter: no policy", this._service);
             throw new Error("No policy");
         }
 
@@ -1236,10 +1306,10 @@ export class ObjectBucket extends BaseBucket {
         req.setData(body);
 
         const promise = req.execute().then(response => {
-            nbLogger("ObjectBucket.setResolveConflictPolicy(), success : response=" + response);
+            nbLogger("ObjectBucket.setResolveConflictPolicy(), success : response=" + response, this._service);
             return;
         }, err => {
-            nbLogger(("ObjectBucket.setResolveConflictPolicy(), error: " + (_errorText(err))));
+            nbLogger(("ObjectBucket.setResolveConflictPolicy(), error: " + (_errorText(err))), this._service);
             return Promise.reject(err);
         });
 
@@ -1261,7 +1331,7 @@ export class ObjectBucket extends BaseBucket {
      * @return {Promise} callbacksを指定しなかった場合、Promiseオブジェクトを返す。callback指定時は返り値なし(undefined)。
      */
     removeCacheBucket(callbacks?: Callbacks): Promise<void> {
-        nbLogger("ObjectBucket.removeCacheBucket()");
+        nbLogger("ObjectBucket.removeCacheBucket()", this._service);
 
         this._checkOfflineService();
 
@@ -1273,10 +1343,10 @@ export class ObjectBucket extends BaseBucket {
         req.setData(body);
 
         const promise = req.execute().then(response => {
-            nbLogger("ObjectBucket.removeCacheBucket(), success : response=" + response);
+            nbLogger("ObjectBucket.removeCacheBucket(), success : response=" + response, this._service);
             return;
         }, err => {
-            nbLogger(("ObjectBucket.removeCacheBucket(), error: " + (_errorText(err))));
+            nbLogger(("ObjectBucket.removeCacheBucket(), error: " + (_errorText(err))), this._service);
             return Promise.reject(err);
         });
 
@@ -1368,24 +1438,24 @@ export class ObjectBucket extends BaseBucket {
     static sync(callbacks?: Callbacks): Promise<void> { return null; }
 
     protected static _sync(service: NebulaService, callbacks?: Callbacks): Promise<void> {
-        nbLogger("ObjectBucket.sync()");
+        nbLogger("ObjectBucket.sync()", service);
 
         if (service !== Nebula) {
-            nbError("ObjectBucket.setSyncScope(): Can't use for multitenant instance");
+            nbError("ObjectBucket.setSyncScope(): Can't use for multitenant instance", service);
             throw new Error("No multitenant support");
         }
         if (!service.isOffline()) {
-            nbError("ObjectBucket.sync(), supported offline mode only");
+            nbError("ObjectBucket.sync(), supported offline mode only", service);
             throw new Error("No offline mode enabled");
         }
 
         const req = new _SdeRequest(BaseBucket.getClassName(), "sync");
 
         const promise = req.execute().then(response => {
-            nbLogger("ObjectBucket.sync(), success : response=" + response);
+            nbLogger("ObjectBucket.sync(), success : response=" + response, service);
             return;
         }, err => {
-            nbLogger(("ObjectBucket.sync(), error: " + (_errorText(err))));
+            nbLogger(("ObjectBucket.sync(), error: " + (_errorText(err))), service);
             return Promise.reject(err);
         });
 
@@ -1413,7 +1483,7 @@ export class ObjectBucket extends BaseBucket {
      * 同期イベントはPromise完了時ではなく、setSyncEventListener()で指定されたコールバックにて通知する点に注意。
      */
     syncBucket(callbacks?: Callbacks): Promise<void> {
-        nbLogger("ObjectBucket.syncBucket()");
+        nbLogger("ObjectBucket.syncBucket()", this._service);
 
         this._checkOfflineService();
 
@@ -1425,10 +1495,10 @@ export class ObjectBucket extends BaseBucket {
         req.setData(body);
 
         const promise = req.execute().then(response => {
-            nbLogger("ObjectBucket.syncBucket(), success : response=" + response);
+            nbLogger("ObjectBucket.syncBucket(), success : response=" + response, this._service);
             return;
         }, err => {
-            nbLogger(("ObjectBucket.syncBucket(), error: " + (_errorText(err))));
+            nbLogger(("ObjectBucket.syncBucket(), error: " + (_errorText(err))), this._service);
             return Promise.reject(err);
         });
 
@@ -1475,12 +1545,12 @@ export class ObjectBucket extends BaseBucket {
      * </ul>
      */
     resolveConflict(objectId: string, resolve: number) {
-        nbLogger("ObjectBucket.resolveConflict()");
+        nbLogger("ObjectBucket.resolveConflict()", this._service);
 
         this._checkOfflineService();
 
         if (objectId == null || resolve == null || this._resolveId == null) {
-            nbError("ObjectBucket.syncObject(), invalid parameter, objectId=" + objectId + ", resolve=" + resolve + ", resolveId=" + this._resolveId);
+            nbError("ObjectBucket.syncObject(), invalid parameter, objectId=" + objectId + ", resolve=" + resolve + ", resolveId=" + this._resolveId, this._service);
             throw new Error("No objectId/resolve/resolveId");
         }
 
@@ -1521,17 +1591,17 @@ export class ObjectBucket extends BaseBucket {
      * @return {Promise} callbacksを指定しなかった場合、Promiseオブジェクトを返す。callback指定時は返り値なし(undefined)。
      */
     setIndexToLocal(index: JsonObject, callbacks?: Callbacks): Promise<void> {
-        nbLogger("ObjectBucket.setIndexLocal()");
+        nbLogger("ObjectBucket.setIndexLocal()", this._service);
 
         this._checkOfflineService();
 
         if (!index) {
-            nbError("ObjectBucket.setIndexLocal(), parameter is invalid");
+            nbError("ObjectBucket.setIndexLocal(), parameter is invalid", this._service);
             throw new Error("No index");
         }
 
         if (!index.index) {
-            nbError("ObjectBucket.setIndexLocal(), index is invalid");
+            nbError("ObjectBucket.setIndexLocal(), index is invalid", this._service);
             throw new Error("No index property");
         }
 
@@ -1541,10 +1611,10 @@ export class ObjectBucket extends BaseBucket {
         req.setData(index);
 
         const promise = req.execute().then(() => {
-            nbLogger("ObjectBucket.setIndexLocal(), success");
+            nbLogger("ObjectBucket.setIndexLocal(), success", this._service);
             return;
         }, err => {
-            nbLogger(("ObjectBucket.setIndexLocal(), error: " + (_errorText(err))));
+            nbLogger(("ObjectBucket.setIndexLocal(), error: " + (_errorText(err))), this._service);
             return Promise.reject(err);
         });
 
@@ -1575,7 +1645,7 @@ export class ObjectBucket extends BaseBucket {
      * </ul>
      */
     getIndexFromLocal(callbacks?: Callbacks): Promise<JsonObject> {
-        nbLogger("ObjectBucket.getIndexLocal()");
+        nbLogger("ObjectBucket.getIndexLocal()", this._service);
 
         this._checkOfflineService();
 
@@ -1587,19 +1657,19 @@ export class ObjectBucket extends BaseBucket {
         req.setData(body);
 
         const promise = req.execute().then(response => {
-            nbLogger("ObjectBucket.getIndexLocal(), success");
+            nbLogger("ObjectBucket.getIndexLocal(), success", this._service);
 
             try {
                 const resObj = JSON.parse(response);
                 const index = resObj.results;
                 return index;
             } catch (e) {
-                nbLogger("ObjectBucket.getIndexLocal(), success : exception=" + e);
-                const errorResult = _createError(0, e.toString(), e);
+                nbLogger("ObjectBucket.getIndexLocal(), success : exception=" + e, this._service);
+                const errorResult = _createInvalidResponseError(e.toString(), e);
                 return Promise.reject(errorResult);
             }
         }, err => {
-            nbLogger(("ObjectBucket.getIndexLocal(), error: " + (_errorText(err))));
+            nbLogger(("ObjectBucket.getIndexLocal(), error: " + (_errorText(err))), this._service);
             return Promise.reject(err);
         });
 
@@ -1627,7 +1697,7 @@ export class ObjectBucket extends BaseBucket {
      * </ul>
      */
     getLastSyncTime(callbacks?: Callbacks): Promise<string> {
-        nbLogger("ObjectBucket.getLastSyncTime()");
+        nbLogger("ObjectBucket.getLastSyncTime()", this._service);
 
         this._checkOfflineService();
 
@@ -1639,7 +1709,7 @@ export class ObjectBucket extends BaseBucket {
         req.setData(body);
 
         const promise = req.execute().then(response => {
-            nbLogger("ObjectBucket.getLastSyncTime(), success : response=" + response);
+            nbLogger("ObjectBucket.getLastSyncTime(), success : response=" + response, this._service);
 
             try {
                 const resObj = JSON.parse(response);
@@ -1647,15 +1717,15 @@ export class ObjectBucket extends BaseBucket {
                 if (resObj.results != null) {
                     return resObj.results; // TODO: type?
                 } else {
-                    nbLogger("ObjectBucket.getLastSyncTime(), success : no results");
+                    nbLogger("ObjectBucket.getLastSyncTime(), success : no results", this._service);
                     return null;
                 }
             } catch (e) {
-                nbLogger("ObjectBucket.getLastSyncTime(), error : exception=" + e);
-                return Promise.reject(_createError(0, e.toString(), e));
+                nbLogger("ObjectBucket.getLastSyncTime(), error : exception=" + e, this._service);
+                return Promise.reject(_createInvalidResponseError(e.toString(), e));
             }
         }, err => {
-            nbLogger(("ObjectBucket.getLastSyncTime(), error: " + (_errorText(err))));
+            nbLogger(("ObjectBucket.getLastSyncTime(), error: " + (_errorText(err))), this._service);
             return Promise.reject(err);
         });
 
@@ -1668,7 +1738,7 @@ export class ObjectBucket extends BaseBucket {
      * @private
      */
     protected _getResolveId(): string {
-        nbLogger("ObjectBucket._getResolveId(), resolveId=" + this._resolveId);
+        nbLogger("ObjectBucket._getResolveId(), resolveId=" + this._resolveId, this._service);
         return this._resolveId;
     }
 
@@ -1678,7 +1748,7 @@ export class ObjectBucket extends BaseBucket {
      * @private
      */
     _setResolveId(resolveId: string) {
-        nbLogger("ObjectBucket._setResolveId(), cur=" + this._resolveId + ", new=" + resolveId);
+        nbLogger("ObjectBucket._setResolveId(), cur=" + this._resolveId + ", new=" + resolveId, this._service);
         return this._resolveId = resolveId;
     }
 
@@ -1710,6 +1780,7 @@ export class ObjectBucket extends BaseBucket {
     batch(request: BatchRequest, callbacks?: Callbacks): Promise<BatchResponseJson> {
         const path = this.getDataPath("/_batch");
         const req = new HttpRequest(this._service, path);
+        req._applyCallbackOptions(callbacks);
         req.setMethod("POST");
         req.setContentType("application/json");
         req.setData(request.json);
@@ -0,0 +1,155 @@
+import {_createAbortError, _onAbort, AbortSignalLike, nbLogger} from "./Head";
+import {NebulaService} from "./NebulaService";
+
+import {Promise} from "es6-promise";
+
+/**
+ * @class 共有リクエストの AbortSignal
+ * <p>
+ * 参加した全てのリクエストが abort された場合にのみ abort される。
+ * AbortSignal を持たないリクエストが参加している場合は abort されない。
+ * @private
+ */
+export class _SharedAbortSignal implements AbortSignalLike {
+    private _aborted = false;
+    private _participants = 0;
+    private _listeners: Array<() => void> = [];
+
+    get aborted(): boolean {
+        return this._aborted;
+    }
+
+    addEventListener(type: "abort", listener: () => void): void {
+        this._listeners.push(listener);
+    }
+
+    removeEventListener(type: "abort", listener: () => void): void {
+        const index = this._listeners.indexOf(listener);
+        if (index >= 0) {
+            this._listeners.splice(index, 1);
+        }
+    }
+
+    /**
+     * リクエストを参加させる
+     * @param {AbortSignalLike} signal リクエストの AbortSignal
+     * @return {function} 参加を解除する関数
+     */
+    join(signal: AbortSignalLike): () => void {
+        this._participants++;
+        if (signal == null) {
+            return () => undefined;
+        }
+
+        let left = false;
+        const leave = () => {
+            if (!left) {
+                left = true;
+                removeAbortListener();
+            }
+        };
+        const removeAbortListener = _onAbort(signal, () => {
+            leave();
+            this._participants--;
+            if (this._participants === 0) {
+                this._abort();
+            }
+        });
+        return leave;
+    }
+
+    private _abort(): void {
+        if (this._aborted) {
+            return;
+        }
+        this._aborted = true;
+        const listeners = this._listeners.slice();
+        for (const listener of listeners) {
+            listener();
+        }
+    }
+}
+
+/**
+ * 実行中の共有リクエスト
+ * @private
+ */
+interface InflightRequest {
+    promise: Promise<any>;
+    signal: _SharedAbortSignal;
+}
+
+/**
+ * @class リクエスト集約 (NebulaService 毎に保持する)
+ * <p>
+ * 同一キーのリクエストが実行中の場合、新たに通信を行わずに実行中のリクエストの結果を共有する。
+ * @private
+ */
+export class _RequestCoalescer {
+    private _service: NebulaService;
+    private _inflight: {[key: string]: InflightRequest} = {};
+
+    constructor(service: NebulaService) {
+        this._service = service;
+    }
+
+    /**
+     * リクエストを実行する。同一キーのリクエストが実行中の場合はその結果を共有する。
+     * @param {string} key リクエストのキー
+     * @param {AbortSignalLike} signal リクエストの AbortSignal。abort した場合は本リクエストのみ中断される。
+     * @param {function} send 通信処理。引数は共有リクエストの AbortSignal
+     * @return {Promise} Promise
+     */
+    execute(key: string, signal: AbortSignalLike, send: (signal: AbortSignalLike) => Promise<any>): Promise<any> {
+        if (signal != null && signal.aborted) {
+            return Promise.reject(_createAbortError());
+        }
+
+        let inflight = this._inflight[key];
+        if (inflight != null && !inflight.signal.aborted) {
+            nbLogger("HttpRequest#coalesced: " + key.split("\n")[0], this._service);
+        } else {
+            const sharedSignal = new _SharedAbortSignal();
+            inflight = {signal: sharedSignal, promise: null};
+            const current = inflight;
+            const remove = () => {
+                if (this._inflight[key] === current) {
+                    delete this._inflight[key];
+                }
+            };
+            this._inflight[key] = inflight;
+            inflight.promise = Promise.resolve().then(() => send(sharedSignal)).then((response) => {
+                remove();
+                return response;
+            }, (error) => {
+                remove();
+                return Promise.reject(error);
+            });
+        }
+
+        const leave = inflight.signal.join(signal);
+        const promise = inflight.promise;
+        return new Promise<any>((resolve, reject) => {
+            const removeAbortListener = _onAbort(signal, () => {
+                reject(_createAbortError());
+            });
+            promise.then((response) => {
+                removeAbortListener();
+                leave();
+                resolve(response);
+            }, (error) => {
+                removeAbortListener();
+                leave();
+                reject(error);
+            });
+        });
+    }
+
+    /**
+     * 実行中の共有リクエスト数を返却する
+     * @return {number}
+     */
+    size(): number {
+        return Object.keys(this._inflight).length;
+    }
+}
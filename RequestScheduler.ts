@@ -0,0 +1,225 @@
+import {_createAbortError, _onAbort, AbortSignalLike, nbLogger} from "./Head";
+
+import {ResponseStream} from "./ResponseStream";
+import {NebulaService} from "./NebulaService";
+
+import {Promise} from "es6-promise";
+
+/**
+ * リクエスト優先度: 対話的処理 (デフォルト)
+ */
+export const PRIORITY_INTERACTIVE = "interactive";
+
+/**
+ * リクエスト優先度: バックグラウンド処理
+ */
+export const PRIORITY_BACKGROUND = "background";
+
+/**
+ * 実行待ちのリクエスト
+ * @private
+ */
+interface ScheduledTask {
+    run: () => void;
+    cancel: () => void;
+}
+
+/**
+ * ホスト毎の実行状態
+ * @private
+ */
+interface HostState {
+    active: number;
+    queues: {[priority: string]: ScheduledTask[]};
+}
+
+/**
+ * @description 応答に含まれるストリーミング応答を返却する
+ * @param response 応答
+ * @return {ResponseStream} ストリーミング応答でない場合は null
+ * @private
+ */
+const _getResponseStream = (response: any): ResponseStream => {
+    if (response instanceof ResponseStream) {
+        return response;
+    }
+    // レスポンスヘッダ受信時は {body, headers, status} 形式
+    return (response != null && response.body instanceof ResponseStream) ? response.body : null;
+};
+
+/**
+ * @class リクエストスケジューラ (NebulaService 毎に保持する)
+ * <p>
+ * ホスト毎に同時実行数を制限し、上限を超えたリクエストは優先度順(同一優先度内は FIFO)に待ち合わせる。
+ * interactive のリクエストは background のリクエストより先に実行される。
+ * ストリーミング応答のリクエストは、ストリームの読み込みが終了(終端・エラー・中断)するまで実行中として扱う。
+ * @private
+ */
+export class _RequestScheduler {
+    private _service: NebulaService;
+    private _maxConcurrent = 0;
+    private _hosts: {[host: string]: HostState} = {};
+
+    constructor(service: NebulaService) {
+        this._service = service;
+    }
+
+    /**
+     * ホスト毎の最大同時実行数を設定する
+     * @param {number} max 最大同時実行数。0 の場合は制限しない
+     */
+    setMaxConcurrent(max: number): void {
+        this._maxConcurrent = max;
+        for (const host of Object.keys(this._hosts)) {
+            this._drain(host);
+        }
+    }
+
+    /**
+     * ホスト毎の最大同時実行数を返却する
+     * @return {number}
+     */
+    getMaxConcurrent(): number {
+        return this._maxConcurrent;
+    }
+
+    /**
+     * リクエストを実行する。同時実行数が上限に達している場合は待ち合わせる。
+     * @param {string} host ホスト
+     * @param {string} priority 優先度 ("interactive" または "background")
+     * @param {AbortSignalLike} signal AbortSignal。待ち合わせ中に abort された場合は実行しない。
+     * @param {function} send 通信処理
+     * @return {Promise} Promise
+     */
+    schedule(host: string, priority: string, signal: AbortSignalLike, send: () => Promise<any>): Promise<any> {
+        if (signal != null && signal.aborted) {
+            return Promise.reject(_createAbortError());
+        }
+        if (priority !== PRIORITY_BACKGROUND) {
+            priority = PRIORITY_INTERACTIVE;
+        }
+        const state = this._getHost(host);
+
+        return new Promise<any>((resolve, reject) => {
+            let removeAbortListener: () => void = () => undefined;
+
+            const task: ScheduledTask = {
+                run: () => {
+                    removeAbortListener();
+                    state.active++;
+                    const release = () => {
+                        state.active--;
+                        this._drain(host);
+                    };
+                    Promise.resolve().then(send).then((response) => {
+                        const stream = _getResponseStream(response);
+                        if (stream != null) {
+                            stream._onFinished(release);
+                        } else {
+                            release();
+                        }
+                        resolve(response);
+                    }, (error) => {
+                        release();
+                        reject(error);
+                    });
+                },
+                cancel: () => {
+                    const queue = state.queues[priority];
+                    const index = queue.indexOf(task);
+                    if (index >= 0) {
+                        queue.splice(index, 1);
+                    }
+                    reject(_createAbortError());
+                    this._cleanup(host);
+                }
+            };
+
+            if (this._hasCapacity(state)) {
+                task.run();
+                return;
+            }
+
+            nbLogger("HttpRequest#queued: host=" + host + ", priority=" + priority, this._service);
+            state.queues[priority].push(task);
+            removeAbortListener = _onAbort(signal, () => task.cancel());
+        });
+    }
+
+    /**
+     * 実行待ちのリクエスト数を返却する
+     * @param {string} priority 優先度。未指定の場合は全ての優先度の合計
+     * @param {string} host ホスト。未指定の場合は全てのホストの合計
+     * @return {number} 実行待ちのリクエスト数
+     */
+    getQueueDepth(priority?: string, host?: string): number {
+        let depth = 0;
+        for (const key of Object.keys(this._hosts)) {
+            if (host !== undefined && host !== key) {
+                continue;
+            }
+            const queues = this._hosts[key].queues;
+            for (const p of Object.keys(queues)) {
+                if (priority === undefined || priority === p) {
+                    depth += queues[p].length;
+                }
+            }
+        }
+        return depth;
+    }
+
+    /**
+     * 実行中のリクエスト数を返却する
+     * @param {string} host ホスト。未指定の場合は全てのホストの合計
+     * @return {number} 実行中のリクエスト数
+     */
+    getActiveCount(host?: string): number {
+        let count = 0;
+        for (const key of Object.keys(this._hosts)) {
+            if (host === undefined || host === key) {
+                count += this._hosts[key].active;
+            }
+        }
+        return count;
+    }
+
+    private _getHost(host: string): HostState {
+        let state = this._hosts[host];
+        if (state == null) {
+            state = {active: 0, queues: {}};
+            state.queues[PRIORITY_INTERACTIVE] = [];
+            state.queues[PRIORITY_BACKGROUND] = [];
+            this._hosts[host] = state;
+        }
+        return state;
+    }
+
+    private _hasCapacity(state: HostState): boolean {
+        return !(this._maxConcurrent > 0) || state.active < this._maxConcurrent;
+    }
+
+    /**
+     * 空きがあれば待ち合わせ中のリクエストを優先度順に実行する
+     */
+    private _drain(host: string): void {
+        const state = this._hosts[host];
+        if (state == null) {
+            return;
+        }
+        while (this._hasCapacity(state)) {
+            const task = state.queues[PRIORITY_INTERACTIVE].shift() || state.queues[PRIORITY_BACKGROUND].shift();
+            if (task == null) {
+                break;
+            }
+            task.run();
+        }
+        this._cleanup(host);
+    }
+
+    private _cleanup(host: string): void {
+        const state = this._hosts[host];
+        if (state != null && state.active === 0 && this.getQueueDepth(undefined, host) === 0) {
+            delete this._hosts[host];
+        }
+    }
+}
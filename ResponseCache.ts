@@ -0,0 +1,481 @@
+import {nbError, nbLogger} from "./Head";
+import {_getHeaderValue} from "./HttpRequest";
+import {HttpRequestContext} from "./HttpInterceptor";
+import {SessionEvent} from "./SessionEvents";
+import {crypto} from "./NodeSupport";
+import {NebulaService} from "./NebulaService";
+
+import {Promise} from "es6-promise";
+import {Buffer} from "buffer";
+
+/**
+ * 応答キャッシュのエントリ
+ */
+export interface ResponseCacheEntry {
+    /** ETag 値 */
+    etag: string;
+    /** 応答 */
+    response: any;
+    /** 保存日時(エポックミリ秒) */
+    storedAt: number;
+}
+
+/**
+ * 応答キャッシュの永続化バックエンド。
+ * <p>
+ * 各メソッドは Promise を返却する。
+ */
+export interface ResponseCacheBackend {
+    /** エントリを取得する。存在しない場合は null で resolve する */
+    get(key: string): Promise<ResponseCacheEntry>;
+    /** エントリを保存する */
+    set(key: string, entry: ResponseCacheEntry): Promise<void>;
+    /** エントリを削除する */
+    remove(key: string): Promise<void>;
+    /** 保存されている全エントリのキーを取得する */
+    keys(): Promise<string[]>;
+    /** 全エントリを削除する */
+    clear(): Promise<void>;
+}
+
+/**
+ * 応答キャッシュのオプション
+ */
+export interface ResponseCacheOptions {
+    /** メモリ上に保持する最大エントリ数。デフォルトは 100 */
+    maxEntries?: number;
+    /** 永続化バックエンド。省略時はメモリ上にのみ保持する */
+    backend?: ResponseCacheBackend;
+}
+
+/**
+ * localStorage 互換のストレージ
+ * @private
+ */
+interface WebStorageLike {
+    getItem(key: string): string;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+    key(index: number): string;
+    readonly length: number;
+}
+
+/**
+ * @class StorageCacheBackend
+ * @classdesc localStorage/sessionStorage を使用する応答キャッシュバックエンド。
+ * <p>
+ * JSON に変換できる応答(文字列・JSON)のみ保存する。Blob/Buffer 等のバイナリはメモリ上にのみ保持される。
+ * @example
+ * var cache = new Nebula.ResponseCache({backend: new Nebula.StorageCacheBackend(localStorage)});
+ */
+export class StorageCacheBackend implements ResponseCacheBackend {
+    private _storage: WebStorageLike;
+    private _prefix: string;
+
+    /**
+     * @param {Storage} storage ストレージ (localStorage, sessionStorage 等)
+     * @param {string} prefix ストレージのキーに付与するプレフィクス。デフォルトは "NebulaResponseCache:"
+     */
+    constructor(storage: WebStorageLike, prefix = "NebulaResponseCache:") {
+        this._storage = storage;
+        this._prefix = prefix;
+    }
+
+    get(key: string): Promise<ResponseCacheEntry> {
+        return Promise.resolve().then(() => {
+            const value = this._storage.getItem(this._prefix + key);
+            return (value != null) ? JSON.parse(value) as ResponseCacheEntry : null;
+        });
+    }
+
+    set(key: string, entry: ResponseCacheEntry): Promise<void> {
+        return Promise.resolve().then(() => {
+            if (!StorageCacheBackend._isSerializable(entry.response)) {
+                return;
+            }
+            this._storage.setItem(this._prefix + key, JSON.stringify(entry));
+        });
+    }
+
+    remove(key: string): Promise<void> {
+        return Promise.resolve().then(() => {
+            this._storage.removeItem(this._prefix + key);
+        });
+    }
+
+    keys(): Promise<string[]> {
+        return Promise.resolve().then(() => {
+            const keys: string[] = [];
+            for (let i = 0; i < this._storage.length; i++) {
+                const key = this._storage.key(i);
+                if (key != null && key.indexOf(this._prefix) === 0) {
+                    keys.push(key.slice(this._prefix.length));
+                }
+            }
+            return keys;
+        });
+    }
+
+    clear(): Promise<void> {
+        return this.keys().then((keys) => {
+            for (const key of keys) {
+                this._storage.removeItem(this._prefix + key);
+            }
+        });
+    }
+
+    private static _isSerializable(response: any): boolean {
+        if (response == null || typeof response === "string") {
+            return true;
+        }
+        if (typeof response !== "object" || typeof response.pipe === "function") {
+            return false;
+        }
+        if ((typeof Blob !== "undefined" && response instanceof Blob) ||
+            (typeof ArrayBuffer !== "undefined" && response instanceof ArrayBuffer) ||
+            (typeof Buffer !== "undefined" && Buffer.isBuffer(response))) {
+            return false;
+        }
+        return true;
+    }
+}
+
+// メモリキャッシュのデフォルト最大エントリ数
+const RESPONSE_CACHE_MAX_ENTRIES = 100;
+
+/**
+ * @class ResponseCache
+ * @classdesc 応答キャッシュクラス。
+ * <p>
+ * ETag 付きの GET 応答を保持し、再取得時に If-None-Match ヘッダを送信する。
+ * サーバが 304 Not Modified を応答した場合は、キャッシュした応答を返却する。
+ * <p>
+ * エントリは URL、応答の形式(レスポンスタイプ、レスポンスヘッダの有無)、セッショントークン毎に保持する。
+ * キーにはセッショントークンのハッシュ値を使用し、カレントユーザが変更(ログアウト等)された場合は
+ * 変更前のセッショントークンのエントリを削除する。
+ * ハッシュ値を算出できない環境では、セッショントークン付きのリクエストはキャッシュしない。
+ * Range ヘッダを指定したリクエスト(ファイルの部分取得)はキャッシュしない。
+ * <p>
+ * メモリ上では LRU 方式で保持し、永続化バックエンドを指定した場合はバックエンドにも保存する。
+ * @example
+ * Nebula.setResponseCache(new Nebula.ResponseCache({maxEntries: 500}));
+ */
+export class ResponseCache {
+    private _maxEntries: number;
+    private _backend: ResponseCacheBackend;
+    private _entries: {[key: string]: ResponseCacheEntry} = {};
+    // LRU 順のキー。末尾が最近使用したもの
+    private _order: string[] = [];
+
+    /**
+     * @param {Object} options オプション
+     * <ul>
+     *   <li>maxEntries (number) : メモリ上に保持する最大エントリ数。デフォルトは 100</li>
+     *   <li>backend (ResponseCacheBackend) : 永続化バックエンド。省略時はメモリ上にのみ保持する</li>
+     * </ul>
+     */
+    constructor(options?: ResponseCacheOptions) {
+        options = options || {};
+        this._maxEntries = (options.maxEntries != null) ? options.maxEntries : RESPONSE_CACHE_MAX_ENTRIES;
+        this._backend = options.backend || null;
+    }
+
+    /**
+     * @memberOf ResponseCache
+     * @description エントリを取得する。メモリ上に存在しない場合はバックエンドから読み込む。
+     * @param {string} key キー (URL)
+     * @param {NebulaService} service ログを出力するサービス。省略時はデフォルトのサービス
+     * @return {Promise} エントリ。存在しない場合は null で resolve される。
+     */
+    get(key: string, service?: NebulaService): Promise<ResponseCacheEntry> {
+        const entry = this._entries[key];
+        if (entry !== undefined) {
+            this._touch(key);
+            return Promise.resolve(entry);
+        }
+        if (this._backend == null) {
+            return Promise.resolve(null);
+        }
+        return this._backend.get(key).then((stored) => {
+            if (stored != null) {
+                this._put(key, stored);
+            }
+            return stored;
+        }, (e) => {
+            nbError("ResponseCache: backend get failed: " + e, service);
+            return null;
+        });
+    }
+
+    /**
+     * @memberOf ResponseCache
+     * @description エントリを保存する
+     * @param {string} key キー (URL)
+     * @param {ResponseCacheEntry} entry エントリ
+     * @param {NebulaService} service ログを出力するサービス。省略時はデフォルトのサービス
+     * @return {Promise} Promise
+     */
+    set(key: string, entry: ResponseCacheEntry, service?: NebulaService): Promise<void> {
+        this._put(key, entry);
+        if (this._backend == null) {
+            return Promise.resolve();
+        }
+        return this._backend.set(key, entry).catch((e) => {
+            nbError("ResponseCache: backend set failed: " + e, service);
+        });
+    }
+
+    /**
+     * @memberOf ResponseCache
+     * @description 指定した URL のエントリを削除する。クエリパラメータ付きの URL のエントリも削除される。
+     * @param {string} url URL (クエリパラメータを含まない)
+     * @param {NebulaService} service ログを出力するサービス。省略時はデフォルトのサービス
+     * @return {Promise} Promise
+     */
+    invalidate(url: string, service?: NebulaService): Promise<void> {
+        return this._remove((key: string) => {
+            const keyUrl = key.split("\n")[0];
+            return keyUrl === url || keyUrl.indexOf(url + "?") === 0;
+        }, service);
+    }
+
+    /**
+     * 指定したセッショントークンのエントリを削除する
+     * @param {string} sessionToken セッショントークン
+     * @param {NebulaService} service ログを出力するサービス
+     * @return {Promise} Promise
+     * @private
+     */
+    _invalidateSession(sessionToken: string, service: NebulaService): Promise<void> {
+        return _hashSessionToken(sessionToken).then((hash) => {
+            if (hash == null) {
+                return;
+            }
+            const variant = SESSION_VARIANT_PREFIX + hash;
+            return this._remove((key: string) => key.split("\n").indexOf(variant) > 0, service);
+        });
+    }
+
+    /**
+     * @memberOf ResponseCache
+     * @description 全エントリを削除する
+     * @return {Promise} Promise
+     */
+    clear(): Promise<void> {
+        this._entries = {};
+        this._order = [];
+        if (this._backend == null) {
+            return Promise.resolve();
+        }
+        return this._backend.clear().catch((e) => {
+            nbError("ResponseCache: backend clear failed: " + e);
+        });
+    }
+
+    /**
+     * @memberOf ResponseCache
+     * @description メモリ上に保持しているエントリ数を返却する
+     * @return {number} エントリ数
+     */
+    size(): number {
+        return this._order.length;
+    }
+
+    private _put(key: string, entry: ResponseCacheEntry): void {
+        if (this._maxEntries <= 0) {
+            return;
+        }
+        this._entries[key] = entry;
+        this._touch(key);
+        while (this._order.length > this._maxEntries) {
+            delete this._entries[this._order.shift()];
+        }
+    }
+
+    private _touch(key: string): void {
+        const index = this._order.indexOf(key);
+        if (index >= 0) {
+            this._order.splice(index, 1);
+        }
+        this._order.push(key);
+    }
+
+    private _remove(matches: (key: string) => boolean, service: NebulaService): Promise<void> {
+        for (const key of Object.keys(this._entries)) {
+            if (matches(key)) {
+                this._delete(key);
+            }
+        }
+        if (this._backend == null) {
+            return Promise.resolve();
+        }
+        return this._backend.keys().then((keys) => {
+            return Promise.all(keys.filter(matches).map((key) => this._backend.remove(key)));
+        }).then(() => undefined, (e) => {
+            nbError("ResponseCache: backend remove failed: " + e, service);
+        });
+    }
+
+    private _delete(key: string): void {
+        delete this._entries[key];
+        const index = this._order.indexOf(key);
+        if (index >= 0) {
+            this._order.splice(index, 1);
+        }
+    }
+}
+
+/**
+ * @description 応答から ETag 値を取得する。デフォルトでは ETag レスポンスヘッダを使用する。
+ * @private
+ */
+export type ETagResolver = (response: any, context: HttpRequestContext) => string;
+
+/**
+ * @description ETag レスポンスヘッダの値を返却する
+ * @private
+ */
+export const _getResponseETag: ETagResolver = (response: any, context: HttpRequestContext): string => {
+    const headers = context.request.responseHeaders as {[name: string]: any};
+    const etag = _getHeaderValue(headers, "ETag");
+    return (etag != null) ? String(etag) : null;
+};
+
+// キーのセッショントークン部分のプレフィクス
+const SESSION_VARIANT_PREFIX = "session=";
+
+/**
+ * @description セッショントークンの SHA-256 ハッシュ値(BASE64)を算出する。
+ * セッショントークンそのものはキャッシュのキーに使用しない(永続化バックエンドに保存しない)。
+ * @param {string} sessionToken セッショントークン
+ * @return {Promise} ハッシュ値。算出できない環境の場合は null で resolve される。
+ * @private
+ */
+const _hashSessionToken = (sessionToken: string): Promise<string> => {
+    if (crypto != null) {
+        return Promise.resolve(crypto.createHash("sha256").update(sessionToken, "utf8").digest("base64"));
+    }
+    const subtle = (typeof window !== "undefined" && window != null && (window as any).crypto != null) ? (window as any).crypto.subtle : null;
+    if (subtle == null) {
+        return Promise.resolve(null);
+    }
+    return Promise.resolve(subtle.digest("SHA-256", Buffer.from(sessionToken, "utf8")))
+        .then((hash: ArrayBuffer) => Buffer.from(hash).toString("base64"), () => null);
+};
+
+/**
+ * @description キャッシュのキーを生成する。
+ * URL に、応答の形式とセッショントークンのハッシュ値を付加する(いずれも指定がない場合は URL のみ)。
+ * @param {HttpRequestContext} context リクエストコンテキスト
+ * @return {Promise} キー。キャッシュできない場合は null で resolve される。
+ * @private
+ */
+const _getCacheKey = (context: HttpRequestContext): Promise<string> => {
+    const req = context.request;
+    const variants: string[] = [];
+    if (req._getResponseType() != null) {
+        variants.push("type=" + req._getResponseType());
+    }
+    if (req._isReceiveResponseHeaders()) {
+        variants.push("headers");
+    }
+    const toKey = () => (variants.length > 0) ? context.url + "\n" + variants.join("\n") : context.url;
+
+    const sessionToken = _getHeaderValue(context.headers, "X-Session-Token");
+    if (sessionToken == null) {
+        return Promise.resolve(toKey());
+    }
+    return _hashSessionToken(sessionToken).then((hash) => {
+        if (hash == null) {
+            return null;
+        }
+        variants.push(SESSION_VARIANT_PREFIX + hash);
+        return toKey();
+    });
+};
+
+/**
+ * @description カレントユーザの変更時に、変更前のセッショントークンのエントリを削除する。
+ * currentUserChanged イベントのリスナとして NebulaService 毎に登録する。
+ * @param {NebulaService} service サービス
+ * @param {SessionEvent} event イベント
+ * @private
+ */
+export const _onCurrentUserChanged = (service: NebulaService, event: SessionEvent): void => {
+    const cache = service.getResponseCache();
+    const previousToken = (event.previousUser != null) ? event.previousUser.sessionToken : null;
+    const token = (event.user != null) ? event.user.sessionToken : null;
+    if (cache == null || previousToken == null || previousToken === token) {
+        return;
+    }
+    cache._invalidateSession(previousToken, service);
+};
+
+/**
+ * @description ETag 値を If-None-Match ヘッダの形式(引用符付き)にする
+ * @param {string} etag ETag 値
+ * @return {string} ヘッダ値
+ * @private
+ */
+const _quoteETag = (etag: string): string => {
+    return /^(W\/)?".*"$/.test(etag) ? etag : '"' + etag + '"';
+};
+
+/**
+ * @description 応答キャッシュを使用してリクエストを実行する。
+ * <p>
+ * GET の場合は、キャッシュ済みであれば If-None-Match ヘッダを付与し、304 応答時はキャッシュした応答を返却する。
+ * Range ヘッダを指定した GET はキャッシュしない。
+ * GET 以外の場合は、成功時に同じ URL のエントリを削除する。
+ * @param {ResponseCache} cache キャッシュ。null の場合はキャッシュを使用しない
+ * @param {ETagResolver} etagOf 応答から ETag を取得する関数
+ * @param {HttpRequestContext} context リクエストコンテキスト
+ * @param {function} send リクエスト送信処理
+ * @return {Promise} Promise
+ * @private
+ */
+export const _executeWithCache = (cache: ResponseCache, etagOf: ETagResolver, context: HttpRequestContext,
+                                  send: (context: HttpRequestContext) => Promise<any>): Promise<any> => {
+    const req = context.request;
+    if (cache == null || req.rawMessage || req.isResponseStreaming()) {
+        return send(context);
+    }
+
+    const method = (context.method || "GET").toUpperCase();
+    if (method !== "GET") {
+        return send(context).then((response) => {
+            const url = context.url.split("?")[0];
+            return cache.invalidate(url, context.service).then(() => response);
+        });
+    }
+
+    if (_getHeaderValue(context.headers, "Range") != null) {
+        // 部分取得の応答は全体の応答として再利用できない
+        return send(context);
+    }
+
+    return _getCacheKey(context).then((key) => {
+        if (key == null) {
+            return send(context);
+        }
+        return cache.get(key, context.service).then((entry) => {
+            if (entry != null) {
+                context.headers["If-None-Match"] = _quoteETag(entry.etag);
+            }
+
+            return send(context).then((response) => {
+                const etag = etagOf(response, context);
+                if (etag == null) {
+                    return response;
+                }
+                return cache.set(key, {etag, response, storedAt: Date.now()}, context.service).then(() => response);
+            }, (error) => {
+                if (entry != null && error != null && error.status === 304) {
+                    nbLogger("ResponseCache: not modified, url=" + context.url, context.service);
+                    return entry.response;
+                }
+                return Promise.reject(error);
+            });
+        });
+    });
+};
@@ -0,0 +1,258 @@
+import {_createAbortError, _onAbort, AbortSignalLike} from "./Head";
+
+import {Promise} from "es6-promise";
+
+/**
+ * ストリームのデータ供給元
+ * @private
+ */
+export interface ResponseStreamSource {
+    /** データの供給を一時停止する */
+    pause?(): void;
+    /** データの供給を再開する */
+    resume?(): void;
+    /** 通信を中断する */
+    cancel(): void;
+}
+
+/**
+ * ストリームの読み込み結果
+ */
+export interface ResponseStreamResult {
+    done: boolean;
+    value: any;
+}
+
+// 供給元を一時停止するまでにバッファするチャンク数
+const RESPONSE_STREAM_HIGH_WATER_MARK = 16;
+
+/**
+ * @class ResponseStream
+ * @classdesc ストリーミング応答クラス。
+ * <p>
+ * レスポンスボディを受信したチャンク単位で読み込む。Async Iterator プロトコルを実装しており、
+ * for await 構文で読み込むことができる。
+ * チャンクの型は Node.js では Buffer、Fetch API 使用時は Uint8Array、XHR 使用時は文字列となる。
+ * <p>
+ * 受信中に通信エラーが発生した場合は、next() がエラー要因(JSON)で reject される。
+ * @example
+ * const stream = await bucket.loadWithOptions("MyFile.jpg", {stream: true});
+ * for await (const chunk of stream) {
+ *     ....
+ * }
+ */
+export class ResponseStream {
+    private _status: number;
+    private _headers: {[index: string]: any};
+    private _source: ResponseStreamSource;
+    private _chunks: any[] = [];
+    private _waiters: Array<{resolve: (result: ResponseStreamResult) => void, reject: (error: any) => void}> = [];
+    private _done = false;
+    private _error: any = null;
+    private _paused = false;
+    private _removeAbortListener: () => void;
+    private _finishListeners: Array<() => void> = [];
+
+    /**
+     * @param {number} status ステータスコード
+     * @param {Object} headers レスポンスヘッダ
+     * @param {ResponseStreamSource} source データ供給元
+     * @param {AbortSignalLike} signal AbortSignal
+     * @private
+     */
+    constructor(status: number, headers: {[index: string]: any}, source: ResponseStreamSource, signal?: AbortSignalLike) {
+        this._status = status;
+        this._headers = headers;
+        this._source = source;
+
+        this._removeAbortListener = _onAbort(signal, () => {
+            this._fail(_createAbortError());
+            this._source.cancel();
+        });
+
+        if (typeof Symbol !== "undefined" && (Symbol as any).asyncIterator) {
+            (this as any)[(Symbol as any).asyncIterator] = () => this;
+        }
+    }
+
+    /**
+     * @memberOf ResponseStream
+     * @description ステータスコード
+     * @type {number}
+     * @name ResponseStream#status
+     */
+    get status(): number {
+        return this._status;
+    }
+
+    /**
+     * @memberOf ResponseStream
+     * @description レスポンスヘッダ
+     * @type {Object}
+     * @name ResponseStream#headers
+     */
+    get headers(): {[index: string]: any} {
+        return this._headers;
+    }
+
+    /**
+     * @memberOf ResponseStream
+     * @description 次のチャンクを読み込む
+     * @return {Promise} {done: 終端の場合 true, value: チャンク} で resolve される。
+     */
+    next(): Promise<ResponseStreamResult> {
+        if (this._chunks.length > 0) {
+            const value = this._chunks.shift();
+            this._resumeIfNeeded();
+            return Promise.resolve({done: false, value});
+        }
+        if (this._error != null) {
+            return Promise.reject(this._error);
+        }
+        if (this._done) {
+            return Promise.resolve({done: true, value: undefined});
+        }
+
+        this._resumeIfNeeded();
+        return new Promise<ResponseStreamResult>((resolve, reject) => {
+            this._waiters.push({resolve, reject});
+        });
+    }
+
+    /**
+     * @memberOf ResponseStream
+     * @description 読み込みを終了する。未受信のデータがある場合は通信を中断する。
+     * @return {Promise} {done: true} で resolve される。
+     */
+    return(): Promise<ResponseStreamResult> {
+        this.cancel();
+        return Promise.resolve({done: true, value: undefined});
+    }
+
+    /**
+     * @memberOf ResponseStream
+     * @description 通信を中断する。バッファ済みのデータは破棄される。
+     */
+    cancel(): void {
+        if (this._done || this._error != null) {
+            return;
+        }
+        this._chunks = [];
+        this._end();
+        this._source.cancel();
+    }
+
+    /**
+     * @memberOf ResponseStream
+     * @description ReadableStream に変換する。ReadableStream が使用できない環境では例外となる。
+     * @return {ReadableStream} ReadableStream
+     */
+    toReadableStream(): ReadableStream {
+        if (typeof ReadableStream === "undefined") {
+            throw new Error("No ReadableStream support");
+        }
+        return new ReadableStream({
+            pull: (controller) => {
+                return this.next().then((result) => {
+                    if (result.done) {
+                        controller.close();
+                    } else {
+                        controller.enqueue(result.value);
+                    }
+                });
+            },
+            cancel: () => this.cancel()
+        });
+    }
+
+    /**
+     * 読み込みが終了(終端・エラー・中断)した時点で呼び出すリスナを登録する。
+     * 既に終了している場合は直ちに呼び出す。
+     * @param {function} listener リスナ
+     * @private
+     */
+    _onFinished(listener: () => void): void {
+        if (this._done || this._error != null) {
+            listener();
+            return;
+        }
+        this._finishListeners.push(listener);
+    }
+
+    /**
+     * チャンクを追加する
+     * @private
+     */
+    _push(chunk: any): void {
+        if (this._done || this._error != null) {
+            return;
+        }
+
+        const waiter = this._waiters.shift();
+        if (waiter != null) {
+            waiter.resolve({done: false, value: chunk});
+            return;
+        }
+
+        this._chunks.push(chunk);
+        if (this._chunks.length >= RESPONSE_STREAM_HIGH_WATER_MARK && !this._paused && this._source.pause) {
+            this._paused = true;
+            this._source.pause();
+        }
+    }
+
+    /**
+     * 終端に達したことを通知する
+     * @private
+     */
+    _end(): void {
+        if (this._done || this._error != null) {
+            return;
+        }
+        this._done = true;
+        this._removeAbortListener();
+        this._notifyFinished();
+
+        const waiters = this._waiters;
+        this._waiters = [];
+        for (const waiter of waiters) {
+            waiter.resolve({done: true, value: undefined});
+        }
+    }
+
+    /**
+     * エラーを通知する
+     * @private
+     */
+    _fail(error: any): void {
+        if (this._done || this._error != null) {
+            return;
+        }
+        this._error = error;
+        this._removeAbortListener();
+        this._notifyFinished();
+
+        const waiters = this._waiters;
+        this._waiters = [];
+        for (const waiter of waiters) {
+            waiter.reject(error);
+        }
+    }
+
+    private _notifyFinished(): void {
+        const listeners = this._finishListeners;
+        this._finishListeners = [];
+        for (const listener of listeners) {
+            listener();
+        }
+    }
+
+    private _resumeIfNeeded(): void {
+        if (this._paused && this._chunks.length < RESPONSE_STREAM_HIGH_WATER_MARK / 2) {
+            this._paused = false;
+            if (this._source.resume) {
+                this._source.resume();
+            }
+        }
+    }
+}
@@ -0,0 +1,169 @@
+import {_createAbortError, _onAbort, AbortSignalLike, nbLogger} from "./Head";
+import {_getHeaderValue, Headers} from "./HttpRequest";
+import {HttpRequestContext} from "./HttpInterceptor";
+import {CancelledError, CircuitOpenError, LocalError} from "./Errors";
+
+import {Promise} from "es6-promise";
+
+/**
+ * リトライポリシ
+ */
+export interface RetryPolicy {
+    /** 最大試行回数(初回を含む)。デフォルトは 3 */
+    maxAttempts?: number;
+    /** バックオフの初期待ち時間(ミリ秒)。試行毎に2倍となる。デフォルトは 1000 */
+    baseDelay?: number;
+    /** 最大待ち時間(ミリ秒)。デフォルトは 30000 */
+    maxDelay?: number;
+    /** 待ち時間にジッタを付与する場合は true。デフォルトは true */
+    jitter?: boolean;
+    /** リトライ対象のステータスコード。0 は通信エラーを表す(LocalError は対象外)。デフォルトは [0, 429, 500, 502, 503, 504] */
+    retryStatuses?: number[];
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelay: 1000,
+    maxDelay: 30000,
+    jitter: true,
+    retryStatuses: [0, 429, 500, 502, 503, 504]
+};
+
+/**
+ * @description リトライポリシの未指定項目にデフォルト値を設定する
+ * @param {RetryPolicy} policy リトライポリシ
+ * @return {RetryPolicy} リトライポリシ
+ * @private
+ */
+export const _normalizeRetryPolicy = (policy: RetryPolicy): RetryPolicy => {
+    const result: RetryPolicy = {};
+    for (const key of Object.keys(DEFAULT_RETRY_POLICY)) {
+        const value = (policy as any)[key];
+        (result as any)[key] = (value !== undefined) ? value : (DEFAULT_RETRY_POLICY as any)[key];
+    }
+    return result;
+};
+
+/**
+ * @description リトライ可能なリクエストか判定する。
+ * <p>
+ * GET/HEAD/OPTIONS、または ETag で保護された更新(If-Match ヘッダ、etag クエリパラメータ)のみリトライ可能とする。
+ * @param {HttpRequestContext} context リクエストコンテキスト
+ * @return {boolean} リトライ可能であれば true
+ * @private
+ */
+export const _isRetryableRequest = (context: HttpRequestContext): boolean => {
+    const method = (context.method || "GET").toUpperCase();
+    if (method === "GET" || method === "HEAD" || method === "OPTIONS") {
+        return true;
+    }
+
+    if (_getHeaderValue(context.headers, "If-Match") != null) {
+        return true;
+    }
+    return /[?&]etag=/.test(context.url);
+};
+
+/**
+ * @description Retry-After ヘッダの値を待ち時間(ミリ秒)に変換する
+ * @param {string} value Retry-After ヘッダ値 (秒数 または HTTP-date)
+ * @return {number} 待ち時間(ミリ秒)。解析できない場合は null
+ * @private
+ */
+export const _parseRetryAfter = (value: string): number => {
+    if (value == null) {
+        return null;
+    }
+
+    if (/^\s*\d+\s*$/.test(value)) {
+        return Number(value) * 1000;
+    }
+
+    const date = Date.parse(value);
+    if (isNaN(date)) {
+        return null;
+    }
+    return Math.max(0, date - new Date().getTime());
+};
+
+/**
+ * @description リトライまでの待ち時間を計算する
+ * @param {RetryPolicy} policy リトライポリシ(正規化済み)
+ * @param {number} attempt 失敗した試行の回数(1〜)
+ * @param {string} retryAfter Retry-After ヘッダ値
+ * @return {number} 待ち時間(ミリ秒)。リトライしない場合は -1
+ * @private
+ */
+export const _computeRetryDelay = (policy: RetryPolicy, attempt: number, retryAfter?: string): number => {
+    const serverDelay = _parseRetryAfter(retryAfter);
+    if (serverDelay != null) {
+        // サーバ指定の待ち時間が上限を超える場合はリトライしない
+        return (serverDelay <= policy.maxDelay) ? serverDelay : -1;
+    }
+
+    let delay = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt - 1));
+    if (policy.jitter) {
+        delay = Math.floor(Math.random() * delay);
+    }
+    return delay;
+};
+
+/**
+ * @description リトライポリシに従ってリクエストを実行する。
+ * キャンセル(abort)されたリクエストはリトライせず、バックオフの待ち合わせ中に abort された場合は直ちに失敗とする。
+ * @param {RetryPolicy} policy リトライポリシ。null の場合はリトライしない。
+ * @param {HttpRequestContext} context リクエストコンテキスト
+ * @param {AbortSignalLike} signal AbortSignal。集約されたリクエストの場合は共有リクエストの AbortSignal
+ * @param {function} send リクエスト送信処理
+ * @return {Promise} Promise
+ * @private
+ */
+export const _executeWithRetry = (policy: RetryPolicy, context: HttpRequestContext, signal: AbortSignalLike,
+                                  send: (context: HttpRequestContext) => Promise<any>): Promise<any> => {
+    if (policy == null || !_isRetryableRequest(context)) {
+        return send(context);
+    }
+    policy = _normalizeRetryPolicy(policy);
+    const aborted = () => signal != null && signal.aborted;
+
+    const attempt = (count: number): Promise<any> => {
+        return send(context).catch((error) => {
+            const status = (error != null) ? error.status : undefined;
+            if (error instanceof CancelledError) {
+                return Promise.reject(error);
+            }
+            if (aborted()) {
+                return Promise.reject(_createAbortError());
+            }
+            if (count >= policy.maxAttempts || policy.retryStatuses.indexOf(status) < 0 || error instanceof CircuitOpenError ||
+                error instanceof LocalError) {
+                return Promise.reject(error);
+            }
+
+            const responseHeaders: Headers = (status !== 0) ? context.request.responseHeaders as Headers : null;
+            const delay = _computeRetryDelay(policy, count, _getHeaderValue(responseHeaders, "Retry-After"));
+            if (delay < 0) {
+                return Promise.reject(error);
+            }
+
+            nbLogger("HttpRequest#retry: status=" + status + ", attempt=" + count + ", delay=" + delay, context.service);
+            return new Promise((resolve, reject) => {
+                let removeAbortListener: () => void;
+                const timer = setTimeout(() => {
+                    removeAbortListener();
+                    resolve();
+                }, delay);
+                removeAbortListener = _onAbort(signal, () => {
+                    clearTimeout(timer);
+                    reject(_createAbortError());
+                });
+            }).then(() => {
+                // 待ち合わせ完了と abort が競合した場合
+                return aborted() ? Promise.reject(_createAbortError()) : attempt(count + 1);
+            });
+        });
+    };
+
+    return attempt(1);
+};
+
@@ -0,0 +1,209 @@
+import {nbError} from "./Head";
+import {UserJson} from "./User";
+import {NebulaService} from "./NebulaService";
+
+/**
+ * セッションイベント: ログインした ({@link User.login})
+ */
+export const SESSION_EVENT_LOGIN = "login";
+
+/**
+ * セッションイベント: ログアウトした ({@link User.logout})
+ */
+export const SESSION_EVENT_LOGOUT = "logout";
+
+/**
+ * セッションイベント: セッションの有効期限が近づいた
+ */
+export const SESSION_EVENT_EXPIRING = "sessionExpiring";
+
+/**
+ * セッションイベント: セッションの有効期限が切れた
+ */
+export const SESSION_EVENT_EXPIRED = "sessionExpired";
+
+/**
+ * セッションイベント: カレントユーザのログイン情報が変更された
+ */
+export const SESSION_EVENT_CURRENT_USER_CHANGED = "currentUserChanged";
+
+const SESSION_EVENT_TYPES = [SESSION_EVENT_LOGIN, SESSION_EVENT_LOGOUT, SESSION_EVENT_EXPIRING, SESSION_EVENT_EXPIRED,
+    SESSION_EVENT_CURRENT_USER_CHANGED];
+
+// setTimeout に指定できる最大の遅延時間(ミリ秒)
+const MAX_TIMER_DELAY = 0x7fffffff;
+
+/**
+ * セッションイベント
+ */
+export interface SessionEvent {
+    /** イベント種別 */
+    type: string;
+    /** カレントユーザのログイン情報。ログアウト時はログアウトしたユーザ、カレントユーザが存在しない場合は null */
+    user: UserJson;
+    /** 変更前のログイン情報 (currentUserChanged のみ) */
+    previousUser?: UserJson;
+    /** 他のタブ・ウィンドウでの変更を検出した場合は true (currentUserChanged のみ) */
+    remote?: boolean;
+}
+
+/**
+ * セッションイベントのリスナ
+ */
+export type SessionEventListener = (event: SessionEvent) => void;
+
+/**
+ * @description セッションの識別キーを返す
+ * @private
+ */
+const _sessionKey = (user: UserJson): string => {
+    return [user._id, user.sessionToken, user.expire].join("\n");
+};
+
+/**
+ * セッションイベントの通知クラス。NebulaService 毎に保持する。
+ * <p>
+ * 有効期限のイベントは、sessionExpiring, sessionExpired のリスナが登録されている場合のみタイマで監視する。
+ * 各イベントはセッション(セッショントークンと有効期限)毎に 1 回だけ通知する。
+ * @private
+ */
+export class _SessionEventEmitter {
+    private _service: NebulaService;
+    private _listeners: {[type: string]: SessionEventListener[]} = {};
+    private _leadTime = 60;
+    private _timer: any = null;
+    private _notified: {[type: string]: string} = {};
+
+    constructor(service: NebulaService) {
+        this._service = service;
+    }
+
+    /**
+     * リスナを登録する
+     */
+    add(type: string, listener: SessionEventListener): void {
+        if (SESSION_EVENT_TYPES.indexOf(type) < 0) {
+            throw new Error("Bad session event type: " + type);
+        }
+        const listeners = this._listeners[type] || (this._listeners[type] = []);
+        if (listeners.indexOf(listener) < 0) {
+            listeners.push(listener);
+        }
+        this._watch();
+    }
+
+    /**
+     * リスナを削除する
+     */
+    remove(type: string, listener: SessionEventListener): void {
+        const listeners = this._listeners[type] || [];
+        const index = listeners.indexOf(listener);
+        if (index >= 0) {
+            listeners.splice(index, 1);
+        }
+        this._watch();
+    }
+
+    /**
+     * sessionExpiring を通知する時間(有効期限までの秒数)を設定する
+     */
+    setLeadTime(seconds: number): void {
+        this._leadTime = seconds;
+        this._watch();
+    }
+
+    getLeadTime(): number {
+        return this._leadTime;
+    }
+
+    /**
+     * イベントを通知する
+     */
+    emit(type: string, user: UserJson, previousUser?: UserJson, remote?: boolean): void {
+        const event: SessionEvent = {type, user};
+        if (previousUser !== undefined) {
+            event.previousUser = previousUser;
+        }
+        if (remote) {
+            event.remote = true;
+        }
+        for (const listener of (this._listeners[type] || []).slice()) {
+            try {
+                listener(event);
+            } catch (e) {
+                nbError("Session event listener failed: " + type + ": " + e, this._service);
+            }
+        }
+    }
+
+    /**
+     * カレントユーザのログイン情報の変更を通知し、有効期限の監視を更新する
+     * @param {UserJson} previousUser 変更前のログイン情報
+     * @param {UserJson} user 変更後のログイン情報
+     * @param {boolean} remote 他のタブ・ウィンドウでの変更の場合は true
+     */
+    changed(previousUser: UserJson, user: UserJson, remote?: boolean): void {
+        if (JSON.stringify(previousUser) !== JSON.stringify(user)) {
+            this.emit(SESSION_EVENT_CURRENT_USER_CHANGED, user, previousUser, remote);
+        }
+        this._watch();
+    }
+
+    /**
+     * 有効期限切れのログイン情報を検出した
+     * @param {UserJson} user ログイン情報
+     */
+    expired(user: UserJson): void {
+        this._notifyOnce(SESSION_EVENT_EXPIRED, user);
+    }
+
+    /**
+     * 有効期限を監視するタイマを設定する。期限が近い・切れている場合は通知する。
+     */
+    private _watch(): void {
+        if (this._timer != null) {
+            clearTimeout(this._timer);
+            this._timer = null;
+        }
+        if (!this._hasListeners(SESSION_EVENT_EXPIRING) && !this._hasListeners(SESSION_EVENT_EXPIRED) ||
+            this._service._config === undefined) {
+            return;
+        }
+        const user = this._service._loadCurrentUser();
+        if (user == null || typeof user.expire !== "number") {
+            return;
+        }
+
+        const now = Date.now();
+        const expireAt = user.expire * 1000;
+        const expiringAt = expireAt - this._leadTime * 1000;
+        if (now >= expireAt) {
+            this._notifyOnce(SESSION_EVENT_EXPIRED, user);
+            return;
+        }
+        if (now >= expiringAt) {
+            this._notifyOnce(SESSION_EVENT_EXPIRING, user);
+        }
+        const next = (now >= expiringAt) ? expireAt : expiringAt;
+        this._timer = setTimeout(() => {
+            this._timer = null;
+            this._watch();
+        }, Math.min(next - now, MAX_TIMER_DELAY));
+        if (typeof this._timer.unref === "function") {
+            // Node.js: タイマによりプロセスの終了を妨げない
+            this._timer.unref();
+        }
+    }
+
+    private _notifyOnce(type: string, user: UserJson): void {
+        const key = _sessionKey(user);
+        if (this._notified[type] !== key) {
+            this._notified[type] = key;
+            this.emit(type, user);
+        }
+    }
+
+    private _hasListeners(type: string): boolean {
+        return this._listeners[type] != null && this._listeners[type].length > 0;
+    }
+}
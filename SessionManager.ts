@@ -0,0 +1,236 @@
+import {nbError, nbLogger} from "./Head";
+import {UnauthorizedError} from "./Errors";
+import {LoginInfo} from "./User";
+import {HttpRequest} from "./HttpRequest";
+import {NebulaService} from "./NebulaService";
+
+import {Promise} from "es6-promise";
+
+/**
+ * セッション更新に使用する認証情報。
+ * {@link User.login} の引数(username/email と password、または token)に加え、
+ * クライアント証明書認証の場合は clientCert に true を指定する。
+ */
+export interface SessionCredentials extends LoginInfo {
+    /** クライアント証明書認証の場合は true */
+    clientCert?: boolean;
+}
+
+/**
+ * 認証情報を返却する関数。Promise を返却してもよい。
+ */
+export type CredentialProvider = () => SessionCredentials | PromiseLike<SessionCredentials>;
+
+/**
+ * セッション管理のオプション
+ */
+export interface SessionManagerOptions {
+    /** 認証情報を返却する関数。必須 */
+    credentialProvider: CredentialProvider;
+    /** セッションの有効期限の何秒前に更新するか。デフォルトは 60 */
+    renewBefore?: number;
+    /** 401 Unauthorized 応答時にセッションを更新して再送する場合は true。デフォルトは true */
+    renewOnUnauthorized?: boolean;
+}
+
+const DEFAULT_SESSION_MANAGER_OPTIONS: SessionManagerOptions = {
+    credentialProvider: null,
+    renewBefore: 60,
+    renewOnUnauthorized: true
+};
+
+/**
+ * @description セッション管理のオプションの未指定項目にデフォルト値を設定する
+ * @param {SessionManagerOptions} options オプション
+ * @return {SessionManagerOptions} オプション
+ * @private
+ */
+export const _normalizeSessionManagerOptions = (options: SessionManagerOptions): SessionManagerOptions => {
+    const result: SessionManagerOptions = {credentialProvider: null};
+    for (const key of Object.keys(DEFAULT_SESSION_MANAGER_OPTIONS)) {
+        const value = (options != null) ? (options as any)[key] : undefined;
+        (result as any)[key] = (value !== undefined) ? value : (DEFAULT_SESSION_MANAGER_OPTIONS as any)[key];
+    }
+    if (typeof result.credentialProvider !== "function") {
+        throw new Error("No credentialProvider");
+    }
+    return result;
+};
+
+/**
+ * @class SessionManager
+ * @classdesc セッション管理クラス。
+ * <p>
+ * {@link NebulaService#setSessionManager} で設定すると、カレントユーザのセッショントークンを使用するリクエストについて、
+ * 以下の場合に credentialProvider が返却する認証情報で再ログインする。
+ * <ul>
+ *   <li>リクエストの送信前に、セッションの有効期限まで renewBefore 秒未満となっている(有効期限切れを含む)場合</li>
+ *   <li>リクエストが 401 Unauthorized で失敗した場合。再ログイン後、リクエストを 1 回だけ再送する</li>
+ * </ul>
+ * 同時に複数のリクエストが更新を必要とした場合も、再ログインは 1 回だけ行われる。
+ * <p>
+ * クライアント証明書認証(clientCert: true)の場合は、カレントユーザを破棄し、セッショントークンなしで再送する。
+ * <p>
+ * セッショントークンを明示的に指定したリクエスト({@link HttpRequest#setSessionToken})は対象外である。
+ * @example
+ * Nebula.setSessionManager(new Nebula.SessionManager({
+ *     credentialProvider: function() {
+ *         return {username: "foo", password: loadPassword()};
+ *     },
+ *     renewBefore: 300
+ * }));
+ */
+export class SessionManager {
+    private _options: SessionManagerOptions;
+    private _service: NebulaService = null;
+    private _renewing: Promise<void> = null;
+
+    /**
+     * @description コンストラクタ
+     * @param {Object} options オプション。以下のプロパティを指定する。
+     * <ul>
+     *   <li>credentialProvider (function) : 認証情報を返却する関数。Promise を返却してもよい。必須。
+     *       認証情報は {@link User.login} の引数と同じ形式で、クライアント証明書認証の場合は {clientCert: true} を返却する</li>
+     *   <li>renewBefore (number) : セッションの有効期限の何秒前に更新するか。デフォルトは 60</li>
+     *   <li>renewOnUnauthorized (boolean) : 401 Unauthorized 応答時にセッションを更新して再送する場合は true。デフォルトは true</li>
+     * </ul>
+     */
+    constructor(options: SessionManagerOptions) {
+        this._options = _normalizeSessionManagerOptions(options);
+    }
+
+    /**
+     * @memberOf SessionManager
+     * @description セッションを更新(再ログイン)する。
+     * 更新中の場合は、実行中の更新の完了を待つ。
+     * @return {Promise} Promise
+     */
+    renew(): Promise<void> {
+        if (this._service == null) {
+            return Promise.reject(new Error("SessionManager is not attached to service"));
+        }
+        if (this._renewing == null) {
+            const done = () => {
+                this._renewing = null;
+            };
+            this._renewing = this._login();
+            this._renewing.then(done, done);
+        }
+        return this._renewing;
+    }
+
+    /**
+     * @memberOf SessionManager
+     * @description セッションを更新中か調べる
+     * @return {boolean} 更新中の場合は true
+     */
+    isRenewing(): boolean {
+        return this._renewing != null;
+    }
+
+    /**
+     * サービスに設定する
+     * @param {NebulaService} service サービス。null の場合は解除する
+     * @private
+     */
+    _attach(service: NebulaService): void {
+        this._service = service;
+        this._renewing = null;
+    }
+
+    /**
+     * 有効期限が近い場合はセッションを更新する
+     * @return {Promise} Promise。更新に失敗した場合も成功となる
+     * @private
+     */
+    _ensureSession(): Promise<void> {
+        const user = this._service._loadCurrentUser();
+        if (user == null || !(user.expire - this._options.renewBefore < new Date().getTime() / 1000)) {
+            return Promise.resolve();
+        }
+        nbLogger("SessionManager: session is expiring, renew", this._service);
+        return this.renew().catch((error) => {
+            nbError("SessionManager: renew failed: " + error, this._service);
+        });
+    }
+
+    /**
+     * 401 Unauthorized 応答時にセッションを更新する
+     * @param {string} sessionToken 失敗したリクエストのセッショントークン
+     * @return {Promise} Promise
+     * @private
+     */
+    _renewOnUnauthorized(sessionToken: string): Promise<void> {
+        const user = this._service._loadCurrentUser();
+        if (user != null && user.sessionToken != null && user.sessionToken !== sessionToken) {
+            // 他のリクエストにより更新済み
+            return Promise.resolve();
+        }
+        nbLogger("SessionManager: unauthorized, renew", this._service);
+        return this.renew();
+    }
+
+    /**
+     * @return {boolean} 401 Unauthorized 応答時に更新する場合は true
+     * @private
+     */
+    _isRenewOnUnauthorized(): boolean {
+        return this._options.renewOnUnauthorized;
+    }
+
+    private _login(): Promise<void> {
+        const service = this._service;
+        return Promise.resolve().then(() => this._options.credentialProvider()).then((credentials: SessionCredentials) => {
+            if (credentials == null) {
+                throw new Error("SessionManager: no credentials");
+            }
+            if (credentials.clientCert) {
+                service.removeCurrentUser();
+                return;
+            }
+            const loginInfo: LoginInfo = {};
+            for (const key of ["username", "email", "token", "password"]) {
+                if ((credentials as any)[key] != null) {
+                    (loginInfo as any)[key] = (credentials as any)[key];
+                }
+            }
+            return service.User.login(loginInfo).then(() => {
+                nbLogger("SessionManager: session renewed", service);
+            });
+        });
+    }
+}
+
+/**
+ * @description セッション管理を適用してリクエストを実行する。
+ * @param {SessionManager} manager セッション管理。null の場合は何もしない
+ * @param {HttpRequest} request リクエスト
+ * @param {function} execute リクエスト実行処理
+ * @return {Promise} Promise
+ * @private
+ */
+export const _executeWithSession = (manager: SessionManager, request: HttpRequest,
+                                    execute: () => Promise<any>): Promise<any> => {
+    if (manager == null || !request._usesCurrentSession()) {
+        return execute();
+    }
+
+    return manager._ensureSession().then(() => {
+        request._refreshSessionToken();
+        const sessionToken = request._getSessionToken();
+        return execute().catch((error) => {
+            if (!(error instanceof UnauthorizedError) || !manager._isRenewOnUnauthorized() || !request._isReplayable()) {
+                return Promise.reject(error);
+            }
+            return manager._renewOnUnauthorized(sessionToken).then(() => {
+                // 1 回だけ再送する
+                request._refreshSessionToken();
+                return execute();
+            }, (renewError) => {
+                // 更新に失敗した場合は元のエラーを返却する
+                nbError("SessionManager: renew failed: " + renewError, request.service);
+                return Promise.reject(error);
+            });
+        });
+    });
+};
@@ -0,0 +1,460 @@
+import {nbError} from "./Head";
+import {crypto, fs, isNodeJs} from "./NodeSupport";
+import {NebulaService} from "./NebulaService";
+
+import {Promise} from "es6-promise";
+import {Buffer} from "buffer";
+
+/**
+ * セッションストア。カレントユーザのログイン情報を保存する。
+ * 各メソッドは Promise (PromiseLike) を返却する。
+ * React Native の SecureStore 等のセキュアストレージを使用する場合は、本インタフェースを実装する。
+ */
+export interface SessionStore {
+    /** 値を取得する。存在しない場合は null */
+    getItem(key: string): PromiseLike<string>;
+    /** 値を保存する */
+    setItem(key: string, value: string): PromiseLike<void>;
+    /** 値を削除する */
+    removeItem(key: string): PromiseLike<void>;
+}
+
+/**
+ * 同期アクセス可能なセッションストア (MemorySessionStore, WebStorageSessionStore)
+ * @private
+ */
+interface _SyncSessionStore extends SessionStore {
+    _getItemSync(key: string): string;
+    _setItemSync(key: string, value: string): void;
+    _removeItemSync(key: string): void;
+}
+
+/**
+ * @description 同期アクセス可能なセッションストアか調べる
+ * @private
+ */
+export const _isSyncStore = (store: SessionStore): store is _SyncSessionStore => {
+    return typeof (store as any)._getItemSync === "function";
+};
+
+/**
+ * @class MemorySessionStore
+ * @classdesc メモリ上に保持するセッションストア。プロセスの終了・ページの再読み込みで破棄される。
+ */
+export class MemorySessionStore implements SessionStore {
+    private _data: {[key: string]: string} = {};
+
+    getItem(key: string): Promise<string> {
+        return Promise.resolve(this._getItemSync(key));
+    }
+
+    setItem(key: string, value: string): Promise<void> {
+        this._setItemSync(key, value);
+        return Promise.resolve();
+    }
+
+    removeItem(key: string): Promise<void> {
+        this._removeItemSync(key);
+        return Promise.resolve();
+    }
+
+    /** @private */
+    _getItemSync(key: string): string {
+        return this._data.hasOwnProperty(key) ? this._data[key] : null;
+    }
+
+    /** @private */
+    _setItemSync(key: string, value: string): void {
+        this._data[key] = value;
+    }
+
+    /** @private */
+    _removeItemSync(key: string): void {
+        delete this._data[key];
+    }
+}
+
+/**
+ * @class WebStorageSessionStore
+ * @classdesc Web Storage (localStorage, sessionStorage) を使用するセッションストア。ブラウザでのみ使用できる。
+ * @example
+ * Nebula.initialize({..., sessionStore: new Nebula.WebStorageSessionStore(sessionStorage)});
+ */
+export class WebStorageSessionStore implements SessionStore {
+    private _storage: Storage;
+
+    /**
+     * @param {Storage} storage localStorage または sessionStorage
+     */
+    constructor(storage: Storage) {
+        if (storage == null) {
+            throw new Error("No web storage");
+        }
+        this._storage = storage;
+    }
+
+    getItem(key: string): Promise<string> {
+        return Promise.resolve().then(() => this._getItemSync(key));
+    }
+
+    setItem(key: string, value: string): Promise<void> {
+        return Promise.resolve().then(() => this._setItemSync(key, value));
+    }
+
+    removeItem(key: string): Promise<void> {
+        return Promise.resolve().then(() => this._removeItemSync(key));
+    }
+
+    /** @private */
+    _getItemSync(key: string): string {
+        return this._storage.getItem(key);
+    }
+
+    /** @private */
+    _setItemSync(key: string, value: string): void {
+        this._storage.setItem(key, value);
+    }
+
+    /** @private */
+    _removeItemSync(key: string): void {
+        this._storage.removeItem(key);
+    }
+
+    /** @private */
+    _getStorage(): Storage {
+        return this._storage;
+    }
+}
+
+/**
+ * @class FileSessionStore
+ * @classdesc JSON ファイルを使用するセッションストア。Node.js でのみ使用できる。
+ * ファイルのパーミッションは 0600 で作成される。
+ * @example
+ * Nebula.initialize({..., sessionStore: new Nebula.FileSessionStore("/var/lib/myapp/session.json")});
+ */
+export class FileSessionStore implements SessionStore {
+    private _path: string;
+    private _writing: Promise<void> = Promise.resolve();
+
+    /**
+     * @param {string} path ファイルのパス
+     */
+    constructor(path: string) {
+        if (fs == null) {
+            throw new Error("No file system support");
+        }
+        this._path = path;
+    }
+
+    getItem(key: string): Promise<string> {
+        return this._writing.then(() => this._read()).then((data) => data.hasOwnProperty(key) ? data[key] : null);
+    }
+
+    setItem(key: string, value: string): Promise<void> {
+        return this._update((data) => {
+            data[key] = value;
+        });
+    }
+
+    removeItem(key: string): Promise<void> {
+        return this._update((data) => {
+            delete data[key];
+        });
+    }
+
+    /**
+     * ファイルの読み込み・書き込みを直列化して更新する
+     */
+    private _update(modify: (data: {[key: string]: string}) => void): Promise<void> {
+        const result = this._writing.then(() => this._read()).then((data) => {
+            modify(data);
+            return this._write(data);
+        });
+        this._writing = result.catch(() => undefined);
+        return result;
+    }
+
+    private _read(): Promise<{[key: string]: string}> {
+        return new Promise<{[key: string]: string}>((resolve, reject) => {
+            fs.readFile(this._path, "utf8", (err: any, data: string) => {
+                if (err) {
+                    if (err.code === "ENOENT") {
+                        resolve({});
+                    } else {
+                        reject(err);
+                    }
+                    return;
+                }
+                try {
+                    resolve(data ? JSON.parse(data) : {});
+                } catch (e) {
+                    reject(e);
+                }
+            });
+        });
+    }
+
+    private _write(data: {[key: string]: string}): Promise<void> {
+        // 書き込み途中で中断しても壊れないよう、一時ファイルに書き込んでから置き換える
+        const tmpPath = this._path + ".tmp";
+        return new Promise<void>((resolve, reject) => {
+            fs.writeFile(tmpPath, JSON.stringify(data), {encoding: "utf8", mode: 0o600}, (err: any) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+                fs.rename(tmpPath, this._path, (err2: any) => err2 ? reject(err2) : resolve());
+            });
+        });
+    }
+}
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * @class EncryptedSessionStore
+ * @classdesc 値を AES-256-GCM で暗号化して保存するセッションストア。
+ * 暗号鍵は secret の SHA-256 ハッシュから生成する。
+ * Node.js では crypto モジュール、ブラウザでは Web Crypto API を使用する。
+ * <p>
+ * 値は BASE64(IV(12バイト) + 暗号文 + 認証タグ(16バイト)) の形式で保存される。
+ * 復号できない値は読み込み時にエラーとなる。
+ * @example
+ * Nebula.initialize({..., sessionStore: new Nebula.EncryptedSessionStore(
+ *     new Nebula.FileSessionStore("/var/lib/myapp/session.json"), process.env.SESSION_SECRET)});
+ */
+export class EncryptedSessionStore implements SessionStore {
+    private _store: SessionStore;
+    private _secret: string;
+    private _key: Promise<any> = null;
+
+    /**
+     * @param {SessionStore} store 暗号化した値を保存するセッションストア
+     * @param {string} secret 暗号鍵の生成に使用する秘密の文字列
+     */
+    constructor(store: SessionStore, secret: string) {
+        if (store == null) {
+            throw new Error("No session store");
+        }
+        if (typeof secret !== "string" || secret === "") {
+            throw new Error("No secret");
+        }
+        if (!isNodeJs() && EncryptedSessionStore._subtle() == null) {
+            throw new Error("No crypto support");
+        }
+        this._store = store;
+        this._secret = secret;
+    }
+
+    getItem(key: string): Promise<string> {
+        return Promise.resolve(this._store.getItem(key)).then((value) => (value != null) ? this._decrypt(value) : null);
+    }
+
+    setItem(key: string, value: string): Promise<void> {
+        return this._encrypt(value).then((encrypted) => this._store.setItem(key, encrypted));
+    }
+
+    removeItem(key: string): Promise<void> {
+        return Promise.resolve(this._store.removeItem(key));
+    }
+
+    private _encrypt(value: string): Promise<string> {
+        const plain = Buffer.from(value, "utf8");
+        if (isNodeJs()) {
+            return Promise.resolve().then(() => {
+                const iv = crypto.randomBytes(IV_LENGTH);
+                const cipher = crypto.createCipheriv("aes-256-gcm", this._nodeKey(), iv);
+                const encrypted = Buffer.concat([cipher.update(plain), cipher.final(), cipher.getAuthTag()]);
+                return Buffer.concat([iv, encrypted]).toString("base64");
+            });
+        }
+        const subtle = EncryptedSessionStore._subtle();
+        const iv = new Uint8Array(IV_LENGTH);
+        (window as any).crypto.getRandomValues(iv);
+        return this._webKey()
+            .then((key) => subtle.encrypt({name: "AES-GCM", iv}, key, plain))
+            .then((encrypted: ArrayBuffer) => Buffer.concat([Buffer.from(iv), Buffer.from(encrypted)]).toString("base64"));
+    }
+
+    private _decrypt(value: string): Promise<string> {
+        const data = Buffer.from(value, "base64");
+        if (data.length < IV_LENGTH + TAG_LENGTH) {
+            return Promise.reject(new Error("Bad encrypted session data"));
+        }
+        const iv = data.slice(0, IV_LENGTH);
+        if (isNodeJs()) {
+            return Promise.resolve().then(() => {
+                const decipher = crypto.createDecipheriv("aes-256-gcm", this._nodeKey(), iv);
+                decipher.setAuthTag(data.slice(data.length - TAG_LENGTH));
+                const plain = Buffer.concat([decipher.update(data.slice(IV_LENGTH, data.length - TAG_LENGTH)), decipher.final()]);
+                return plain.toString("utf8");
+            });
+        }
+        // Web Crypto API では暗号文と認証タグを連結して渡す
+        const subtle = EncryptedSessionStore._subtle();
+        return this._webKey()
+            .then((key) => subtle.decrypt({name: "AES-GCM", iv}, key, data.slice(IV_LENGTH)))
+            .then((plain: ArrayBuffer) => Buffer.from(plain).toString("utf8"));
+    }
+
+    private _nodeKey(): any {
+        return crypto.createHash("sha256").update(this._secret, "utf8").digest();
+    }
+
+    private _webKey(): Promise<any> {
+        if (this._key == null) {
+            const subtle = EncryptedSessionStore._subtle();
+            this._key = Promise.resolve(subtle.digest("SHA-256", Buffer.from(this._secret, "utf8")))
+                .then((hash: ArrayBuffer) => subtle.importKey("raw", hash, {name: "AES-GCM"}, false, ["encrypt", "decrypt"]));
+        }
+        return this._key;
+    }
+
+    private static _subtle(): any {
+        return (typeof window !== "undefined" && window != null && (window as any).crypto != null) ? (window as any).crypto.subtle : null;
+    }
+}
+
+/**
+ * @description セッションストアの指定からセッションストアを生成する
+ * @param {string|SessionStore} spec "memory", "localStorage", "sessionStorage" またはセッションストア。
+ * null の場合は localStorage を使用できればそれを、できなければメモリを使用する。
+ * @return {SessionStore} セッションストア
+ * @private
+ */
+export const _createSessionStore = (spec: string | SessionStore): SessionStore => {
+    const webStorage = (name: string): Storage => {
+        try {
+            if (name === "localStorage") {
+                return (typeof localStorage !== "undefined" && localStorage != null) ? localStorage : null;
+            }
+            return (typeof sessionStorage !== "undefined" && sessionStorage != null) ? sessionStorage : null;
+        } catch (e) {
+            // ストレージへのアクセスが禁止されている
+            return null;
+        }
+    };
+
+    if (spec == null) {
+        const storage = webStorage("localStorage");
+        return (storage != null) ? new WebStorageSessionStore(storage) : new MemorySessionStore();
+    }
+    if (spec === "memory") {
+        return new MemorySessionStore();
+    }
+    if (spec === "localStorage" || spec === "sessionStorage") {
+        const storage = webStorage(spec);
+        if (storage == null) {
+            throw new Error("Bad sessionStore: " + spec + " is not available");
+        }
+        return new WebStorageSessionStore(storage);
+    }
+    if (typeof spec === "object" && typeof spec.getItem === "function" && typeof spec.setItem === "function" &&
+        typeof spec.removeItem === "function") {
+        return spec;
+    }
+    throw new Error("Bad sessionStore");
+};
+
+/**
+ * セッションストアの同期アクセス用のキャッシュ。NebulaService 毎に保持する。
+ * <p>
+ * 同期アクセス可能なセッションストアはキャッシュせずに直接読み書きする。
+ * それ以外のセッションストアは値をメモリ上に保持し、書き込みは順番に非同期で反映する。
+ * @private
+ */
+export class _SessionStoreCache {
+    private _service: NebulaService;
+    private _store: SessionStore;
+    private _data: {[key: string]: string} = {};
+    private _modified: {[key: string]: boolean} = {};
+    private _writing: Promise<void> = Promise.resolve();
+
+    constructor(service: NebulaService, store: SessionStore) {
+        this._service = service;
+        this._store = store;
+    }
+
+    getStore(): SessionStore {
+        return this._store;
+    }
+
+    getItem(key: string): string {
+        const store = this._store;
+        if (_isSyncStore(store)) {
+            return store._getItemSync(key);
+        }
+        return this._data.hasOwnProperty(key) ? this._data[key] : null;
+    }
+
+    setItem(key: string, value: string): void {
+        const store = this._store;
+        if (_isSyncStore(store)) {
+            store._setItemSync(key, value);
+            return;
+        }
+        this._data[key] = value;
+        this._modified[key] = true;
+        this._enqueue(key, () => store.setItem(key, value));
+    }
+
+    removeItem(key: string): void {
+        const store = this._store;
+        if (_isSyncStore(store)) {
+            store._removeItemSync(key);
+            return;
+        }
+        delete this._data[key];
+        this._modified[key] = true;
+        this._enqueue(key, () => store.removeItem(key));
+    }
+
+    /**
+     * セッションストアから値を読み込む。
+     * 読み込み中に setItem, removeItem された場合は、読み込んだ値は破棄する。
+     * @return {Promise} Promise。値を反映した場合は true。読み込みに失敗した場合も成功となる
+     */
+    load(key: string): Promise<boolean> {
+        const store = this._store;
+        if (_isSyncStore(store)) {
+            return Promise.resolve(false);
+        }
+        delete this._modified[key];
+        return Promise.resolve(store.getItem(key)).then((value) => {
+            if (value === undefined) {
+                value = null;
+            }
+            if (this._modified[key] || value === this.getItem(key)) {
+                return false;
+            }
+            if (value != null) {
+                this._data[key] = value;
+            } else {
+                delete this._data[key];
+            }
+            return true;
+        }, (error) => {
+            nbError("Session store: load failed: " + error, this._service);
+            return false;
+        });
+    }
+
+    /**
+     * 未反映の書き込みの完了を待つ
+     * @return {Promise} Promise。書き込みに失敗した場合も成功となる
+     */
+    flush(): Promise<void> {
+        return this._writing;
+    }
+
+    private _enqueue(key: string, write: () => PromiseLike<void>): void {
+        this._writing = this._writing.then(write).then(() => {
+            // 他のタブ・ウィンドウに通知する
+            this._service._sessionSync._published(key);
+        }, (error) => {
+            nbError("Session store: write failed: " + error, this._service);
+        });
+    }
+}
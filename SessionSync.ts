@@ -0,0 +1,122 @@
+import {nbLogger} from "./Head";
+import {UserJson} from "./User";
+import {_isSyncStore, WebStorageSessionStore} from "./SessionStore";
+import {NebulaService} from "./NebulaService";
+
+// BroadcastChannel のチャネル名
+const CHANNEL_NAME = "NebulaSession";
+
+/**
+ * @description イベントを受信できる window を返す
+ * @return window。ブラウザ以外の場合は null
+ * @private
+ */
+const _getWindow = (): any => {
+    return (typeof window !== "undefined" && window != null && typeof window.addEventListener === "function") ? window : null;
+};
+
+/**
+ * @description 保存されたログイン情報を解析する
+ * @private
+ */
+const _parseUser = (value: string): UserJson => {
+    try {
+        return value ? JSON.parse(value) : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+/**
+ * タブ・ウィンドウ間のセッション同期。NebulaService 毎に保持する。
+ * <p>
+ * localStorage 等の Web Storage を使用する場合は storage イベントで、
+ * 非同期のセッションストアを使用する場合は BroadcastChannel で、他のタブ・ウィンドウでの変更を検出し、
+ * currentUserChanged イベント(remote: true)を通知する。
+ * ブラウザ以外の環境では何もしない。
+ * @private
+ */
+export class _SessionSync {
+    private _service: NebulaService;
+    private _window: any = null;
+    private _storage: Storage = null;
+    private _channel: any = null;
+
+    constructor(service: NebulaService) {
+        this._service = service;
+    }
+
+    /**
+     * 現在のセッションストアに応じて同期を開始する
+     */
+    start(): void {
+        this.stop();
+        const win = _getWindow();
+        if (win == null) {
+            return;
+        }
+        const store = this._service._localStorage.getStore();
+        if (store instanceof WebStorageSessionStore) {
+            this._window = win;
+            this._storage = store._getStorage();
+            win.addEventListener("storage", this._onStorage);
+        } else if (!_isSyncStore(store) && typeof win.BroadcastChannel === "function") {
+            this._channel = new win.BroadcastChannel(CHANNEL_NAME);
+            this._channel.onmessage = this._onMessage;
+            if (typeof this._channel.unref === "function") {
+                // Node.js: チャネルによりプロセスの終了を妨げない
+                this._channel.unref();
+            }
+        }
+    }
+
+    /**
+     * 同期を停止する
+     */
+    stop(): void {
+        if (this._window != null) {
+            this._window.removeEventListener("storage", this._onStorage);
+            this._window = null;
+            this._storage = null;
+        }
+        if (this._channel != null) {
+            this._channel.close();
+            this._channel = null;
+        }
+    }
+
+    /**
+     * セッションストアへの書き込みを他のタブ・ウィンドウに通知する
+     * @param {string} key キー
+     * @private
+     */
+    _published(key: string): void {
+        if (this._channel != null) {
+            // ログイン情報は送らず、受信側でセッションストアから読み込む
+            this._channel.postMessage({key});
+        }
+    }
+
+    private _onStorage = (event: StorageEvent): void => {
+        const key = this._service._userItemKey();
+        if (event.storageArea !== this._storage || event.key !== key) {
+            return;
+        }
+        nbLogger("Session changed in other window", this._service);
+        this._service._sessionEvents.changed(_parseUser(event.oldValue), this._service._loadCurrentUser(), true);
+    };
+
+    private _onMessage = (event: MessageEvent): void => {
+        const key = this._service._userItemKey();
+        if (event.data == null || event.data.key !== key) {
+            return;
+        }
+        const previous = this._service._loadCurrentUser();
+        this._service._localStorage.load(key).then((loaded) => {
+            if (loaded) {
+                nbLogger("Session changed in other window", this._service);
+                this._service._sessionEvents.changed(previous, this._service._loadCurrentUser(), true);
+            }
+        });
+    };
+}
@@ -0,0 +1,166 @@
+/**
+ * タイムアウトの種別: 接続の確立まで
+ */
+export const TIMEOUT_CONNECT = "connect";
+
+/**
+ * タイムアウトの種別: 接続の確立から応答(ステータス・ヘッダ)の受信開始まで
+ */
+export const TIMEOUT_FIRST_BYTE = "firstByte";
+
+/**
+ * タイムアウトの種別: 送信開始から応答の受信完了まで
+ */
+export const TIMEOUT_TOTAL = "total";
+
+/**
+ * タイムアウトのオプション。いずれもミリ秒で指定し、0 または null の場合は制限しない。
+ */
+export interface TimeoutOptions {
+    /** 接続の確立までの制限時間 */
+    connect?: number;
+    /** 接続の確立から応答(ステータス・ヘッダ)の受信開始までの制限時間 */
+    firstByte?: number;
+    /** 送信開始から応答の受信完了までの制限時間 */
+    total?: number;
+}
+
+const TIMEOUT_PHASES = [TIMEOUT_CONNECT, TIMEOUT_FIRST_BYTE, TIMEOUT_TOTAL];
+
+/**
+ * @description タイムアウトのオプションを合成する
+ * @param {TimeoutOptions} base 基本のオプション (サービスの設定)
+ * @param {number|TimeoutOptions} override 上書きするオプション (リクエスト毎の設定)。数値の場合は total とみなす
+ * @return {TimeoutOptions} オプション
+ * @private
+ */
+export const _mergeTimeoutOptions = (base: TimeoutOptions, override: number | TimeoutOptions): TimeoutOptions => {
+    const options: TimeoutOptions = (typeof override === "number") ? {total: override} : override;
+    const result: TimeoutOptions = {};
+    for (const phase of TIMEOUT_PHASES) {
+        const value = (options != null) ? (options as any)[phase] : undefined;
+        (result as any)[phase] = (value != null) ? value : ((base != null && (base as any)[phase] != null) ? (base as any)[phase] : 0);
+    }
+    return result;
+};
+
+/**
+ * @description タイムアウトのオプションを検査する
+ * @param {TimeoutOptions} options オプション
+ * @return {TimeoutOptions} オプション
+ * @private
+ */
+export const _checkTimeoutOptions = (options: TimeoutOptions): TimeoutOptions => {
+    if (options != null) {
+        for (const phase of TIMEOUT_PHASES) {
+            const value = (options as any)[phase];
+            if (value != null && !(typeof value === "number" && value >= 0)) {
+                throw new Error("Bad timeout");
+            }
+        }
+    }
+    return options;
+};
+
+/**
+ * リクエストの各段階のタイムアウトを監視するタイマ
+ * @private
+ */
+export class _RequestTimer {
+    private _options: TimeoutOptions;
+    private _onTimeout: (phase: string, limit: number) => void;
+    private _timers: {[phase: string]: any} = {};
+    private _stopped = false;
+    private _connected = false;
+    private _responded = false;
+
+    /** 送信開始日時(エポックミリ秒) */
+    startedAt: number = null;
+    /** 接続の確立日時(エポックミリ秒)。検知できない場合は null */
+    connectedAt: number = null;
+    /** 応答の受信開始日時(エポックミリ秒) */
+    respondedAt: number = null;
+
+    /**
+     * @param {TimeoutOptions} options タイムアウトのオプション
+     * @param {function} onTimeout タイムアウト時に呼び出す関数。引数は種別と制限時間
+     */
+    constructor(options: TimeoutOptions, onTimeout: (phase: string, limit: number) => void) {
+        this._options = options;
+        this._onTimeout = onTimeout;
+    }
+
+    /**
+     * 監視を開始する。
+     * 接続の確立を検知できない通信方式では、接続・応答開始の制限時間をいずれも送信開始から計測する。
+     * @param {boolean} observeConnect 接続の確立を検知できる場合は true
+     */
+    start(observeConnect: boolean): void {
+        this.startedAt = Date.now();
+        this._set(TIMEOUT_TOTAL);
+        this._set(TIMEOUT_CONNECT);
+        if (!observeConnect) {
+            this._set(TIMEOUT_FIRST_BYTE);
+        }
+    }
+
+    /**
+     * 接続が確立した
+     */
+    connected(): void {
+        if (this._connected) {
+            return;
+        }
+        this._connected = true;
+        this.connectedAt = Date.now();
+        this._clear(TIMEOUT_CONNECT);
+        if (!this._responded) {
+            this._set(TIMEOUT_FIRST_BYTE);
+        }
+    }
+
+    /**
+     * 応答の受信を開始した
+     */
+    responseStarted(): void {
+        if (this._responded) {
+            return;
+        }
+        this._responded = true;
+        this.respondedAt = Date.now();
+        this._clear(TIMEOUT_CONNECT);
+        this._clear(TIMEOUT_FIRST_BYTE);
+    }
+
+    /**
+     * 監視を終了する
+     */
+    stop(): void {
+        this._stopped = true;
+        for (const phase of TIMEOUT_PHASES) {
+            this._clear(phase);
+        }
+    }
+
+    private _set(phase: string): void {
+        const limit: number = (this._options as any)[phase];
+        if (this._stopped || !(limit > 0)) {
+            return;
+        }
+        this._timers[phase] = setTimeout(() => {
+            this._timers[phase] = null;
+            if (!this._stopped) {
+                this.stop();
+                this._onTimeout(phase, limit);
+            }
+        }, limit);
+    }
+
+    private _clear(phase: string): void {
+        const timer = this._timers[phase];
+        if (timer != null) {
+            clearTimeout(timer);
+            this._timers[phase] = null;
+        }
+    }
+}
@@ -4,6 +4,7 @@ import {_createError, _errorText, _promisify, Callbacks, JsonObject, nbError, nb
 import {_SdeRequest} from "./SdeRequest";
 import {ApiRequest, HttpRequest, QueryParams} from "./HttpRequest";
 import {AccountLink} from "./AccountLink";
+import {SESSION_EVENT_LOGIN, SESSION_EVENT_LOGOUT} from "./SessionEvents";
 
 import {Promise} from "es6-promise";
 
@@ -226,13 +227,13 @@ export class User implements UserJson {
 
 
     protected _setUserInfo(response: string) {
-        nbLogger("User._setUserInfo#start");
+        nbLogger("User._setUserInfo#start", this._service);
 
         let jsonObj: UserJson;
         try {
             jsonObj = JSON.parse(response);
         } catch (undefined) {
-            nbError("User._setUserInfo#json error.");
+            nbError("User._setUserInfo#json error.", this._service);
             jsonObj = null;
         }
 
@@ -353,7 +354,7 @@ export class User implements UserJson {
                 break;
 
             default:
-                nbError("Invalid property: " + property);
+                nbError("Invalid property: " + property, this._service);
                 throw new Error("Invalid property: " + property);
         }
     }
@@ -416,7 +417,7 @@ export class User implements UserJson {
                 return this.primaryLinkedUserId;
 
             default:
-                nbError("Invalid property");
+                nbError("Invalid property", this._service);
                 throw new Error("Invalid property name");
         }
     }
@@ -456,15 +457,16 @@ export class User implements UserJson {
      * </ul>
      */
     register(callbacks?: Callbacks): Promise<User> {
-        nbLogger("User.register#start");
+        nbLogger("User.register#start", this._service);
 
         let request: ApiRequest;
         if (this._service.isOffline()) {
             request = new _SdeRequest("NebulaUser", "register");
         } else {
             const path = "/users";
-            nbLogger("User.register#REST API Request path = " + path);
+            nbLogger("User.register#REST API Request path = " + path, this._service);
             request = new HttpRequest(this._service, path);
+            request._applyCallbackOptions(callbacks);
             request.setMethod("POST");
             request.setContentType("application/json");
         }
@@ -493,18 +495,18 @@ export class User implements UserJson {
 
         const promise = request.execute()
                 .then((response) => {
-                    nbLogger("User.register#success callback start");
-                    nbLogger("User.register#response = " + response);
+                    nbLogger("User.register#success callback start", this._service);
+                    nbLogger("User.register#response = " + response, this._service);
                     this._setUserInfo(response);
                     return this;
                 })
                 .catch((error) => {
-                    nbLogger("User.register#error callback start");
-                    nbLogger(("User.register#error = " + (_errorText(error))));
+                    nbLogger("User.register#error callback start", this._service);
+                    nbLogger(("User.register#error = " + (_errorText(error))), this._service);
                     return Promise.reject(error);
                 });
 
-        nbLogger("User.register#end");
+        nbLogger("User.register#end", this._service);
         return _promisify(promise, callbacks);
     }
 
@@ -559,7 +561,7 @@ export class User implements UserJson {
     static login(userInfo: LoginInfo, callbacks?: Callbacks): Promise<User> { return null; }
 
     protected static _login(service: NebulaService, userInfo: LoginInfo, callbacks?: Callbacks): Promise<User> {
-        nbLogger("User.login#start");
+        nbLogger("User.login#start", service);
         if (userInfo == null || (userInfo.email == null && userInfo.username == null && userInfo.token == null)) {
             throw new Error("User.login: No username nor email nor token");
         }
@@ -572,8 +574,9 @@ export class User implements UserJson {
             request = new _SdeRequest("NebulaUser", "login");
         } else {
             const path = "/login";
-            nbLogger("User.login#REST API Request path = " + path);
+            nbLogger("User.login#REST API Request path = " + path, service);
             request = new HttpRequest(service, path);
+            request._applyCallbackOptions(callbacks);
             request.setSessionToken(null);
             request.setMethod("POST");
             request.setContentType("application/json");
@@ -590,19 +593,20 @@ export class User implements UserJson {
 
         const promise = request.execute()
             .then((response) => {
-                nbLogger("User.login#success callback start");
-                nbLogger("User.login#response = " + response);
+                nbLogger("User.login#success callback start", service);
+                nbLogger("User.login#response = " + response, service);
                 user._setUserInfo(response);
                 service.setCurrentUser(user);
+                service._sessionEvents.emit(SESSION_EVENT_LOGIN, service.getCurrentUser());
                 return user;
             })
             .catch((error) => {
-                nbLogger("User.login#error callback start");
-                nbLogger(("User.login#error = " + (_errorText(error))));
+                nbLogger("User.login#error callback start", service);
+                nbLogger(("User.login#error = " + (_errorText(error))), service);
                 return Promise.reject(error);
             });
 
-        nbLogger("User.login#end");
+        nbLogger("User.login#end", service);
         return _promisify(promise, callbacks);
     }
 
@@ -616,34 +620,41 @@ export class User implements UserJson {
     static logout(callbacks?: Callbacks): Promise<void> { return null; }
 
     protected static _logout(service: NebulaService, callbacks?: Callbacks): Promise<void> {
-        nbLogger("User.logout#start");
+        nbLogger("User.logout#start", service);
 
         let request: ApiRequest;
         if (service.isOffline()) {
             request = new _SdeRequest("NebulaUser", "logout");
         } else {
             const path = "/login";
-            nbLogger("User.logout#REST API Request path = " + path);
+            nbLogger("User.logout#REST API Request path = " + path, service);
             request = new HttpRequest(service, path);
+            request._applyCallbackOptions(callbacks);
             request.setMethod("DELETE");
             request.setContentType("application/json");
         }
 
+        const removeCurrentUser = () => {
+            const current = service._loadCurrentUser();
+            service.removeCurrentUser();
+            service._sessionEvents.emit(SESSION_EVENT_LOGOUT, current);
+        };
+
         const promise = request.execute()
                 .then((response) => {
-                    nbLogger("User.logout#success callback start");
-                    nbLogger("User.logout#response = " + response);
-                    service.removeCurrentUser();
+                    nbLogger("User.logout#success callback start", service);
+                    nbLogger("User.logout#response = " + response, service);
+                    removeCurrentUser();
                     return;
                 })
                 .catch((error) => {
-                    nbLogger("User.logout#error callback start");
-                    nbLogger(("User.logout#error = " + (_errorText(error))));
-                    service.removeCurrentUser();
+                    nbLogger("User.logout#error callback start", service);
+                    nbLogger(("User.logout#error = " + (_errorText(error))), service);
+                    removeCurrentUser();
                     return Promise.reject(error);
                 });
 
-        nbLogger("User.logout#end");
+        nbLogger("User.logout#end", service);
         return _promisify(promise, callbacks);
     }
 
@@ -781,7 +792,7 @@ export class User implements UserJson {
     static queryCurrent(callbacks?: Callbacks): Promise<User> { return null; }
 
     protected static _queryCurrent(service: NebulaService, callbacks?: Callbacks): Promise<User> {
-        nbLogger("User.queryCurrent#start");
+        nbLogger("User.queryCurrent#start", service);
 
         let request: ApiRequest;
         if (service.isOffline()) {
@@ -792,8 +803,9 @@ export class User implements UserJson {
             request = new _SdeRequest("NebulaUser", "current");
         } else {
             const path = "/users/current";
-            nbLogger("User.queryCurrent#REST API Request path = " + path);
+            nbLogger("User.queryCurrent#REST API Request path = " + path, service);
             request = new HttpRequest(service, path);
+            request._applyCallbackOptions(callbacks);
             // REST APIは、session tokenが必須だが、クライアント証明書認証の
             // セッショントークンが付与されないことがあるため、optional扱いとする
             // request.setSessionToken(_currentObj.sessionToken);
@@ -803,19 +815,19 @@ export class User implements UserJson {
 
         const promise = request.execute()
                 .then((response) => {
-                    nbLogger("User.queryCurrent#success callback start");
-                    nbLogger("User.queryCurrent#response = " + response);
+                    nbLogger("User.queryCurrent#success callback start", service);
+                    nbLogger("User.queryCurrent#response = " + response, service);
                     const user = new service.User();
                     user._setUserInfo(response);
                     return user;
                 })
                 .catch((error) => {
-                    nbLogger("User.queryCurrent#error callback start");
-                    nbLogger(("User.queryCurrent#error = " + (_errorText(error))));
+                    nbLogger("User.queryCurrent#error callback start", service);
+                    nbLogger(("User.queryCurrent#error = " + (_errorText(error))), service);
                     return Promise.reject(error);
                 });
 
-        nbLogger("User.queryCurrent#end");
+        nbLogger("User.queryCurrent#end", service);
         return _promisify(promise, callbacks);
     }
 
@@ -874,7 +886,7 @@ export class User implements UserJson {
     static query(conditions: UserQuery, callbacks?: Callbacks): Promise<User[]> { return null; }
 
     protected static _query(service: NebulaService, conditions: UserQuery, callbacks?: Callbacks): Promise<User[]> {
-        nbLogger("User.query#start");
+        nbLogger("User.query#start", service);
 
         let request: ApiRequest;
         if (service.isOffline()) {
@@ -904,8 +916,9 @@ export class User implements UserJson {
             } // note: conditions 不正時は例外を throw する
 
 
-            nbLogger("User.query#REST API Request path = " + path);
+            nbLogger("User.query#REST API Request path = " + path, service);
             request = new HttpRequest(service, path);
+            request._applyCallbackOptions(callbacks);
             request.setMethod("GET");
             request.setQueryParams(queryParams);
             request.setContentType("application/json");
@@ -913,8 +926,8 @@ export class User implements UserJson {
 
         const promise = request.execute()
                 .then((response) => {
-                    nbLogger("User.query#success callback start");
-                    nbLogger("User.query#response = " + response);
+                    nbLogger("User.query#success callback start", service);
+                    nbLogger("User.query#response = " + response, service);
                     const obj = JSON.parse(response);
                     let objArray: JsonObject[] = [];
                     const userArray: User[] = [];
@@ -943,12 +956,12 @@ export class User implements UserJson {
                     }
                 })
                 .catch((error) => {
-                    nbLogger("User.query#error callback start");
-                    nbLogger(("User.query#error = " + (_errorText(error))));
+                    nbLogger("User.query#error callback start", service);
+                    nbLogger(("User.query#error = " + (_errorText(error))), service);
                     return Promise.reject(error);
                 });
 
-        nbLogger("User.query#end");
+        nbLogger("User.query#end", service);
         return _promisify(promise, callbacks);
     }
 
@@ -1000,10 +1013,10 @@ export class User implements UserJson {
         let path: string;
         let request: ApiRequest;
         let error: any;
-        nbLogger("User.update#start");
+        nbLogger("User.update#start", this._service);
 
         if (this._id === null) {
-            nbLogger("User.update: no user id");
+            nbLogger("User.update: no user id", this._service);
             error = _createError(400, "Bad Request (local)", "no user id.");
             return _promisify(Promise.reject(error), callbacks);
         }
@@ -1015,8 +1028,9 @@ export class User implements UserJson {
             updateParams._id = this._id;
         } else {
             path = "/users/" + this._id;
-            nbLogger("User.update#REST API Request path = " + path);
+            nbLogger("User.update#REST API Request path = " + path, this._service);
             request = new HttpRequest(this._service, path);
+            request._applyCallbackOptions(callbacks);
             request.setMethod("PUT");
             request.setContentType("application/json");
             delete updateParams._id;
@@ -1042,18 +1056,18 @@ export class User implements UserJson {
 
         const promise = request.execute()
                 .then((response) => {
-                    nbLogger("User.update#success callback start");
-                    nbLogger("User.update#response = " + response);
+                    nbLogger("User.update#success callback start", this._service);
+                    nbLogger("User.update#response = " + response, this._service);
                     this._setUserInfo(response);
                     return this;
                 })
                 .catch((error) => {
-                    nbLogger("User.update#error callback start");
-                    nbLogger(("User.update#error = " + (_errorText(error))));
+                    nbLogger("User.update#error callback start", this._service);
+                    nbLogger(("User.update#error = " + (_errorText(error))), this._service);
                     return Promise.reject(error);
                 });
 
-        nbLogger("User.update#end");
+        nbLogger("User.update#end", this._service);
         return _promisify(promise, callbacks);
     }
 
@@ -1088,10 +1102,10 @@ export class User implements UserJson {
     }
 
     private _remove(callbacks?: Callbacks): Promise<void> {
-        nbLogger("User.remove#start");
+        nbLogger("User.remove#start", this._service);
 
         if (this._id === null) {
-            nbLogger("User.remove: no user id.");
+            nbLogger("User.remove: no user id.", this._service);
             const error = _createError(400, "Bad argument (local)", "no user id.");
             return _promisify(Promise.reject(error), callbacks);
         }
@@ -1105,20 +1119,21 @@ export class User implements UserJson {
             });
         } else {
             const path = "/users/" + this._id;
-            nbLogger("User.remove#REST API Request path = " + path);
+            nbLogger("User.remove#REST API Request path = " + path, this._service);
             request = new HttpRequest(this._service, path);
+            request._applyCallbackOptions(callbacks);
             request.setMethod("DELETE");
         }
 
         const promise = request.execute()
                 .then((response) => {
-                    nbLogger("User.remove#success callback start");
-                    nbLogger("User.remove#response = " + response);
+                    nbLogger("User.remove#success callback start", this._service);
+                    nbLogger("User.remove#response = " + response, this._service);
                     const _currentUser = this._service.getCurrentUser();
 
                     if (_currentUser !== null) {
                         if (this._id === _currentUser._id) {
-                            nbLogger("User.remove#delete user is current user");
+                            nbLogger("User.remove#delete user is current user", this._service);
                             this._service.removeCurrentUser();
                         }
                     }
@@ -1126,12 +1141,12 @@ export class User implements UserJson {
                     return;
                 })
                 .catch((error) => {
-                    nbLogger("User.remove#error callback start");
-                    nbLogger(("User.remove#error = " + (_errorText(error))));
+                    nbLogger("User.remove#error callback start", this._service);
+                    nbLogger(("User.remove#error = " + (_errorText(error))), this._service);
                     return Promise.reject(error);
                 });
 
-        nbLogger("User.remove#end");
+        nbLogger("User.remove#end", this._service);
         return _promisify(promise, callbacks);
     }
 
@@ -1165,7 +1180,7 @@ export class User implements UserJson {
     static resetPassword(userInfo: UserJson, callbacks?: Callbacks): Promise<void> { return null; }
 
     protected static _resetPassword(service: NebulaService, userInfo: UserJson, callbacks?: Callbacks): Promise<void> {
-        nbLogger("User.resetPassword#start");
+        nbLogger("User.resetPassword#start", service);
         if (userInfo == null || (userInfo.email == null && userInfo.username == null)) {
             throw new Error("User.resetPassword: bad arguments");
         }
@@ -1175,8 +1190,9 @@ export class User implements UserJson {
             request = new _SdeRequest("NebulaUser", "resetPassword");
         } else {
             const path = "/request_password_reset";
-            nbLogger("User.resetPassword#REST API Request path = " + path);
+            nbLogger("User.resetPassword#REST API Request path = " + path, service);
             request = new HttpRequest(service, path);
+            request._applyCallbackOptions(callbacks);
             request.setSessionToken(null);
             request.setMethod("POST");
             request.setContentType("application/json");
@@ -1202,17 +1218,17 @@ export class User implements UserJson {
 
         const promise = request.execute()
                 .then((response) => {
-                    nbLogger("User.resetPassword#success callback start");
-                    nbLogger("User.resetPassword#response = " + response);
+                    nbLogger("User.resetPassword#success callback start", service);
+                    nbLogger("User.resetPassword#response = " + response, service);
                     return;
                 })
                 .catch((error) => {
-                    nbLogger("User.resetPassword#error callback start");
-                    nbLogger(("User.resetPassword#error = " + (_errorText(error))));
+                    nbLogger("User.resetPassword#error callback start", service);
+                    nbLogger(("User.resetPassword#error = " + (_errorText(error))), service);
                     return Promise.reject(error);
                 });
 
-        nbLogger("User.delete#end");
+        nbLogger("User.delete#end", service);
         return _promisify(promise, callbacks);
     }
 
@@ -1254,7 +1270,7 @@ export class User implements UserJson {
     }
 
     protected _getAccountLinks(callbacks?: Callbacks): Promise<AccountLink[]> {
-        nbLogger("User.getAccountLinks#start");
+        nbLogger("User.getAccountLinks#start", this._service);
 
         if (this._service.isOffline()) {
             throw new Error("User.getAccountLinks: offline mode is not supported");
@@ -1264,13 +1280,14 @@ export class User implements UserJson {
         }
 
         const path = "/users/" + this._id + "/links";
-        nbLogger("User.getAccountLinks#REST API Request path = " + path);
+        nbLogger("User.getAccountLinks#REST API Request path = " + path, this._service);
         const request: ApiRequest = new HttpRequest(this._service, path);
+        request._applyCallbackOptions(callbacks);
         request.setMethod("GET");
 
         const promise = request.execute()
                 .then((response) => {
-                    nbLogger("User.getAccountLinks#response = " + response);
+                    nbLogger("User.getAccountLinks#response = " + response, this._service);
                     const resObj = JSON.parse(response);
                     const resArray = resObj.results;
                     const links: AccountLink[] = [];
@@ -1286,11 +1303,11 @@ export class User implements UserJson {
                     return links;
                 })
                 .catch((error) => {
-                    nbLogger(("User.getAccountLinks#error = " + (_errorText(error))));
+                    nbLogger(("User.getAccountLinks#error = " + (_errorText(error))), this._service);
                     return Promise.reject(error);
                 });
 
-        nbLogger("User.getAccountLinks#end");
+        nbLogger("User.getAccountLinks#end", this._service);
         return _promisify(promise, callbacks);
     }
 
@@ -1333,7 +1350,7 @@ export class User implements UserJson {
     }
 
     protected _deleteAccountLink(linkedUserId: string, callbacks?: Callbacks): Promise<void> {
-        nbLogger("User.deleteAccountLink#start");
+        nbLogger("User.deleteAccountLink#start", this._service);
 
         if (this._service.isOffline()) {
             throw new Error("User.deleteAccountLink: offline mode is not supported");
@@ -1347,21 +1364,22 @@ export class User implements UserJson {
         }
 
         const path = "/users/" + this._id + "/links/" + linkedUserId;
-        nbLogger("User.deleteAccountLink#REST API Request path = " + path);
+        nbLogger("User.deleteAccountLink#REST API Request path = " + path, this._service);
         const request: ApiRequest = new HttpRequest(this._service, path);
+        request._applyCallbackOptions(callbacks);
         request.setMethod("DELETE");
 
         const promise = request.execute()
                 .then((response) => {
-                    nbLogger("User.deleteAccountLink#response = " + response);
+                    nbLogger("User.deleteAccountLink#response = " + response, this._service);
                     return;
                 })
                 .catch((error) => {
-                    nbLogger(("User.deleteAccountLink#error = " + (_errorText(error))));
+                    nbLogger(("User.deleteAccountLink#error = " + (_errorText(error))), this._service);
                     return Promise.reject(error);
                 });
 
-        nbLogger("User.deleteAccountLink#end");
+        nbLogger("User.deleteAccountLink#end", this._service);
         return _promisify(promise, callbacks);
     }
 }
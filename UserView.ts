@@ -0,0 +1,49 @@
+import {_SessionEventEmitter, SESSION_EVENT_CURRENT_USER_CHANGED} from "./SessionEvents";
+import {_onCurrentUserChanged} from "./ResponseCache";
+import {_SessionStoreCache, MemorySessionStore} from "./SessionStore";
+import {_SessionSync} from "./SessionSync";
+import {declareUser} from "./UserDecl";
+import {declareGroup} from "./GroupDecl";
+import {declareObjectBucket} from "./ObjectBucketDecl";
+import {declareFileBucket} from "./FileBucketDecl";
+import {declareCustomApi} from "./CustomApi";
+import {declarePushSender} from "./push/PushSender";
+import {NebulaService} from "./NebulaService";
+
+/**
+ * @description 指定したセッショントークンでリクエストを実行するサービスのビューを生成する。
+ * <p>
+ * ビューは元のサービスをプロトタイプとするオブジェクトで、設定・通信処理(インターセプタ、リクエストスケジューラ等)は
+ * 元のサービスと共有する。カレントユーザ(セッションストア)、セッションイベント、セッション管理はビュー毎に独立しており、
+ * ビューでのログイン・ログアウト等は元のサービス・他のビューに影響しない。
+ * 書き込みキューは使用しない(通信エラー時の書き込みはキューに登録されず、エラーとなる)。
+ * @param {NebulaService} service 元のサービス
+ * @param {string} sessionToken セッショントークン。null の場合は未ログイン
+ * @return {NebulaService} ビュー
+ * @private
+ */
+export const _createUserView = (service: NebulaService, sessionToken: string): NebulaService => {
+    const view: NebulaService = Object.create(service);
+
+    // カレントユーザはビュー内(メモリ)に保持する
+    view._localStorage = new _SessionStoreCache(view, new MemorySessionStore());
+    view._sessionEvents = new _SessionEventEmitter(view);
+    view._sessionEvents.add(SESSION_EVENT_CURRENT_USER_CHANGED, (event) => _onCurrentUserChanged(view, event));
+    view._sessionSync = new _SessionSync(view);
+    // セッション管理は元のサービスのカレントユーザを更新するため、使用しない
+    view._sessionManager = null;
+    // 書き込みキューは元のサービスのカレントユーザで再送するため、使用しない
+    view._writeQueue = null;
+
+    declareUser(view);
+    declareGroup(view);
+    declareObjectBucket(view);
+    declareFileBucket(view);
+    declareCustomApi(view);
+    declarePushSender(view);
+
+    if (sessionToken != null) {
+        view.setSessionToken(sessionToken);
+    }
+    return view;
+};
@@ -0,0 +1,804 @@
+import {JsonObject, nbError, nbLogger} from "./Head";
+import {fs, isNodeJs} from "./NodeSupport";
+import {CircuitOpenError, ConflictError, NetworkError, TimeoutError} from "./Errors";
+import {Acl, AclJson} from "./Acl";
+import {FileMetadata} from "./FileMetadata";
+import {ObjectBucket} from "./ObjectBucket";
+import {FileBucket} from "./FileBucket";
+import {NebulaService} from "./NebulaService";
+
+import {Promise} from "es6-promise";
+import {Buffer} from "buffer";
+
+/**
+ * 書き込みキューの操作種別: オブジェクトの保存 (ObjectBucket#save, ObjectBucket#insert)
+ */
+export const WRITE_OBJECT_SAVE = "object-save";
+
+/**
+ * 書き込みキューの操作種別: オブジェクトの削除 (ObjectBucket#remove)
+ */
+export const WRITE_OBJECT_REMOVE = "object-remove";
+
+/**
+ * 書き込みキューの操作種別: ファイルの保存 (FileBucket#saveAs, FileBucket#save)
+ */
+export const WRITE_FILE_SAVE = "file-save";
+
+/**
+ * 書き込みキューの項目。JSON に変換して永続化される。
+ */
+export interface WriteQueueItem {
+    /** 項目ID */
+    id?: string;
+    /** 操作種別 ("object-save", "object-remove", "file-save") */
+    type: string;
+    /** バケット名 */
+    bucketName: string;
+    /** object-save: 保存するオブジェクト */
+    object?: JsonObject;
+    /** object-save: 新規保存(insert)の場合は true */
+    isNew?: boolean;
+    /** object-remove: オブジェクトID */
+    objectId?: string;
+    /** 照合する ETag 値。object-save ではオブジェクトの etag、object-remove, file-save では引数の etag */
+    etag?: string;
+    /** file-save: ファイル名 */
+    fileName?: string;
+    /** file-save: ファイルデータ。fileEncoding が "base64" の場合は Base64 エンコードされている */
+    fileData?: any;
+    /** file-save: ファイルデータのエンコーディング ("text" または "base64") */
+    fileEncoding?: string;
+    /** file-save: 既存ファイルの更新(FileBucket#save)の場合は true */
+    update?: boolean;
+    /** file-save: コンテンツタイプ */
+    contentType?: string;
+    /** file-save: ACL */
+    acl?: AclJson;
+    /** file-save: メタデータのオプション */
+    options?: object;
+    /** 登録日時(エポックミリ秒) */
+    createdAt?: number;
+}
+
+/**
+ * 書き込みキューのイベント
+ */
+export interface WriteQueueEvent {
+    /**
+     * イベント種別
+     * <ul>
+     *   <li>"enqueued" : 項目が登録された</li>
+     *   <li>"succeeded" : 再送に成功した</li>
+     *   <li>"conflict" : 再送時にデータ衝突(409 Conflict)が発生した。項目は削除される</li>
+     *   <li>"failed" : 再送時に通信エラー以外のエラーが発生した。項目は削除される</li>
+     * </ul>
+     */
+    type: string;
+    /** 対象の項目 */
+    item: WriteQueueItem;
+    /** succeeded: 処理結果 (保存したオブジェクト、削除したオブジェクトID、FileMetadata) */
+    result?: any;
+    /** conflict, failed: エラー */
+    error?: any;
+}
+
+/**
+ * 書き込みキューのイベントリスナ
+ */
+export type WriteQueueListener = (event: WriteQueueEvent) => void;
+
+/**
+ * 書き込みキューの再送結果
+ */
+export interface WriteQueueReplayResult {
+    /** 再送に成功した項目数 */
+    succeeded: number;
+    /** データ衝突となった項目数 */
+    conflicts: number;
+    /** 通信エラー以外で失敗した項目数 */
+    failed: number;
+    /** 再送できずに残っている項目数 */
+    remaining: number;
+}
+
+/**
+ * 書き込みキューの永続化バックエンド。
+ * <p>
+ * 各メソッドは Promise を返却する。
+ */
+export interface WriteQueueBackend {
+    /** 全項目を読み込む。保存されていない場合は空配列で resolve する */
+    load(): Promise<WriteQueueItem[]>;
+    /** 全項目を保存する */
+    save(items: WriteQueueItem[]): Promise<void>;
+}
+
+/**
+ * 書き込みキューのオプション
+ */
+export interface WriteQueueOptions {
+    /**
+     * 永続化バックエンド。
+     * 省略時は、IndexedDB または localStorage が使用可能な場合はそれを使用し、使用できない場合はメモリ上にのみ保持する
+     */
+    backend?: WriteQueueBackend;
+    /** 最大項目数。超えた場合は登録しない。デフォルトは 1000 */
+    maxItems?: number;
+    /** ブラウザの online イベントで自動的に再送する場合は true。デフォルトは true */
+    replayOnOnline?: boolean;
+    /** 定期的に再送する間隔(ミリ秒)。0 の場合は定期再送しない。デフォルトは 0 */
+    replayInterval?: number;
+}
+
+const DEFAULT_WRITE_QUEUE_OPTIONS: WriteQueueOptions = {
+    backend: null,
+    maxItems: 1000,
+    replayOnOnline: true,
+    replayInterval: 0
+};
+
+/**
+ * @description 書き込みキューのオプションの未指定項目にデフォルト値を設定する
+ * @param {WriteQueueOptions} options オプション
+ * @return {WriteQueueOptions} オプション
+ * @private
+ */
+export const _normalizeWriteQueueOptions = (options: WriteQueueOptions): WriteQueueOptions => {
+    const result: WriteQueueOptions = {};
+    for (const key of Object.keys(DEFAULT_WRITE_QUEUE_OPTIONS)) {
+        const value = (options != null) ? (options as any)[key] : undefined;
+        (result as any)[key] = (value !== undefined) ? value : (DEFAULT_WRITE_QUEUE_OPTIONS as any)[key];
+    }
+    return result;
+};
+
+/**
+ * localStorage 互換のストレージ
+ * @private
+ */
+interface WriteQueueStorageLike {
+    getItem(key: string): string;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+/**
+ * @class StorageWriteQueueBackend
+ * @classdesc localStorage/sessionStorage を使用する書き込みキューバックエンド。
+ * @example
+ * Nebula.setWriteQueue(new Nebula.WriteQueue({backend: new Nebula.StorageWriteQueueBackend(localStorage)}));
+ */
+export class StorageWriteQueueBackend implements WriteQueueBackend {
+    private _storage: WriteQueueStorageLike;
+    private _key: string;
+
+    /**
+     * @param {Storage} storage ストレージ (localStorage, sessionStorage 等)
+     * @param {string} key ストレージのキー。デフォルトは "NebulaWriteQueue"
+     */
+    constructor(storage: WriteQueueStorageLike, key = "NebulaWriteQueue") {
+        this._storage = storage;
+        this._key = key;
+    }
+
+    load(): Promise<WriteQueueItem[]> {
+        return Promise.resolve().then(() => {
+            const value = this._storage.getItem(this._key);
+            return (value != null) ? JSON.parse(value) as WriteQueueItem[] : [];
+        });
+    }
+
+    save(items: WriteQueueItem[]): Promise<void> {
+        return Promise.resolve().then(() => {
+            if (items.length === 0) {
+                this._storage.removeItem(this._key);
+            } else {
+                this._storage.setItem(this._key, JSON.stringify(items));
+            }
+        });
+    }
+}
+
+/**
+ * @class FileWriteQueueBackend
+ * @classdesc ファイルを使用する書き込みキューバックエンド。Node.js でのみ使用できる。
+ * @example
+ * Nebula.setWriteQueue(new Nebula.WriteQueue({backend: new Nebula.FileWriteQueueBackend("/var/tmp/queue.json")}));
+ */
+export class FileWriteQueueBackend implements WriteQueueBackend {
+    private _path: string;
+
+    /**
+     * @param {string} path ファイルのパス
+     */
+    constructor(path: string) {
+        if (fs == null) {
+            throw new Error("No file system support");
+        }
+        this._path = path;
+    }
+
+    load(): Promise<WriteQueueItem[]> {
+        return new Promise<WriteQueueItem[]>((resolve, reject) => {
+            fs.readFile(this._path, "utf8", (err: any, data: string) => {
+                if (err) {
+                    if (err.code === "ENOENT") {
+                        resolve([]);
+                    } else {
+                        reject(err);
+                    }
+                    return;
+                }
+                try {
+                    resolve(data ? JSON.parse(data) : []);
+                } catch (e) {
+                    reject(e);
+                }
+            });
+        });
+    }
+
+    save(items: WriteQueueItem[]): Promise<void> {
+        // 書き込み途中で中断しても壊れないよう、一時ファイルに書き込んでから置き換える
+        const tmpPath = this._path + ".tmp";
+        return new Promise<void>((resolve, reject) => {
+            fs.writeFile(tmpPath, JSON.stringify(items), "utf8", (err: any) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+                fs.rename(tmpPath, this._path, (err2: any) => err2 ? reject(err2) : resolve());
+            });
+        });
+    }
+}
+
+/**
+ * @class IndexedDbWriteQueueBackend
+ * @classdesc IndexedDB を使用する書き込みキューバックエンド。ブラウザでのみ使用できる。
+ * @example
+ * Nebula.setWriteQueue(new Nebula.WriteQueue({backend: new Nebula.IndexedDbWriteQueueBackend("MyAppWriteQueue")}));
+ */
+export class IndexedDbWriteQueueBackend implements WriteQueueBackend {
+    private static readonly STORE_NAME = "queue";
+    private static readonly ITEMS_KEY = "items";
+
+    private _dbName: string;
+    private _db: Promise<IDBDatabase> = null;
+
+    /**
+     * @param {string} dbName データベース名。デフォルトは "NebulaWriteQueue"
+     */
+    constructor(dbName = "NebulaWriteQueue") {
+        if (typeof indexedDB === "undefined" || indexedDB == null) {
+            throw new Error("No IndexedDB support");
+        }
+        this._dbName = dbName;
+    }
+
+    load(): Promise<WriteQueueItem[]> {
+        return this._open().then((db) => new Promise<WriteQueueItem[]>((resolve, reject) => {
+            const req = db.transaction(IndexedDbWriteQueueBackend.STORE_NAME, "readonly")
+                .objectStore(IndexedDbWriteQueueBackend.STORE_NAME)
+                .get(IndexedDbWriteQueueBackend.ITEMS_KEY);
+            req.onsuccess = () => resolve(req.result || []);
+            req.onerror = () => reject(req.error);
+        }));
+    }
+
+    save(items: WriteQueueItem[]): Promise<void> {
+        return this._open().then((db) => new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(IndexedDbWriteQueueBackend.STORE_NAME, "readwrite");
+            tx.objectStore(IndexedDbWriteQueueBackend.STORE_NAME).put(items, IndexedDbWriteQueueBackend.ITEMS_KEY);
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        }));
+    }
+
+    private _open(): Promise<IDBDatabase> {
+        if (this._db == null) {
+            this._db = new Promise<IDBDatabase>((resolve, reject) => {
+                const req = indexedDB.open(this._dbName, 1);
+                req.onupgradeneeded = () => {
+                    req.result.createObjectStore(IndexedDbWriteQueueBackend.STORE_NAME);
+                };
+                req.onsuccess = () => resolve(req.result);
+                req.onerror = () => {
+                    this._db = null;
+                    reject(req.error);
+                };
+            });
+        }
+        return this._db;
+    }
+}
+
+/**
+ * @description 使用可能なデフォルトの永続化バックエンドを生成する
+ * @return {WriteQueueBackend} バックエンド。使用可能なものがない場合は null
+ * @private
+ */
+const _createDefaultWriteQueueBackend = (): WriteQueueBackend => {
+    if (typeof indexedDB !== "undefined" && indexedDB != null) {
+        return new IndexedDbWriteQueueBackend();
+    }
+    if (typeof localStorage !== "undefined" && localStorage != null) {
+        return new StorageWriteQueueBackend(localStorage);
+    }
+    return null;
+};
+
+/**
+ * @class WriteQueue
+ * @classdesc 書き込みキュークラス。
+ * <p>
+ * 通信エラー(NetworkError)・タイムアウト(TimeoutError)・サーキットブレーカによる遮断(CircuitOpenError)で失敗した書き込み操作
+ * (ObjectBucket#save, ObjectBucket#insert, ObjectBucket#remove, FileBucket#saveAs, FileBucket#save) を永続化し、
+ * 通信が回復した際に登録順に再送する。設定の不正等(LocalError)やサーバのエラー応答で失敗した操作は登録しない。
+ * <p>
+ * 新規作成(ObjectBucket#insert 等の新規保存、FileBucket#saveAs)は、重複を避けるため、
+ * リクエストがサーバに届いていないことが確実な場合(遮断、接続タイムアウト、接続の確立前の通信エラー)のみ登録する。
+ * 接続の確立を検知できない通信方式(ブラウザ)では、通信エラーとなった新規作成は登録されない。
+ * FileBucket#save は、ETag 値を指定した場合のみ登録する。
+ * <p>
+ * 書き込み操作自体は従来どおりエラーで失敗するが、エラーの queuedItem プロパティに登録した項目が設定される。
+ * <p>
+ * 再送時はオブジェクト・ファイルの ETag 値が照合されるため、オフライン中に他の端末で更新されたオブジェクト・ファイルは
+ * "conflict" イベントとして通知され、上書きされない。
+ * <p>
+ * SDE のオフラインモードでは使用されない。
+ * @example
+ * var queue = new Nebula.WriteQueue({backend: new Nebula.StorageWriteQueueBackend(localStorage)});
+ * queue.addListener(function(event) {
+ *     if (event.type === "conflict") {
+ *         console.log("conflict: " + event.item.bucketName);
+ *     }
+ * });
+ * Nebula.setWriteQueue(queue);
+ */
+export class WriteQueue {
+    private _options: WriteQueueOptions;
+    private _backend: WriteQueueBackend;
+    private _service: NebulaService = null;
+    private _items: WriteQueueItem[] = null;
+    private _loading: Promise<WriteQueueItem[]> = null;
+    private _saving: Promise<void> = Promise.resolve();
+    private _replaying: Promise<WriteQueueReplayResult> = null;
+    private _listeners: WriteQueueListener[] = [];
+    private _seq = 0;
+    private _onOnline: () => void = null;
+    private _timer: any = null;
+
+    /**
+     * @param {Object} options オプション
+     * <ul>
+     *   <li>backend (WriteQueueBackend) : 永続化バックエンド。
+     *       省略時は、IndexedDB または localStorage が使用可能な場合はそれを使用し、使用できない場合はメモリ上にのみ保持する</li>
+     *   <li>maxItems (number) : 最大項目数。超えた場合は登録しない。デフォルトは 1000</li>
+     *   <li>replayOnOnline (boolean) : ブラウザの online イベントで自動的に再送する場合は true。デフォルトは true</li>
+     *   <li>replayInterval (number) : 定期的に再送する間隔(ミリ秒)。0 の場合は定期再送しない。デフォルトは 0</li>
+     * </ul>
+     */
+    constructor(options?: WriteQueueOptions) {
+        this._options = _normalizeWriteQueueOptions(options);
+        this._backend = this._options.backend || _createDefaultWriteQueueBackend();
+    }
+
+    /**
+     * @memberOf WriteQueue
+     * @description 登録されている項目を登録順に返却する
+     * @return {Promise} 項目の配列
+     */
+    getItems(): Promise<WriteQueueItem[]> {
+        return this._load().then((items) => items.slice());
+    }
+
+    /**
+     * @memberOf WriteQueue
+     * @description 登録されている項目数を返却する
+     * @return {Promise} 項目数
+     */
+    size(): Promise<number> {
+        return this._load().then((items) => items.length);
+    }
+
+    /**
+     * @memberOf WriteQueue
+     * @description 項目を削除する
+     * @param {string} id 項目ID
+     * @return {Promise} 削除した場合は true
+     */
+    remove(id: string): Promise<boolean> {
+        return this._load().then((items) => {
+            const index = this._indexOf(id);
+            if (index < 0) {
+                return false;
+            }
+            items.splice(index, 1);
+            return this._persist().then(() => true);
+        });
+    }
+
+    /**
+     * @memberOf WriteQueue
+     * @description 全項目を削除する
+     * @return {Promise} Promise
+     */
+    clear(): Promise<void> {
+        return this._load().then((items) => {
+            items.splice(0, items.length);
+            return this._persist();
+        });
+    }
+
+    /**
+     * @memberOf WriteQueue
+     * @description イベントリスナを登録する
+     * @param {function} listener リスナ。引数は {@link WriteQueueEvent}
+     * @return {WriteQueue} this
+     */
+    addListener(listener: WriteQueueListener): WriteQueue {
+        this._listeners.push(listener);
+        return this;
+    }
+
+    /**
+     * @memberOf WriteQueue
+     * @description イベントリスナを削除する
+     * @param {function} listener リスナ
+     * @return {WriteQueue} this
+     */
+    removeListener(listener: WriteQueueListener): WriteQueue {
+        const index = this._listeners.indexOf(listener);
+        if (index >= 0) {
+            this._listeners.splice(index, 1);
+        }
+        return this;
+    }
+
+    /**
+     * @memberOf WriteQueue
+     * @description 登録されている項目を登録順に再送する。
+     * <p>
+     * 通信エラー・タイムアウト・遮断で失敗した場合は、その項目以降を残して終了する。
+     * ただし、新規作成の項目がサーバで処理済みの可能性がある失敗となった場合は、重複を避けるため "failed" として扱う。
+     * データ衝突(409 Conflict)となった項目、その他のエラーとなった項目は削除し、
+     * それぞれ "conflict", "failed" イベントで通知する。
+     * <p>
+     * 再送中に呼び出した場合は、実行中の再送の結果を返却する。
+     * @return {Promise} 再送結果 ({@link WriteQueueReplayResult})
+     */
+    replay(): Promise<WriteQueueReplayResult> {
+        if (this._replaying != null) {
+            return this._replaying;
+        }
+        if (this._service == null) {
+            return Promise.reject(new Error("WriteQueue is not attached to NebulaService"));
+        }
+
+        const result: WriteQueueReplayResult = {succeeded: 0, conflicts: 0, failed: 0, remaining: 0};
+        const done = () => {
+            this._replaying = null;
+        };
+        this._replaying = this._load().then(() => this._replayNext(result)).then((r) => {
+            done();
+            return r;
+        }, (e) => {
+            done();
+            return Promise.reject(e);
+        });
+        return this._replaying;
+    }
+
+    /**
+     * NebulaService に登録する。自動再送を開始する。
+     * @param {NebulaService} service サービス。null の場合は登録を解除し、自動再送を停止する。
+     * @private
+     */
+    _attach(service: NebulaService): void {
+        this._detach();
+        this._service = service;
+        if (service == null) {
+            return;
+        }
+
+        if (this._options.replayOnOnline && typeof window !== "undefined" && window != null &&
+            typeof window.addEventListener === "function") {
+            this._onOnline = () => this._autoReplay();
+            window.addEventListener("online", this._onOnline);
+        }
+        if (this._options.replayInterval > 0) {
+            this._timer = setInterval(() => this._autoReplay(), this._options.replayInterval);
+            if (this._timer != null && typeof this._timer.unref === "function") {
+                // Node.js: タイマによりプロセスの終了を妨げない
+                this._timer.unref();
+            }
+        }
+    }
+
+    /**
+     * 書き込み操作を登録する
+     * @param {WriteQueueItem} item 項目
+     * @return {Promise} 登録した項目。最大項目数を超えた場合は null
+     * @private
+     */
+    _enqueue(item: WriteQueueItem): Promise<WriteQueueItem> {
+        return this._load().then((items) => {
+            if (items.length >= this._options.maxItems) {
+                nbError("WriteQueue: queue is full, item dropped", this._service);
+                return null;
+            }
+            return _encodeFileData(item.fileData).then((encoded) => {
+                const queued: WriteQueueItem = {} as WriteQueueItem;
+                for (const key of Object.keys(item)) {
+                    (queued as any)[key] = (item as any)[key];
+                }
+                queued.id = Date.now().toString(36) + "-" + (this._seq++).toString(36);
+                queued.createdAt = Date.now();
+                if (encoded != null) {
+                    queued.fileData = encoded.data;
+                    queued.fileEncoding = encoded.encoding;
+                }
+                items.push(queued);
+                nbLogger("WriteQueue: enqueued " + queued.type + " " + queued.bucketName, this._service);
+                return this._persist().then(() => {
+                    this._emit({type: "enqueued", item: queued});
+                    return queued;
+                });
+            });
+        });
+    }
+
+    private _detach(): void {
+        if (this._onOnline != null) {
+            window.removeEventListener("online", this._onOnline);
+            this._onOnline = null;
+        }
+        if (this._timer != null) {
+            clearInterval(this._timer);
+            this._timer = null;
+        }
+    }
+
+    private _autoReplay(): void {
+        this.replay().catch((e) => {
+            nbError("WriteQueue: replay failed: " + e, this._service);
+        });
+    }
+
+    private _replayNext(result: WriteQueueReplayResult): Promise<WriteQueueReplayResult> {
+        if (this._items.length === 0 || this._service.isOffline()) {
+            result.remaining = this._items.length;
+            return Promise.resolve(result);
+        }
+
+        const item = this._items[0];
+        return Promise.resolve().then(() => this._execute(item)).then((response) => {
+            result.succeeded++;
+            return this._complete(item, {type: "succeeded", item, result: response});
+        }, (error) => {
+            if (_isQueueableError(error, item)) {
+                // 通信が回復していないため、以降の項目は次回再送する
+                result.remaining = this._items.length;
+                return Promise.reject(result);
+            }
+            if (error instanceof ConflictError) {
+                result.conflicts++;
+                return this._complete(item, {type: "conflict", item, error});
+            }
+            result.failed++;
+            return this._complete(item, {type: "failed", item, error});
+        }).then(() => this._replayNext(result), (e) => {
+            return (e === result) ? result : Promise.reject(e);
+        });
+    }
+
+    private _complete(item: WriteQueueItem, event: WriteQueueEvent): Promise<void> {
+        const index = this._indexOf(item.id);
+        if (index >= 0) {
+            this._items.splice(index, 1);
+        }
+        return this._persist().then(() => {
+            this._emit(event);
+        });
+    }
+
+    private _execute(item: WriteQueueItem): Promise<any> {
+        nbLogger("WriteQueue: replay " + item.type + " " + item.bucketName, this._service);
+        switch (item.type) {
+            case WRITE_OBJECT_SAVE: {
+                const bucket = new ObjectBucket(item.bucketName, undefined, this._service);
+                return bucket._save(item.object, item.isNew, undefined, false);
+            }
+            case WRITE_OBJECT_REMOVE: {
+                const bucket = new ObjectBucket(item.bucketName, undefined, this._service);
+                return bucket._remove(item.objectId, undefined, item.etag, false);
+            }
+            case WRITE_FILE_SAVE: {
+                const bucket = new FileBucket(item.bucketName, this._service);
+                let metadata: FileMetadata = null;
+                if (!item.update) {
+                    metadata = new FileMetadata();
+                    metadata.setContentType(item.contentType);
+                    if (item.acl != null) {
+                        metadata.setAcl(new Acl(item.acl));
+                    }
+                    if (item.options != null) {
+                        metadata.setOptions(item.options);
+                    }
+                }
+                const data = _decodeFileData(item.fileData, item.fileEncoding, item.contentType);
+                return bucket._save(item.fileName, data, metadata, item.update, undefined, false, item.etag);
+            }
+            default:
+                return Promise.reject(new Error("Unknown write queue item type: " + item.type));
+        }
+    }
+
+    private _emit(event: WriteQueueEvent): void {
+        for (const listener of this._listeners.slice()) {
+            try {
+                listener(event);
+            } catch (e) {
+                // リスナのエラーは無視する
+            }
+        }
+    }
+
+    private _indexOf(id: string): number {
+        for (let i = 0; i < this._items.length; i++) {
+            if (this._items[i].id === id) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    private _load(): Promise<WriteQueueItem[]> {
+        if (this._items != null) {
+            return Promise.resolve(this._items);
+        }
+        if (this._backend == null) {
+            this._items = [];
+            return Promise.resolve(this._items);
+        }
+        if (this._loading == null) {
+            this._loading = this._backend.load().then((items) => {
+                this._items = items || [];
+                return this._items;
+            }, (e) => {
+                nbError("WriteQueue: backend load failed: " + e, this._service);
+                this._items = [];
+                return this._items;
+            });
+        }
+        return this._loading;
+    }
+
+    private _persist(): Promise<void> {
+        if (this._backend == null) {
+            return Promise.resolve();
+        }
+        // 保存は直列に行い、最後の状態が書き込まれるようにする
+        const items = this._items.slice();
+        this._saving = this._saving.then(() => this._backend.save(items)).catch((e) => {
+            nbError("WriteQueue: backend save failed: " + e, this._service);
+        });
+        return this._saving;
+    }
+}
+
+/**
+ * @description 新規作成の項目か判定する。送信済みの場合に再送すると重複する。
+ * @param {WriteQueueItem} item 項目
+ * @return {boolean} 新規作成の場合は true
+ * @private
+ */
+const _isInsert = (item: WriteQueueItem): boolean => {
+    return (item.type === WRITE_OBJECT_SAVE && item.isNew) || (item.type === WRITE_FILE_SAVE && !item.update);
+};
+
+/**
+ * @description 書き込みキューに登録する(再送を続ける)エラーか判定する。
+ * 通信エラー、タイムアウト、遮断が対象。
+ * 新規作成は、リクエストがサーバに届いていないことが確実な場合(遮断、接続タイムアウト、接続失敗)のみ対象とする。
+ * @param error エラー
+ * @param {WriteQueueItem} item 項目
+ * @return {boolean} 登録する場合は true
+ * @private
+ */
+const _isQueueableError = (error: any, item: WriteQueueItem): boolean => {
+    if (error instanceof CircuitOpenError) {
+        // リクエストは送信されていない
+        return true;
+    }
+    if (_isInsert(item)) {
+        // 接続の確立後の失敗は、サーバで処理済みの可能性がある
+        return (error instanceof TimeoutError) ? error.phase === "connect" :
+            (error instanceof NetworkError && error.connected === false);
+    }
+    // 設定の不正等(LocalError)は NetworkError ではない
+    return error instanceof TimeoutError || error instanceof NetworkError;
+};
+
+/**
+ * @description 書き込み操作の失敗時に、書き込みキューが有効であれば操作を登録する。
+ * <p>
+ * 登録した場合はエラーの queuedItem プロパティに項目を設定する。いずれの場合もエラーで reject する。
+ * @param {NebulaService} service サービス
+ * @param error エラー
+ * @param {WriteQueueItem} item 項目
+ * @return {Promise} エラーで reject される Promise
+ * @private
+ */
+export const _enqueueWrite = (service: NebulaService, error: any, item: WriteQueueItem): Promise<any> => {
+    const queue = service.getWriteQueue();
+    if (queue == null || service.isOffline() || !_isQueueableError(error, item)) {
+        return Promise.reject(error);
+    }
+    if (item.type === WRITE_FILE_SAVE && item.update && item.etag == null) {
+        // ETag を照合できないため、再送時に他の端末の更新を上書きしないよう登録しない
+        return Promise.reject(error);
+    }
+    return queue._enqueue(item).then((queued) => {
+        if (queued != null) {
+            error.queuedItem = queued;
+        }
+        return Promise.reject(error);
+    }, (e) => {
+        nbError("WriteQueue: enqueue failed: " + e, service);
+        return Promise.reject(error);
+    });
+};
+
+/**
+ * @description ファイルデータを JSON に変換できる形式にする
+ * @param data 文字列、Blob、Buffer
+ * @return {Promise} 変換結果。data が null の場合は null
+ * @private
+ */
+const _encodeFileData = (data: any): Promise<{data: string, encoding: string}> => {
+    if (data == null) {
+        return Promise.resolve(null);
+    }
+    if (typeof data === "string") {
+        return Promise.resolve({data, encoding: "text"});
+    }
+    if (typeof Buffer !== "undefined" && Buffer.isBuffer(data)) {
+        return Promise.resolve({data: data.toString("base64"), encoding: "base64"});
+    }
+    return new Promise((resolve, reject) => {
+        // Blob: data URL ("data:<type>;base64,<data>") として読み込む
+        const reader = new FileReader();
+        reader.onload = () => {
+            const url = reader.result as string;
+            resolve({data: url.slice(url.indexOf(",") + 1), encoding: "base64"});
+        };
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(data);
+    });
+};
+
+/**
+ * @description _encodeFileData で変換したファイルデータを復元する
+ * @param {string} data 変換したデータ
+ * @param {string} encoding エンコーディング
+ * @param {string} contentType コンテンツタイプ (Blob の生成に使用)
+ * @return 文字列、Buffer (Node.js)、または Blob (ブラウザ)
+ * @private
+ */
+const _decodeFileData = (data: string, encoding: string, contentType: string): any => {
+    if (encoding !== "base64") {
+        return data;
+    }
+    if (isNodeJs() || typeof Blob === "undefined") {
+        return Buffer.from(data, "base64");
+    }
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], {type: contentType || "application/octet-stream"});
+};
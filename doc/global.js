@@ -16,4 +16,94 @@
  *    "responseText"  : レスポンスメッセージ
  * }
  * </pre>
+ * @property {AbortSignal} signal 通信のキャンセルに使用する AbortSignal (省略可)。<br>
+ * abort された場合、通信は中断され name が "AbortError" のエラーで失敗する。
+ * success, error を省略して signal のみを指定した場合は、非同期 API は Promise を返却する。
+ * @property {function} progress 転送の進捗通知コールバック (省略可)。<br>
+ * FileBucket のファイル保存・読み込み、CustomApi の呼び出しで有効。引数は {@link TransferProgress} となる。
+ * @property {string} priority リクエストの優先度 (省略可)。"interactive"(デフォルト) または "background"。<br>
+ * 最大同時リクエスト数を設定している場合に有効。詳細は {@link NebulaService#setMaxConcurrentRequests} を参照。
+ * @property {number|Object} timeout タイムアウト (省略可)。数値の場合は全体の制限時間(ミリ秒)。<br>
+ * connect, firstByte, total を指定した Object も指定できる。詳細は {@link NebulaService#setTimeoutOptions} を参照。
+ */
+
+/**
+ * @typedef {Object} TransferProgress
+ * @description 転送の進捗情報
+ * @property {string} type "upload" または "download"
+ * @property {number} loaded 転送済みのバイト数
+ * @property {number} total 全体のバイト数。不明な場合は null
+ * @property {number} rate 転送開始からの平均転送速度(バイト/秒)
+ */
+
+/**
+ * @typedef {Object} Http2SessionStats
+ * @description HTTP/2 セッションの統計情報
+ * @property {string} authority 接続先 (例: "https://example.com:443")
+ * @property {number} createdAt セッション生成日時(エポックミリ秒)
+ * @property {number} activeStreams 実行中のストリーム数
+ * @property {number} queuedStreams 待ち合わせ中のリクエスト数
+ * @property {number} totalStreams 本セッションで生成したストリームの総数
+ * @property {number} maxConcurrentStreams 最大同時ストリーム数(サーバ設定値を考慮した値)
+ * @property {number} pingCount 成功した PING の回数
+ * @property {number} lastPingRtt 直近の PING の往復時間(ミリ秒)。未計測の場合は null
+ * @property {number} goawayCount 接続先で受信した GOAWAY の回数
+ * @property {number} reconnectCount 接続先で異常切断後に再接続した回数
+ */
+
+/**
+ * @typedef {Object} LogRecord
+ * @description ログレコード。秘匿情報(セッショントークン、アプリケーションキー、パスワード、パスフレーズ等)はマスク済み。
+ * @property {string} level ログレベル ("debug", "info", "warn", "error")
+ * @property {string} message メッセージ
+ * @property {Object} fields 付加情報。指定されていない場合は null
+ * @property {string} tenant テナントID。未初期化の場合は null
+ * @property {number} timestamp 出力日時(エポックミリ秒)
+ */
+
+/**
+ * @typedef {Object} WriteQueueEvent
+ * @description 書き込みキューのイベント
+ * @property {string} type イベント種別 ("enqueued", "succeeded", "conflict", "failed")
+ * @property {Object} item 対象の項目。type, bucketName, object, objectId, fileName, etag 等を持つ
+ * @property {Object} result 再送に成功した場合の処理結果
+ * @property {Object} error 再送に失敗した場合のエラー
+ */
+
+/**
+ * @typedef {Object} WriteQueueReplayResult
+ * @description 書き込みキューの再送結果
+ * @property {number} succeeded 再送に成功した項目数
+ * @property {number} conflicts データ衝突(409 Conflict)となった項目数
+ * @property {number} failed 通信エラー以外で失敗した項目数
+ * @property {number} remaining 再送できずに残っている項目数
+ */
+
+/**
+ * @typedef {Object} CertificatePinningReport
+ * @description 証明書ピンニングの失敗レポート (Node.js専用)
+ * @property {string} hostname 接続先ホスト名
+ * @property {number} port 接続先ポート番号
+ * @property {boolean} reportOnly 通知のみのモードの場合は true
+ * @property {string[]} observedPins サーバ証明書チェーンの pin (サーバ証明書から順)
+ * @property {string[]} expectedPins 設定された pin (予備の pin を含む)
+ * @property {string} date 検出日時 (ISO 8601)
+ */
+
+/**
+ * @typedef {Object} SessionEvent
+ * @description セッションイベント。{@link NebulaService#addEventListener} のリスナに渡される。
+ * @property {string} type イベント種別 ("login", "logout", "sessionExpiring", "sessionExpired", "currentUserChanged")
+ * @property {Object} user カレントユーザのログイン情報。ログアウト時はログアウトしたユーザ、カレントユーザが存在しない場合は null
+ * @property {Object} previousUser 変更前のログイン情報 (currentUserChanged のみ)
+ * @property {boolean} remote 他のタブ・ウィンドウでの変更を検出した場合は true (currentUserChanged のみ)
+ */
+
+/**
+ * @typedef {Object} SessionStore
+ * @description セッションストア。カレントユーザのログイン情報の保存先。初期化パラメータ sessionStore に指定する。
+ * 各メソッドは Promise を返却する。
+ * @property {function} getItem getItem(key) : 値を取得する。存在しない場合は null を返却する
+ * @property {function} setItem setItem(key, value) : 値(文字列)を保存する
+ * @property {function} removeItem removeItem(key) : 値を削除する
  */
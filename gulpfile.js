@@ -32,9 +32,30 @@ const trailers = [
 const tsSources = [
     'Head.ts',
     'NodeSupport.ts',
+    'Logger.ts',
+    'Errors.ts',
+    'Timeout.ts',
+    'ResponseStream.ts',
+    'ProxySettings.ts',
+    'HttpInterceptor.ts',
+    'RetryPolicy.ts',
+    'CircuitBreaker.ts',
+    'RequestScheduler.ts',
+    'RequestCoalescer.ts',
+    'ResponseCache.ts',
+    'Http2SessionPool.ts',
+    'Compression.ts',
+    'CertificatePinning.ts',
+    'HarRecorder.ts',
+    'SessionManager.ts',
+    'SessionEvents.ts',
+    'SessionStore.ts',
+    'SessionSync.ts',
     'HttpRequest.ts',
     'HttpXhr.ts',
     'HttpNode.ts',
+    'HttpFetch.ts',
+    'MockTransport.ts',
     'SdeRequest.ts',
     'SdeNetworkEventListener.ts',
     'SdeSyncEventListener.ts',
@@ -52,12 +73,14 @@ const tsSources = [
     'ObjectBucketDecl.ts',
     'FileBucket.ts',
     'FileBucketDecl.ts',
+    'WriteQueue.ts',
     'CustomApi.ts',
     'push/ApnsFields.ts',
     'push/GcmFields.ts',
     'push/SseFields.ts',
     'push/PushSender.ts',
     'BatchRequest.ts',
+    'UserView.ts',
     'NebulaService.ts',
     'Nebula.ts'
 ];
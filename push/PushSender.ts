@@ -4,7 +4,7 @@ import {ApnsFields} from "./ApnsFields";
 import {GcmFields} from "./GcmFields";
 import {SseFields} from "./SseFields";
 import {Nebula} from "../Nebula";
-import {_createError, _errorText, _promisify, Callbacks, nbLogger} from "../Head";
+import {_createInvalidResponseError, _errorText, _promisify, Callbacks, nbLogger} from "../Head";
 import {HttpRequest} from "../HttpRequest";
 
 import {Promise} from "es6-promise";
@@ -62,25 +62,26 @@ export class PushSender {
      * </ul>
      */
     send(callbacks?: Callbacks): Promise<any> {
-        nbLogger("PushSender.send()");
+        nbLogger("PushSender.send()", this._service);
         const path = "/push/notifications";
         const request = new HttpRequest(this._service, path);
+        request._applyCallbackOptions(callbacks);
         request.setMethod("POST");
         request.setContentType("application/json");
         request.setData(this._toJson());
 
         const promise = request.execute().then(response => {
-            nbLogger("PushSender.send#success : response = " + response);
+            nbLogger("PushSender.send#success : response = " + response, this._service);
 
             try {
                 return JSON.parse(response);
             } catch (e) {
-                nbLogger("PushSender.send#error : exception=" + e);
-                const errorResult = _createError(0, "Invalid response from server", e);
+                nbLogger("PushSender.send#error : exception=" + e, this._service);
+                const errorResult = _createInvalidResponseError("Invalid response from server", e);
                 return Promise.reject(errorResult);
             }
         }, error => {
-            nbLogger(("PushSender.send#error = " + (_errorText(error))));
+            nbLogger(("PushSender.send#error = " + (_errorText(error))), this._service);
             return Promise.reject(error);
         });
 
@@ -155,7 +156,7 @@ export class PushSender {
             throw new Error("PushSender.message, Not string: " + message);
         }
         this._message = message;
-        nbLogger("push.message = " + this._message);
+        nbLogger("push.message = " + this._message, this._service);
     }
 
     /**
@@ -0,0 +1,104 @@
+import {Nebula, HttpRequest, MockTransport, NebulaService} from "../build/baas";
+import "mocha";
+import {assert, expect} from "chai";
+
+const TENANT_ID = "tenant1";
+const APP_ID = "appId1";
+const APP_KEY = "appKey1";
+const BASE_URI = "http://api.example.com/api";
+
+describe("CircuitBreaker", () => {
+    let service: NebulaService;
+    let mock: MockTransport;
+    let status: number;
+    let count: number;
+    let events: string[];
+
+    beforeEach(() => {
+        service = new Nebula.NebulaService();
+        service.initialize({
+            tenant: TENANT_ID,
+            appId: APP_ID,
+            appKey: APP_KEY,
+            baseUri: BASE_URI,
+            circuitBreaker: {failureThreshold: 2, resetTimeout: 50}
+        });
+        events = [];
+        service.getCircuitBreaker().addStateListener((event) => events.push(event.previous + "->" + event.state));
+
+        status = 503;
+        count = 0;
+        mock = new MockTransport();
+        mock.on("GET", "/1/tenant1/dummy", () => {
+            count++;
+            return {status, body: "body"};
+        });
+        mock.install(service);
+    });
+
+    afterEach(() => {
+        mock.uninstall();
+    });
+
+    const request = () => new HttpRequest(service, "/dummy").setMethod("GET").execute().then(() => null, (error) => error);
+    const wait = (msec: number) => new Promise<void>((resolve) => setTimeout(resolve, msec));
+
+    it("連続失敗で遮断し、試行成功で解除すること", () => {
+        return request().then(() => request()).then(() => {
+            expect(service.getCircuitBreaker().getState()).equal("open");
+            return request();
+        }).then((error) => {
+            expect(error).instanceof(service.CircuitOpenError);
+            expect(error).instanceof(service.NetworkError);
+            expect(error.retryAfter).within(1, 50);
+            expect(count).equal(2);
+
+            status = 200;
+            return wait(60);
+        }).then(() => {
+            expect(service.getCircuitBreaker().getState()).equal("half-open");
+            return request();
+        }).then((error) => {
+            expect(error).equal(null);
+            expect(count).equal(3);
+            expect(events).deep.equal(["closed->open", "open->half-open", "half-open->closed"]);
+        });
+    });
+
+    it("試行が失敗した場合は再び遮断すること", () => {
+        return request().then(() => request()).then(() => wait(60)).then(() => {
+            return Promise.all([request(), request()]);
+        }).then((errors) => {
+            // 試行状態では 1 リクエストのみ送信する
+            expect(count).equal(3);
+            expect(errors[0].status).equal(503);
+            expect(errors[1]).instanceof(service.CircuitOpenError);
+            expect(service.getCircuitBreaker().getState()).equal("open");
+        });
+    });
+
+    it("失敗とみなさないステータスでは遮断しないこと", () => {
+        status = 404;
+        return request().then(() => request()).then(() => request()).then((error) => {
+            expect(error).instanceof(service.NotFoundError);
+            expect(count).equal(3);
+            expect(service.getCircuitBreaker().getState()).equal("closed");
+            expect(events).deep.equal([]);
+        });
+    });
+
+    it("遮断中はリトライしないこと", () => {
+        service.setRetryPolicy({maxAttempts: 5, baseDelay: 1, jitter: false});
+        return request().then((error) => {
+            expect(error).instanceof(service.CircuitOpenError);
+            expect(count).equal(2);
+
+            service.setCircuitBreaker(null);
+            expect(service.getCircuitBreaker()).equal(null);
+            return request();
+        }).then((error) => {
+            expect(error.status).equal(503);
+            expect(count).equal(7);
+        });
+    });
+});
@@ -0,0 +1,128 @@
+import {Nebula, HttpRequest, MockTransport, NebulaService} from "../build/baas";
+import "mocha";
+import {assert, expect} from "chai";
+
+const TENANT_ID = "tenant1";
+const APP_ID = "appId1";
+const APP_KEY = "appKey1";
+const BASE_URI = "http://api.example.com/api";
+
+// AbortController に未対応の環境ではスキップする
+const itAbortable = (typeof AbortController !== "undefined") ? it : it.skip;
+
+describe("Errors", () => {
+    let service: NebulaService;
+    let mock: MockTransport;
+
+    beforeEach(() => {
+        service = new Nebula.NebulaService();
+        service.initialize({
+            tenant: TENANT_ID,
+            appId: APP_ID,
+            appKey: APP_KEY,
+            baseUri: BASE_URI
+        });
+        mock = new MockTransport();
+        mock.install(service);
+    });
+
+    afterEach(() => {
+        mock.uninstall();
+    });
+
+    const fail = (promise: Promise<any>): Promise<any> => {
+        return promise.then(() => {
+            assert.fail("unexpectedly success");
+        }, (error) => error);
+    };
+
+    it("ステータスコードに応じたエラークラスとなること", () => {
+        const statuses: {[status: number]: any} = {
+            401: service.UnauthorizedError,
+            403: service.ForbiddenError,
+            404: service.NotFoundError,
+            409: service.ConflictError,
+            429: service.RateLimitedError,
+            500: service.NebulaError,
+            0: service.NetworkError
+        };
+        mock.on("GET", "/1/tenant1/status/:status", (req) => ({status: Number(req.params.status), statusText: "Error"}));
+
+        return Promise.all(Object.keys(statuses).map((status) => {
+            return fail(new HttpRequest(service, "/status/" + status).setMethod("GET").execute()).then((error) => {
+                expect(error).instanceof(statuses[Number(status)]);
+                expect(error).instanceof(service.NebulaError);
+                expect(error).instanceof(Error);
+                expect(error.status).equal(Number(status));
+            });
+        }));
+    });
+
+    it("サーバのエラー応答が解析されること", () => {
+        const body = {error: "Duplicated username", detail: "username"};
+        mock.on("POST", "/1/tenant1/users", {status: 409, statusText: "Conflict", body});
+
+        return fail(new HttpRequest(service, "/users").setMethod("POST").setData({}).execute()).then((error) => {
+            expect(error.name).equal("ConflictError");
+            expect(error.message).equal("Conflict(409)");
+            expect(error.statusText).equal("Conflict");
+            expect(JSON.parse(error.responseText)).deep.equal(body);
+            expect(error.body).deep.equal(body);
+            expect(error.reason).equal("Duplicated username");
+        });
+    });
+
+    it("RateLimitedError に Retry-After が設定されること", () => {
+        mock.on("GET", "/1/tenant1/dummy", {status: 429, headers: {"Retry-After": "3"}, body: "busy"});
+
+        return fail(new HttpRequest(service, "/dummy").setMethod("GET").execute()).then((error) => {
+            expect(error).instanceof(service.RateLimitedError);
+            expect(error.retryAfter).equal(3000);
+            expect(error.body).equal(null);
+            expect(error.reason).equal(null);
+        });
+    });
+
+    itAbortable("キャンセル時は CancelledError となること", () => {
+        mock.on("GET", "/1/tenant1/dummy", {body: "ok", delay: 100});
+        const controller = new AbortController();
+        const promise = new HttpRequest(service, "/dummy").setMethod("GET").setAbortSignal(controller.signal).execute();
+        controller.abort();
+
+        return fail(promise).then((error) => {
+            expect(error).instanceof(service.CancelledError);
+            expect(error.name).equal("AbortError");
+        });
+    });
+
+    it("不正な応答は InvalidResponseError となること", () => {
+        mock.on("GET", "/1/tenant1/objects/bucket1/id1", {body: "<html>"});
+
+        return fail(new service.ObjectBucket("bucket1").load("id1")).then((error) => {
+            expect(error).instanceof(service.InvalidResponseError);
+            expect(error.status).equal(0);
+        });
+    });
+
+    it("設定の不正は LocalError となり、リトライ・遮断の対象とならないこと", () => {
+        const local = new Nebula.NebulaService();
+        local.initialize({
+            tenant: TENANT_ID,
+            appId: APP_ID,
+            appKey: APP_KEY,
+            baseUri: "https://127.0.0.1:1/api",
+            retryPolicy: {maxAttempts: 3, baseDelay: 1, jitter: false},
+            circuitBreaker: {failureThreshold: 1}
+        });
+        local.setClientCertificate({unknown: "value"} as any);
+
+        return fail(new HttpRequest(local, "/dummy").setMethod("GET").execute()).then((error) => {
+            expect(error).instanceof(local.LocalError);
+            expect(error).not.instanceof(local.NetworkError);
+            expect(error.name).equal("LocalError");
+            expect(error.status).equal(0);
+            expect(error.statusText).equal("invalid parameter: unknown");
+            expect(local.getCircuitBreaker().getState()).equal("closed");
+        });
+    });
+});
@@ -0,0 +1,102 @@
+import {Nebula, HttpRequest, MockTransport, NebulaService} from "../build/baas";
+import "mocha";
+import {expect} from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const TENANT_ID = "tenant1";
+const APP_ID = "appId1";
+const APP_KEY = "appKey1";
+const BASE_URI = "http://api.example.com/api";
+
+describe("HarRecorder", () => {
+    let service: NebulaService;
+    let mock: MockTransport;
+
+    beforeEach(() => {
+        service = new Nebula.NebulaService();
+        service.initialize({
+            tenant: TENANT_ID,
+            appId: APP_ID,
+            appKey: APP_KEY,
+            baseUri: BASE_URI
+        });
+        mock = new MockTransport();
+        mock.on("POST", "/1/tenant1/login", {status: 200, headers: {"Content-Type": "application/json"},
+            body: {_id: "u1", sessionToken: "secret1"}});
+        mock.on("GET", "/1/tenant1/objects/bucket1/:id", (req) => {
+            return (req.params.id === "none") ? {status: 404, statusText: "Not Found", body: {error: "not found"}}
+                : (req.params.id === "down") ? {status: 0} : {body: {_id: req.params.id, data: "x".repeat(100)}};
+        });
+        mock.install(service);
+    });
+
+    afterEach(() => {
+        mock.uninstall();
+    });
+
+    const login = () => new HttpRequest(service, "/login").setMethod("POST").setContentType("application/json")
+        .setSessionToken("secret2").setData({username: "foo", password: "secret3"}).execute();
+
+    it("秘匿情報をマスクして HAR 1.2 で出力すること", () => {
+        const recorder = service.getHarRecorder().start();
+        return login().then(() => {
+            const har = JSON.parse(recorder.export());
+            expect(har.log.version).equal("1.2");
+            expect(har.log.entries.length).equal(1);
+            expect(JSON.stringify(har)).not.match(/secret|appKey1/);
+
+            const entry = har.log.entries[0];
+            expect(entry.request.method).equal("POST");
+            expect(entry.request.url).equal(BASE_URI + "/1/tenant1/login");
+            expect(entry.request.httpVersion).equal("HTTP/1.1");
+            const appKey = entry.request.headers.filter((h: any) => h.name === "X-Application-Key")[0];
+            expect(appKey.value).equal("****");
+            expect(JSON.parse(entry.request.postData.text)).deep.equal({username: "foo", password: "****"});
+            expect(entry.response.status).equal(200);
+            expect(entry.response.content.mimeType).equal("application/json");
+            expect(JSON.parse(entry.response.content.text)).deep.equal({_id: "u1", sessionToken: "****"});
+            expect(entry.time).least(0);
+            expect(entry.timings.receive).least(0);
+            expect(new Date(entry.startedDateTime).getTime()).not.NaN;
+        });
+    });
+
+    it("エラー応答・通信エラーを記録し、ボディを制限すること", () => {
+        const recorder = service.getHarRecorder().start({maxBodySize: 10, maxEntries: 2});
+        const bucket = new service.ObjectBucket("bucket1");
+        const ignore = (): any => null;
+        return login().then(() => bucket.load("id1")).then(() => bucket.load("none")).then(ignore, ignore)
+            .then(() => bucket.load("down")).then(ignore, ignore).then(() => {
+                const entries = recorder.getEntries();
+                expect(entries.length).equal(2);
+
+                expect(entries[0].response.status).equal(404);
+                expect(entries[0].response.statusText).equal("Not Found");
+                expect(entries[0].response.content.text.length).equal(10);
+                expect(entries[0].response.content.comment).equal("Truncated to 10 bytes");
+
+                expect(entries[1].request.url).match(/\/down$/);
+                expect(entries[1].response.status).equal(0);
+                expect(entries[1]._error).match(/\(0\)/);
+
+                recorder.stop().clear();
+                return bucket.load("id1");
+            }).then(() => {
+                expect(recorder.isRecording()).equal(false);
+                expect(recorder.getEntries()).deep.equal([]);
+            });
+    });
+
+    it("ファイルに保存できること", () => {
+        const file = path.join(os.tmpdir(), "HarRecorderTest-" + process.pid + ".har");
+        const recorder = service.getHarRecorder().start();
+        return login().then(() => recorder.save(file)).then(() => {
+            const har = JSON.parse(fs.readFileSync(file, "utf8"));
+            fs.unlinkSync(file);
+            expect(har.log.creator.name).equal("@nec-baas/jssdk");
+            expect(har.log.entries.length).equal(1);
+        });
+    });
+});
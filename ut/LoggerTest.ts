@@ -0,0 +1,106 @@
+import {Nebula, HttpRequest, LogRecord, MockTransport, NebulaService} from "../build/baas";
+import "mocha";
+import {expect} from "chai";
+
+const APP_ID = "appId1";
+const APP_KEY = "appKey1";
+const BASE_URI = "http://api.example.com/api";
+
+describe("Logger", () => {
+    let records: LogRecord[];
+    let mock: MockTransport;
+
+    const createService = (tenant: string, debugMode: string): NebulaService => {
+        const service = new Nebula.NebulaService();
+        service.initialize({
+            tenant,
+            appId: APP_ID,
+            appKey: APP_KEY,
+            baseUri: BASE_URI,
+            debugMode,
+            logHandler: (record: LogRecord) => records.push(record)
+        });
+        return service;
+    };
+
+    beforeEach(() => {
+        records = [];
+        mock = new MockTransport();
+    });
+
+    afterEach(() => {
+        mock.uninstall();
+    });
+
+    it("サービス毎の debugMode でレベルが決まること", () => {
+        const debug = createService("tenant1", "debug");
+        const release = createService("tenant2", "release");
+        expect(debug.getLogger().getLevel()).equal("debug");
+        expect(release.getLogger().getLevel()).equal("error");
+
+        debug.getLogger().debug("message1");
+        release.getLogger().debug("message2");
+        release.getLogger().error("message3");
+        expect(records.map((r) => r.message)).deep.equal(["message1", "message3"]);
+        expect(records.map((r) => r.tenant)).deep.equal(["tenant1", "tenant2"]);
+
+        release.getLogger().setLevel("none");
+        release.getLogger().error("message4");
+        expect(records.length).equal(2);
+        expect(() => release.getLogger().setLevel("verbose")).to.throw("Bad log level");
+    });
+
+    it("秘匿情報がマスクされること", () => {
+        const logger = createService("tenant1", "release").getLogger().setLevel("debug");
+        logger.info("User.login#response = {\"_id\":\"u1\",\"sessionToken\":\"secret1\",\"expire\":1}");
+        logger.info("headers", {
+            "X-Application-Key": "secret2",
+            "x-session-token": "secret3",
+            "user": {"password": "secret4", "name": "foo"},
+            "clientCertOptions": {"passphrase": "secret5"}
+        });
+        logger.warn("X-Session-Token: secret6, password=secret7&email=a");
+
+        expect(JSON.stringify(records)).not.match(/secret/);
+        expect(records[0].message).equal("User.login#response = {\"_id\":\"u1\",\"sessionToken\":\"****\",\"expire\":1}");
+        expect(records[1].fields["user"]).deep.equal({"password": "****", "name": "foo"});
+        expect(records[2].message).equal("X-Session-Token: ****, password=****&email=a");
+    });
+
+    it("リクエストのログがサービスのロガーに出力されること", () => {
+        const service = createService("tenant1", "debug");
+        mock.on("GET", "/1/tenant1/dummy", {body: "ok"});
+        mock.install(service);
+        return new HttpRequest(service, "/dummy").setMethod("GET").setSessionToken("token1").execute().then(() => {
+            const send = records.filter((r) => r.message === "HttpRequest#send")[0];
+            expect(send.level).equal("debug");
+            expect(send.fields["method"]).equal("GET");
+            expect(send.fields["headers"]["X-Application-Key"]).equal("****");
+            expect(send.fields["headers"]["X-Session-Token"]).equal("****");
+        });
+    });
+
+    it("待ち合わせ・集約のログがサービスのロガーに出力されること", () => {
+        const service = createService("tenant1", "debug");
+        service.setMaxConcurrentRequests(1).setRequestCoalescing(true);
+        mock.on("GET", "/1/tenant1/dummy/:id", {body: "ok", delay: 5});
+        mock.install(service);
+        const request = (id: string) => new HttpRequest(service, "/dummy/" + id).setMethod("GET").execute();
+        return Promise.all([request("a"), request("a"), request("b")]).then(() => {
+            const messages = records.map((r) => r.message);
+            expect(messages.filter((m) => m.indexOf("HttpRequest#coalesced") === 0).length).equal(1);
+            expect(messages.filter((m) => m.indexOf("HttpRequest#queued") === 0).length).equal(1);
+        });
+    });
+
+    it("サーキットブレーカーの状態遷移がサービスのロガーに出力されること", () => {
+        const service = createService("tenant1", "debug");
+        service.setCircuitBreaker({failureThreshold: 1, resetTimeout: 1000});
+        mock.on("GET", "/1/tenant1/dummy", {status: 503});
+        mock.install(service);
+        return new HttpRequest(service, "/dummy").setMethod("GET").execute().then(() => null, () => {
+            const messages = records.map((r) => r.message);
+            expect(messages).include("CircuitBreaker: " + BASE_URI + ": closed -> open");
+        });
+    });
+});
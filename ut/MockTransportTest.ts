@@ -0,0 +1,194 @@
+import {Nebula, HttpRequest, HttpRequestExecutor, MockTransport, NebulaService} from "../build/baas";
+import "mocha";
+import {assert, expect} from "chai";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import {AddressInfo} from "net";
+
+const TENANT_ID = "tenant1";
+const APP_ID = "appId1";
+const APP_KEY = "appKey1";
+const BASE_URI = "http://api.example.com/api";
+
+// AbortController に未対応の環境ではスキップする
+const itAbortable = (typeof AbortController !== "undefined") ? it : it.skip;
+
+describe("MockTransport", () => {
+    let service: NebulaService;
+    let mock: MockTransport;
+
+    const createService = (baseUri: string): NebulaService => {
+        const s = new Nebula.NebulaService();
+        s.initialize({
+            tenant: TENANT_ID,
+            appId: APP_ID,
+            appKey: APP_KEY,
+            baseUri
+        });
+        return s;
+    };
+
+    beforeEach(() => {
+        service = createService(BASE_URI);
+        mock = new MockTransport();
+    });
+
+    afterEach(() => {
+        mock.uninstall();
+    });
+
+    describe("mock", () => {
+        beforeEach(() => {
+            mock.install(service);
+        });
+
+        it("ルートハンドラで応答できること", () => {
+            mock.on("GET", "/1/tenant1/objects/bucket1/:id", (req) => {
+                return {body: {_id: req.params.id, appId: req.headers["X-Application-Id"]}};
+            });
+
+            const bucket = new service.ObjectBucket("bucket1");
+            return bucket.load("id1").then((obj) => {
+                expect(obj._id).equal("id1");
+                expect(obj.appId).equal(APP_ID);
+                expect(mock.getRequests().length).equal(1);
+                expect(mock.getRequests()[0].method).equal("GET");
+            });
+        });
+
+        it("クエリパラメータで一致判定できること", () => {
+            mock.on("GET", "/1/tenant1/dummy", {body: "matched"}, {key: /^val/});
+            mock.on("GET", "/1/tenant1/dummy", {body: "default"});
+
+            return new HttpRequest(service, "/dummy").setMethod("GET").setQueryParam("key", "value1").execute()
+                .then((response) => {
+                    expect(response).equal("matched");
+                    return new HttpRequest(service, "/dummy").setMethod("GET").setQueryParam("key", "other").execute();
+                })
+                .then((response) => {
+                    expect(response).equal("default");
+                });
+        });
+
+        it("リクエストボディを受信できること", () => {
+            mock.on("POST", "/1/tenant1/objects/bucket1", (req) => {
+                return {status: 201, body: req.body};
+            });
+
+            const bucket = new service.ObjectBucket("bucket1");
+            return bucket.save({name: "foo"}).then((obj) => {
+                expect(obj.name).equal("foo");
+            });
+        });
+
+        it("エラー応答を返却できること", () => {
+            mock.on("*", /^\/1\/tenant1\/objects\//, {status: 403, statusText: "Forbidden", body: {error: "forbidden"}});
+
+            const bucket = new service.ObjectBucket("bucket1");
+            return bucket.load("id1").then(() => {
+                assert.fail("unexpectedly success");
+            }, (error) => {
+                expect(error.status).equal(403);
+                expect(error.statusText).equal("Forbidden");
+                expect(JSON.parse(error.responseText).error).equal("forbidden");
+            });
+        });
+
+        it("一致するルートがない場合は 404 となること", () => {
+            return new HttpRequest(service, "/unknown").setMethod("GET").execute().then(() => {
+                assert.fail("unexpectedly success");
+            }, (error) => {
+                expect(error.status).equal(404);
+                expect(error.responseText).equal("No mock route: GET /1/tenant1/unknown");
+            });
+        });
+
+        itAbortable("遅延応答を中断できること", () => {
+            mock.on("GET", "/1/tenant1/dummy", {body: "late", delay: 10000});
+            const controller = new AbortController();
+            const promise = new HttpRequest(service, "/dummy").setMethod("GET").setAbortSignal(controller.signal).execute();
+            controller.abort();
+
+            return promise.then(() => {
+                assert.fail("unexpectedly success");
+            }, (error) => {
+                expect(error.name).equal("AbortError");
+            });
+        });
+    });
+
+    describe("install", () => {
+        it("全体に適用し、解除できること", () => {
+            const factory = HttpRequestExecutor._nodeFactory;
+            mock.on("GET", "/1/tenant1/dummy", {body: "mocked"});
+            mock.install();
+            expect(HttpRequestExecutor._nodeFactory).not.equal(factory);
+
+            return new HttpRequest(service, "/dummy").setMethod("GET").execute().then((response) => {
+                expect(response).equal("mocked");
+                mock.uninstall();
+                expect(HttpRequestExecutor._nodeFactory).equal(factory);
+            });
+        });
+    });
+
+    describe("record/replay", () => {
+        let server: http.Server;
+        let fixturePath: string;
+        let requestCount: number;
+
+        beforeEach((done) => {
+            fixturePath = path.join(os.tmpdir(), "nebula-mock-fixture-" + process.pid + ".json");
+            requestCount = 0;
+            server = http.createServer((req, res) => {
+                requestCount++;
+                res.writeHead(200, {"Content-Type": "application/json", "X-Test": "value1"});
+                res.end(JSON.stringify({url: req.url}));
+            });
+            server.listen(0, "127.0.0.1", () => {
+                service = createService("http://127.0.0.1:" + (server.address() as AddressInfo).port);
+                mock.install(service);
+                done();
+            });
+        });
+
+        afterEach((done) => {
+            if (fs.existsSync(fixturePath)) {
+                fs.unlinkSync(fixturePath);
+            }
+            server.close(() => done());
+        });
+
+        it("記録した通信を再生できること", () => {
+            mock.setMode("record");
+            const request = () => new HttpRequest(service, "/dummy").setMethod("GET").setQueryParam("a", "1")
+                .setResponseType("json").execute();
+
+            return request().then((response) => {
+                expect(response.url).equal("/1/tenant1/dummy?a=1");
+
+                const fixtures = mock.getFixtures();
+                expect(fixtures.length).equal(1);
+                expect(fixtures[0].url).equal("/1/tenant1/dummy?a=1");
+                expect(fixtures[0].headers["x-test"]).equal("value1");
+                mock.saveFixtures(fixturePath);
+
+                const replay = new MockTransport().setMode("replay").loadFixtures(fixturePath);
+                mock.uninstall();
+                mock = replay.install(service);
+                return request();
+            }).then((response) => {
+                expect(response.url).equal("/1/tenant1/dummy?a=1");
+                expect(requestCount).equal(1);
+                return request();
+            }).then(() => {
+                assert.fail("unexpectedly success");
+            }, (error) => {
+                // 再生済みのフィクスチャは使用しない
+                expect(error.status).equal(404);
+            });
+        });
+    });
+});
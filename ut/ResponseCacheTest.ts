@@ -0,0 +1,261 @@
+import {Nebula, LogRecord, MockTransport, NebulaService, ResponseCache, StorageCacheBackend} from "../build/baas";
+import "mocha";
+import {expect} from "chai";
+import * as http from "http";
+import {AddressInfo} from "net";
+
+const TENANT_ID = "tenant1";
+const APP_ID = "appId1";
+const APP_KEY = "appKey1";
+const BASE_URI = "http://api.example.com/api";
+
+class MemoryStorage {
+    private _items: {[key: string]: string} = {};
+
+    get length(): number {
+        return Object.keys(this._items).length;
+    }
+
+    key(index: number): string {
+        const keys = Object.keys(this._items);
+        return (index < keys.length) ? keys[index] : null;
+    }
+
+    getItem(key: string): string {
+        return (key in this._items) ? this._items[key] : null;
+    }
+
+    setItem(key: string, value: string): void {
+        this._items[key] = value;
+    }
+
+    removeItem(key: string): void {
+        delete this._items[key];
+    }
+}
+
+// Blob または Buffer の内容を文字列として返す
+const text = (data: any): Promise<string> => (typeof data.text === "function") ? data.text() : Promise.resolve(data.toString());
+
+describe("ResponseCache", () => {
+    let service: NebulaService;
+    let mock: MockTransport;
+    let cache: ResponseCache;
+    let conditions: string[];
+    let current: {[id: string]: any};
+
+    beforeEach(() => {
+        service = new Nebula.NebulaService();
+        cache = new ResponseCache();
+        service.initialize({
+            tenant: TENANT_ID,
+            appId: APP_ID,
+            appKey: APP_KEY,
+            baseUri: BASE_URI
+        });
+        service.setResponseCache(cache);
+
+        conditions = [];
+        current = {
+            id1: {_id: "id1", etag: "etag1", name: "foo"}
+        };
+
+        mock = new MockTransport();
+        mock.on("GET", "/1/tenant1/objects/bucket1/:id", (req) => {
+            const obj = current[req.params.id];
+            const condition = req.headers["If-None-Match"];
+            conditions.push(condition);
+            if (condition != null && condition === "\"" + obj.etag + "\"") {
+                return {status: 304, statusText: "Not Modified"};
+            }
+            return {body: obj};
+        });
+        mock.on("PUT", "/1/tenant1/objects/bucket1/:id", (req) => {
+            current[req.params.id] = {_id: req.params.id, etag: "etag2", name: req.body.name};
+            return {body: current[req.params.id]};
+        });
+        mock.on("DELETE", "/1/tenant1/objects/bucket1/:id", {body: ""});
+        mock.on("GET", "/1/tenant1/files/fbucket1/file1", (req) => {
+            conditions.push(req.headers["If-None-Match"]);
+            if (req.headers["If-None-Match"] === "\"f1\"") {
+                return {status: 304};
+            }
+            if (req.headers["Range"] === "bytes=0-1") {
+                return {status: 206, headers: {"ETag": "\"f1\""}, body: Buffer.from("co")};
+            }
+            return {headers: {"ETag": "\"f1\""}, body: Buffer.from("content")};
+        });
+        mock.install(service);
+    });
+
+    afterEach(() => {
+        mock.uninstall();
+    });
+
+    it("304 応答時はキャッシュした内容を返却すること", () => {
+        const bucket = new service.ObjectBucket("bucket1");
+        return bucket.load("id1").then((obj) => {
+            expect(obj.name).equal("foo");
+            return bucket.load("id1");
+        }).then((obj) => {
+            expect(obj.name).equal("foo");
+            expect(conditions).deep.equal([undefined, "\"etag1\""]);
+            expect(cache.size()).equal(1);
+        });
+    });
+
+    it("save/remove でキャッシュが削除されること", () => {
+        const bucket = new service.ObjectBucket("bucket1");
+        return bucket.load("id1").then((obj) => {
+            obj.name = "bar";
+            return bucket.save(obj);
+        }).then(() => {
+            expect(cache.size()).equal(0);
+            return bucket.load("id1");
+        }).then((obj) => {
+            expect(obj.name).equal("bar");
+            expect(conditions).deep.equal([undefined, undefined]);
+            return bucket.remove("id1");
+        }).then(() => {
+            expect(cache.size()).equal(0);
+        });
+    });
+
+    it("バケット単位で無効化できること", () => {
+        const bucket = new service.ObjectBucket("bucket1").setCacheEnabled(false);
+        expect(bucket.isCacheEnabled()).equal(false);
+        return bucket.load("id1").then(() => bucket.load("id1")).then(() => {
+            expect(conditions).deep.equal([undefined, undefined]);
+            expect(cache.size()).equal(0);
+        });
+    });
+
+    it("ファイルの ETag ヘッダでキャッシュされること", () => {
+        const bucket = new service.FileBucket("fbucket1");
+        let first: any;
+        return bucket.load("file1").then((data) => {
+            first = data;
+            return bucket.load("file1");
+        }).then((data) => {
+            expect(data).equal(first);
+            expect(conditions).deep.equal([undefined, "\"f1\""]);
+        });
+    });
+
+    it("部分取得の応答をキャッシュしないこと", () => {
+        const bucket = new service.FileBucket("fbucket1");
+        return bucket.loadWithOptions("file1", {rangeStart: 0, rangeEnd: 1}).then(text).then((data) => {
+            expect(data).equal("co");
+            return bucket.load("file1");
+        }).then(text).then((data) => {
+            expect(data).equal("content");
+            expect(conditions).deep.equal([undefined, undefined]);
+        });
+    });
+
+    it("応答の形式毎にキャッシュすること", () => {
+        const bucket = new service.FileBucket("fbucket1");
+        return bucket.load("file1").then(() => bucket.loadWithOptions("file1", {extraResponse: true})).then((res) => {
+            expect(res.status).equal(200);
+            return bucket.loadWithOptions("file1", {extraResponse: true});
+        }).then((res) => {
+            expect(res.status).equal(200);
+            expect(res.headers["etag"] || res.headers["ETag"]).equal("\"f1\"");
+            expect(conditions).deep.equal([undefined, undefined, "\"f1\""]);
+            return text(res.body);
+        }).then((data) => {
+            expect(data).equal("content");
+        });
+    });
+
+    it("セッショントークン毎にキャッシュすること", () => {
+        service.setSessionToken("token1");
+        const bucket = new service.ObjectBucket("bucket1");
+        const other = new (service.asUser("token2").ObjectBucket)("bucket1");
+        return bucket.load("id1").then(() => other.load("id1")).then(() => other.load("id1")).then(() => {
+            expect(conditions).deep.equal([undefined, undefined, "\"etag1\""]);
+            expect(cache.size()).equal(2);
+        });
+    });
+
+    it("セッショントークンを保存せず、カレントユーザの変更時に削除すること", () => {
+        const storage = new MemoryStorage();
+        service.setResponseCache(new ResponseCache({backend: new StorageCacheBackend(storage)}));
+        service.setSessionToken("secret-token1");
+        const bucket = new service.ObjectBucket("bucket1");
+        return bucket.load("id1").then(() => {
+            expect(storage.length).equal(1);
+            expect(storage.key(0)).not.contain("secret-token1");
+            service.removeCurrentUser();
+            // 削除は非同期に行われる
+            return new Promise((resolve) => setTimeout(resolve, 10));
+        }).then(() => {
+            expect(storage.length).equal(0);
+            expect(service.getResponseCache().size()).equal(0);
+        });
+    });
+
+    it("LRU で古いエントリが破棄されること", () => {
+        const lru = new ResponseCache({maxEntries: 2});
+        const entry = (etag: string) => ({etag, response: etag, storedAt: 0});
+        return lru.set("a", entry("a"))
+            .then(() => lru.set("b", entry("b")))
+            .then(() => lru.get("a"))
+            .then(() => lru.set("c", entry("c")))
+            .then(() => Promise.all([lru.get("a"), lru.get("b"), lru.get("c")]))
+            .then((entries) => {
+                expect(entries[0].etag).equal("a");
+                expect(entries[1]).equal(null);
+                expect(entries[2].etag).equal("c");
+            });
+    });
+
+    it("永続化バックエンドから読み込めること", () => {
+        const storage = new MemoryStorage();
+        const url = BASE_URI + "/1/tenant1/objects/bucket1/id1";
+        return new ResponseCache({backend: new StorageCacheBackend(storage)})
+            .set(url, {etag: "etag1", response: JSON.stringify(current.id1), storedAt: 0})
+            .then(() => {
+                const restored = new ResponseCache({backend: new StorageCacheBackend(storage)});
+                service.setResponseCache(restored);
+                return new service.ObjectBucket("bucket1").load("id1");
+            }).then((obj) => {
+                expect(obj.name).equal("foo");
+                expect(conditions).deep.equal(["\"etag1\""]);
+                return service.getResponseCache().invalidate(url);
+            }).then(() => {
+                expect(storage.length).equal(0);
+            });
+    });
+
+    it("304 応答をエラーとしてログ出力しないこと", () => {
+        const records: LogRecord[] = [];
+        const server = http.createServer((req, res) => {
+            if (req.headers["if-none-match"] === "\"etag1\"") {
+                res.writeHead(304);
+                res.end();
+                return;
+            }
+            res.writeHead(200, {"Content-Type": "application/json", "ETag": "\"etag1\""});
+            res.end(JSON.stringify(current.id1));
+        });
+        return new Promise((resolve) => server.listen(0, "127.0.0.1", resolve)).then(() => {
+            const local = new Nebula.NebulaService();
+            local.initialize({
+                tenant: TENANT_ID,
+                appId: APP_ID,
+                appKey: APP_KEY,
+                baseUri: "http://127.0.0.1:" + (server.address() as AddressInfo).port,
+                logHandler: (record: LogRecord) => records.push(record)
+            });
+            local.setResponseCache(new ResponseCache());
+            const bucket = new local.ObjectBucket("bucket1");
+            return bucket.load("id1").then(() => bucket.load("id1"));
+        }).then((obj) => {
+            expect(obj.name).equal("foo");
+            expect(records.filter((r) => r.level === "error")).deep.equal([]);
+        }).then(() => new Promise((resolve) => server.close(resolve)), (error) => {
+            return new Promise((resolve) => server.close(resolve)).then(() => Promise.reject(error));
+        });
+    });
+});
@@ -0,0 +1,99 @@
+import {Nebula, MockTransport, NebulaService, SessionEvent} from "../build/baas";
+import "mocha";
+import {expect} from "chai";
+
+const TENANT_ID = "tenant1";
+const APP_ID = "appId1";
+const APP_KEY = "appKey1";
+const BASE_URI = "http://api.example.com/api";
+
+describe("SessionEvents", () => {
+    let service: NebulaService;
+    let mock: MockTransport;
+    let events: SessionEvent[];
+
+    const listener = (event: SessionEvent) => events.push(event);
+    const types = () => events.map((e) => e.type);
+    const now = () => Math.floor(Date.now() / 1000);
+
+    beforeEach(() => {
+        service = new Nebula.NebulaService();
+        service.initialize({
+            tenant: TENANT_ID,
+            appId: APP_ID,
+            appKey: APP_KEY,
+            baseUri: BASE_URI,
+            sessionExpiringLeadTime: 120
+        });
+        events = [];
+        for (const type of ["login", "logout", "sessionExpiring", "sessionExpired", "currentUserChanged"]) {
+            service.addEventListener(type, listener);
+        }
+
+        mock = new MockTransport();
+        mock.on("POST", "/1/tenant1/login", {body: {_id: "u1", username: "foo", sessionToken: "token1", expire: now() + 3600}});
+        mock.on("DELETE", "/1/tenant1/login", {body: {}});
+        mock.install(service);
+    });
+
+    afterEach(() => {
+        mock.uninstall();
+        for (const type of ["login", "logout", "sessionExpiring", "sessionExpired", "currentUserChanged"]) {
+            service.removeEventListener(type, listener);
+        }
+    });
+
+    it("ログイン・ログアウトを通知すること", () => {
+        return service.User.login({username: "foo", password: "pass"}).then(() => {
+            expect(types()).deep.equal(["currentUserChanged", "login"]);
+            expect(events[0].previousUser).equal(null);
+            expect(events[1].user.sessionToken).equal("token1");
+            events = [];
+            return service.User.logout();
+        }).then(() => {
+            expect(types()).deep.equal(["currentUserChanged", "logout"]);
+            expect(events[0].user).equal(null);
+            expect(events[0].previousUser.sessionToken).equal("token1");
+            expect(events[1].user._id).equal("u1");
+        });
+    });
+
+    it("カレントユーザの変更を通知すること", () => {
+        service.setSessionToken("token2");
+        expect(types()).deep.equal(["currentUserChanged"]);
+        expect(events[0].user.sessionToken).equal("token2");
+
+        // 変更がない場合は通知しない
+        service.User.saveCurrent({sessionToken: "token2"});
+        expect(events.length).equal(1);
+
+        service.removeCurrentUser();
+        service.removeCurrentUser();
+        expect(types()).deep.equal(["currentUserChanged", "currentUserChanged"]);
+        expect(events[1].user).equal(null);
+        expect(() => service.addEventListener("unknown", listener)).to.throw("Bad session event type");
+    });
+
+    it("有効期限の接近・期限切れを 1 回だけ通知すること", (done) => {
+        service.User.saveCurrent({_id: "u1", sessionToken: "token1", expire: now() + 60});
+        expect(types()).deep.equal(["currentUserChanged", "sessionExpiring"]);
+        expect(events[1].user.sessionToken).equal("token1");
+
+        service.setSessionExpiringLeadTime(10);
+        service.User.saveCurrent({expire: Date.now() / 1000 + 0.05});
+        expect(types()).deep.equal(["currentUserChanged", "sessionExpiring", "currentUserChanged", "sessionExpiring"]);
+        setTimeout(() => {
+            expect(types().slice(4)).deep.equal(["sessionExpired"]);
+            expect(service.getCurrentUser()).equal(null);
+            expect(events.length).equal(5);
+            done();
+        }, 100);
+    });
+
+    it("初期化前でも通知する時間を設定できること", () => {
+        const s = new Nebula.NebulaService();
+        expect(s.setSessionExpiringLeadTime(30)).equal(s);
+        expect(s.getSessionExpiringLeadTime()).equal(30);
+        expect(() => s.setSessionExpiringLeadTime(-1)).to.throw("Bad sessionExpiringLeadTime");
+    });
+});
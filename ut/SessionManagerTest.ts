@@ -0,0 +1,123 @@
+import {Nebula, HttpRequest, MockTransport, NebulaService, SessionCredentials, SessionManagerOptions} from "../build/baas";
+import "mocha";
+import {assert, expect} from "chai";
+
+const TENANT_ID = "tenant1";
+const APP_ID = "appId1";
+const APP_KEY = "appKey1";
+const BASE_URI = "http://api.example.com/api";
+
+describe("SessionManager", () => {
+    let service: NebulaService;
+    let mock: MockTransport;
+    let validToken: string;
+    let logins: SessionCredentials[];
+    let tokens: string[];
+
+    beforeEach(() => {
+        service = new Nebula.NebulaService();
+        service.initialize({
+            tenant: TENANT_ID,
+            appId: APP_ID,
+            appKey: APP_KEY,
+            baseUri: BASE_URI
+        });
+
+        validToken = "token0";
+        logins = [];
+        tokens = [];
+        mock = new MockTransport();
+        mock.on("POST", "/1/tenant1/login", (req) => {
+            logins.push(req.body);
+            if (req.body.password !== "pass") {
+                return {status: 401, body: {error: "Unauthorized"}};
+            }
+            validToken = "token" + logins.length;
+            return {delay: 10, body: {_id: "u1", username: req.body.username, sessionToken: validToken,
+                expire: Math.floor(Date.now() / 1000) + 3600}};
+        });
+        mock.on("GET", "/1/tenant1/objects/bucket1/:id", (req) => {
+            const token = req.headers["X-Session-Token"] as string;
+            tokens.push(token);
+            if (token !== validToken && token !== undefined) {
+                return {status: 401, body: {error: "Unauthorized"}};
+            }
+            return {delay: 5, body: {_id: req.params.id}};
+        });
+        mock.install(service);
+    });
+
+    afterEach(() => {
+        mock.uninstall();
+        service.setSessionManager(null);
+    });
+
+    const saveSession = (sessionToken: string, expiresIn: number) => {
+        service.User.saveCurrent({_id: "u1", username: "foo", sessionToken, expire: Math.floor(Date.now() / 1000) + expiresIn});
+    };
+
+    const useSessionManager = (password: string, options?: Partial<SessionManagerOptions>) => {
+        const manager = new service.SessionManager(Object.assign({
+            credentialProvider: () => Promise.resolve({username: "foo", password})
+        }, options));
+        service.setSessionManager(manager);
+        return manager;
+    };
+
+    it("有効期限が近い場合は送信前にセッションを更新すること", () => {
+        useSessionManager("pass", {renewBefore: 120});
+        saveSession("token0", 60);
+        return new service.ObjectBucket("bucket1").load("id1").then((obj) => {
+            expect(obj._id).equal("id1");
+            expect(logins).deep.equal([{username: "foo", password: "pass"}]);
+            expect(tokens).deep.equal(["token1"]);
+            expect(service.getCurrentUser().sessionToken).equal("token1");
+        });
+    });
+
+    it("401 の場合は 1 回だけ再ログインして再送すること", () => {
+        const manager = useSessionManager("pass");
+        saveSession("stale", 3600);
+        const bucket = new service.ObjectBucket("bucket1");
+        const requests = [bucket.load("id1"), bucket.load("id2"), bucket.load("id3")];
+        expect(manager.isRenewing()).equal(false);
+        return Promise.all(requests).then((objs) => {
+            expect(objs.map((obj) => obj._id)).deep.equal(["id1", "id2", "id3"]);
+            expect(logins.length).equal(1);
+            expect(tokens.filter((t) => t === "stale").length).equal(3);
+            expect(tokens.filter((t) => t === "token1").length).equal(3);
+        });
+    });
+
+    it("再ログインに失敗した場合は元のエラーとなること", () => {
+        useSessionManager("wrong");
+        saveSession("stale", 3600);
+        return new service.ObjectBucket("bucket1").load("id1").then(() => {
+            assert.fail("unexpectedly success");
+        }, (error) => {
+            expect(error).instanceof(service.UnauthorizedError);
+            expect(logins.length).equal(1);
+            expect(tokens).deep.equal(["stale"]);
+
+            // セッショントークンを明示的に指定したリクエストは対象外
+            return new HttpRequest(service, "/objects/bucket1/id2").setMethod("GET").setSessionToken("other").execute();
+        }).then(() => {
+            assert.fail("unexpectedly success");
+        }, (error) => {
+            expect(error.status).equal(401);
+            expect(logins.length).equal(1);
+        });
+    });
+
+    it("クライアント証明書認証の場合はセッショントークンなしで再送すること", () => {
+        service.setSessionManager(new service.SessionManager({credentialProvider: () => ({clientCert: true})}));
+        saveSession("stale", 3600);
+        return new service.ObjectBucket("bucket1").load("id1").then((obj) => {
+            expect(obj._id).equal("id1");
+            expect(tokens).deep.equal(["stale", undefined]);
+            expect(logins.length).equal(0);
+            expect(service.getCurrentUser()).equal(null);
+            expect(() => new service.SessionManager({credentialProvider: null})).to.throw("No credentialProvider");
+        });
+    });
+});
@@ -0,0 +1,104 @@
+import {Nebula, NebulaService, SessionEvent, SessionStore} from "../build/baas";
+import "mocha";
+import {expect} from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const PARAMS = {
+    tenant: "tenant1",
+    appId: "appId1",
+    appKey: "appKey1",
+    baseUri: "http://api.example.com/api",
+    logLevel: "none"
+};
+
+describe("SessionStore", () => {
+    const file = path.join(os.tmpdir(), "SessionStoreTest-" + process.pid + ".json");
+    const expire = Math.floor(Date.now() / 1000) + 3600;
+
+    const createService = (sessionStore: string | SessionStore): NebulaService => {
+        const service = new Nebula.NebulaService();
+        service.initialize(Object.assign({sessionStore}, PARAMS));
+        return service;
+    };
+
+    afterEach(() => {
+        if (fs.existsSync(file)) {
+            fs.unlinkSync(file);
+        }
+    });
+
+    it("暗号化したログイン情報をファイルに保存し、復元できること", () => {
+        const service1 = createService(new Nebula.EncryptedSessionStore(new Nebula.FileSessionStore(file), "secret"));
+        return service1.restoreSession().then((user) => {
+            expect(user).equal(null);
+            service1.User.saveCurrent({_id: "u1", username: "foo", sessionToken: "token1", expire});
+            return service1.flushSessionStore();
+        }).then(() => {
+            const data = JSON.parse(fs.readFileSync(file, "utf8"));
+            expect(Object.keys(data)).deep.equal(["tenant1_appId1"]);
+            expect(data.tenant1_appId1).not.match(/token1/);
+            expect(fs.statSync(file).mode & 0o777).equal(0o600);
+
+            const service2 = createService(new Nebula.EncryptedSessionStore(new Nebula.FileSessionStore(file), "secret"));
+            const events: SessionEvent[] = [];
+            service2.addEventListener("currentUserChanged", (event) => events.push(event));
+            expect(service2.getCurrentUser()).equal(null);
+            return service2.restoreSession().then((user) => {
+                expect(user.sessionToken).equal("token1");
+                expect(service2.getCurrentUser().sessionToken).equal("token1");
+                expect(events.length).equal(1);
+                expect(events[0].previousUser).equal(null);
+
+                service2.removeCurrentUser();
+                return service2.flushSessionStore();
+            });
+        }).then(() => {
+            expect(JSON.parse(fs.readFileSync(file, "utf8"))).deep.equal({});
+        });
+    });
+
+    it("復号できない場合は未ログインとなること", () => {
+        const service1 = createService(new Nebula.EncryptedSessionStore(new Nebula.FileSessionStore(file), "secret"));
+        service1.User.saveCurrent({_id: "u1", username: "foo", sessionToken: "token1", expire});
+        return service1.flushSessionStore().then(() => {
+            const service2 = createService(new Nebula.EncryptedSessionStore(new Nebula.FileSessionStore(file), "other"));
+            return service2.restoreSession();
+        }).then((user) => {
+            expect(user).equal(null);
+        });
+    });
+
+    it("読み込み中に変更されたログイン情報を上書きしないこと", () => {
+        let resolveLoad: (value: string) => void;
+        const stored: {[key: string]: string} = {};
+        const store = {
+            getItem: () => new Promise<string>((resolve) => resolveLoad = resolve),
+            setItem: (key: string, value: string) => Promise.resolve().then(() => { stored[key] = value; }),
+            removeItem: (key: string) => Promise.resolve().then(() => { delete stored[key]; })
+        };
+        const service = createService(store);
+        expect(service.getSessionStore()).equal(store);
+        service.User.saveCurrent({_id: "u2", username: "bar", sessionToken: "token2", expire});
+        resolveLoad(JSON.stringify({_id: "u1", username: "foo", sessionToken: "token1", expire}));
+        return service.restoreSession().then((user) => {
+            expect(user.sessionToken).equal("token2");
+            return service.flushSessionStore();
+        }).then(() => {
+            expect(JSON.parse(stored.tenant1_appId1).sessionToken).equal("token2");
+        });
+    });
+
+    it("セッションストアの指定を検査すること", () => {
+        const service = createService("memory");
+        expect(service.getSessionStore()).instanceof(Nebula.MemorySessionStore);
+        service.User.saveCurrent({_id: "u1", username: "foo", sessionToken: "token1", expire});
+        expect(service.getCurrentUser().sessionToken).equal("token1");
+
+        expect(createService(null).getSessionStore()).instanceof(Nebula.MemorySessionStore);
+        expect(() => createService("localStorage")).to.throw("Bad sessionStore");
+        expect(() => createService("unknown")).to.throw("Bad sessionStore");
+        expect(() => new Nebula.EncryptedSessionStore(new Nebula.MemorySessionStore(), "")).to.throw("No secret");
+    });
+});
@@ -0,0 +1,121 @@
+import {Nebula, NebulaService, SessionEvent, SessionStore} from "../build/baas";
+import "mocha";
+import {expect} from "chai";
+
+const PARAMS = {
+    tenant: "tenant1",
+    appId: "appId1",
+    appKey: "appKey1",
+    baseUri: "http://api.example.com/api",
+    logLevel: "none"
+};
+
+const KEY = "tenant1_appId1";
+
+// 模擬するブラウザ環境のグローバル変数
+interface BrowserGlobal {
+    window?: EventTarget & {BroadcastChannel?: typeof BroadcastChannel};
+    BroadcastChannel?: typeof BroadcastChannel;
+}
+const browser = global as NodeJS.Global & BrowserGlobal;
+
+// EventTarget に未対応の環境 (Node.js v15 未満) ではスキップする
+(typeof EventTarget !== "undefined" ? describe : describe.skip)("SessionSync", () => {
+    const expire = Math.floor(Date.now() / 1000) + 3600;
+    let services: NebulaService[];
+
+    const createService = (sessionStore: SessionStore): NebulaService => {
+        const service = new Nebula.NebulaService();
+        service.initialize(Object.assign({sessionStore}, PARAMS));
+        services.push(service);
+        return service;
+    };
+
+    const nextEvent = (service: NebulaService): Promise<SessionEvent> => new Promise((resolve) => {
+        const listener = (event: SessionEvent) => {
+            service.removeEventListener("currentUserChanged", listener);
+            resolve(event);
+        };
+        service.addEventListener("currentUserChanged", listener);
+    });
+
+    beforeEach(() => {
+        services = [];
+        // ブラウザ環境を模擬する
+        browser.window = Object.assign(new EventTarget(), {BroadcastChannel: browser.BroadcastChannel});
+    });
+
+    afterEach(() => {
+        services.forEach((service) => service.setSessionSync(false));
+        delete browser.window;
+    });
+
+    it("storage イベントで他のタブの変更を通知すること", () => {
+        const data: {[key: string]: string} = {};
+        const storage = {
+            getItem: (key: string) => data.hasOwnProperty(key) ? data[key] : null,
+            setItem: (key: string, value: string) => { data[key] = value; },
+            removeItem: (key: string) => { delete data[key]; }
+        } as Storage;
+        const service = createService(new Nebula.WebStorageSessionStore(storage));
+        expect(service.isSessionSync()).equal(true);
+        const events: SessionEvent[] = [];
+        service.addEventListener("currentUserChanged", (event) => events.push(event));
+
+        // 他のタブでログインした
+        const oldValue = data[KEY] || null;
+        data[KEY] = JSON.stringify({_id: "u1", username: "foo", sessionToken: "token1", expire});
+        const dispatch = (area: object, key: string) => {
+            const event = Object.assign(new Event("storage"), {key, oldValue, newValue: data[KEY], storageArea: area});
+            browser.window.dispatchEvent(event);
+        };
+        dispatch({}, KEY);
+        dispatch(storage, "other");
+        expect(events.length).equal(0);
+
+        dispatch(storage, KEY);
+        expect(events.length).equal(1);
+        expect(events[0].remote).equal(true);
+        expect(events[0].previousUser).equal(null);
+        expect(events[0].user.sessionToken).equal("token1");
+        expect(service.getCurrentUser().sessionToken).equal("token1");
+
+        service.setSessionSync(false);
+        dispatch(storage, KEY);
+        expect(events.length).equal(1);
+    });
+
+    it("非同期のセッションストアでは BroadcastChannel で他のタブの変更を通知すること", () => {
+        const data: {[key: string]: string} = {};
+        const store = {
+            getItem: (key: string) => Promise.resolve(data.hasOwnProperty(key) ? data[key] : null),
+            setItem: (key: string, value: string) => Promise.resolve().then(() => { data[key] = value; }),
+            removeItem: (key: string) => Promise.resolve().then(() => { delete data[key]; })
+        };
+        const service1 = createService(store);
+        const service2 = createService(store);
+        const local: SessionEvent[] = [];
+        service1.addEventListener("currentUserChanged", (event) => local.push(event));
+
+        const received = nextEvent(service2);
+        service1.User.saveCurrent({_id: "u1", username: "foo", sessionToken: "token1", expire});
+        return received.then((event) => {
+            expect(event.remote).equal(true);
+            expect(event.previousUser).equal(null);
+            expect(event.user.sessionToken).equal("token1");
+            expect(service2.getCurrentUser().sessionToken).equal("token1");
+
+            const removed = nextEvent(service2);
+            service1.removeCurrentUser();
+            return removed;
+        }).then((event) => {
+            expect(event.remote).equal(true);
+            expect(event.user).equal(null);
+            expect(event.previousUser.sessionToken).equal("token1");
+            expect(service2.getCurrentUser()).equal(null);
+
+            // 自身の変更は remote として通知しない
+            expect(local.map((e) => e.remote)).deep.equal([undefined, undefined]);
+        });
+    });
+});
@@ -0,0 +1,94 @@
+import {Nebula, MockTransport, NebulaService} from "../build/baas";
+import "mocha";
+import {assert, expect} from "chai";
+
+const TENANT_ID = "tenant1";
+const APP_ID = "appId1";
+const APP_KEY = "appKey1";
+const BASE_URI = "http://api.example.com/api";
+
+describe("asUser", () => {
+    let service: NebulaService;
+    let mock: MockTransport;
+    let tokens: string[];
+
+    beforeEach(() => {
+        service = new Nebula.NebulaService();
+        service.initialize({
+            tenant: TENANT_ID,
+            appId: APP_ID,
+            appKey: APP_KEY,
+            baseUri: BASE_URI
+        });
+
+        tokens = [];
+        mock = new MockTransport();
+        mock.on("GET", "/1/tenant1/objects/bucket1/:id", (req) => {
+            tokens.push(req.headers["X-Session-Token"] as string);
+            return {delay: 5, body: {_id: req.params.id}};
+        });
+        mock.on("POST", "/1/tenant1/login", (req) => {
+            return {body: {_id: "u2", username: req.body.username, sessionToken: "token2",
+                expire: Math.floor(Date.now() / 1000) + 3600}};
+        });
+        mock.on("DELETE", "/1/tenant1/login", {body: {}});
+        mock.on("DELETE", "/1/tenant1/objects/bucket1/:id", {status: 0});
+        mock.install(service);
+        service.setSessionToken("shared");
+    });
+
+    afterEach(() => {
+        mock.uninstall();
+    });
+
+    it("ビュー毎のセッショントークンでリクエストを実行すること", () => {
+        const alice = service.asUser("alice");
+        const bob = service.asUser("bob");
+        return Promise.all([
+            new alice.ObjectBucket("bucket1").load("a"),
+            new bob.ObjectBucket("bucket1").load("b"),
+            new service.ObjectBucket("bucket1").load("s"),
+            new (service.asUser(null).ObjectBucket)("bucket1").load("n")
+        ]).then((objs) => {
+            expect(objs.map((obj) => obj._id)).deep.equal(["a", "b", "s", "n"]);
+            expect(tokens).deep.equal(["alice", "bob", "shared", undefined]);
+            expect(alice.getCurrentUser().sessionToken).equal("alice");
+            expect(service.getCurrentUser().sessionToken).equal("shared");
+            expect(alice.getTenantID()).equal(TENANT_ID);
+        });
+    });
+
+    it("ビューでは書き込みキューを使用しないこと", () => {
+        const queue = new service.WriteQueue({backend: null});
+        service.setWriteQueue(queue);
+        const view = service.asUser("alice");
+        expect(view.getWriteQueue()).equal(null);
+        return new view.ObjectBucket("bucket1").remove("id1").then(() => {
+            assert.fail("unexpectedly success");
+        }, (error) => {
+            expect(error.queuedItem).equal(undefined);
+            return queue.size();
+        }).then((size) => {
+            expect(size).equal(0);
+            service.setWriteQueue(null);
+        });
+    });
+
+    it("ビューでのログイン・ログアウトが元のサービスに影響しないこと", () => {
+        const view = service.asUser(null);
+        const events: string[] = [];
+        service.addEventListener("login", () => events.push("service"));
+        view.addEventListener("login", () => events.push("view"));
+        return view.User.login({username: "bar", password: "pass"}).then((user) => {
+            expect(user.sessionToken).equal("token2");
+            expect(view.getCurrentUser().username).equal("bar");
+            expect(service.getCurrentUser().sessionToken).equal("shared");
+            expect(events).deep.equal(["view"]);
+            return view.User.logout();
+        }).then(() => {
+            expect(view.getCurrentUser()).equal(null);
+            expect(service.getCurrentUser().sessionToken).equal("shared");
+            expect(() => new Nebula.NebulaService().asUser("token")).to.throw("Not initialized");
+        });
+    });
+});
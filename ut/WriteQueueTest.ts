@@ -0,0 +1,210 @@
+import {Nebula, MockTransport, NebulaService, NetworkError, WriteQueue, WriteQueueEvent, WriteQueueItem} from "../build/baas";
+import "mocha";
+import {assert, expect} from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const TENANT_ID = "tenant1";
+const APP_ID = "appId1";
+const APP_KEY = "appKey1";
+const BASE_URI = "http://api.example.com/api";
+
+// 書き込みキューへの登録結果が設定されたエラー
+interface QueuedError extends NetworkError {
+    queuedItem?: WriteQueueItem;
+}
+
+describe("WriteQueue", () => {
+    let service: NebulaService;
+    let mock: MockTransport;
+    let queue: WriteQueue;
+    let events: WriteQueueEvent[];
+    let status: number;
+    let requests: string[];
+
+    beforeEach(() => {
+        service = new Nebula.NebulaService();
+        service.initialize({
+            tenant: TENANT_ID,
+            appId: APP_ID,
+            appKey: APP_KEY,
+            baseUri: BASE_URI
+        });
+        queue = new service.WriteQueue({backend: null});
+        service.setWriteQueue(queue);
+        events = [];
+        queue.addListener((event) => events.push(event));
+
+        status = 0;
+        requests = [];
+        mock = new MockTransport();
+        mock.on("POST", "/1/tenant1/objects/bucket1", (req) => {
+            requests.push("POST " + req.body.name);
+            return {status, connectError: status === 0, body: {_id: "id1", etag: "etag1", name: req.body.name}};
+        });
+        mock.on("PUT", "/1/tenant1/objects/bucket1/:id", (req) => {
+            requests.push("PUT " + req.params.id + " " + req.query.etag);
+            return {status: (status === 200 && req.query.etag === "old") ? 409 : status, body: {_id: req.params.id}};
+        });
+        mock.on("DELETE", "/1/tenant1/objects/bucket1/:id", (req) => {
+            requests.push("DELETE " + req.params.id);
+            return {status, body: {}};
+        });
+        mock.install(service);
+    });
+
+    afterEach(() => {
+        mock.uninstall();
+        service.setWriteQueue(null);
+    });
+
+    const fail = <T>(promise: Promise<T>): Promise<QueuedError> => {
+        return promise.then(() => {
+            assert.fail("unexpectedly success");
+        }, (error) => error);
+    };
+
+    it("通信エラーの書き込みを登録し、登録順に再送すること", () => {
+        const bucket = new service.ObjectBucket("bucket1");
+        return fail(bucket.save({name: "a"})).then((error) => {
+            expect(error).instanceof(service.NetworkError);
+            expect(error.queuedItem.type).equal("object-save");
+            expect(error.queuedItem.isNew).equal(true);
+            return fail(bucket.remove("id2"));
+        }).then((error) => {
+            expect(error.queuedItem.objectId).equal("id2");
+            return queue.size();
+        }).then((size) => {
+            expect(size).equal(2);
+            expect(events.map((e) => e.type)).deep.equal(["enqueued", "enqueued"]);
+
+            status = 200;
+            requests = [];
+            return queue.replay();
+        }).then((result) => {
+            expect(result).deep.equal({succeeded: 2, conflicts: 0, failed: 0, remaining: 0});
+            expect(requests).deep.equal(["POST a", "DELETE id2"]);
+            expect(events.slice(2).map((e) => e.type)).deep.equal(["succeeded", "succeeded"]);
+            expect(events[2].result._id).equal("id1");
+            expect(events[3].result).equal("id2");
+            return queue.size();
+        }).then((size) => {
+            expect(size).equal(0);
+        });
+    });
+
+    it("通信が回復していない場合は残りを保持すること", () => {
+        const bucket = new service.ObjectBucket("bucket1");
+        return fail(bucket.save({name: "a"})).then(() => fail(bucket.save({name: "b"}))).then(() => {
+            requests = [];
+            return queue.replay();
+        }).then((result) => {
+            expect(result.remaining).equal(2);
+            expect(requests).deep.equal(["POST a"]);
+            return queue.getItems();
+        }).then((items) => {
+            expect(items.map((item) => item.object["name"])).deep.equal(["a", "b"]);
+        });
+    });
+
+    it("ETag が一致しない場合は conflict となること", () => {
+        const bucket = new service.ObjectBucket("bucket1");
+        return fail(bucket.save({_id: "id1", etag: "old"})).then(() => fail(bucket.save({_id: "id2", etag: "new"}))).then(() => {
+            status = 200;
+            requests = [];
+            return queue.replay();
+        }).then((result) => {
+            expect(result).deep.equal({succeeded: 1, conflicts: 1, failed: 0, remaining: 0});
+            expect(requests).deep.equal(["PUT id1 old", "PUT id2 new"]);
+            const conflict = events.filter((e) => e.type === "conflict")[0];
+            expect(conflict.item.etag).equal("old");
+            expect(conflict.error).instanceof(service.ConflictError);
+        });
+    });
+
+    it("タイムアウトした新規作成は登録せず、更新は登録すること", () => {
+        mock.on("POST", "/1/tenant1/objects/bucket2", {delay: 50, body: {}});
+        mock.on("PUT", "/1/tenant1/objects/bucket2/:id", {delay: 50, body: {}});
+        const bucket = new service.ObjectBucket("bucket2");
+        const timeout = {total: 10};
+        return fail(bucket.save({name: "a"}, {timeout})).then((error) => {
+            expect(error).instanceof(service.TimeoutError);
+            expect(error.queuedItem).equal(undefined);
+            return fail(bucket.save({_id: "id1", etag: "etag1"}, {timeout}));
+        }).then((error) => {
+            expect(error).instanceof(service.TimeoutError);
+            expect(error.queuedItem.isNew).equal(false);
+            return queue.size();
+        }).then((size) => {
+            expect(size).equal(1);
+        });
+    });
+
+    it("接続の確立後に通信エラーとなった新規作成は登録しないこと", () => {
+        mock.on("POST", "/1/tenant1/objects/bucket3", {status: 0});
+        return fail(new service.ObjectBucket("bucket3").save({name: "a"})).then((error) => {
+            expect(error).instanceof(service.NetworkError);
+            expect(error.connected).equal(true);
+            expect(error.queuedItem).equal(undefined);
+            return queue.size();
+        }).then((size) => {
+            expect(size).equal(0);
+        });
+    });
+
+    it("ファイルの更新は ETag を指定した場合のみ登録し、再送時に照合すること", () => {
+        const etags: string[] = [];
+        mock.on("PUT", "/1/tenant1/files/bucket1/hello.txt", (req) => {
+            etags.push(req.query.fileETag);
+            return {status, body: {filename: "hello.txt"}};
+        });
+
+        const bucket = new service.FileBucket("bucket1");
+        return fail(bucket.save("hello.txt", "hello")).then((error) => {
+            expect(error).instanceof(service.NetworkError);
+            expect(error.queuedItem).equal(undefined);
+            return fail(bucket.save("hello.txt", "hello", undefined, "fetag1"));
+        }).then((error) => {
+            expect(error.queuedItem.etag).equal("fetag1");
+            status = 200;
+            return queue.replay();
+        }).then((result) => {
+            expect(result.succeeded).equal(1);
+            expect(etags).deep.equal([undefined, "fetag1", "fetag1"]);
+        });
+    });
+
+    it("ファイルに永続化し、ファイルの保存を再送できること", () => {
+        const file = path.join(os.tmpdir(), "WriteQueueTest-" + process.pid + ".json");
+        const backend = new service.FileWriteQueueBackend(file);
+        service.setWriteQueue(new service.WriteQueue({backend}));
+
+        let body: Buffer;
+        mock.on("POST", "/1/tenant1/files/bucket1/hello.bin", (req) => {
+            body = req.body;
+            return {status, connectError: status === 0, body: {filename: "hello.bin", contentType: "application/octet-stream"}};
+        });
+
+        const meta = new service.FileMetadata().setContentType("application/octet-stream");
+        const bucket = new service.FileBucket("bucket1");
+        return fail(bucket.saveAs("hello.bin", Buffer.from([0, 1, 2, 255]), meta)).then((error) => {
+            expect(error.queuedItem.fileEncoding).equal("base64");
+            expect(fs.existsSync(file)).equal(true);
+
+            // 新しいキューでファイルから読み込む
+            queue = new service.WriteQueue({backend});
+            service.setWriteQueue(queue);
+            status = 200;
+            return queue.replay();
+        }).then((result) => {
+            expect(result.succeeded).equal(1);
+            expect(Buffer.isBuffer(body)).equal(true);
+            expect(Array.from(body)).deep.equal([0, 1, 2, 255]);
+            return backend.load();
+        }).then((items) => {
+            expect(items).deep.equal([]);
+            fs.unlinkSync(file);
+        });
+    });
+});